@@ -0,0 +1,19 @@
+#!/usr/bin/env node
+/**
+ * msfs-jest-utils-sdk-conformance [export...]
+ *
+ * Diffs the SDK adapter exports with the installed msfs-sdk type declarations; exits with 1 when some don't conform.
+ */
+
+import { checkSDKConformance, formatSDKConformanceReport } from '../test-utils/SDKConformance';
+
+const names = process.argv.slice(2);
+
+try {
+  const report = checkSDKConformance({ exports: names.length > 0 ? names : undefined });
+  console.log(formatSDKConformanceReport(report));
+  process.exitCode = report.exports.every(entry => entry.conforms) ? 0 : 1;
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 2;
+}
@@ -0,0 +1,19 @@
+#!/usr/bin/env node
+/**
+ * msfs-jest-utils-sdk-gaps [rootDir]
+ *
+ * Lists the SDK exports a project imports that the adapters don't mock; exits with 1 when there are some.
+ */
+
+import { formatSDKGapReport, scanSDKGaps } from '../test-utils/SDKGapReport';
+
+const rootDir = process.argv[2] ?? process.cwd();
+
+try {
+  const report = scanSDKGaps({ rootDir });
+  console.log(formatSDKGapReport(report));
+  process.exitCode = report.gaps.length > 0 ? 1 : 0;
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 2;
+}
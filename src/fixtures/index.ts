@@ -0,0 +1,61 @@
+/**
+ * Named SimVar fixtures.
+ *
+ * Bundled aircraft states that tests can start from (`env.setup({ fixture: 'cruise-fl350' })`).
+ * Suites can register their own with registerSimVarFixture() or load JSON files directly.
+ */
+
+import * as fs from 'fs';
+import { SimVarFixture } from '../mocks/SimVarMock';
+import coldAndDark from './cold-and-dark.json';
+import cruiseFl350 from './cruise-fl350.json';
+import ilsFinal from './ils-final.json';
+
+const FIXTURES: Map<string, SimVarFixture> = new Map();
+
+/**
+ * Register (or replace) a named fixture
+ */
+export function registerSimVarFixture(fixture: SimVarFixture, name: string | undefined = fixture.name): void {
+  if (!name) {
+    throw new Error('SimVar fixture needs a name to be registered');
+  }
+  FIXTURES.set(name, fixture);
+}
+
+/**
+ * Get a named fixture, or undefined if there is none with this name
+ */
+export function getSimVarFixture(name: string): SimVarFixture | undefined {
+  return FIXTURES.get(name);
+}
+
+/**
+ * Get the names of all registered fixtures
+ */
+export function getSimVarFixtureNames(): string[] {
+  return Array.from(FIXTURES.keys());
+}
+
+/**
+ * Resolve a fixture for SimVarMock.loadFixture(): a registered fixture name, a path to a fixture JSON file
+ * (returned as JSON text) or a fixture object
+ */
+export function resolveSimVarFixture(fixture: string | SimVarFixture): SimVarFixture | string {
+  if (typeof fixture !== 'string') {
+    return fixture;
+  }
+
+  const named = getSimVarFixture(fixture);
+  if (named) {
+    return named;
+  }
+  if (fs.existsSync(fixture)) {
+    return fs.readFileSync(fixture, 'utf8');
+  }
+  throw new Error(`Unknown SimVar fixture: ${fixture}`);
+}
+
+registerSimVarFixture(coldAndDark);
+registerSimVarFixture(cruiseFl350);
+registerSimVarFixture(ilsFinal);
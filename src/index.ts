@@ -7,6 +7,7 @@
 
 export * from './mocks';
 export * from './test-utils';
+export * from './fixtures';
 
 
 
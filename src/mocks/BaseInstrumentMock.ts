@@ -0,0 +1,366 @@
+/**
+ * Mock of the MSFS `BaseInstrument` custom element.
+ *
+ * Implements the parts of the instrument lifecycle that instrument classes rely on:
+ * template instantiation on connection, `Init()`, game state changes and `onFlightStart()`,
+ * the `doUpdate()` frame (pending calls, `Update()`, frame count and delta time), child lookup and
+ * interaction events. The frames themselves are driven by `mountInstrument()`.
+ *
+ * Under a jsdom test environment the class extends the global `HTMLElement`, so instruments are real
+ * custom elements. Without DOM globals at setup time (e.g. `testEnvironment: 'node'`), it wraps a host
+ * element instead and forwards the common DOM methods to it.
+ */
+
+/**
+ * Game states, as in the MSFS `GameState` enum
+ */
+export const GAME_STATE = {
+  mainmenu: 0,
+  loading: 1,
+  briefing: 2,
+  ingame: 3,
+} as const;
+
+const registeredInstruments: Map<Function, string> = new Map();
+
+/**
+ * Element base used when no `HTMLElement` exists at setup time: DOM calls go to a host element
+ */
+class HostedElement {
+  /**
+   * Element standing in for the instrument in the document
+   */
+  host: HTMLElement | null = null;
+
+  protected getHost(): HTMLElement {
+    if (!this.host) {
+      const doc = (globalThis as any).document as Document | undefined;
+      if (!doc) {
+        throw new Error('BaseInstrument needs a document: call TestEnvironment.setup() or use mountInstrument()');
+      }
+      this.host = doc.createElement('div');
+    }
+    return this.host;
+  }
+
+  get innerHTML(): string {
+    return this.getHost().innerHTML;
+  }
+
+  set innerHTML(html: string) {
+    this.getHost().innerHTML = html;
+  }
+
+  get children(): HTMLCollection {
+    return this.getHost().children;
+  }
+
+  get classList(): DOMTokenList {
+    return this.getHost().classList;
+  }
+
+  get style(): CSSStyleDeclaration {
+    return this.getHost().style;
+  }
+
+  get ownerDocument(): Document {
+    return this.getHost().ownerDocument;
+  }
+
+  get isConnected(): boolean {
+    return this.getHost().isConnected;
+  }
+
+  appendChild<T extends Node>(node: T): T {
+    return this.getHost().appendChild(node);
+  }
+
+  removeChild<T extends Node>(node: T): T {
+    return this.getHost().removeChild(node);
+  }
+
+  querySelector(selector: string): Element | null {
+    return this.getHost().querySelector(selector);
+  }
+
+  querySelectorAll(selector: string): NodeListOf<Element> {
+    return this.getHost().querySelectorAll(selector);
+  }
+
+  getElementsByClassName(className: string): HTMLCollectionOf<Element> {
+    return this.getHost().getElementsByClassName(className);
+  }
+
+  getAttribute(name: string): string | null {
+    return this.getHost().getAttribute(name);
+  }
+
+  setAttribute(name: string, value: string): void {
+    this.getHost().setAttribute(name, value);
+  }
+
+  hasAttribute(name: string): boolean {
+    return this.getHost().hasAttribute(name);
+  }
+
+  removeAttribute(name: string): void {
+    this.getHost().removeAttribute(name);
+  }
+
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void {
+    this.getHost().addEventListener(type, listener, options);
+  }
+
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void {
+    this.getHost().removeEventListener(type, listener, options);
+  }
+
+  dispatchEvent(event: Event): boolean {
+    return this.getHost().dispatchEvent(event);
+  }
+}
+
+/**
+ * Create the `BaseInstrument` class on top of an element class
+ */
+export function createBaseInstrumentClass(ElementBase: new () => any = resolveElementBase()): any {
+  return class BaseInstrument extends ElementBase {
+    static allInstrumentsLoaded: boolean = false;
+    static useSvgImages: boolean = false;
+
+    urlConfig: { style: string; index: number; wasmModule: string; wasmGauge: string } = { style: '', index: 1, wasmModule: '', wasmGauge: '' };
+    protected startTime: number = 0;
+    protected isStarted: boolean = false;
+    protected electricityAvailable: boolean = true;
+    private _instrumentId: string = '';
+    private _isConnected: boolean = false;
+    private _isInitialized: boolean = false;
+    private _gameState: number = GAME_STATE.mainmenu;
+    private _flightStarted: boolean = false;
+    private _frameCount: number = 0;
+    private _lastTime: number = 0;
+    private _deltaTime: number = 0;
+    private _pendingCalls: Array<{ func: Function; timeout: number; uid: number }> = [];
+    private _pendingCallUId: number = 0;
+
+    get templateID(): string {
+      return '';
+    }
+
+    get initialized(): boolean {
+      return this._isInitialized;
+    }
+
+    get instrumentIdentifier(): string {
+      return this._instrumentId;
+    }
+
+    get instrumentIndex(): number {
+      return this.urlConfig.index;
+    }
+
+    get isInteractive(): boolean {
+      return false;
+    }
+
+    get IsGlassCockpit(): boolean {
+      return false;
+    }
+
+    get isPrimary(): boolean {
+      return this.urlConfig.index <= 1;
+    }
+
+    /**
+     * Milliseconds since the previous frame
+     */
+    get deltaTime(): number {
+      return this._deltaTime;
+    }
+
+    get frameCount(): number {
+      return this._frameCount;
+    }
+
+    /**
+     * Copies the template (`<script type="text/html" id="{templateID}">` or `<template>`) into the instrument
+     */
+    connectedCallback(): void {
+      this.Instanciate();
+      this._isConnected = true;
+    }
+
+    disconnectedCallback(): void {
+      this._isConnected = false;
+      this._pendingCalls = [];
+    }
+
+    protected Instanciate(forcedTemplate?: string): void {
+      const id = forcedTemplate ?? this.templateID;
+      const doc = (globalThis as any).document as Document | undefined;
+      const template = id && doc ? doc.getElementById(id) : null;
+      if (template) {
+        this.innerHTML = template instanceof HTMLTemplateElement ? template.innerHTML : template.textContent ?? '';
+      }
+    }
+
+    protected Init(): void {
+      this._isInitialized = true;
+      this.startTime = Date.now();
+      this._lastTime = this.startTime;
+    }
+
+    setInstrumentIdentifier(identifier: string): void {
+      this._instrumentId = identifier;
+    }
+
+    setConfigFile(_file: string): void {
+      // XML configuration files are not loaded in tests
+    }
+
+    getChildById(selector: string): any {
+      if (!selector) {
+        return null;
+      }
+      return this.querySelector(`#${String(selector)}`);
+    }
+
+    getChildrenById(selector: string): any {
+      if (!selector) {
+        return [];
+      }
+      return this.querySelectorAll(`#${String(selector)}`);
+    }
+
+    getChildrenByClassName(selector: string): any {
+      return this.getElementsByClassName(selector);
+    }
+
+    onInteractionEvent(_args: Array<string>): void {
+      // Overridden by instruments
+    }
+
+    onSoundEnd(_event: string): void {
+      // Overridden by instruments
+    }
+
+    getGameState(): number {
+      return this._gameState;
+    }
+
+    /**
+     * Move to a game state, calling onGameStateChanged() and, on the first `ingame`, onFlightStart()
+     */
+    setGameState(state: number): void {
+      const previous = this._gameState;
+      if (previous === state) {
+        return;
+      }
+      this._gameState = state;
+      this.onGameStateChanged(previous, state);
+      if (state === GAME_STATE.ingame && !this._flightStarted) {
+        this._flightStarted = true;
+        this.isStarted = true;
+        this.onFlightStart();
+      }
+    }
+
+    protected onFlightStart(): void {
+      // Overridden by instruments
+    }
+
+    protected onGameStateChanged(_oldState: number, _newState: number): void {
+      // Overridden by instruments
+    }
+
+    protected Update(): void {
+      // Overridden by instruments
+    }
+
+    /**
+     * Run one instrument frame
+     */
+    doUpdate(): void {
+      const now = Date.now();
+      this._deltaTime = this._frameCount === 0 ? 0 : now - this._lastTime;
+      this._lastTime = now;
+      this._frameCount++;
+      this.updatePendingCalls();
+      this.Update();
+    }
+
+    protected isElectricityAvailable(): boolean {
+      return this.electricityAvailable;
+    }
+
+    getTimeSinceStart(): number {
+      return Date.now() - this.startTime;
+    }
+
+    /**
+     * Call `func` on the first frame after `timeout` milliseconds
+     */
+    requestCall(func: Function, timeout: number = 0): number {
+      const uid = this._pendingCallUId++;
+      this._pendingCalls.push({ func, timeout: Date.now() + timeout, uid });
+      return uid;
+    }
+
+    removeCall(uid: number): void {
+      this._pendingCalls = this._pendingCalls.filter(call => call.uid !== uid);
+    }
+
+    protected updatePendingCalls(): void {
+      const now = Date.now();
+      const due = this._pendingCalls.filter(call => call.timeout <= now);
+      this._pendingCalls = this._pendingCalls.filter(call => call.timeout > now);
+      due.forEach(call => call.func());
+    }
+
+    protected clearPendingCalls(): void {
+      this._pendingCalls = [];
+    }
+
+    playInstrumentSound(_soundId: string): boolean {
+      return false;
+    }
+
+    getAspectRatio(): number {
+      return 1;
+    }
+  };
+}
+
+/**
+ * Mock of the MSFS `registerInstrument()`: defines the custom element when custom elements are available
+ */
+export function registerInstrument(name: string, instrumentClass: Function): void {
+  registeredInstruments.set(instrumentClass, name);
+  const registry = (globalThis as any).customElements as CustomElementRegistry | undefined;
+  if (registry && isCustomElementClass(instrumentClass) && !registry.get(name)) {
+    registry.define(name, instrumentClass as CustomElementConstructor);
+  }
+}
+
+/**
+ * Get the element name an instrument class was registered with
+ */
+export function getRegisteredInstrumentName(instrumentClass: Function): string | undefined {
+  return registeredInstruments.get(instrumentClass);
+}
+
+/**
+ * Check if instances of a class are real DOM elements (created through `customElements`)
+ */
+export function isCustomElementClass(instrumentClass: Function): boolean {
+  const HTMLElementClass = (globalThis as any).HTMLElement;
+  return typeof HTMLElementClass === 'function' && instrumentClass.prototype instanceof HTMLElementClass;
+}
+
+function resolveElementBase(): new () => any {
+  const globalObj = globalThis as any;
+  if (typeof globalObj.HTMLElement === 'function' && globalObj.customElements) {
+    return globalObj.HTMLElement;
+  }
+  return HostedElement;
+}
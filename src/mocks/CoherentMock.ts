@@ -7,6 +7,8 @@
  * - Browser API compatibility
  */
 
+import { createCurrentInstanceProxy } from './CurrentInstance';
+
 export interface CoherentCall {
   method: string;
   args: any[];
@@ -20,17 +22,21 @@ export interface CoherentCall {
  */
 export class CoherentMock {
   private static instance: CoherentMock;
+  private static current: CoherentMock | null = null;
   private callHistory: CoherentCall[] = [];
   private eventListeners: Map<string, Set<(data: any) => void>> = new Map();
   private callHandlers: Map<string, (...args: any[]) => any> = new Map();
   private maxHistorySize: number = 10000;
 
-  private constructor() {
+  /**
+   * Create an isolated instance (each TestEnvironment owns one)
+   */
+  constructor() {
     this.initializeDefaultHandlers();
   }
 
   /**
-   * Get singleton instance
+   * Get the default instance, used while no TestEnvironment is active
    */
   static getInstance(): CoherentMock {
     if (!CoherentMock.instance) {
@@ -39,6 +45,20 @@ export class CoherentMock {
     return CoherentMock.instance;
   }
 
+  /**
+   * Get the current instance: the one of the active TestEnvironment, or the default instance
+   */
+  static getCurrent(): CoherentMock {
+    return CoherentMock.current ?? CoherentMock.getInstance();
+  }
+
+  /**
+   * Make an instance current (`coherentMock` forwards to it); `null` goes back to the default instance
+   */
+  static setCurrent(mock: CoherentMock | null): void {
+    CoherentMock.current = mock;
+  }
+
   /**
    * Initialize default call handlers for common MSFS functions
    */
@@ -166,10 +186,18 @@ export class CoherentMock {
 }
 
 /**
- * Global Coherent mock instance
+ * Current Coherent mock: forwards to the instance of the active TestEnvironment,
+ * or to the default instance when none is active
  */
-export const coherentMock = CoherentMock.getInstance();
-
-
-
+export const coherentMock: CoherentMock = createCurrentInstanceProxy(() => CoherentMock.getCurrent(), CoherentMock.prototype);
 
+/**
+ * Create the `Coherent` global object backed by a CoherentMock
+ */
+export function createCoherentGlobal(mock: CoherentMock): any {
+  return {
+    call: (method: string, ...args: any[]) => mock.call(method, ...args),
+    on: (eventName: string, callback: (data: any) => void) => mock.on(eventName, callback),
+    off: (eventName: string, callback: (data: any) => void) => mock.off(eventName, callback),
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Forwarding of module-level mock exports to the current instance.
+ *
+ * `simVarMock` and `coherentMock` are proxies: each property access goes to the instance of
+ * the active TestEnvironment, or to the default instance when none is active.
+ */
+
+/**
+ * Create a proxy forwarding every property access to `getCurrent()`.
+ * `instanceof` checks against the class of `prototype` keep working.
+ */
+export function createCurrentInstanceProxy<T extends object>(getCurrent: () => T, prototype: object): T {
+  return new Proxy(Object.create(prototype) as T, {
+    get: (_target, property) => {
+      const current = getCurrent();
+      const value = Reflect.get(current, property, current);
+      return typeof value === 'function' ? value.bind(current) : value;
+    },
+    set: (_target, property, value) => {
+      return Reflect.set(getCurrent(), property, value);
+    },
+    has: (_target, property) => {
+      return Reflect.has(getCurrent(), property);
+    },
+  });
+}
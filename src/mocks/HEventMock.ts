@@ -0,0 +1,137 @@
+/**
+ * Mock of the MSFS H event system.
+ *
+ * Cockpit knobs and bezel buttons send H events (e.g. `AS1000_PFD_FMS_Upper_INC`) to every
+ * instrument, which receives them in `onInteractionEvent(args)`; SDK instruments also see them on the
+ * `hEvent` EventBus topic. Tests send them with `TestEnvironment.sendHEvent()`, instruments with
+ * `SimVar.SetSimVarValue('H:EVENT_NAME', 'number', 0)`. This mock records every event and notifies listeners.
+ */
+
+/**
+ * Coherent event on which the mock EventBus receives H events
+ */
+export const H_EVENT = 'H_EVENT';
+
+/**
+ * Who sent an H event
+ */
+export type HEventSource = 'test' | 'instrument';
+
+export interface HEventRecord {
+  name: string;
+  args: string[];
+  source: HEventSource;
+  timestamp: number;
+}
+
+export type HEventListener = (name: string, args: string[]) => void;
+
+/**
+ * Handle returned by HEventMock.on()
+ */
+export interface HEventHandle {
+  destroy(): void;
+}
+
+/**
+ * Mock H event system
+ */
+export class HEventMock {
+  private history: HEventRecord[] = [];
+  private listeners: Set<HEventListener> = new Set();
+  private maxHistorySize: number = 10000;
+
+  /**
+   * Send an H event: record it and notify listeners. Every listener is notified, then the first error
+   * thrown by one (e.g. an instrument's `onInteractionEvent()`) propagates to the caller.
+   */
+  trigger(name: string, args: string[] = [], source: HEventSource = 'test'): void {
+    const eventName = this.normalizeName(name);
+    this.history.push({
+      name: eventName,
+      args,
+      source,
+      timestamp: Date.now()
+    });
+
+    // Keep history size manageable
+    if (this.history.length > this.maxHistorySize) {
+      this.history = this.history.slice(-this.maxHistorySize);
+    }
+
+    notifyAll(this.listeners, listener => listener(eventName, args));
+  }
+
+  /**
+   * Listen to every H event
+   */
+  on(listener: HEventListener): HEventHandle {
+    this.listeners.add(listener);
+    return {
+      destroy: () => {
+        this.listeners.delete(listener);
+      }
+    };
+  }
+
+  /**
+   * Get all sent H events
+   */
+  getHistory(): HEventRecord[] {
+    return [...this.history];
+  }
+
+  /**
+   * Get sent events with a specific name
+   */
+  getEvents(name: string): HEventRecord[] {
+    const eventName = this.normalizeName(name);
+    return this.history.filter(event => event.name === eventName);
+  }
+
+  /**
+   * Check if an H event was sent
+   */
+  wasTriggered(name: string): boolean {
+    return this.getEvents(name).length > 0;
+  }
+
+  /**
+   * Clear event history
+   */
+  clearHistory(): void {
+    this.history = [];
+  }
+
+  /**
+   * Clear history and listeners
+   */
+  reset(): void {
+    this.history = [];
+    this.listeners.clear();
+  }
+
+  /**
+   * H event names are case-sensitive; only the `H:` prefix is dropped
+   */
+  private normalizeName(name: string): string {
+    return name.trim().replace(/^H\s*:\s*/i, '');
+  }
+}
+
+/**
+ * Call `notify` for every listener, then rethrow the first error a listener threw
+ */
+function notifyAll<L>(listeners: Iterable<L>, notify: (listener: L) => void): void {
+  const errors: unknown[] = [];
+  for (const listener of listeners) {
+    try {
+      notify(listener);
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Hybrid SDK adapter for Jest
+ *
+ * Module to map `@microsoft/msfs-sdk` to for the hybrid passthrough mode: the real SDK bundle for pure logic,
+ * the adapter for host bindings (see SDKBundle).
+ */
+
+import { createHybridSDK } from './SDKBundle';
+
+export = createHybridSDK();
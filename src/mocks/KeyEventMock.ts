@@ -0,0 +1,266 @@
+/**
+ * Mock of the MSFS key event (K:) system.
+ *
+ * Instruments fire key events with `SimVar.SetSimVarValue('K:AP_MASTER', 'number', 0)` or
+ * `Coherent.call('TRIGGER_KEY_EVENT', ...)`. This mock records every event with its arguments
+ * and applies a registered reaction to the simulated aircraft state, e.g. `HEADING_BUG_INC`
+ * increments `AUTOPILOT HEADING LOCK DIR`.
+ */
+
+import type { SimVarMock } from './SimVarMock';
+
+export interface KeyEventRecord {
+  name: string;
+  args: number[];
+  timestamp: number;
+}
+
+/**
+ * Reaction applied to the SimVar state when a key event fires
+ */
+export type KeyEventReaction = (args: number[], simVars: SimVarMock) => void;
+
+/**
+ * Toggle a bool SimVar
+ */
+function toggle(name: string): KeyEventReaction {
+  return (_args, simVars) => {
+    simVars.setSimVarValue(name, 'bool', simVars.getSimVarValue(name, 'bool') ? 0 : 1);
+  };
+}
+
+/**
+ * Set a SimVar to a fixed value, or to the first event argument
+ */
+function set(name: string, unit: string, value?: number): KeyEventReaction {
+  return (args, simVars) => {
+    simVars.setSimVarValue(name, unit, value ?? args[0] ?? 0);
+  };
+}
+
+/**
+ * Step a SimVar by a fixed amount, optionally wrapping into [0, wrap)
+ */
+function step(name: string, unit: string, amount: number, wrap?: number): KeyEventReaction {
+  return (_args, simVars) => {
+    let value = Number(simVars.getSimVarValue(name, unit)) + amount;
+    if (wrap !== undefined) {
+      value = ((value % wrap) + wrap) % wrap;
+    }
+    simVars.setSimVarValue(name, unit, value);
+  };
+}
+
+/**
+ * Swap the values of two SimVars
+ */
+function swap(a: string, b: string, unit: string): KeyEventReaction {
+  return (_args, simVars) => {
+    const valueA = simVars.getSimVarValue(a, unit);
+    simVars.setSimVarValue(a, unit, simVars.getSimVarValue(b, unit));
+    simVars.setSimVarValue(b, unit, valueA);
+  };
+}
+
+/**
+ * Run several reactions in order
+ */
+function all(...reactions: KeyEventReaction[]): KeyEventReaction {
+  return (args, simVars) => reactions.forEach(reaction => reaction(args, simVars));
+}
+
+/**
+ * Built-in reactions for common key events
+ */
+export const DEFAULT_KEY_EVENT_REACTIONS: Record<string, KeyEventReaction> = {
+  // Autopilot
+  AP_MASTER: toggle('AUTOPILOT MASTER'),
+  AUTOPILOT_ON: set('AUTOPILOT MASTER', 'bool', 1),
+  AUTOPILOT_OFF: set('AUTOPILOT MASTER', 'bool', 0),
+  AP_HDG_HOLD: toggle('AUTOPILOT HEADING LOCK'),
+  AP_NAV1_HOLD: toggle('AUTOPILOT NAV1 LOCK'),
+  AP_APR_HOLD: toggle('AUTOPILOT APPROACH HOLD'),
+  AP_ALT_HOLD: toggle('AUTOPILOT ALTITUDE LOCK'),
+  AP_VS_HOLD: toggle('AUTOPILOT VERTICAL HOLD'),
+  HEADING_BUG_INC: step('AUTOPILOT HEADING LOCK DIR', 'degrees', 1, 360),
+  HEADING_BUG_DEC: step('AUTOPILOT HEADING LOCK DIR', 'degrees', -1, 360),
+  HEADING_BUG_SET: (args, simVars) => {
+    simVars.setSimVarValue('AUTOPILOT HEADING LOCK DIR', 'degrees', (((args[0] ?? 0) % 360) + 360) % 360);
+  },
+  AP_ALT_VAR_INC: step('AUTOPILOT ALTITUDE LOCK VAR', 'feet', 100),
+  AP_ALT_VAR_DEC: step('AUTOPILOT ALTITUDE LOCK VAR', 'feet', -100),
+  AP_ALT_VAR_SET_ENGLISH: set('AUTOPILOT ALTITUDE LOCK VAR', 'feet'),
+  AP_ALT_VAR_SET_METRIC: set('AUTOPILOT ALTITUDE LOCK VAR', 'meters'),
+  AP_VS_VAR_INC: step('AUTOPILOT VERTICAL HOLD VAR', 'feet per minute', 100),
+  AP_VS_VAR_DEC: step('AUTOPILOT VERTICAL HOLD VAR', 'feet per minute', -100),
+  AP_VS_VAR_SET_ENGLISH: set('AUTOPILOT VERTICAL HOLD VAR', 'feet per minute'),
+  AP_SPD_VAR_INC: step('AUTOPILOT AIRSPEED HOLD VAR', 'knots', 1),
+  AP_SPD_VAR_DEC: step('AUTOPILOT AIRSPEED HOLD VAR', 'knots', -1),
+  AP_SPD_VAR_SET: set('AUTOPILOT AIRSPEED HOLD VAR', 'knots'),
+
+  // Radios
+  COM_STBY_RADIO_SWAP: swap('COM ACTIVE FREQUENCY:1', 'COM STANDBY FREQUENCY:1', 'Hz'),
+  COM2_RADIO_SWAP: swap('COM ACTIVE FREQUENCY:2', 'COM STANDBY FREQUENCY:2', 'Hz'),
+  COM3_RADIO_SWAP: swap('COM ACTIVE FREQUENCY:3', 'COM STANDBY FREQUENCY:3', 'Hz'),
+  NAV1_RADIO_SWAP: swap('NAV ACTIVE FREQUENCY:1', 'NAV STANDBY FREQUENCY:1', 'Hz'),
+  NAV2_RADIO_SWAP: swap('NAV ACTIVE FREQUENCY:2', 'NAV STANDBY FREQUENCY:2', 'Hz'),
+  COM_RADIO_SET_HZ: set('COM ACTIVE FREQUENCY:1', 'Hz'),
+  COM_STBY_RADIO_SET_HZ: set('COM STANDBY FREQUENCY:1', 'Hz'),
+  COM2_RADIO_SET_HZ: set('COM ACTIVE FREQUENCY:2', 'Hz'),
+  COM2_STBY_RADIO_SET_HZ: set('COM STANDBY FREQUENCY:2', 'Hz'),
+  NAV1_RADIO_SET_HZ: set('NAV ACTIVE FREQUENCY:1', 'Hz'),
+  NAV1_STBY_SET_HZ: set('NAV STANDBY FREQUENCY:1', 'Hz'),
+  NAV2_RADIO_SET_HZ: set('NAV ACTIVE FREQUENCY:2', 'Hz'),
+  NAV2_STBY_SET_HZ: set('NAV STANDBY FREQUENCY:2', 'Hz'),
+
+  // Altimeter (KOHLSMAN_SET takes millibars * 16)
+  KOHLSMAN_SET: (args, simVars) => {
+    const millibars = (args[0] ?? 0) / 16;
+    simVars.setSimVarValue('KOHLSMAN SETTING MB:1', 'millibars', millibars);
+    simVars.setSimVarValue('KOHLSMAN SETTING HG:1', 'millibars', millibars);
+  },
+  KOHLSMAN_INC: all(step('KOHLSMAN SETTING HG:1', 'inHg', 0.01), (_args, simVars) => {
+    simVars.setSimVarValue('KOHLSMAN SETTING MB:1', 'inHg', simVars.getSimVarValue('KOHLSMAN SETTING HG:1', 'inHg'));
+  }),
+  KOHLSMAN_DEC: all(step('KOHLSMAN SETTING HG:1', 'inHg', -0.01), (_args, simVars) => {
+    simVars.setSimVarValue('KOHLSMAN SETTING MB:1', 'inHg', simVars.getSimVarValue('KOHLSMAN SETTING HG:1', 'inHg'));
+  }),
+  BAROMETRIC: (_args, simVars) => {
+    const millibars = simVars.getSimVarValue('SEA LEVEL PRESSURE', 'millibars');
+    simVars.setSimVarValue('KOHLSMAN SETTING MB:1', 'millibars', millibars);
+    simVars.setSimVarValue('KOHLSMAN SETTING HG:1', 'millibars', millibars);
+  },
+
+  // Electrical and gear
+  TOGGLE_MASTER_BATTERY: toggle('ELECTRICAL MASTER BATTERY:1'),
+  MASTER_BATTERY_ON: set('ELECTRICAL MASTER BATTERY:1', 'bool', 1),
+  MASTER_BATTERY_OFF: set('ELECTRICAL MASTER BATTERY:1', 'bool', 0),
+  TOGGLE_AVIONICS_MASTER: toggle('AVIONICS MASTER SWITCH'),
+  GEAR_TOGGLE: toggle('GEAR HANDLE POSITION'),
+  GEAR_UP: set('GEAR HANDLE POSITION', 'bool', 0),
+  GEAR_DOWN: set('GEAR HANDLE POSITION', 'bool', 1),
+  PARKING_BRAKES: toggle('BRAKE PARKING POSITION'),
+
+  // Slew mode (instruments may then write position and attitude SimVars)
+  SLEW_TOGGLE: toggle('IS SLEW ACTIVE'),
+  SLEW_ON: set('IS SLEW ACTIVE', 'bool', 1),
+  SLEW_OFF: set('IS SLEW ACTIVE', 'bool', 0),
+};
+
+/**
+ * Mock key event system
+ */
+export class KeyEventMock {
+  private history: KeyEventRecord[] = [];
+  private reactions: Map<string, KeyEventReaction> = new Map();
+  private persistentReactions: Map<string, KeyEventReaction> = new Map();
+  private maxHistorySize: number = 10000;
+
+  constructor(private readonly simVars: SimVarMock) {
+    this.initializeDefaultReactions();
+  }
+
+  /**
+   * Register the built-in reactions
+   */
+  private initializeDefaultReactions(): void {
+    Object.keys(DEFAULT_KEY_EVENT_REACTIONS).forEach(name => {
+      this.reactions.set(name, DEFAULT_KEY_EVENT_REACTIONS[name]);
+    });
+  }
+
+  /**
+   * Fire a key event: record it and apply its reaction, if any
+   */
+  trigger(name: string, ...args: number[]): void {
+    const eventName = this.normalizeName(name);
+    this.history.push({
+      name: eventName,
+      args,
+      timestamp: Date.now()
+    });
+
+    // Keep history size manageable
+    if (this.history.length > this.maxHistorySize) {
+      this.history = this.history.slice(-this.maxHistorySize);
+    }
+
+    const reaction = this.reactions.get(eventName);
+    if (reaction) {
+      reaction(args, this.simVars);
+    }
+  }
+
+  /**
+   * Register (or replace) the reaction of a key event.
+   * `reset()` (run by every `TestEnvironment.teardown()`) drops it unless `persistent` is set.
+   */
+  registerReaction(name: string, reaction: KeyEventReaction, options: { persistent?: boolean } = {}): void {
+    const eventName = this.normalizeName(name);
+    this.reactions.set(eventName, reaction);
+    if (options.persistent) {
+      this.persistentReactions.set(eventName, reaction);
+    } else {
+      this.persistentReactions.delete(eventName);
+    }
+  }
+
+  /**
+   * Remove the reaction of a key event, including a persistent one
+   */
+  unregisterReaction(name: string): void {
+    const eventName = this.normalizeName(name);
+    this.reactions.delete(eventName);
+    this.persistentReactions.delete(eventName);
+  }
+
+  /**
+   * Check if a key event has a reaction
+   */
+  hasReaction(name: string): boolean {
+    return this.reactions.has(this.normalizeName(name));
+  }
+
+  /**
+   * Get all fired key events
+   */
+  getHistory(): KeyEventRecord[] {
+    return [...this.history];
+  }
+
+  /**
+   * Get fired events with a specific name
+   */
+  getEvents(name: string): KeyEventRecord[] {
+    const eventName = this.normalizeName(name);
+    return this.history.filter(event => event.name === eventName);
+  }
+
+  /**
+   * Check if a key event was fired
+   */
+  wasTriggered(name: string): boolean {
+    return this.getEvents(name).length > 0;
+  }
+
+  /**
+   * Clear event history
+   */
+  clearHistory(): void {
+    this.history = [];
+  }
+
+  /**
+   * Clear history and restore the built-in and persistent reactions
+   */
+  reset(): void {
+    this.history = [];
+    this.reactions.clear();
+    this.initializeDefaultReactions();
+    this.persistentReactions.forEach((reaction, name) => this.reactions.set(name, reaction));
+  }
+
+  private normalizeName(name: string): string {
+    return name.trim().toUpperCase().replace(/^(K:|KEY_)/, '');
+  }
+}
@@ -4,16 +4,17 @@
  * These must be set on global object BEFORE any SDK code loads
  */
 
+import { GAME_STATE, createBaseInstrumentClass, registerInstrument } from './BaseInstrumentMock';
+
 export function setupMSFSGlobals(): void {
   const globalObj = globalThis as any;
 
-  // BaseInstrument stub
+  // BaseInstrument - a custom element under jsdom, lifecycle driven by mountInstrument()
   if (typeof globalObj.BaseInstrument === 'undefined') {
-    globalObj.BaseInstrument = class BaseInstrument {
-      getChildById(id: string): HTMLElement | null {
-        return null;
-      }
-    };
+    globalObj.BaseInstrument = createBaseInstrumentClass();
+  }
+  if (typeof globalObj.registerInstrument === 'undefined') {
+    globalObj.registerInstrument = registerInstrument;
   }
 
   // DisplayComponent - must be available globally for SDK classes that extend it
@@ -482,6 +483,8 @@ export function setupMSFSGlobals(): void {
       LOADING: 2,
       FLYING: 3,
       PAUSED: 4,
+      // Names used by the MSFS GameState enum (and BaseInstrument)
+      ...GAME_STATE,
     };
   }
 
@@ -522,6 +525,13 @@ export function setupMSFSGlobals(): void {
     };
   }
 
+  // Facilities global (magnetic variation used by MagVar): the aircraft's MAGVAR SimVar at every position
+  if (typeof globalObj.Facilities === 'undefined') {
+    globalObj.Facilities = {
+      getMagVar: (_lat: number, _lon: number): number => Number(globalObj.SimVar?.GetSimVarValue('MAGVAR', 'degrees')) || 0,
+    };
+  }
+
   // Storage functions
   if (typeof globalObj.GetStoredData === 'undefined') {
     globalObj.GetStoredData = () => '';
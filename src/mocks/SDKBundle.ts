@@ -0,0 +1,126 @@
+/**
+ * Real msfs-sdk bundle loader for the hybrid passthrough mode.
+ *
+ * Much of the SDK (math, subjects, units, formatters, flight plans...) has no host dependency. The hybrid
+ * mode evaluates the real `msfssdk-iife.js` on top of the MSFS globals, so that code runs unmodified against
+ * the framework's `SimVar`, `simvar`, `Coherent` and `BaseInstrument` mocks. Exports that reach the sim
+ * through view or data listeners, or that the test harness is wired to, keep the adapter implementation
+ * (`HYBRID_ADAPTER_EXPORTS`), and exports the bundle lacks fall back to the adapter.
+ *
+ * Enable it for a whole project in jest.config.js:
+ *
+ * ```js
+ * moduleNameMapper: {
+ *   '^@microsoft/msfs-sdk$': require.resolve('@avimate/msfs-jest-utils/mocks/HybridSDKAdapter'),
+ * }
+ * ```
+ *
+ * or for a single test file:
+ *
+ * ```typescript
+ * jest.mock('@microsoft/msfs-sdk', () => jest.requireActual('@avimate/msfs-jest-utils/mocks/HybridSDKAdapter'));
+ * ```
+ *
+ * The SDK being mapped to the adapter file, `jest.mock` replaces the adapter too: the SDK classes the framework
+ * re-exports are then the hybrid ones as well.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { setupMSFSGlobals } from './MSFSGlobals';
+
+/**
+ * Exports taken from the adapter even though the real bundle has them:
+ * - `EventBus`/`EventSubscriber` sync through the sim's generic data listener; the adapter bus is the one
+ *   `PanelEnvironment`, `EventBusRecorder` and the EventBus matchers work with
+ * - `FacilityLoader`/`FacilityRepository` and `BingComponent` need the facility and map view listeners
+ * - `MapSystemBuilder` builds Bing-backed maps
+ */
+export const HYBRID_ADAPTER_EXPORTS: readonly string[] = [
+  'EventBus',
+  'EventSubscriber',
+  'FacilityLoader',
+  'FacilityRepository',
+  'BingComponent',
+  'MapSystemBuilder',
+];
+
+const BUNDLE_FILE = 'msfssdk-iife.js';
+
+/**
+ * Path of a file of the installed `@microsoft/msfs-sdk` package: the project's first, then the framework's own.
+ * Looked up in the node_modules directories directly, since Jest maps the package itself to the adapter.
+ */
+export function resolveSDKPackageFile(file: string): string {
+  for (const start of [process.cwd(), __dirname]) {
+    let dir = start;
+    for (;;) {
+      const candidate = path.join(dir, 'node_modules', '@microsoft', 'msfs-sdk', file);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+  }
+  throw new Error(`Cannot find @microsoft/msfs-sdk/${file}; install @microsoft/msfs-sdk`);
+}
+
+/**
+ * Path of the real SDK bundle
+ */
+export function resolveSDKBundlePath(): string {
+  return resolveSDKPackageFile(BUNDLE_FILE);
+}
+
+/**
+ * Evaluate the real SDK bundle in the current (jsdom) global scope and return its exports.
+ * The MSFS globals are installed first, since the bundle reads some of them (e.g. `BaseInstrument`) when it loads.
+ */
+export function loadSDKBundle(bundlePath: string = resolveSDKBundlePath()): Record<string, any> {
+  setupMSFSGlobals();
+  const source = fs.readFileSync(bundlePath, 'utf8');
+  try {
+    return new Function(`${source}\nreturn msfssdk;`)();
+  } catch (error) {
+    throw new Error(`Failed to load the msfs-sdk bundle ${bundlePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Names of the runtime exports of the real SDK bundle (classes, functions, enums and constants; no types)
+ */
+export function readSDKBundleExportNames(bundlePath: string = resolveSDKBundlePath()): Set<string> {
+  const source = fs.readFileSync(bundlePath, 'utf8');
+  return new Set(Array.from(source.matchAll(/^\s*exports\.([\w$]+) = /gm), match => match[1]));
+}
+
+/**
+ * Exports of the adapter. Under `jest.mock('@microsoft/msfs-sdk', ...)` the module the SDK is mapped to
+ * (SDKAdapter) is mocked, so the actual module is requested.
+ */
+function getAdapterExports(): Record<string, any> {
+  return typeof jest !== 'undefined' ? jest.requireActual('./SDKAdapter') : require('./SDKAdapter');
+}
+
+/**
+ * Build the hybrid SDK module: the real bundle's exports, with `adapterExports` and the exports the bundle
+ * lacks taken from the adapter
+ */
+export function createHybridSDK(
+  adapterExports: readonly string[] = HYBRID_ADAPTER_EXPORTS,
+  bundle: Record<string, any> = loadSDKBundle(),
+): Record<string, any> {
+  const adapter = getAdapterExports();
+  const sdk: Record<string, any> = { ...adapter, ...bundle };
+  for (const name of adapterExports) {
+    if (!(name in adapter)) {
+      throw new Error(`msfs-sdk export ${name} is not provided by the adapter`);
+    }
+    sdk[name] = adapter[name];
+  }
+  return sdk;
+}
@@ -0,0 +1,54 @@
+/**
+ * Guard for the exports of the SDK adapters.
+ *
+ * A component importing an SDK export the adapter doesn't provide would get `undefined` and fail far away
+ * ("X is not a constructor"). The adapters wrap their exports so that touching a missing name throws:
+ *
+ * ```
+ * Error: msfs-sdk export LerpLookupTable is not mocked by @avimate/msfs-jest-utils
+ * ```
+ *
+ * Run `msfs-jest-utils-sdk-gaps` (see SDKGapReport) to list the missing exports a project imports.
+ */
+
+/**
+ * Names probed by module interop, Jest and Node on any object; reading them never throws
+ */
+export const SDK_EXPORT_PROBES: ReadonlySet<string> = new Set([
+  '__esModule',
+  'default',
+  'then',
+  'toJSON',
+  'constructor',
+  'asymmetricMatch',
+  '$$typeof',
+  'nodeType',
+  'tagName',
+  'inspect',
+  'prototype',
+]);
+
+/**
+ * Error message for an SDK export that the adapter doesn't provide
+ */
+export function sdkExportNotMockedMessage(packageName: string, name: string): string {
+  return `${packageName} export ${name} is not mocked by @avimate/msfs-jest-utils`;
+}
+
+/**
+ * Wrap module exports so that reading a name they don't have throws a clear error.
+ * `in`, `Object.keys()` and spreading see the exports unchanged.
+ *
+ * @param moduleExports The adapter module exports
+ * @param packageName The SDK package named in the error, e.g. `msfs-sdk`
+ */
+export function guardSDKExports<T extends object>(moduleExports: T, packageName: string): T {
+  return new Proxy(moduleExports, {
+    get(target, property, receiver) {
+      if (typeof property === 'string' && !(property in target) && !SDK_EXPORT_PROBES.has(property) && !property.startsWith('@@')) {
+        throw new Error(sdkExportNotMockedMessage(packageName, property));
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
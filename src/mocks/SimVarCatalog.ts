@@ -0,0 +1,394 @@
+/**
+ * Catalog of documented MSFS aircraft (A:) SimVars.
+ *
+ * Each entry records whether the SimVar is indexed (`ENGINE RPM:1`), the unit families it can
+ * be read in, whether instruments may write it and, for struct SimVars, the struct type. The
+ * SimVar mock validates accesses against it, so a test catches `AIRSPEED INDICATED` read in
+ * `degrees`, `ENGINE RPM:0`, or an instrument writing `PLANE ALTITUDE` outside of slew mode.
+ *
+ * The catalog is partial and maintained by hand (`@microsoft/msfs-types` declares the SimVar API,
+ * not the SimVars): it covers the SimVars used by the SDK and common instruments. SimVars missing
+ * from it are only reported with `reportUnknown`; add them, or aircraft-specific ones, with
+ * registerSimVarCatalogEntries().
+ */
+
+import { getSimVarUnitFamily, SimVarUnitFamily } from './SimVarUnits';
+import { getSimVarStructType, SimVarStructType } from './SimVarStructs';
+
+/**
+ * Index range of an indexed SimVar
+ */
+export interface SimVarCatalogIndex {
+  min: number;
+  max: number;
+  /** The SimVar can also be used without an index */
+  optional?: boolean;
+}
+
+export interface SimVarCatalogEntry {
+  /** SimVar name without prefix and index, uppercase */
+  name: string;
+  /** Index range, for indexed SimVars */
+  index?: SimVarCatalogIndex;
+  /** Unit families the SimVar can be read or written in; generic units (`number`, `enum`, ...) are always accepted */
+  units?: SimVarUnitFamily[];
+  /** `true` if instruments may write the SimVar, `slew` if only while `IS SLEW ACTIVE` */
+  settable: boolean | 'slew';
+  /** Struct type, for struct SimVars */
+  struct?: SimVarStructType;
+}
+
+export type SimVarCatalogIssueKind = 'unknown' | 'unit' | 'index' | 'read-only';
+
+export interface SimVarCatalogIssue {
+  kind: SimVarCatalogIssueKind;
+  message: string;
+}
+
+const ENGINES: SimVarCatalogIndex = { min: 1, max: 4 };
+const COMS: SimVarCatalogIndex = { min: 1, max: 3 };
+const NAVS: SimVarCatalogIndex = { min: 1, max: 4 };
+const ADFS: SimVarCatalogIndex = { min: 1, max: 2 };
+const AUTOPILOT_SLOTS: SimVarCatalogIndex = { min: 1, max: 3, optional: true };
+const ALTIMETERS: SimVarCatalogIndex = { min: 1, max: 4, optional: true };
+const BATTERIES: SimVarCatalogIndex = { min: 1, max: 4, optional: true };
+
+const CATALOG: SimVarCatalogEntry[] = [
+  // Position and attitude
+  { name: 'PLANE LATITUDE', units: ['angle'], settable: 'slew' },
+  { name: 'PLANE LONGITUDE', units: ['angle'], settable: 'slew' },
+  { name: 'PLANE ALTITUDE', units: ['length'], settable: 'slew' },
+  { name: 'PLANE ALT ABOVE GROUND', units: ['length'], settable: false },
+  { name: 'PLANE ALT ABOVE GROUND MINUS CG', units: ['length'], settable: false },
+  { name: 'PLANE HEADING DEGREES TRUE', units: ['angle'], settable: 'slew' },
+  { name: 'PLANE HEADING DEGREES MAGNETIC', units: ['angle'], settable: 'slew' },
+  { name: 'PLANE HEADING DEGREES GYRO', units: ['angle'], settable: false },
+  { name: 'PLANE PITCH DEGREES', units: ['angle'], settable: 'slew' },
+  { name: 'PLANE BANK DEGREES', units: ['angle'], settable: 'slew' },
+  { name: 'STRUCT LATLONALT', settable: false, struct: 'latlonalt' },
+  { name: 'STRUCT LATLONALTPBH', settable: false, struct: 'latlonaltpbh' },
+  { name: 'STRUCT WORLDVELOCITY', settable: false, struct: 'xyz' },
+  { name: 'STRUCT WORLD ACCELERATION', settable: false, struct: 'xyz' },
+  { name: 'GROUND ALTITUDE', units: ['length'], settable: false },
+  { name: 'RADIO HEIGHT', units: ['length'], settable: false },
+  { name: 'PRESSURE ALTITUDE', units: ['length'], settable: false },
+  { name: 'DENSITY ALTITUDE', units: ['length'], settable: false },
+  { name: 'INDICATED ALTITUDE', index: ALTIMETERS, units: ['length'], settable: false },
+  { name: 'MAGVAR', units: ['angle'], settable: false },
+  { name: 'SIM ON GROUND', units: ['bool'], settable: false },
+  { name: 'IS SLEW ACTIVE', units: ['bool'], settable: false },
+  { name: 'SIMULATION RATE', settable: false },
+
+  // Speeds and accelerations
+  { name: 'AIRSPEED INDICATED', units: ['speed'], settable: false },
+  { name: 'AIRSPEED TRUE', units: ['speed'], settable: false },
+  { name: 'AIRSPEED MACH', units: ['speed'], settable: false },
+  { name: 'AIRSPEED SELECT INDICATED OR TRUE', units: ['speed'], settable: false },
+  { name: 'AIRSPEED TRUE CALIBRATE', units: ['angle'], settable: true },
+  { name: 'GROUND VELOCITY', units: ['speed'], settable: false },
+  { name: 'VERTICAL SPEED', units: ['speed'], settable: 'slew' },
+  { name: 'VELOCITY WORLD X', units: ['speed'], settable: 'slew' },
+  { name: 'VELOCITY WORLD Y', units: ['speed'], settable: 'slew' },
+  { name: 'VELOCITY WORLD Z', units: ['speed'], settable: 'slew' },
+  { name: 'VELOCITY BODY X', units: ['speed'], settable: 'slew' },
+  { name: 'VELOCITY BODY Y', units: ['speed'], settable: 'slew' },
+  { name: 'VELOCITY BODY Z', units: ['speed'], settable: 'slew' },
+  { name: 'ACCELERATION WORLD X', settable: 'slew' },
+  { name: 'ACCELERATION WORLD Y', settable: 'slew' },
+  { name: 'ACCELERATION WORLD Z', settable: 'slew' },
+  { name: 'ACCELERATION BODY X', settable: 'slew' },
+  { name: 'ACCELERATION BODY Y', settable: 'slew' },
+  { name: 'ACCELERATION BODY Z', settable: 'slew' },
+  { name: 'ROTATION VELOCITY BODY X', settable: 'slew' },
+  { name: 'ROTATION VELOCITY BODY Y', settable: 'slew' },
+  { name: 'ROTATION VELOCITY BODY Z', settable: 'slew' },
+  { name: 'INCIDENCE ALPHA', units: ['angle'], settable: false },
+  { name: 'INCIDENCE BETA', units: ['angle'], settable: false },
+  { name: 'G FORCE', settable: false },
+  { name: 'TURN COORDINATOR BALL', settable: false },
+  { name: 'DELTA HEADING RATE', index: { min: 1, max: 2, optional: true }, settable: false },
+  { name: 'GPS GROUND SPEED', units: ['speed'], settable: false },
+  { name: 'GPS GROUND TRUE TRACK', units: ['angle'], settable: false },
+  { name: 'GPS GROUND MAGNETIC TRACK', units: ['angle'], settable: false },
+  { name: 'GPS POSITION LAT', units: ['angle'], settable: false },
+  { name: 'GPS POSITION LON', units: ['angle'], settable: false },
+  { name: 'GPS POSITION ALT', units: ['length'], settable: false },
+
+  // Environment
+  { name: 'AMBIENT TEMPERATURE', units: ['temperature'], settable: false },
+  { name: 'TOTAL AIR TEMPERATURE', units: ['temperature'], settable: false },
+  { name: 'AMBIENT PRESSURE', units: ['pressure'], settable: false },
+  { name: 'SEA LEVEL PRESSURE', units: ['pressure'], settable: false },
+  { name: 'BAROMETER PRESSURE', units: ['pressure'], settable: false },
+  { name: 'AMBIENT WIND DIRECTION', units: ['angle'], settable: false },
+  { name: 'AMBIENT WIND VELOCITY', units: ['speed'], settable: false },
+  { name: 'AMBIENT VISIBILITY', units: ['length'], settable: false },
+  { name: 'AMBIENT IN CLOUD', units: ['bool'], settable: false },
+  { name: 'AMBIENT DENSITY', settable: false },
+
+  // Altimeter and instruments
+  { name: 'KOHLSMAN SETTING MB', index: ALTIMETERS, units: ['pressure'], settable: false },
+  { name: 'KOHLSMAN SETTING HG', index: ALTIMETERS, units: ['pressure'], settable: false },
+  { name: 'KOHLSMAN SETTING STD', index: ALTIMETERS, units: ['bool'], settable: false },
+  { name: 'ATTITUDE INDICATOR PITCH DEGREES', index: { min: 1, max: 2, optional: true }, units: ['angle'], settable: false },
+  { name: 'ATTITUDE INDICATOR BANK DEGREES', index: { min: 1, max: 2, optional: true }, units: ['angle'], settable: false },
+  { name: 'HEADING INDICATOR', units: ['angle'], settable: false },
+  { name: 'DECISION HEIGHT', units: ['length'], settable: true },
+  { name: 'DECISION ALTITUDE MSL', units: ['length'], settable: true },
+
+  // Autopilot
+  { name: 'AUTOPILOT MASTER', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT DISENGAGED', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT FLIGHT DIRECTOR ACTIVE', index: { min: 1, max: 2, optional: true }, units: ['bool'], settable: false },
+  { name: 'AUTOPILOT FLIGHT DIRECTOR PITCH', units: ['angle'], settable: false },
+  { name: 'AUTOPILOT FLIGHT DIRECTOR BANK', units: ['angle'], settable: false },
+  { name: 'AUTOPILOT HEADING LOCK', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT HEADING LOCK DIR', index: AUTOPILOT_SLOTS, units: ['angle'], settable: false },
+  { name: 'AUTOPILOT NAV1 LOCK', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT APPROACH HOLD', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT BACKCOURSE HOLD', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT GLIDESLOPE HOLD', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT ALTITUDE LOCK', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT ALTITUDE LOCK VAR', index: AUTOPILOT_SLOTS, units: ['length'], settable: false },
+  { name: 'AUTOPILOT VERTICAL HOLD', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT VERTICAL HOLD VAR', index: AUTOPILOT_SLOTS, units: ['speed'], settable: false },
+  { name: 'AUTOPILOT AIRSPEED HOLD', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT AIRSPEED HOLD VAR', index: AUTOPILOT_SLOTS, units: ['speed'], settable: false },
+  { name: 'AUTOPILOT MACH HOLD VAR', index: AUTOPILOT_SLOTS, settable: false },
+  { name: 'AUTOPILOT FLIGHT LEVEL CHANGE', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT PITCH HOLD', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT PITCH HOLD REF', units: ['angle'], settable: false },
+  { name: 'AUTOPILOT BANK HOLD', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT WING LEVELER', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT YAW DAMPER', units: ['bool'], settable: false },
+  { name: 'AUTOPILOT MAX BANK', units: ['angle'], settable: false },
+
+  // Radios
+  { name: 'COM ACTIVE FREQUENCY', index: COMS, units: ['frequency'], settable: false },
+  { name: 'COM STANDBY FREQUENCY', index: COMS, units: ['frequency'], settable: false },
+  { name: 'COM TRANSMIT', index: COMS, units: ['bool'], settable: false },
+  { name: 'COM RECEIVE', index: COMS, units: ['bool'], settable: false },
+  { name: 'COM VOLUME', index: COMS, units: ['ratio'], settable: false },
+  { name: 'NAV ACTIVE FREQUENCY', index: NAVS, units: ['frequency'], settable: false },
+  { name: 'NAV STANDBY FREQUENCY', index: NAVS, units: ['frequency'], settable: false },
+  { name: 'NAV OBS', index: NAVS, units: ['angle'], settable: false },
+  { name: 'NAV CDI', index: NAVS, settable: false },
+  { name: 'NAV GSI', index: NAVS, settable: false },
+  { name: 'NAV HAS NAV', index: NAVS, units: ['bool'], settable: false },
+  { name: 'NAV HAS DME', index: NAVS, units: ['bool'], settable: false },
+  { name: 'NAV HAS LOCALIZER', index: NAVS, units: ['bool'], settable: false },
+  { name: 'NAV HAS GLIDE SLOPE', index: NAVS, units: ['bool'], settable: false },
+  { name: 'NAV DME', index: NAVS, units: ['length'], settable: false },
+  { name: 'NAV RADIAL', index: NAVS, units: ['angle'], settable: false },
+  { name: 'NAV IDENT', index: NAVS, units: ['string'], settable: false },
+  { name: 'NAV SIGNAL', index: NAVS, settable: false },
+  { name: 'NAV VOLUME', index: NAVS, units: ['ratio'], settable: false },
+  { name: 'ADF ACTIVE FREQUENCY', index: ADFS, units: ['frequency'], settable: false },
+  { name: 'ADF STANDBY FREQUENCY', index: ADFS, units: ['frequency'], settable: false },
+  { name: 'ADF RADIAL', index: ADFS, units: ['angle'], settable: false },
+  { name: 'ADF SIGNAL', index: ADFS, settable: false },
+  { name: 'TRANSPONDER CODE', index: { min: 1, max: 2, optional: true }, settable: false },
+  { name: 'TRANSPONDER STATE', index: { min: 1, max: 2, optional: true }, settable: true },
+  { name: 'MARKER BEACON STATE', settable: false },
+
+  // GPS
+  { name: 'GPS IS ACTIVE FLIGHT PLAN', units: ['bool'], settable: false },
+  { name: 'GPS WP DISTANCE', units: ['length'], settable: false },
+  { name: 'GPS WP BEARING', units: ['angle'], settable: false },
+  { name: 'GPS WP DESIRED TRACK', units: ['angle'], settable: false },
+  { name: 'GPS WP CROSS TRK', units: ['length'], settable: false },
+  { name: 'GPS WP NEXT ID', units: ['string'], settable: false },
+  { name: 'GPS OBS ACTIVE', units: ['bool'], settable: false },
+  { name: 'GPS OBS VALUE', units: ['angle'], settable: false },
+  { name: 'GPS DRIVES NAV1', units: ['bool'], settable: false },
+
+  // Engines and fuel
+  { name: 'NUMBER OF ENGINES', settable: false },
+  { name: 'ENGINE TYPE', settable: false },
+  { name: 'ENGINE RPM', index: ENGINES, settable: false },
+  { name: 'GENERAL ENG RPM', index: ENGINES, settable: false },
+  { name: 'GENERAL ENG COMBUSTION', index: ENGINES, units: ['bool'], settable: true },
+  { name: 'GENERAL ENG THROTTLE LEVER POSITION', index: ENGINES, units: ['ratio'], settable: true },
+  { name: 'GENERAL ENG MIXTURE LEVER POSITION', index: ENGINES, units: ['ratio'], settable: true },
+  { name: 'GENERAL ENG PROPELLER LEVER POSITION', index: ENGINES, units: ['ratio'], settable: true },
+  { name: 'GENERAL ENG OIL TEMPERATURE', index: ENGINES, units: ['temperature'], settable: false },
+  { name: 'GENERAL ENG OIL PRESSURE', index: ENGINES, units: ['pressure'], settable: false },
+  { name: 'GENERAL ENG EXHAUST GAS TEMPERATURE', index: ENGINES, units: ['temperature'], settable: true },
+  { name: 'GENERAL ENG FUEL PRESSURE', index: ENGINES, units: ['pressure'], settable: true },
+  { name: 'GENERAL ENG ELAPSED TIME', index: ENGINES, units: ['time'], settable: false },
+  { name: 'ENG OIL TEMPERATURE', index: ENGINES, units: ['temperature'], settable: false },
+  { name: 'ENG OIL PRESSURE', index: ENGINES, units: ['pressure'], settable: false },
+  { name: 'ENG MANIFOLD PRESSURE', index: ENGINES, units: ['pressure'], settable: false },
+  { name: 'ENG EXHAUST GAS TEMPERATURE', index: ENGINES, units: ['temperature'], settable: false },
+  { name: 'ENG CYLINDER HEAD TEMPERATURE', index: ENGINES, units: ['temperature'], settable: false },
+  { name: 'ENG FUEL FLOW GPH', index: ENGINES, settable: false },
+  { name: 'ENG FUEL FLOW PPH', index: ENGINES, settable: false },
+  { name: 'ENG TORQUE', index: ENGINES, settable: false },
+  { name: 'ENG N1 RPM', index: ENGINES, units: ['ratio'], settable: false },
+  { name: 'ENG N2 RPM', index: ENGINES, units: ['ratio'], settable: false },
+  { name: 'TURB ENG N1', index: ENGINES, units: ['ratio'], settable: false },
+  { name: 'TURB ENG N2', index: ENGINES, units: ['ratio'], settable: false },
+  { name: 'TURB ENG ITT', index: ENGINES, units: ['temperature'], settable: false },
+  { name: 'ENG ON FIRE', index: ENGINES, units: ['bool'], settable: true },
+  { name: 'FUEL TOTAL QUANTITY', units: ['volume'], settable: false },
+  { name: 'FUEL TOTAL QUANTITY WEIGHT', units: ['mass'], settable: false },
+  { name: 'FUEL TOTAL CAPACITY', units: ['volume'], settable: false },
+  { name: 'FUEL WEIGHT PER GALLON', settable: false },
+  { name: 'FUEL LEFT QUANTITY', units: ['volume'], settable: false },
+  { name: 'FUEL RIGHT QUANTITY', units: ['volume'], settable: false },
+  { name: 'FUEL TANK LEFT MAIN QUANTITY', units: ['volume'], settable: true },
+  { name: 'FUEL TANK RIGHT MAIN QUANTITY', units: ['volume'], settable: true },
+  { name: 'FUEL TANK CENTER QUANTITY', units: ['volume'], settable: true },
+  { name: 'FUEL TANK SELECTOR', index: ENGINES, settable: false },
+
+  // Electrical
+  { name: 'ELECTRICAL MASTER BATTERY', index: BATTERIES, units: ['bool'], settable: false },
+  { name: 'ELECTRICAL MAIN BUS VOLTAGE', index: { min: 1, max: 4, optional: true }, settable: false },
+  { name: 'ELECTRICAL BATTERY VOLTAGE', index: BATTERIES, settable: false },
+  { name: 'ELECTRICAL BUS VOLTAGE', index: { min: 1, max: 99 }, settable: false },
+  { name: 'ELECTRICAL CIRCUIT ON', index: { min: 1, max: 99 }, units: ['bool'], settable: false },
+  { name: 'CIRCUIT ON', index: { min: 1, max: 99 }, units: ['bool'], settable: false },
+  { name: 'CIRCUIT SWITCH ON', index: { min: 1, max: 99 }, units: ['bool'], settable: false },
+  { name: 'AVIONICS MASTER SWITCH', index: { min: 1, max: 2, optional: true }, units: ['bool'], settable: false },
+  { name: 'ELECTRICAL GENERATOR SWITCH', index: ENGINES, units: ['bool'], settable: false },
+  { name: 'EXTERNAL POWER ON', index: { min: 1, max: 2, optional: true }, units: ['bool'], settable: false },
+
+  // Controls, gear and lights
+  { name: 'GEAR HANDLE POSITION', units: ['bool', 'ratio'], settable: true },
+  { name: 'GEAR POSITION', index: { min: 0, max: 2, optional: true }, settable: false },
+  { name: 'GEAR IS ON GROUND', index: { min: 0, max: 2, optional: true }, units: ['bool'], settable: false },
+  { name: 'BRAKE PARKING POSITION', units: ['bool', 'ratio'], settable: false },
+  { name: 'BRAKE LEFT POSITION', units: ['ratio'], settable: true },
+  { name: 'BRAKE RIGHT POSITION', units: ['ratio'], settable: true },
+  { name: 'FLAPS HANDLE INDEX', index: { min: 1, max: 2, optional: true }, settable: true },
+  { name: 'FLAPS HANDLE PERCENT', units: ['ratio'], settable: false },
+  { name: 'TRAILING EDGE FLAPS LEFT ANGLE', units: ['angle'], settable: true },
+  { name: 'TRAILING EDGE FLAPS RIGHT ANGLE', units: ['angle'], settable: true },
+  { name: 'ELEVATOR TRIM POSITION', units: ['angle'], settable: true },
+  { name: 'ELEVATOR TRIM PCT', units: ['ratio'], settable: false },
+  { name: 'AILERON TRIM PCT', units: ['ratio'], settable: true },
+  { name: 'RUDDER TRIM PCT', units: ['ratio'], settable: true },
+  { name: 'SPOILERS HANDLE POSITION', units: ['ratio'], settable: true },
+  { name: 'STALL WARNING', units: ['bool'], settable: false },
+  { name: 'OVERSPEED WARNING', units: ['bool'], settable: false },
+  { name: 'PITOT HEAT', units: ['bool'], settable: false },
+  { name: 'LIGHT NAV', units: ['bool'], settable: false },
+  { name: 'LIGHT BEACON', units: ['bool'], settable: false },
+  { name: 'LIGHT LANDING', units: ['bool'], settable: false },
+  { name: 'LIGHT TAXI', units: ['bool'], settable: false },
+  { name: 'LIGHT STROBE', units: ['bool'], settable: false },
+  { name: 'LIGHT PANEL', units: ['bool'], settable: false },
+  { name: 'LIGHT POTENTIOMETER', index: { min: 1, max: 99 }, units: ['ratio'], settable: false },
+
+  // Aircraft info
+  { name: 'TITLE', units: ['string'], settable: false },
+  { name: 'ATC ID', units: ['string'], settable: true },
+  { name: 'ATC AIRLINE', units: ['string'], settable: true },
+  { name: 'ATC FLIGHT NUMBER', units: ['string'], settable: true },
+  { name: 'ATC MODEL', units: ['string'], settable: false },
+  { name: 'ATC TYPE', units: ['string'], settable: false },
+  { name: 'TOTAL WEIGHT', units: ['mass'], settable: false },
+  { name: 'EMPTY WEIGHT', units: ['mass'], settable: true },
+  { name: 'MAX GROSS WEIGHT', units: ['mass'], settable: false },
+  { name: 'CG PERCENT', units: ['ratio'], settable: false },
+  { name: 'DESIGN SPEED VS0', units: ['speed'], settable: false },
+  { name: 'DESIGN SPEED VS1', units: ['speed'], settable: false },
+  { name: 'DESIGN SPEED VC', units: ['speed'], settable: false },
+];
+
+const ENTRIES_BY_NAME: Map<string, SimVarCatalogEntry> = new Map();
+CATALOG.forEach(entry => ENTRIES_BY_NAME.set(entry.name, entry));
+
+/**
+ * Split the index off a SimVar name (`ENGINE RPM:2` -> `ENGINE RPM`, 2)
+ */
+export function parseSimVarIndex(name: string): { name: string; index?: number } {
+  const match = /^(.*?)\s*:\s*(\d+)$/.exec(name.trim());
+  return match ? { name: match[1], index: Number(match[2]) } : { name: name.trim() };
+}
+
+/**
+ * Get the catalog entry of an A: SimVar (with or without index), or undefined if unknown
+ */
+export function getSimVarCatalogEntry(name: string): SimVarCatalogEntry | undefined {
+  return ENTRIES_BY_NAME.get(parseSimVarIndex(name).name.toUpperCase());
+}
+
+/**
+ * Get all catalog entries
+ */
+export function getSimVarCatalog(): SimVarCatalogEntry[] {
+  return Array.from(ENTRIES_BY_NAME.values());
+}
+
+/**
+ * Add (or replace) catalog entries, e.g. for aircraft-specific SimVars
+ */
+export function registerSimVarCatalogEntries(entries: SimVarCatalogEntry[]): void {
+  entries.forEach(entry => ENTRIES_BY_NAME.set(entry.name.toUpperCase(), { ...entry, name: entry.name.toUpperCase() }));
+}
+
+/**
+ * Validate an access to an A: SimVar (name without prefix, with index) against the catalog.
+ * Writability is only checked for writes from instruments.
+ */
+export function validateSimVarAccess(
+  name: string,
+  unit: string,
+  access: 'read' | 'write' | 'instrument-write',
+  slewActive: boolean = false
+): SimVarCatalogIssue[] {
+  const { name: bare, index } = parseSimVarIndex(name);
+  const entry = ENTRIES_BY_NAME.get(bare.toUpperCase());
+  if (!entry) {
+    return [{ kind: 'unknown', message: `SimVar ${name} is not in the SimVar catalog` }];
+  }
+
+  const issues: SimVarCatalogIssue[] = [];
+
+  if (entry.index) {
+    if (index === undefined) {
+      if (!entry.index.optional) {
+        issues.push({ kind: 'index', message: `SimVar ${bare} is indexed and needs an index between ${entry.index.min} and ${entry.index.max}` });
+      }
+    } else if (index < entry.index.min || index > entry.index.max) {
+      issues.push({ kind: 'index', message: `SimVar ${name} has index ${index} outside of ${entry.index.min}..${entry.index.max}` });
+    }
+  } else if (index !== undefined) {
+    issues.push({ kind: 'index', message: `SimVar ${bare} is not indexed but was used with index ${index}` });
+  }
+
+  const unitIssue = checkUnit(entry, unit);
+  if (unitIssue) {
+    issues.push({ kind: 'unit', message: `SimVar ${name} cannot be used in ${unit}: ${unitIssue}` });
+  }
+
+  if (access === 'instrument-write') {
+    if (entry.settable === false) {
+      issues.push({ kind: 'read-only', message: `SimVar ${name} is not settable` });
+    } else if (entry.settable === 'slew' && !slewActive) {
+      issues.push({ kind: 'read-only', message: `SimVar ${name} is only settable in slew mode (IS SLEW ACTIVE)` });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Describe why a unit cannot be used with a catalog entry, or return undefined if it can
+ */
+function checkUnit(entry: SimVarCatalogEntry, unit: string): string | undefined {
+  const normalized = (unit || '').trim().toLowerCase();
+  if (entry.struct) {
+    return normalized === entry.struct ? undefined : `expected the ${entry.struct} struct unit`;
+  }
+  if (getSimVarStructType(unit)) {
+    return 'struct units can only be used with struct SimVars';
+  }
+
+  const family = getSimVarUnitFamily(unit);
+  if (!entry.units || family === undefined || family === 'bool' || entry.units.includes(family)) {
+    return undefined;
+  }
+  return `expected a unit of ${entry.units.join(' or ')}, got ${family}`;
+}
@@ -2,12 +2,37 @@
  * Mock implementation of SimVar API for testing MSFS instruments.
  * 
  * This provides a complete simulation of the SimVar system, allowing you to:
- * - Set and get SimVar values
+ * - Set and get SimVar values, converted between units like the simulator does
  * - Register SimVars for efficient access
- * - Simulate different data types (number, string, bool, structs)
+ * - Simulate different data types (number, string, bool, structs such as LatLongAlt)
  * - Track SimVar access for testing
+ * - Watch SimVar writes from tests or instruments
+ * - Record K: events and apply their effect on the aircraft state
+ * - Catch reads of SimVars that were never set (strict mode)
+ * - Validate units, indexes and writability against the SimVar catalog
+ * - Snapshot and restore the whole state, load and export JSON fixtures
  */
 
+import { areSimVarUnitsCompatible, convertSimVarUnit, getSimVarUnitFamily } from './SimVarUnits';
+import { parseSimVarName, ParsedSimVarName } from './SimVarNames';
+import { HEventMock } from './HEventMock';
+import { KeyEventMock } from './KeyEventMock';
+import { createCurrentInstanceProxy } from './CurrentInstance';
+import { SimVarCatalogIssue, validateSimVarAccess } from './SimVarCatalog';
+import {
+  createEmptySimVarStruct,
+  getSimVarStructType,
+  LatLongAltPBHStruct,
+  LatLongAltStruct,
+  PidStruct,
+  PitchBankHeadingStruct,
+  SIMVAR_STRUCT_MIRRORS,
+  SimVarStructMap,
+  SimVarStructMirror,
+  SimVarStructType,
+  XYZStruct,
+} from './SimVarStructs';
+
 export interface SimVarValue {
   value: any;
   unit: string;
@@ -24,24 +49,155 @@ export interface SimVarAccessLog {
   timestamp: number;
 }
 
+/** Seconds between 0001-01-01 and 1970-01-01, the origin of E:ABSOLUTE TIME */
+const SECONDS_FROM_YEAR_ONE_TO_EPOCH = 62135596800;
+
+/** Root of the framework sources, whose frames are skipped when reporting call sites */
+const FRAMEWORK_ROOT = __dirname.replace(/[\\/]mocks$/, '');
+
+export interface SimVarSetEvent {
+  name: string;
+  unit: string;
+  dataSource: string;
+  value: any;
+  previousValue?: any;
+  timestamp: number;
+}
+
+export type SimVarWatchCallback = (value: any, previousValue: any, event: SimVarSetEvent) => void;
+
+export type SimVarSetListener = (event: SimVarSetEvent) => void;
+
+/**
+ * Strict mode options
+ */
+export interface SimVarStrictOptions {
+  /** `throw` fails the offending read, `collect` records it (default: `collect`) */
+  mode?: 'throw' | 'collect';
+  /** SimVar names or patterns that may be read without being set */
+  allowlist?: Array<string | RegExp>;
+}
+
+/**
+ * Read of a SimVar that was never set, recorded in strict mode
+ */
+export interface SimVarStrictViolation {
+  name: string;
+  unit: string;
+  dataSource: string;
+  callSite?: string;
+  timestamp: number;
+}
+
+/**
+ * Catalog validation options
+ */
+export interface SimVarCatalogOptions {
+  /** `warn` logs, `throw` fails the offending access, `collect` records it (default: `warn`) */
+  mode?: 'warn' | 'throw' | 'collect';
+  /** Also report A: SimVars missing from the catalog (default: false) */
+  reportUnknown?: boolean;
+}
+
+/**
+ * Access that does not match the SimVar catalog
+ */
+export interface SimVarCatalogViolation extends SimVarCatalogIssue {
+  name: string;
+  unit: string;
+  dataSource: string;
+  operation: 'get' | 'set';
+  callSite?: string;
+  timestamp: number;
+}
+
+/**
+ * Origin of a SimVar write: tests may set any SimVar, instruments only settable ones
+ */
+export type SimVarWriteOrigin = 'test' | 'instrument';
+
+/**
+ * Copy of the SimVar state taken by snapshot()
+ */
+export interface SimVarSnapshot {
+  simVars: Array<[string, SimVarValue]>;
+  registeredSimVars: Array<[string, number]>;
+  nextRegisteredId: number;
+  accessLog: SimVarAccessLog[];
+}
+
+/**
+ * Aircraft state stored as JSON.
+ * `simvars` is keyed by `NAME|unit` (or `NAME|unit|dataSource`), e.g. `"PLANE ALTITUDE|feet": 35000`.
+ */
+export interface SimVarFixture {
+  name?: string;
+  description?: string;
+  simvars: Record<string, any>;
+}
+
+export interface SimVarFixtureLoadOptions {
+  /** Apply the fixture on top of the current values instead of the defaults (default: false) */
+  merge?: boolean;
+}
+
+/**
+ * Handle returned by watch()/onAnySet()
+ */
+export interface SimVarWatchHandle {
+  destroy(): void;
+}
+
+interface SimVarWatcher {
+  name: string;
+  unit: string;
+  dataSource: string;
+  callback: SimVarWatchCallback;
+}
+
 /**
  * Mock SimVar implementation for testing
+ *
+ * Each SimVar holds a single value, stored in the unit it was last written with.
+ * Reads convert that value into the requested unit (e.g. `feet` -> `meters`).
  */
 export class SimVarMock {
   private static instance: SimVarMock;
+  private static current: SimVarMock | null = null;
   private simVars: Map<string, SimVarValue> = new Map();
   private registeredIds: Map<number, string> = new Map();
   private registeredSimVars: Map<string, number> = new Map();
   private nextRegisteredId: number = 0;
   private accessLog: SimVarAccessLog[] = [];
   private maxLogSize: number = 10000;
+  private watchers: Set<SimVarWatcher> = new Set();
+  private now: () => number = () => Date.now();
+  private simulationStartTime: number = Date.now();
+  private strictOptions: SimVarStrictOptions | null = null;
+  private strictViolations: SimVarStrictViolation[] = [];
+  private catalogOptions: SimVarCatalogOptions | null = null;
+  private catalogViolations: SimVarCatalogViolation[] = [];
+
+  /**
+   * Key event (K:) system: history and reactions
+   */
+  readonly keyEvents: KeyEventMock = new KeyEventMock(this);
 
-  private constructor() {
+  /**
+   * H event (H:) system: history and listeners
+   */
+  readonly hEvents: HEventMock = new HEventMock();
+  private setListeners: Set<SimVarSetListener> = new Set();
+
+  /**
+   * Create an isolated instance (each TestEnvironment owns one)
+   */
+  constructor() {
     this.initializeDefaults();
   }
 
   /**
-   * Get singleton instance
+   * Get the default instance, used while no TestEnvironment is active
    */
   static getInstance(): SimVarMock {
     if (!SimVarMock.instance) {
@@ -50,6 +206,20 @@ export class SimVarMock {
     return SimVarMock.instance;
   }
 
+  /**
+   * Get the current instance: the one of the active TestEnvironment, or the default instance
+   */
+  static getCurrent(): SimVarMock {
+    return SimVarMock.current ?? SimVarMock.getInstance();
+  }
+
+  /**
+   * Make an instance current (`simVarMock` forwards to it); `null` goes back to the default instance
+   */
+  static setCurrent(mock: SimVarMock | null): void {
+    SimVarMock.current = mock;
+  }
+
   /**
    * Initialize default SimVars with common values
    */
@@ -66,50 +236,207 @@ export class SimVarMock {
     this.setSimVarValue('SIM ON GROUND', 'bool', 1);
     this.setSimVarValue('ENGINE RPM:1', 'Rpm', 0);
     this.setSimVarValue('GENERAL ENG THROTTLE LEVER POSITION:1', 'percent', 0);
+    this.setSimVarValue('SEA LEVEL PRESSURE', 'millibars', 1013.25);
+    this.setSimVarValue('KOHLSMAN SETTING MB:1', 'millibars', 1013.25);
+    this.setSimVarValue('KOHLSMAN SETTING HG:1', 'inHg', 29.92);
   }
 
   /**
    * Get a SimVar value
    */
   getSimVarValue(name: string, unit: string, dataSource: string = ''): any {
-    const key = this.getKey(name, unit, dataSource);
-    const simVar = this.simVars.get(key);
+    const structType = getSimVarStructType(unit);
+    if (structType) {
+      return this.getStruct(name, structType, dataSource);
+    }
+
+    const parsed = parseSimVarName(name);
+    this.checkCatalog(parsed, unit, dataSource, 'get');
+    const value = this.readValue(parsed, unit, dataSource);
     
-    this.logAccess(name, unit, 'get', simVar?.value);
+    this.logAccess(parsed.key, unit, 'get', value);
     
-    if (simVar) {
-      simVar.accessCount = (simVar.accessCount || 0) + 1;
-      simVar.lastAccessTime = Date.now();
-      return simVar.value;
+    if (value !== undefined) {
+      return value;
     }
     
+    this.checkStrictRead(parsed, unit, dataSource);
+
     // Return default based on unit type
     return this.getDefaultValue(unit);
   }
 
   /**
    * Set a SimVar value
+   *
+   * `A:` prefixes are stripped, `L:`/`Z:` vars are stored as numbers, `E:` vars are
+   * read-only (use setEnvironmentVar() from tests) and `B:` writes understand the
+   * `_Set`, `_Inc`, `_Dec`, `_Toggle`, `_On` and `_Off` input event suffixes.
+   * `K:` writes fire a key event with the value as its argument.
+   * Writes from instruments (`SimVar.SetSimVarValue`) must target settable SimVars.
    */
-  setSimVarValue(name: string, unit: string, value: any, dataSource: string = ''): void {
-    const key = this.getKey(name, unit, dataSource);
-    const existing = this.simVars.get(key);
-    
-    this.simVars.set(key, {
-      value: this.coerceValue(value, unit),
-      unit,
-      dataSource,
-      accessCount: existing?.accessCount || 0,
-      lastAccessTime: Date.now()
-    });
-    
-    this.logAccess(name, unit, 'set', value);
+  setSimVarValue(name: string, unit: string, value: any, dataSource: string = '', origin: SimVarWriteOrigin = 'test'): void {
+    const structType = getSimVarStructType(unit);
+    if (structType) {
+      this.setStruct(name, structType, value, dataSource, origin);
+      return;
+    }
+
+    const parsed = parseSimVarName(name);
+    this.checkCatalog(parsed, unit, dataSource, 'set', origin);
+
+    switch (parsed.prefix) {
+      case 'E':
+        console.warn(`SimVar ${parsed.key} is read-only and cannot be set`);
+        return;
+      case 'B':
+        this.setInputEventValue(parsed, unit, value, dataSource);
+        return;
+      case 'K':
+        this.keyEvents.trigger(parsed.name, Number(value) || 0);
+        return;
+      case 'H':
+        this.hEvents.trigger(parsed.name, [], origin);
+        return;
+      default:
+        this.storeValue(parsed.key, unit, value, dataSource, parsed.prefix === 'L' || parsed.prefix === 'Z');
+    }
+  }
+
+  /**
+   * Get a struct SimVar (unit `latlonalt`, `latlonaltpbh`, `pbh`, `pid_struct` or `xyz`).
+   * Mirrored structs such as `STRUCT LATLONALT` are read from their scalar SimVars.
+   */
+  getStruct<T extends SimVarStructType>(name: string, type: T, dataSource: string = ''): SimVarStructMap[T] {
+    const parsed = parseSimVarName(name);
+    this.checkCatalog(parsed, type, dataSource, 'get');
+    const struct = this.readStruct(parsed, type, dataSource);
+    this.logAccess(parsed.key, type, 'get', struct);
+    if (!this.getStructMirror(parsed, dataSource) && !this.simVars.has(this.getKey(parsed.key, dataSource))) {
+      this.checkStrictRead(parsed, type, dataSource);
+    }
+    return struct;
+  }
+
+  /**
+   * Set (some members of) a struct SimVar.
+   * Mirrored structs such as `STRUCT LATLONALT` are written to their scalar SimVars.
+   */
+  setStruct<T extends SimVarStructType>(
+    name: string,
+    type: T,
+    value: Partial<SimVarStructMap[T]>,
+    dataSource: string = '',
+    origin: SimVarWriteOrigin = 'test'
+  ): void {
+    const parsed = parseSimVarName(name);
+    this.checkCatalog(parsed, type, dataSource, 'set', origin);
+    const members = value as Record<string, number>;
+    const mirror = this.getStructMirror(parsed, dataSource);
+
+    if (mirror) {
+      Object.keys(members).forEach(member => {
+        const scalar = mirror[member];
+        if (scalar) {
+          this.storeValue(scalar[0], scalar[1], members[member], '', false);
+        }
+      });
+      return;
+    }
+
+    const current = this.readStruct(parsed, type, dataSource);
+    this.storeValue(parsed.key, type, { ...current, ...members }, dataSource, false);
+  }
+
+  getLatLongAlt(name: string, dataSource: string = ''): LatLongAltStruct {
+    return this.getStruct(name, 'latlonalt', dataSource);
+  }
+
+  setLatLongAlt(name: string, value: Partial<LatLongAltStruct>, dataSource: string = ''): void {
+    this.setStruct(name, 'latlonalt', value, dataSource);
+  }
+
+  getLatLongAltPBH(name: string, dataSource: string = ''): LatLongAltPBHStruct {
+    return this.getStruct(name, 'latlonaltpbh', dataSource);
+  }
+
+  setLatLongAltPBH(name: string, value: Partial<LatLongAltPBHStruct>, dataSource: string = ''): void {
+    this.setStruct(name, 'latlonaltpbh', value, dataSource);
+  }
+
+  getPBH(name: string, dataSource: string = ''): PitchBankHeadingStruct {
+    return this.getStruct(name, 'pbh', dataSource);
+  }
+
+  setPBH(name: string, value: Partial<PitchBankHeadingStruct>, dataSource: string = ''): void {
+    this.setStruct(name, 'pbh', value, dataSource);
+  }
+
+  getPID(name: string, dataSource: string = ''): PidStruct {
+    return this.getStruct(name, 'pid_struct', dataSource);
+  }
+
+  setPID(name: string, value: Partial<PidStruct>, dataSource: string = ''): void {
+    this.setStruct(name, 'pid_struct', value, dataSource);
+  }
+
+  getXYZ(name: string, dataSource: string = ''): XYZStruct {
+    return this.getStruct(name, 'xyz', dataSource);
+  }
+
+  setXYZ(name: string, value: Partial<XYZStruct>, dataSource: string = ''): void {
+    this.setStruct(name, 'xyz', value, dataSource);
+  }
+
+  /**
+   * Set an environment (E:) variable from a test.
+   * Time variables (`E:SIMULATION TIME`, `E:ZULU TIME`, ...) are always computed from the time source.
+   */
+  setEnvironmentVar(name: string, unit: string, value: any): void {
+    this.storeValue(`E:${parseSimVarName(name).name}`, unit, value, '', false);
+  }
+
+  /**
+   * Set the time source (epoch milliseconds) used by E: time variables.
+   * The simulation time restarts at zero from the moment it is set.
+   */
+  setTimeSource(now: () => number): void {
+    this.now = now;
+    this.simulationStartTime = now();
+  }
+
+  /**
+   * Watch writes to a SimVar.
+   * The callback receives the new and previous values converted to `unit`.
+   */
+  watch(name: string, unit: string, callback: SimVarWatchCallback, dataSource: string = ''): SimVarWatchHandle {
+    const watcher: SimVarWatcher = { name: parseSimVarName(name).key, unit, dataSource, callback };
+    this.watchers.add(watcher);
+    return {
+      destroy: () => {
+        this.watchers.delete(watcher);
+      }
+    };
+  }
+
+  /**
+   * Listen to every SimVar write
+   */
+  onAnySet(listener: SimVarSetListener): SimVarWatchHandle {
+    this.setListeners.add(listener);
+    return {
+      destroy: () => {
+        this.setListeners.delete(listener);
+      }
+    };
   }
 
   /**
    * Register a SimVar for efficient access
    */
   getRegisteredId(name: string, unit: string, dataSource: string = ''): number {
-    const key = this.getKey(name, unit, dataSource);
+    const parsed = parseSimVarName(name);
+    const key = this.getRegistrationKey(parsed.key, unit, dataSource);
     
     if (this.registeredSimVars.has(key)) {
       return this.registeredSimVars.get(key)!;
@@ -119,44 +446,213 @@ export class SimVarMock {
     this.registeredSimVars.set(key, id);
     this.registeredIds.set(id, key);
     
-    // Initialize if not exists
-    if (!this.simVars.has(key)) {
-      this.setSimVarValue(name, unit, this.getDefaultValue(unit), dataSource);
-    }
-    
     return id;
   }
 
   /**
-   * Get value using registered ID
+   * Get value using registered ID (the unit's default value if the SimVar was never set)
    */
   getValueReg(registeredId: number): any {
-    const key = this.registeredIds.get(registeredId);
-    if (!key) {
+    const registrationKey = this.registeredIds.get(registeredId);
+    if (!registrationKey) {
       return null;
     }
     
-    const simVar = this.simVars.get(key);
-    if (simVar) {
-      simVar.accessCount = (simVar.accessCount || 0) + 1;
-      simVar.lastAccessTime = Date.now();
-      return simVar.value;
-    }
+    const [name, unit, dataSource] = this.parseRegistrationKey(registrationKey);
+    const parsed = parseSimVarName(name);
+    this.checkCatalog(parsed, unit, dataSource, 'get');
+    const value = this.readValue(parsed, unit, dataSource);
     
-    return null;
+    if (value !== undefined) {
+      return value;
+    }
+
+    this.checkStrictRead(parsed, unit, dataSource);
+    return this.getDefaultValue(unit);
   }
 
   /**
    * Set value using registered ID
    */
-  setValueReg(registeredId: number, value: any): void {
+  setValueReg(registeredId: number, value: any, origin: SimVarWriteOrigin = 'test'): void {
     const key = this.registeredIds.get(registeredId);
     if (!key) {
       return;
     }
     
-    const [name, unit, dataSource] = this.parseKey(key);
-    this.setSimVarValue(name, unit, value, dataSource);
+    const [name, unit, dataSource] = this.parseRegistrationKey(key);
+    this.setSimVarValue(name, unit, value, dataSource, origin);
+  }
+
+  /**
+   * Enable strict mode: reads of SimVars that were never set are reported instead of
+   * silently returning the unit's default value
+   */
+  enableStrictMode(options: SimVarStrictOptions = {}): void {
+    this.strictOptions = { mode: 'collect', allowlist: [], ...options };
+    this.strictViolations = [];
+  }
+
+  /**
+   * Disable strict mode
+   */
+  disableStrictMode(): void {
+    this.strictOptions = null;
+  }
+
+  /**
+   * Check if strict mode is enabled
+   */
+  isStrictMode(): boolean {
+    return this.strictOptions !== null;
+  }
+
+  /**
+   * Add names or patterns to the strict mode allowlist
+   */
+  allowUnsetSimVars(...names: Array<string | RegExp>): void {
+    if (this.strictOptions) {
+      this.strictOptions.allowlist = [...(this.strictOptions.allowlist || []), ...names];
+    }
+  }
+
+  /**
+   * Get reads of unset SimVars recorded in strict mode
+   */
+  getStrictViolations(): SimVarStrictViolation[] {
+    return [...this.strictViolations];
+  }
+
+  /**
+   * Clear recorded strict mode violations
+   */
+  clearStrictViolations(): void {
+    this.strictViolations = [];
+  }
+
+  /**
+   * Summarize strict mode violations by SimVar name and unit, with their call sites
+   */
+  formatStrictViolations(violations: SimVarStrictViolation[] = this.strictViolations): string {
+    const groups = new Map<string, { violation: SimVarStrictViolation; count: number; callSites: Set<string> }>();
+    violations.forEach(violation => {
+      const key = `${violation.name}|${violation.unit}|${violation.dataSource}`;
+      const group = groups.get(key) || { violation, count: 0, callSites: new Set<string>() };
+      group.count++;
+      if (violation.callSite) {
+        group.callSites.add(violation.callSite);
+      }
+      groups.set(key, group);
+    });
+
+    const lines = [`${violations.length} read(s) of SimVars that were never set:`];
+    groups.forEach(({ violation, count, callSites }) => {
+      const source = violation.dataSource ? ` [${violation.dataSource}]` : '';
+      lines.push(`  ${violation.name} (${violation.unit})${source} x${count}`);
+      callSites.forEach(callSite => lines.push(`    at ${callSite}`));
+    });
+    return lines.join('\n');
+  }
+
+  /**
+   * Enable validation of SimVar accesses against the SimVar catalog (off by default; `warn` mode unless given)
+   */
+  enableCatalogValidation(options: SimVarCatalogOptions = {}): void {
+    this.catalogOptions = { mode: 'warn', reportUnknown: false, ...options };
+    this.catalogViolations = [];
+  }
+
+  /**
+   * Disable catalog validation
+   */
+  disableCatalogValidation(): void {
+    this.catalogOptions = null;
+  }
+
+  /**
+   * Get accesses that did not match the SimVar catalog
+   */
+  getCatalogViolations(): SimVarCatalogViolation[] {
+    return [...this.catalogViolations];
+  }
+
+  /**
+   * Clear recorded catalog violations
+   */
+  clearCatalogViolations(): void {
+    this.catalogViolations = [];
+  }
+
+  /**
+   * Take a copy of the SimVar values, registered IDs and access log
+   */
+  snapshot(): SimVarSnapshot {
+    return {
+      simVars: Array.from(this.simVars.entries()).map(([key, simVar]) => [key, this.copySimVarValue(simVar)]),
+      registeredSimVars: Array.from(this.registeredSimVars.entries()),
+      nextRegisteredId: this.nextRegisteredId,
+      accessLog: this.accessLog.map(entry => ({ ...entry })),
+    };
+  }
+
+  /**
+   * Restore a snapshot taken with snapshot(). Watchers are kept but not notified.
+   */
+  restore(snapshot: SimVarSnapshot): void {
+    this.simVars = new Map(snapshot.simVars.map(([key, simVar]) => [key, this.copySimVarValue(simVar)]));
+    this.registeredSimVars = new Map(snapshot.registeredSimVars);
+    this.registeredIds = new Map(snapshot.registeredSimVars.map(([key, id]) => [id, key]));
+    this.nextRegisteredId = snapshot.nextRegisteredId;
+    this.accessLog = snapshot.accessLog.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Load an aircraft state. Unless `merge` is set, SimVars go back to the defaults first.
+   * Values are written like tests write them, so watchers are notified.
+   */
+  loadFixture(fixture: SimVarFixture | string, options: SimVarFixtureLoadOptions = {}): void {
+    const data: SimVarFixture = typeof fixture === 'string' ? JSON.parse(fixture) : fixture;
+    if (!data || typeof data.simvars !== 'object' || data.simvars === null) {
+      throw new Error(`SimVar fixture${data?.name ? ` ${data.name}` : ''} has no simvars`);
+    }
+
+    if (!options.merge) {
+      this.simVars.clear();
+      this.initializeDefaults();
+    }
+
+    Object.keys(data.simvars).forEach(entry => {
+      const [name, unit, dataSource] = entry.split('|').map(part => part.trim());
+      if (!name || !unit) {
+        throw new Error(`SimVar fixture entry "${entry}" must be keyed by NAME|unit`);
+      }
+      if (parseSimVarName(name).prefix === 'E') {
+        this.setEnvironmentVar(name, unit, data.simvars[entry]);
+      } else {
+        this.setSimVarValue(name, unit, data.simvars[entry], dataSource || '');
+      }
+    });
+  }
+
+  /**
+   * Export the current SimVar values as a fixture (each in the unit it was last written with)
+   */
+  exportFixture(name?: string, description?: string): SimVarFixture {
+    const simvars: Record<string, any> = {};
+    this.simVars.forEach((simVar, key) => {
+      const simVarName = key.slice(0, key.lastIndexOf('|'));
+      const entry = simVar.dataSource ? `${simVarName}|${simVar.unit}|${simVar.dataSource}` : `${simVarName}|${simVar.unit}`;
+      simvars[entry] = getSimVarStructType(simVar.unit) ? { ...simVar.value } : simVar.value;
+    });
+
+    const fixture: SimVarFixture = { simvars };
+    if (name !== undefined) {
+      fixture.name = name;
+    }
+    if (description !== undefined) {
+      fixture.description = description;
+    }
+    return fixture;
   }
 
   /**
@@ -174,21 +670,39 @@ export class SimVarMock {
   }
 
   /**
-   * Get all SimVars
+   * Get all SimVars, keyed by `name|dataSource`
    */
   getAllSimVars(): Map<string, SimVarValue> {
     return new Map(this.simVars);
   }
 
   /**
-   * Reset all SimVars to defaults
+   * Reset all SimVars to defaults, and turn off strict mode, catalog validation and the time source
    */
   reset(): void {
+    this.strictOptions = null;
+    this.catalogOptions = null;
+    this.now = () => Date.now();
+    this.clearState();
+  }
+
+  /**
+   * Reset all SimVars to defaults and clear history, listeners and violations, keeping strict mode,
+   * catalog validation and the time source (the simulation time restarts at zero)
+   */
+  clearState(): void {
     this.simVars.clear();
     this.registeredIds.clear();
     this.registeredSimVars.clear();
     this.nextRegisteredId = 0;
     this.accessLog = [];
+    this.watchers.clear();
+    this.setListeners.clear();
+    this.keyEvents.reset();
+    this.hEvents.reset();
+    this.strictViolations = [];
+    this.catalogViolations = [];
+    this.simulationStartTime = this.now();
     this.initializeDefaults();
   }
 
@@ -196,8 +710,9 @@ export class SimVarMock {
    * Get SimVar by name (first match)
    */
   getSimVar(name: string): SimVarValue | undefined {
-    for (const [key, value] of this.simVars.entries()) {
-      if (key.startsWith(`${name}|`)) {
+    const key = parseSimVarName(name).key;
+    for (const [storedKey, value] of this.simVars.entries()) {
+      if (storedKey.startsWith(`${key}|`)) {
         return value;
       }
     }
@@ -205,41 +720,291 @@ export class SimVarMock {
   }
 
   /**
-   * Check if SimVar exists
+   * Check if SimVar exists in a unit it can be read in (its stored unit converts to `unit`)
    */
   hasSimVar(name: string, unit: string, dataSource: string = ''): boolean {
-    return this.simVars.has(this.getKey(name, unit, dataSource));
+    const stored = this.simVars.get(this.getKey(parseSimVarName(name).key, dataSource));
+    return stored !== undefined && areSimVarUnitsCompatible(stored.unit, unit);
   }
 
-  private getKey(name: string, unit: string, dataSource: string): string {
+  /**
+   * Read a value converted to `unit`, or undefined if the SimVar was never set
+   */
+  private readValue(parsed: ParsedSimVarName, unit: string, dataSource: string): any {
+    if (parsed.prefix === 'E') {
+      const computed = this.computeEnvironmentVar(parsed.name);
+      if (computed) {
+        return convertSimVarUnit(computed.value, computed.unit, unit);
+      }
+    }
+
+    const simVar = this.simVars.get(this.getKey(parsed.key, dataSource));
+    if (!simVar) {
+      return undefined;
+    }
+
+    simVar.accessCount = (simVar.accessCount || 0) + 1;
+    simVar.lastAccessTime = Date.now();
+    return convertSimVarUnit(simVar.value, simVar.unit, unit);
+  }
+
+  /**
+   * Report a read of a SimVar that was never set, if strict mode is enabled
+   */
+  private checkStrictRead(parsed: ParsedSimVarName, unit: string, dataSource: string): void {
+    if (!this.strictOptions || parsed.prefix === 'K' || parsed.prefix === 'H') {
+      return;
+    }
+
+    const allowed = (this.strictOptions.allowlist || []).some(entry => {
+      return typeof entry === 'string'
+        ? parseSimVarName(entry).key.toUpperCase() === parsed.key.toUpperCase()
+        : entry.test(parsed.key);
+    });
+    if (allowed) {
+      return;
+    }
+
+    const violation: SimVarStrictViolation = {
+      name: parsed.key,
+      unit,
+      dataSource,
+      callSite: this.findCallSite(),
+      timestamp: Date.now()
+    };
+
+    if (this.strictOptions.mode === 'throw') {
+      throw new Error(`SimVar ${violation.name} (${unit}) was read but never set` + (violation.callSite ? ` at ${violation.callSite}` : ''));
+    }
+    this.strictViolations.push(violation);
+  }
+
+  /**
+   * Validate an A: SimVar access against the SimVar catalog, if catalog validation is enabled
+   */
+  private checkCatalog(
+    parsed: ParsedSimVarName,
+    unit: string,
+    dataSource: string,
+    operation: 'get' | 'set',
+    origin: SimVarWriteOrigin = 'test'
+  ): void {
+    if (!this.catalogOptions || parsed.prefix !== 'A') {
+      return;
+    }
+
+    const access = operation === 'get' ? 'read' : origin === 'instrument' ? 'instrument-write' : 'write';
+    const slewActive = access === 'instrument-write' && !!this.readValue(parseSimVarName('IS SLEW ACTIVE'), 'bool', '');
+    const issues = validateSimVarAccess(parsed.key, unit, access, slewActive)
+      .filter(issue => issue.kind !== 'unknown' || this.catalogOptions!.reportUnknown);
+    if (issues.length === 0) {
+      return;
+    }
+
+    const callSite = this.findCallSite();
+    issues.forEach(issue => {
+      const message = issue.message + (callSite ? ` at ${callSite}` : '');
+      switch (this.catalogOptions!.mode) {
+        case 'throw':
+          throw new Error(message);
+        case 'collect':
+          this.catalogViolations.push({ ...issue, name: parsed.key, unit, dataSource, operation, callSite, timestamp: Date.now() });
+          break;
+        default:
+          console.warn(message);
+      }
+    });
+  }
+
+  /**
+   * Find the first stack frame outside the framework
+   */
+  private findCallSite(): string | undefined {
+    const frames = (new Error().stack || '').split('\n').slice(1);
+    const frame = frames.find(line => !line.includes(FRAMEWORK_ROOT) && !line.includes('node_modules'));
+    return frame?.trim().replace(/^at /, '');
+  }
+
+  /**
+   * Read a struct from its mirrored scalars or from storage; missing members are zero
+   */
+  private readStruct<T extends SimVarStructType>(parsed: ParsedSimVarName, type: T, dataSource: string): SimVarStructMap[T] {
+    const struct = createEmptySimVarStruct(type);
+    const members = struct as unknown as Record<string, number>;
+    const mirror = this.getStructMirror(parsed, dataSource);
+
+    if (mirror) {
+      Object.keys(members).forEach(member => {
+        const scalar = mirror[member];
+        if (scalar) {
+          members[member] = Number(this.readValue(parseSimVarName(scalar[0]), scalar[1], '') ?? 0);
+        }
+      });
+      return struct;
+    }
+
+    const stored = this.readValue(parsed, type, dataSource);
+    if (stored && typeof stored === 'object') {
+      Object.keys(members).forEach(member => {
+        if (typeof stored[member] === 'number') {
+          members[member] = stored[member];
+        }
+      });
+    }
+    return struct;
+  }
+
+  private getStructMirror(parsed: ParsedSimVarName, dataSource: string): SimVarStructMirror | undefined {
+    return dataSource === '' ? SIMVAR_STRUCT_MIRRORS[parsed.key.toUpperCase()] : undefined;
+  }
+
+  /**
+   * Store a value under its storage key and notify watchers
+   */
+  private storeValue(key: string, unit: string, value: any, dataSource: string, numeric: boolean): void {
+    const storageKey = this.getKey(key, dataSource);
+    const existing = this.simVars.get(storageKey);
+    const coerced = numeric && getSimVarUnitFamily(unit) !== 'bool' ? Number(value) : this.coerceValue(value, unit);
+    
+    this.simVars.set(storageKey, {
+      value: coerced,
+      unit,
+      dataSource,
+      accessCount: existing?.accessCount || 0,
+      lastAccessTime: Date.now()
+    });
+    
+    this.logAccess(key, unit, 'set', value);
+
+    this.notifySet({
+      name: key,
+      unit,
+      dataSource,
+      value: coerced,
+      previousValue: existing ? convertSimVarUnit(existing.value, existing.unit, unit) : undefined,
+      timestamp: Date.now()
+    }, existing);
+  }
+
+  /**
+   * Apply a B: input event write
+   */
+  private setInputEventValue(parsed: ParsedSimVarName, unit: string, value: any, dataSource: string): void {
+    const match = /^(.*)_(Set|Inc|Dec|Toggle|On|Off)$/i.exec(parsed.name);
+    if (!match) {
+      this.storeValue(parsed.key, unit, value, dataSource, true);
+      return;
+    }
+
+    const key = `B:${match[1]}`;
+    const current = Number(this.readValue(parseSimVarName(key), unit, dataSource) ?? 0);
+    const step = value === undefined || value === null || Number(value) === 0 ? 1 : Number(value);
+    const next: Record<string, number> = {
+      set: Number(value),
+      inc: current + step,
+      dec: current - step,
+      toggle: current ? 0 : 1,
+      on: 1,
+      off: 0,
+    };
+    this.storeValue(key, unit, next[match[2].toLowerCase()], dataSource, true);
+  }
+
+  /**
+   * Compute E: time variables from the time source
+   */
+  private computeEnvironmentVar(name: string): { value: number; unit: string } | undefined {
+    const now = this.now();
+    const date = new Date(now);
+    const secondsOfDay = date.getUTCHours() * 3600 + date.getUTCMinutes() * 60 + date.getUTCSeconds() + date.getUTCMilliseconds() / 1000;
+
+    switch (name.toUpperCase()) {
+      case 'SIMULATION TIME':
+        return { value: (now - this.simulationStartTime) / 1000, unit: 'seconds' };
+      case 'ABSOLUTE TIME':
+        return { value: now / 1000 + SECONDS_FROM_YEAR_ONE_TO_EPOCH, unit: 'seconds' };
+      case 'ZULU TIME':
+      case 'LOCAL TIME':
+        return { value: secondsOfDay, unit: 'seconds' };
+      case 'ZULU DAY OF WEEK':
+        return { value: date.getUTCDay(), unit: 'number' };
+      case 'ZULU DAY OF MONTH':
+        return { value: date.getUTCDate(), unit: 'number' };
+      case 'ZULU MONTH OF YEAR':
+        return { value: date.getUTCMonth() + 1, unit: 'number' };
+      case 'ZULU DAY OF YEAR':
+        return { value: Math.floor((now - Date.UTC(date.getUTCFullYear(), 0, 1)) / 86400000) + 1, unit: 'number' };
+      case 'ZULU YEAR':
+        return { value: date.getUTCFullYear(), unit: 'number' };
+      default:
+        return undefined;
+    }
+  }
+
+  private copySimVarValue(simVar: SimVarValue): SimVarValue {
+    const value = simVar.value && typeof simVar.value === 'object' ? { ...simVar.value } : simVar.value;
+    return { ...simVar, value };
+  }
+
+  private getKey(name: string, dataSource: string): string {
+    return `${name}|${dataSource}`;
+  }
+
+  private getRegistrationKey(name: string, unit: string, dataSource: string): string {
     return `${name}|${unit}|${dataSource}`;
   }
 
-  private parseKey(key: string): [string, string, string] {
+  private parseRegistrationKey(key: string): [string, string, string] {
     const parts = key.split('|');
     return [parts[0], parts[1], parts[2] || ''];
   }
 
   private getDefaultValue(unit: string): any {
-    if (unit.toLowerCase().includes('bool')) {
-      return 0;
-    }
-    if (unit.toLowerCase().includes('string')) {
+    if (getSimVarUnitFamily(unit) === 'string') {
       return '';
     }
     return 0;
   }
 
   private coerceValue(value: any, unit: string): any {
-    if (unit.toLowerCase().includes('bool')) {
+    if (getSimVarStructType(unit)) {
+      return { ...value };
+    }
+    const family = getSimVarUnitFamily(unit);
+    if (family === 'bool') {
       return value ? 1 : 0;
     }
-    if (unit.toLowerCase().includes('string')) {
+    if (family === 'string') {
       return String(value);
     }
     return Number(value);
   }
 
+  private notifySet(event: SimVarSetEvent, previous?: SimVarValue): void {
+    this.watchers.forEach(watcher => {
+      if (watcher.name !== event.name || watcher.dataSource !== event.dataSource) {
+        return;
+      }
+      try {
+        watcher.callback(
+          convertSimVarUnit(event.value, event.unit, watcher.unit),
+          previous ? convertSimVarUnit(previous.value, previous.unit, watcher.unit) : undefined,
+          event
+        );
+      } catch (error) {
+        console.error(`Error in SimVar watcher for ${event.name}:`, error);
+      }
+    });
+
+    this.setListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in SimVar set listener for ${event.name}:`, error);
+      }
+    });
+  }
+
   private logAccess(name: string, unit: string, operation: 'get' | 'set', value?: any): void {
     this.accessLog.push({
       name,
@@ -257,9 +1022,42 @@ export class SimVarMock {
 }
 
 /**
- * Global SimVar mock instance
+ * Current SimVar mock: forwards to the instance of the active TestEnvironment,
+ * or to the default instance when none is active
+ */
+export const simVarMock: SimVarMock = createCurrentInstanceProxy(() => SimVarMock.getCurrent(), SimVarMock.prototype);
+
+/**
+ * Create the `SimVar` global object backed by a SimVarMock
+ */
+export function createSimVarGlobal(mock: SimVarMock): any {
+  return {
+    GetSimVarValue: (name: string, unit: string, dataSource: string = '') => {
+      return mock.getSimVarValue(name, unit, dataSource);
+    },
+    SetSimVarValue: (name: string, unit: string, value: any, dataSource: string = '') => {
+      return Promise.resolve(mock.setSimVarValue(name, unit, value, dataSource, 'instrument'));
+    },
+    GetRegisteredId: (name: string, unit: string, dataSource: string = '') => {
+      return mock.getRegisteredId(name, unit, dataSource);
+    },
+  };
+}
+
+/**
+ * Create the `simvar` global object (fast paths used by the SDK) backed by a SimVarMock
  */
-export const simVarMock = SimVarMock.getInstance();
+export function createSimvarGlobal(mock: SimVarMock): any {
+  return {
+    getValueReg: (id: number) => mock.getValueReg(id),
+    getValueReg_String: (id: number) => mock.getValueReg(id),
+    getValue_LatLongAlt: (name: string, dataSource: string = '') => mock.getLatLongAlt(name, dataSource),
+    getValue_LatLongAltPBH: (name: string, dataSource: string = '') => mock.getLatLongAltPBH(name, dataSource),
+    getValue_PBH: (name: string, dataSource: string = '') => mock.getPBH(name, dataSource),
+    getValue_PID_STRUCT: (name: string, dataSource: string = '') => mock.getPID(name, dataSource),
+    getValue_XYZ: (name: string, dataSource: string = '') => mock.getXYZ(name, dataSource),
+  };
+}
 
 
 
@@ -0,0 +1,40 @@
+/**
+ * SimVar name parsing.
+ *
+ * MSFS variables live in namespaces selected by a one-letter prefix:
+ * - `A:` aircraft simvars (the default when no prefix is given)
+ * - `L:` local variables, user-writable numbers
+ * - `E:` environment variables (time etc.), read-only
+ * - `B:` input events
+ * - `Z:` script variables, user-writable numbers
+ * - `K:` key events
+ * - `H:` H events (cockpit interactions sent to instruments)
+ */
+
+export type SimVarPrefix = 'A' | 'L' | 'E' | 'B' | 'Z' | 'K' | 'H';
+
+export interface ParsedSimVarName {
+  /** Namespace of the variable */
+  prefix: SimVarPrefix;
+  /** Name without prefix (e.g. `PLANE ALTITUDE`, `MY_VAR`) */
+  name: string;
+  /** Name used to store the variable: A: vars unprefixed, every other namespace prefixed */
+  key: string;
+}
+
+const PREFIX_REGEX = /^\s*([ALEBZKH])\s*:\s*(.*)$/i;
+
+/**
+ * Parse a SimVar name into its namespace and bare name
+ */
+export function parseSimVarName(name: string): ParsedSimVarName {
+  const match = PREFIX_REGEX.exec(name);
+  if (!match) {
+    const bare = name.trim();
+    return { prefix: 'A', name: bare, key: bare };
+  }
+
+  const prefix = match[1].toUpperCase() as SimVarPrefix;
+  const bare = match[2].trim();
+  return { prefix, name: bare, key: prefix === 'A' ? bare : `${prefix}:${bare}` };
+}
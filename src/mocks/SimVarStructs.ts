@@ -0,0 +1,109 @@
+/**
+ * Struct-valued SimVars.
+ *
+ * The SDK reads structs through the `simvar.getValue_LatLongAlt()`, `getValue_LatLongAltPBH()`,
+ * `getValue_PBH()`, `getValue_PID_STRUCT()` and `getValue_XYZ()` fast paths. Some struct SimVars
+ * mirror scalar SimVars (`STRUCT LATLONALT` is `PLANE LATITUDE`, `PLANE LONGITUDE` and
+ * `PLANE ALTITUDE`); the SimVar mock reads and writes those through the scalars so both stay
+ * consistent.
+ */
+
+export interface LatLongAltStruct {
+  lat: number;
+  long: number;
+  alt: number;
+}
+
+export interface PitchBankHeadingStruct {
+  pitch: number;
+  bank: number;
+  heading: number;
+}
+
+export interface LatLongAltPBHStruct extends LatLongAltStruct, PitchBankHeadingStruct {}
+
+export interface PidStruct {
+  p: number;
+  i: number;
+  d: number;
+}
+
+export interface XYZStruct {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type SimVarStructType = 'latlonalt' | 'latlonaltpbh' | 'pbh' | 'pid_struct' | 'xyz';
+
+export interface SimVarStructMap {
+  latlonalt: LatLongAltStruct;
+  latlonaltpbh: LatLongAltPBHStruct;
+  pbh: PitchBankHeadingStruct;
+  pid_struct: PidStruct;
+  xyz: XYZStruct;
+}
+
+/**
+ * Member names of each struct type
+ */
+export const SIMVAR_STRUCT_MEMBERS: { [T in SimVarStructType]: Array<keyof SimVarStructMap[T]> } = {
+  latlonalt: ['lat', 'long', 'alt'],
+  latlonaltpbh: ['lat', 'long', 'alt', 'pitch', 'bank', 'heading'],
+  pbh: ['pitch', 'bank', 'heading'],
+  pid_struct: ['p', 'i', 'd'],
+  xyz: ['x', 'y', 'z'],
+};
+
+/**
+ * Scalar SimVar (name and unit) backing a struct member
+ */
+export type SimVarStructMirror = Record<string, [string, string]>;
+
+const PLANE_LAT_LONG_ALT: SimVarStructMirror = {
+  lat: ['PLANE LATITUDE', 'degrees'],
+  long: ['PLANE LONGITUDE', 'degrees'],
+  alt: ['PLANE ALTITUDE', 'feet'],
+};
+
+/**
+ * Struct SimVars whose members are the scalar SimVars they mirror
+ */
+export const SIMVAR_STRUCT_MIRRORS: Record<string, SimVarStructMirror> = {
+  'STRUCT LATLONALT': PLANE_LAT_LONG_ALT,
+  'STRUCT LATLONALTPBH': {
+    ...PLANE_LAT_LONG_ALT,
+    pitch: ['PLANE PITCH DEGREES', 'degrees'],
+    bank: ['PLANE BANK DEGREES', 'degrees'],
+    heading: ['PLANE HEADING DEGREES TRUE', 'degrees'],
+  },
+  'STRUCT WORLDVELOCITY': {
+    x: ['VELOCITY WORLD X', 'feet per second'],
+    y: ['VELOCITY WORLD Y', 'feet per second'],
+    z: ['VELOCITY WORLD Z', 'feet per second'],
+  },
+  'STRUCT WORLD ACCELERATION': {
+    x: ['ACCELERATION WORLD X', 'feet per second squared'],
+    y: ['ACCELERATION WORLD Y', 'feet per second squared'],
+    z: ['ACCELERATION WORLD Z', 'feet per second squared'],
+  },
+};
+
+/**
+ * Get the struct type read or written with a unit, or undefined for scalar units
+ */
+export function getSimVarStructType(unit: string): SimVarStructType | undefined {
+  const normalized = (unit || '').trim().toLowerCase();
+  return normalized in SIMVAR_STRUCT_MEMBERS ? normalized as SimVarStructType : undefined;
+}
+
+/**
+ * Create a struct of the given type with all members set to zero
+ */
+export function createEmptySimVarStruct<T extends SimVarStructType>(type: T): SimVarStructMap[T] {
+  const struct: Record<string, number> = {};
+  (SIMVAR_STRUCT_MEMBERS[type] as string[]).forEach(member => {
+    struct[member] = 0;
+  });
+  return struct as unknown as SimVarStructMap[T];
+}
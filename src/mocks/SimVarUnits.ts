@@ -0,0 +1,204 @@
+/**
+ * Unit handling for the SimVar mock.
+ *
+ * The simulator stores a single value per SimVar and converts it into whatever unit the
+ * caller asks for. This module provides the MSFS unit names (and their common aliases),
+ * groups them into families and converts values between units of the same family.
+ */
+
+export type SimVarUnitFamily =
+  | 'length'
+  | 'speed'
+  | 'angle'
+  | 'pressure'
+  | 'temperature'
+  | 'volume'
+  | 'mass'
+  | 'ratio'
+  | 'time'
+  | 'frequency'
+  | 'bool'
+  | 'string';
+
+/**
+ * Definition of a convertible unit.
+ * A value `v` expressed in this unit equals `v * scale + offset` in the family base unit.
+ */
+export interface SimVarUnitDefinition {
+  family: SimVarUnitFamily;
+  scale: number;
+  offset?: number;
+}
+
+const FOOT = 0.3048;
+const NMILE = 1852;
+const MILE = 1609.344;
+const KELVIN_PER_RANKINE = 5 / 9;
+
+/**
+ * Known units keyed by their aliases. Base units: meter, meter per second, radian, pascal,
+ * kelvin, liter, kilogram, "percent over 100", second and hertz.
+ */
+const UNIT_DEFINITIONS: Array<[string[], SimVarUnitDefinition]> = [
+  // Length
+  [['meter', 'meters', 'm'], { family: 'length', scale: 1 }],
+  [['meter scaler 256', 'meters scaler 256'], { family: 'length', scale: 1 / 256 }],
+  [['centimeter', 'centimeters', 'cm'], { family: 'length', scale: 0.01 }],
+  [['millimeter', 'millimeters', 'mm'], { family: 'length', scale: 0.001 }],
+  [['kilometer', 'kilometers', 'km'], { family: 'length', scale: 1000 }],
+  [['foot', 'feet', 'ft'], { family: 'length', scale: FOOT }],
+  [['inch', 'inches', 'in'], { family: 'length', scale: 0.0254 }],
+  [['yard', 'yards', 'yd'], { family: 'length', scale: 0.9144 }],
+  [['mile', 'miles'], { family: 'length', scale: MILE }],
+  [['decimile', 'decimiles'], { family: 'length', scale: MILE / 10 }],
+  [['nautical mile', 'nautical miles', 'nmile', 'nmiles', 'nm'], { family: 'length', scale: NMILE }],
+  [['decinmile', 'decinmiles'], { family: 'length', scale: NMILE / 10 }],
+
+  // Speed
+  [['meter per second', 'meters per second', 'meter/second', 'meters/second', 'm/s'], { family: 'speed', scale: 1 }],
+  [['meter per second scaler 256', 'meters per second scaler 256'], { family: 'speed', scale: 1 / 256 }],
+  [['meter per minute', 'meters per minute'], { family: 'speed', scale: 1 / 60 }],
+  [['kilometer per hour', 'kilometers per hour', 'kilometer/hour', 'kilometers/hour', 'kph', 'km/h'], { family: 'speed', scale: 1000 / 3600 }],
+  [['knot', 'knots', 'kt', 'kts'], { family: 'speed', scale: NMILE / 3600 }],
+  [['knot scaler 128', 'knots scaler 128'], { family: 'speed', scale: NMILE / 3600 / 128 }],
+  [['mile per hour', 'miles per hour', 'mph'], { family: 'speed', scale: MILE / 3600 }],
+  [['foot per second', 'feet per second', 'feet/second', 'ft/s'], { family: 'speed', scale: FOOT }],
+  [['foot per minute', 'feet per minute', 'feet/minute', 'ft/min', 'fpm'], { family: 'speed', scale: FOOT / 60 }],
+  // Mach is converted at the ISA sea level speed of sound.
+  [['mach', 'machs'], { family: 'speed', scale: 340.294 }],
+
+  // Angle
+  [['radian', 'radians', 'rad'], { family: 'angle', scale: 1 }],
+  [['degree', 'degrees', 'deg', 'degree latitude', 'degrees latitude', 'degree longitude', 'degrees longitude'], { family: 'angle', scale: Math.PI / 180 }],
+  [['degree angl16', 'degrees angl16', 'angl16'], { family: 'angle', scale: (2 * Math.PI) / 0x10000 }],
+  [['degree angl32', 'degrees angl32', 'angl32'], { family: 'angle', scale: (2 * Math.PI) / 0x100000000 }],
+  [['grad', 'grads'], { family: 'angle', scale: Math.PI / 200 }],
+
+  // Pressure
+  [['pascal', 'pascals', 'pa', 'newton per square meter', 'newtons per square meter'], { family: 'pressure', scale: 1 }],
+  [['hectopascal', 'hectopascals', 'hpa'], { family: 'pressure', scale: 100 }],
+  [['kilopascal', 'kilopascals', 'kpa'], { family: 'pressure', scale: 1000 }],
+  [['millibar', 'millibars', 'mbar', 'mbars', 'mb'], { family: 'pressure', scale: 100 }],
+  [['millibar scaler 16', 'millibars scaler 16'], { family: 'pressure', scale: 100 / 16 }],
+  [['bar', 'bars'], { family: 'pressure', scale: 100000 }],
+  [['inch of mercury', 'inches of mercury', 'inhg'], { family: 'pressure', scale: 3386.389 }],
+  [['inhg 64 over 64k'], { family: 'pressure', scale: 3386.389 / 1024 }],
+  [['millimeter of mercury', 'millimeters of mercury', 'mmhg'], { family: 'pressure', scale: 133.322 }],
+  [['centimeter of mercury', 'centimeters of mercury', 'cmhg'], { family: 'pressure', scale: 1333.22 }],
+  [['pound-force per square inch', 'pound per square inch', 'pounds per square inch', 'psi'], { family: 'pressure', scale: 6894.757 }],
+  [['pound-force per square foot', 'pound per square foot', 'pounds per square foot', 'psf'], { family: 'pressure', scale: 47.880259 }],
+  [['atmosphere', 'atmospheres', 'atm'], { family: 'pressure', scale: 101325 }],
+  [['kilogram force per square centimeter', 'kgfsqcm'], { family: 'pressure', scale: 98066.5 }],
+
+  // Temperature
+  [['kelvin'], { family: 'temperature', scale: 1 }],
+  [['celsius', 'degree celsius', 'degrees celsius'], { family: 'temperature', scale: 1, offset: 273.15 }],
+  [['fahrenheit', 'farenheit', 'degree fahrenheit', 'degrees fahrenheit'], { family: 'temperature', scale: KELVIN_PER_RANKINE, offset: 459.67 * KELVIN_PER_RANKINE }],
+  [['rankine'], { family: 'temperature', scale: KELVIN_PER_RANKINE }],
+
+  // Volume
+  [['liter', 'liters', 'l'], { family: 'volume', scale: 1 }],
+  [['gallon', 'gallons', 'gal'], { family: 'volume', scale: 3.785411784 }],
+  [['quart', 'quarts'], { family: 'volume', scale: 0.946352946 }],
+  [['cubic meter', 'cubic meters', 'cu m', 'm3', 'meter cubed', 'meters cubed'], { family: 'volume', scale: 1000 }],
+  [['cubic centimeter', 'cubic centimeters', 'cu cm', 'cm3'], { family: 'volume', scale: 0.001 }],
+  [['cubic millimeter', 'cubic millimeters', 'cu mm', 'mm3'], { family: 'volume', scale: 0.000001 }],
+  [['cubic foot', 'cubic feet', 'cu ft', 'ft3'], { family: 'volume', scale: 28.316846592 }],
+  [['cubic inch', 'cubic inches', 'cu in', 'in3'], { family: 'volume', scale: 0.016387064 }],
+  [['cubic yard', 'cubic yards', 'cu yd', 'yd3'], { family: 'volume', scale: 764.554857984 }],
+
+  // Mass
+  [['kilogram', 'kilograms', 'kg'], { family: 'mass', scale: 1 }],
+  [['gram', 'grams'], { family: 'mass', scale: 0.001 }],
+  [['pound', 'pounds', 'lb', 'lbs'], { family: 'mass', scale: 0.45359237 }],
+  [['pound scaler 256', 'pounds scaler 256'], { family: 'mass', scale: 0.45359237 / 256 }],
+  [['slug', 'slugs', 'geepound', 'geepounds'], { family: 'mass', scale: 14.5939029 }],
+
+  // Ratios
+  [['percent over 100'], { family: 'ratio', scale: 1 }],
+  [['percent', 'percentage'], { family: 'ratio', scale: 0.01 }],
+  [['percent scaler 16k'], { family: 'ratio', scale: 1 / 16384 }],
+  [['percent scaler 32k'], { family: 'ratio', scale: 1 / 32768 }],
+  [['position'], { family: 'ratio', scale: 1 }],
+  [['position 16k'], { family: 'ratio', scale: 1 / 16384 }],
+  [['position 32k'], { family: 'ratio', scale: 1 / 32768 }],
+  [['position 128'], { family: 'ratio', scale: 1 / 128 }],
+
+  // Time
+  [['millisecond', 'milliseconds', 'ms'], { family: 'time', scale: 0.001 }],
+  [['second', 'seconds', 's', 'sec'], { family: 'time', scale: 1 }],
+  [['minute', 'minutes', 'min'], { family: 'time', scale: 60 }],
+  [['hour', 'hours', 'hr'], { family: 'time', scale: 3600 }],
+  [['hour over 10', 'hours over 10'], { family: 'time', scale: 360 }],
+  [['day', 'days'], { family: 'time', scale: 86400 }],
+
+  // Frequency
+  [['hertz', 'hz'], { family: 'frequency', scale: 1 }],
+  [['kilohertz', 'khz'], { family: 'frequency', scale: 1000 }],
+  [['megahertz', 'mhz'], { family: 'frequency', scale: 1000000 }],
+
+  // Bool and string
+  [['bool', 'boolean'], { family: 'bool', scale: 1 }],
+  [['string'], { family: 'string', scale: 1 }],
+];
+
+const UNITS_BY_ALIAS: Map<string, SimVarUnitDefinition> = new Map();
+UNIT_DEFINITIONS.forEach(([aliases, definition]) => {
+  aliases.forEach(alias => UNITS_BY_ALIAS.set(alias, definition));
+});
+
+/**
+ * Normalize a unit name: case-insensitive and whitespace-insensitive
+ */
+export function normalizeSimVarUnit(unit: string): string {
+  return (unit || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Get the definition of a unit, or undefined for generic units such as `number` or `enum`
+ */
+export function getSimVarUnitDefinition(unit: string): SimVarUnitDefinition | undefined {
+  return UNITS_BY_ALIAS.get(normalizeSimVarUnit(unit));
+}
+
+/**
+ * Get the family of a unit, or undefined for generic units such as `number` or `enum`
+ */
+export function getSimVarUnitFamily(unit: string): SimVarUnitFamily | undefined {
+  return getSimVarUnitDefinition(unit)?.family;
+}
+
+/**
+ * Check whether a value can be converted between two units
+ */
+export function areSimVarUnitsCompatible(fromUnit: string, toUnit: string): boolean {
+  const from = getSimVarUnitFamily(fromUnit);
+  const to = getSimVarUnitFamily(toUnit);
+  return from === undefined || to === undefined || from === to || to === 'bool' || from === 'bool';
+}
+
+/**
+ * Convert a value from one unit to another.
+ *
+ * Reads as `bool` yield 0/1 from any numeric value. Values in generic units (`number`,
+ * `enum`, ...) and values across incompatible families are returned unchanged, which is
+ * what the simulator does for units it cannot convert.
+ */
+export function convertSimVarUnit(value: any, fromUnit: string, toUnit: string): any {
+  if (typeof value !== 'number') {
+    return value;
+  }
+
+  const from = getSimVarUnitDefinition(fromUnit);
+  const to = getSimVarUnitDefinition(toUnit);
+
+  if (to?.family === 'bool') {
+    return value !== 0 ? 1 : 0;
+  }
+  if (!from || !to || from === to || from.family !== to.family) {
+    return value;
+  }
+
+  const baseValue = value * from.scale + (from.offset ?? 0);
+  return (baseValue - (to.offset ?? 0)) / to.scale;
+}
@@ -5,8 +5,17 @@
  */
 
 export * from './SimVarMock';
+export * from './SimVarUnits';
+export * from './SimVarNames';
+export * from './SimVarStructs';
+export * from './SimVarCatalog';
+export * from './KeyEventMock';
+export * from './HEventMock';
 export * from './CoherentMock';
-export * from './SDKAdapter';
+export * from './BaseInstrumentMock';
+export * from './SDKAdapterExports';
+export * from './SDKBundle';
+export * from './SDKExportGuard';
 export * from './MSFSGlobals';
 
 
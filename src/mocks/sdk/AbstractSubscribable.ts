@@ -0,0 +1,196 @@
+/**
+ * Mock of the SDK `AbstractSubscribable`, base of the subjects in SDKAdapter.
+ *
+ * Subscriptions are HandlerSubscriptions: they can be paused, resumed (with an initial notification)
+ * and destroyed, and `notify()` skips the paused ones like in the SDK.
+ */
+
+import type { Subscribable } from '../SDKAdapterExports';
+import { HandlerSubscription, Subscription } from './HandlerSubscription';
+import { SubscriptionList } from './SubscriptionList';
+
+/**
+ * Subscribable whose value can be set, target of `pipe()`
+ */
+export interface MutableSubscribable<T, I = T> extends Subscribable<T> {
+  readonly isMutableSubscribable: true;
+  set(value: I): void;
+}
+
+/**
+ * Subscription setting the value of a mutable subscribable from another, like the SDK `SubscribablePipe`
+ */
+export class SubscribablePipe<I, T> extends HandlerSubscription<(value: I) => void> {
+  /**
+   * @param from Piped subscribable
+   * @param to Subscribable set on each notification of `from`
+   * @param map Maps the value of `from` (and the current value of `to`) to the value to set
+   * @param onDestroy Called once when the pipe is destroyed
+   */
+  constructor(
+    from: Subscribable<I>,
+    to: MutableSubscribable<any, T>,
+    map: ((fromVal: I, toVal: any) => T) | undefined,
+    onDestroy: (sub: HandlerSubscription<(value: I) => void>) => void
+  ) {
+    const handler = map === undefined
+      ? (fromVal: I): void => to.set(fromVal as unknown as T)
+      : (fromVal: I): void => to.set(map(fromVal, to.get()));
+    super(handler, sub => sub.handler(from.get()), onDestroy);
+  }
+}
+
+export abstract class AbstractSubscribable<T> implements Subscribable<T> {
+  /**
+   * Strict equality, the default equality of subjects
+   */
+  static readonly DEFAULT_EQUALITY_FUNC = (a: any, b: any): boolean => a === b;
+
+  readonly isSubscribable = true;
+  protected readonly subs: SubscriptionList<(value: T) => void> = new SubscriptionList(this.constructor.name);
+
+  abstract get(): T;
+
+  /**
+   * Subscribe to changes of the value
+   * @param handler Called with the new value
+   * @param initialNotify Call the handler with the current value right away
+   * @param paused Create the subscription paused
+   */
+  sub(handler: (value: T) => void, initialNotify: boolean = false, paused: boolean = false): HandlerSubscription<(value: T) => void> {
+    const sub = new HandlerSubscription(handler, this.notifySubscription.bind(this), this.subs.onSubDestroyed);
+    return this.subs.add(sub, initialNotify, paused);
+  }
+
+  /**
+   * Map the value to a new subscribable, notified when the mapped value changes according to `equalityFunc`
+   * @param fn Maps the value (and the previous mapped value)
+   * @param equalityFunc Equality of mapped values (strict equality by default)
+   * @param mutateFunc Changes the mapped value in place instead of replacing it
+   * @param initialVal Initial mapped value, required with `mutateFunc`
+   */
+  map<M>(
+    fn: (input: T, previousVal?: M) => M,
+    equalityFunc?: (a: M, b: M) => boolean,
+    mutateFunc?: (oldVal: M, newVal: M) => void,
+    initialVal?: M
+  ): MappedSubscribableClass<T, M> {
+    return new MappedSubscribableClass(this, fn, equalityFunc ?? AbstractSubscribable.DEFAULT_EQUALITY_FUNC, mutateFunc, initialVal);
+  }
+
+  /**
+   * Set a mutable subscribable to the (optionally mapped) value now and on each change
+   */
+  pipe(to: MutableSubscribable<any, T>, paused?: boolean): SubscribablePipe<T, T>;
+  pipe<M>(to: MutableSubscribable<any, M>, map: (fromVal: T, toVal: M) => M, paused?: boolean): SubscribablePipe<T, M>;
+  pipe(to: MutableSubscribable<any, any>, arg2?: boolean | ((fromVal: T, toVal: any) => any), arg3?: boolean): SubscribablePipe<T, any> {
+    const map = typeof arg2 === 'function' ? arg2 : undefined;
+    const paused = (typeof arg2 === 'function' ? arg3 : arg2) ?? false;
+    const pipe = new SubscribablePipe(this, to, map, this.subs.onSubDestroyed as any);
+    return this.subs.add(pipe, true, paused);
+  }
+
+  /**
+   * Notify the subscriptions of the current value
+   */
+  protected notify(): void {
+    this.subs.notify(sub => this.notifySubscription(sub));
+  }
+
+  protected notifySubscription(sub: HandlerSubscription<(value: T) => void>): void {
+    sub.handler(this.get());
+  }
+}
+
+/**
+ * Subscribable mapped from another one, returned by `map()`, like the SDK `MappedSubscribableClass`
+ */
+export class MappedSubscribableClass<I, T> extends AbstractSubscribable<T> {
+  readonly canInitialNotify = true;
+  private value: T;
+  private readonly mutateFunc: (newVal: T) => void;
+  private readonly inputSub: Subscription;
+  private _isAlive: boolean = true;
+  private _isPaused: boolean = false;
+
+  /**
+   * @param input Mapped subscribable
+   * @param mapFunc Maps the input value (and the previous mapped value)
+   * @param equalityFunc Equality of mapped values
+   * @param mutateFunc Changes the mapped value in place instead of replacing it
+   * @param initialVal Initial mapped value, required with `mutateFunc`
+   */
+  constructor(
+    private readonly input: Subscribable<I>,
+    private readonly mapFunc: (input: I, previousVal?: T) => T,
+    private readonly equalityFunc: (a: T, b: T) => boolean,
+    mutateFunc?: (oldVal: T, newVal: T) => void,
+    initialVal?: T
+  ) {
+    super();
+    if (initialVal !== undefined && mutateFunc) {
+      this.value = initialVal;
+      mutateFunc(this.value, this.mapFunc(this.input.get()));
+      this.mutateFunc = (newVal: T): void => mutateFunc(this.value, newVal);
+    } else {
+      this.value = this.mapFunc(this.input.get());
+      this.mutateFunc = (newVal: T): void => {
+        this.value = newVal;
+      };
+    }
+    this.inputSub = this.input.sub(value => this.updateValue(value), true);
+  }
+
+  get isAlive(): boolean {
+    return this._isAlive;
+  }
+
+  get isPaused(): boolean {
+    return this._isPaused;
+  }
+
+  get(): T {
+    return this.value;
+  }
+
+  /**
+   * Stop following the input until resume()
+   */
+  pause(): this {
+    if (!this._isAlive) {
+      throw new Error('MappedSubscribable: cannot pause a dead subscribable');
+    }
+    if (!this._isPaused) {
+      this.inputSub.pause();
+      this._isPaused = true;
+    }
+    return this;
+  }
+
+  /**
+   * Follow the input again, starting with its current value
+   */
+  resume(): this {
+    if (!this._isAlive) {
+      throw new Error('MappedSubscribable: cannot resume a dead subscribable');
+    }
+    if (this._isPaused) {
+      this._isPaused = false;
+      this.inputSub.resume(true);
+    }
+    return this;
+  }
+
+  destroy(): void {
+    this._isAlive = false;
+    this.inputSub.destroy();
+  }
+
+  private updateValue(inputValue: I): void {
+    const value = this.mapFunc(inputValue, this.value);
+    if (!this.equalityFunc(this.value, value)) {
+      this.mutateFunc(value);
+      this.notify();
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Mock of the SDK `ArraySubject`: an array notifying each insertion, removal and clear.
+ *
+ * Handlers get `(index, type, item, array)`. Insertions of a range report the inserted array as
+ * `item`; the initial notification reports the whole array as added at index 0.
+ */
+
+import { HandlerSubscription } from './HandlerSubscription';
+import { SubscriptionList } from './SubscriptionList';
+
+export enum SubscribableArrayEventType {
+  Added = 'Added',
+  Removed = 'Removed',
+  Cleared = 'Cleared',
+}
+
+export type SubscribableArrayHandler<T> = (
+  index: number,
+  type: SubscribableArrayEventType,
+  item: T | readonly T[] | undefined,
+  array: readonly T[]
+) => void;
+
+export class ArraySubject<T> {
+  private readonly subs: SubscriptionList<SubscribableArrayHandler<T>> = new SubscriptionList('ArraySubject');
+
+  private constructor(private readonly array: T[]) {}
+
+  /**
+   * Create a subject backed by `arr` (not copied)
+   */
+  static create<T>(arr: T[] = []): ArraySubject<T> {
+    return new ArraySubject(arr);
+  }
+
+  get length(): number {
+    return this.array.length;
+  }
+
+  getArray(): readonly T[] {
+    return this.array;
+  }
+
+  /**
+   * Item at an index; throws if the index is out of range
+   */
+  get(index: number): T {
+    if (index > this.array.length - 1) {
+      throw new Error('Index out of range');
+    }
+    return this.array[index];
+  }
+
+  tryGet(index: number): T | undefined {
+    return this.array[index];
+  }
+
+  /**
+   * Subscribe to insertions, removals and clears
+   * @param handler Called with the index, the event type, the item(s) and the array
+   * @param initialNotify Call the handler right away with the whole array as added
+   * @param paused Create the subscription paused
+   */
+  sub(handler: SubscribableArrayHandler<T>, initialNotify: boolean = false, paused: boolean = false): HandlerSubscription<SubscribableArrayHandler<T>> {
+    const sub = new HandlerSubscription(handler, this.initialNotify.bind(this), this.subs.onSubDestroyed);
+    return this.subs.add(sub, initialNotify, paused);
+  }
+
+  /**
+   * Insert an item at an index, or at the end
+   */
+  insert(item: T, index?: number): void {
+    if (index === undefined || index > this.array.length - 1) {
+      index = this.array.length;
+      this.array.push(item);
+    } else {
+      this.array.splice(index, 0, item);
+    }
+    this.notify(index, SubscribableArrayEventType.Added, item);
+  }
+
+  /**
+   * Insert items at an index (default 0)
+   */
+  insertRange(index: number = 0, arr: readonly T[]): void {
+    this.array.splice(index, 0, ...arr);
+    this.notify(index, SubscribableArrayEventType.Added, arr);
+  }
+
+  removeAt(index: number): void {
+    const removed = this.array.splice(index, 1);
+    this.notify(index, SubscribableArrayEventType.Removed, removed[0]);
+  }
+
+  /**
+   * Remove the first occurrence of an item
+   * @returns Whether the item was found
+   */
+  removeItem(item: T): boolean {
+    const index = this.array.indexOf(item);
+    if (index === -1) {
+      return false;
+    }
+    this.removeAt(index);
+    return true;
+  }
+
+  /**
+   * Replace the items: notified as a clear, then an insertion of the new items
+   */
+  set(arr: readonly T[]): void {
+    this.clear();
+    this.insertRange(0, arr);
+  }
+
+  clear(): void {
+    this.array.length = 0;
+    this.notify(0, SubscribableArrayEventType.Cleared);
+  }
+
+  private notify(index: number, type: SubscribableArrayEventType, item?: T | readonly T[]): void {
+    this.subs.notify(sub => sub.handler(index, type, item, this.array));
+  }
+
+  private initialNotify(sub: HandlerSubscription<SubscribableArrayHandler<T>>): void {
+    sub.handler(0, SubscribableArrayEventType.Added, this.array, this.array);
+  }
+}
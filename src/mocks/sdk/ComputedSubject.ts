@@ -0,0 +1,46 @@
+/**
+ * Mock of the SDK `ComputedSubject`: a subject set with a raw value and holding the value computed from it.
+ *
+ * ```typescript
+ * const heading = ComputedSubject.create<number, string>(0, deg => `${Math.round(deg).toString().padStart(3, '0')}°`);
+ * heading.set(7.4); // notifies '007°'
+ * ```
+ */
+
+import { AbstractSubscribable } from './AbstractSubscribable';
+
+export class ComputedSubject<I, T> extends AbstractSubscribable<T> {
+  readonly isMutableSubscribable = true;
+  private rawValue: I;
+  private value: T;
+
+  private constructor(value: I, private readonly computeFn: (value: I) => T) {
+    super();
+    this.rawValue = value;
+    this.value = computeFn(value);
+  }
+
+  static create<I, T>(value: I, computeFn: (value: I) => T): ComputedSubject<I, T> {
+    return new ComputedSubject(value, computeFn);
+  }
+
+  /**
+   * Set the raw value; subscribers are notified if the computed value changed
+   */
+  set(value: I): void {
+    this.rawValue = value;
+    const computed = this.computeFn(value);
+    if (computed !== this.value) {
+      this.value = computed;
+      this.notify();
+    }
+  }
+
+  get(): T {
+    return this.value;
+  }
+
+  getRaw(): I {
+    return this.rawValue;
+  }
+}
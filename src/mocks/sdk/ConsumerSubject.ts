@@ -0,0 +1,169 @@
+/**
+ * Mock of the SDK `ConsumerSubject`: a subject following the values of an EventBus consumer.
+ *
+ * ```typescript
+ * const altitude = ConsumerSubject.create(bus.getSubscriber<AdcEvents>().on('indicated_alt').withPrecision(0), 0);
+ * ```
+ */
+
+import { AbstractSubscribable } from './AbstractSubscribable';
+import { Consumer } from './EventBus';
+import { Subscription } from './HandlerSubscription';
+
+export class ConsumerSubject<T> extends AbstractSubscribable<T> {
+  readonly canInitialNotify = true;
+  private value: T;
+  private consumerSub: Subscription | undefined;
+  private readonly consumerHandler = this.onEventConsumed.bind(this);
+  private isValueConsumed: boolean = false;
+  private needSetDefaultValue: boolean = false;
+  private defaultValue: T | undefined = undefined;
+  private _isAlive: boolean = true;
+  private _isPaused: boolean = false;
+
+  private constructor(
+    consumer: Consumer<T> | null | undefined,
+    initialVal: T,
+    private readonly equalityFunc: (a: T, b: T) => boolean,
+    private readonly mutateFunc?: (oldVal: T, newVal: T) => void
+  ) {
+    super();
+    this.value = initialVal;
+    this.consumerSub = consumer?.handle(this.consumerHandler);
+  }
+
+  /**
+   * @param consumer Consumer to follow, or null to set one later
+   * @param initialVal Value until the consumer provides one
+   * @param equalityFunc Equality of values (strict equality by default)
+   * @param mutateFunc Changes the value in place instead of replacing it
+   */
+  static create<T>(
+    consumer: Consumer<T> | null | undefined,
+    initialVal: T,
+    equalityFunc?: (a: T, b: T) => boolean,
+    mutateFunc?: (oldVal: T, newVal: T) => void
+  ): ConsumerSubject<T> {
+    return new ConsumerSubject(consumer, initialVal, equalityFunc ?? AbstractSubscribable.DEFAULT_EQUALITY_FUNC, mutateFunc);
+  }
+
+  get isAlive(): boolean {
+    return this._isAlive;
+  }
+
+  get isPaused(): boolean {
+    return this._isPaused;
+  }
+
+  get(): T {
+    return this.value;
+  }
+
+  /**
+   * Follow another consumer; the value is kept until it provides one
+   */
+  setConsumer(consumer: Consumer<T> | null): this {
+    if (!this._isAlive) {
+      return this;
+    }
+    this.needSetDefaultValue = false;
+    this.defaultValue = undefined;
+    this.replaceConsumer(consumer);
+    return this;
+  }
+
+  /**
+   * Follow another consumer, taking `defaultVal` if it does not provide a value right away
+   */
+  setConsumerWithDefault(consumer: Consumer<T> | null, defaultVal: T): this {
+    if (!this._isAlive) {
+      return this;
+    }
+    this.defaultValue = defaultVal;
+    this.needSetDefaultValue = true;
+    this.replaceConsumer(consumer);
+    if (!this._isPaused) {
+      this.applyDefaultValue();
+    }
+    return this;
+  }
+
+  /**
+   * Set the value and follow another consumer (or none); a value provided right away by the consumer wins
+   */
+  reset(initialVal: T, consumer: Consumer<T> | null = null): this {
+    if (!this._isAlive) {
+      return this;
+    }
+    this.isValueConsumed = false;
+    this.needSetDefaultValue = false;
+    this.defaultValue = undefined;
+    this.replaceConsumer(consumer);
+    if (!this.isValueConsumed) {
+      this.setValue(initialVal);
+    }
+    return this;
+  }
+
+  /**
+   * Stop following the consumer until resume()
+   */
+  pause(): this {
+    if (!this._isPaused) {
+      this.consumerSub?.pause();
+      this._isPaused = true;
+    }
+    return this;
+  }
+
+  /**
+   * Follow the consumer again, starting with its cached value
+   */
+  resume(): this {
+    if (this._isPaused) {
+      this._isPaused = false;
+      this.consumerSub?.resume(true);
+      this.applyDefaultValue();
+    }
+    return this;
+  }
+
+  destroy(): void {
+    this._isAlive = false;
+    this.consumerSub?.destroy();
+  }
+
+  private replaceConsumer(consumer: Consumer<T> | null): void {
+    this.consumerSub?.destroy();
+    this.consumerSub = consumer?.handle(this.consumerHandler, this._isPaused);
+  }
+
+  private applyDefaultValue(): void {
+    if (this.needSetDefaultValue) {
+      const defaultValue = this.defaultValue as T;
+      this.needSetDefaultValue = false;
+      this.defaultValue = undefined;
+      this.setValue(defaultValue);
+    }
+  }
+
+  private onEventConsumed(value: T): void {
+    this.isValueConsumed = true;
+    if (this.needSetDefaultValue) {
+      this.needSetDefaultValue = false;
+      this.defaultValue = undefined;
+    }
+    this.setValue(value);
+  }
+
+  private setValue(value: T): void {
+    if (!this.equalityFunc(this.value, value)) {
+      if (this.mutateFunc) {
+        this.mutateFunc(this.value, value);
+      } else {
+        this.value = value;
+      }
+      this.notify();
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Subject applying a set value only once no other value was set for `delay` ms.
+ *
+ * Not an SDK class (the SDK only has `DebounceTimer`); it replaces the debouncing subjects projects
+ * shim locally. Timers use the current `setTimeout`, so they follow an installed virtual clock:
+ *
+ * ```typescript
+ * const search = DebounceSubject.create('', 500);
+ * search.set('K');
+ * search.set('KJF');
+ * env.advance(500); // subscribers notified once, with 'KJF'
+ * ```
+ */
+
+import { AbstractSubscribable } from './AbstractSubscribable';
+
+export class DebounceSubject<T> extends AbstractSubscribable<T> {
+  readonly isMutableSubscribable = true;
+  private value: T;
+  private pendingValue: T | undefined = undefined;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor(initialVal: T, private readonly delay: number, private readonly equalityFunc: (a: T, b: T) => boolean) {
+    super();
+    this.value = initialVal;
+  }
+
+  /**
+   * @param initialVal Value until a set value is applied
+   * @param delay Time in ms a set value must stay the last one before it is applied
+   * @param equalityFunc Equality of values (strict equality by default)
+   */
+  static create<T>(initialVal: T, delay: number, equalityFunc?: (a: T, b: T) => boolean): DebounceSubject<T> {
+    return new DebounceSubject(initialVal, delay, equalityFunc ?? AbstractSubscribable.DEFAULT_EQUALITY_FUNC);
+  }
+
+  /**
+   * Applied value
+   */
+  get(): T {
+    return this.value;
+  }
+
+  /**
+   * Set a value, applied after `delay` ms unless another value is set meanwhile
+   */
+  set(value: T): void {
+    this.cancel();
+    this.pendingValue = value;
+    this.timer = setTimeout(() => this.flush(), this.delay);
+  }
+
+  /**
+   * Apply a value right away, dropping the pending one
+   */
+  setImmediate(value: T): void {
+    this.cancel();
+    this.apply(value);
+  }
+
+  isPending(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Apply the pending value now, if any
+   */
+  flush(): void {
+    if (this.timer === null) {
+      return;
+    }
+    const value = this.pendingValue as T;
+    this.cancel();
+    this.apply(value);
+  }
+
+  /**
+   * Drop the pending value, if any
+   */
+  cancel(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pendingValue = undefined;
+  }
+
+  private apply(value: T): void {
+    if (!this.equalityFunc(this.value, value)) {
+      this.value = value;
+      this.notify();
+    }
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * Mock of the SDK EventBus with its publisher/subscriber API.
+ *
+ * Follows the SDK semantics: publications are cached per topic (unless `isCached` is false) and
+ * replayed to late subscribers, consumers filter with `whenChanged()`, `withPrecision()`,
+ * `atFrequency()`... and throttle on `Date.now()`, which the VirtualClock drives when virtual time
+ * is installed. `sync` publications go through the Coherent API of the instrument that created the
+ * bus, so PanelEnvironment can carry them to the other instruments:
+ *
+ * ```typescript
+ * const bus = new EventBus();
+ * bus.getPublisher<MyEvents>().pub('altitude', 1500);
+ *
+ * // Late subscribers get the cached value right away
+ * bus.getSubscriber<MyEvents>().on('altitude').withPrecision(-2).atFrequency(1).handle(alt => ...);
+ * ```
+ */
+
+import { H_EVENT } from '../HEventMock';
+import { HandlerSubscription, Subscription } from './HandlerSubscription';
+
+/**
+ * Coherent call and event carrying `sync` EventBus publications between instruments
+ */
+export const EVENT_BUS_SYNC = 'EVENT_BUS_SYNC';
+
+export type Handler<T> = (data: T) => void;
+
+export type WildcardHandler = (topic: string, data: any) => void;
+
+/**
+ * Listener of EventBus.onPublish(), getting every publication with its flags
+ */
+export type PublishListener = (topic: string, data: any, sync: boolean, isCached: boolean) => void;
+
+/**
+ * Publisher returned by EventBus.getPublisher()
+ */
+export interface Publisher<E> {
+  pub<K extends keyof E>(topic: K, data: E[K], sync?: boolean, isCached?: boolean): void;
+}
+
+/**
+ * Consumer of a topic, returned by EventSubscriber.on(). Each filter returns a new consumer.
+ */
+export interface Consumer<T> {
+  readonly isConsumer: true;
+  /** Subscribe a handler. It gets the cached value of the topic right away unless paused. */
+  handle(handler: Handler<T>, paused?: boolean): Subscription;
+  /** Deliver at most `frequency` times per second, the first one immediately by default */
+  atFrequency(frequency: number, immediateFirstPublish?: boolean): Consumer<T>;
+  /** Round numbers to `precision` decimals (negative for tens, hundreds...) and deliver only changes */
+  withPrecision(precision: number): Consumer<T>;
+  /** Deliver numbers only when they moved by at least `amount` since the last delivered value */
+  whenChangedBy(amount: number): Consumer<T>;
+  /** Deliver only values different from the last delivered value */
+  whenChanged(): Consumer<T>;
+  /** Deliver only when more than `deltaTime` ms passed since the last delivery */
+  onlyAfter(deltaTime: number): Consumer<T>;
+}
+
+type ConsumerFilter = (data: any, state: any, next: Handler<any>) => void;
+
+type Subscribe = (handler: Handler<any>, paused: boolean) => HandlerSubscription<Handler<any>>;
+
+/**
+ * Consumer built on a subscribe function, applying its filter stack to every handler
+ */
+class BasicConsumer<T> implements Consumer<T> {
+  readonly isConsumer = true;
+
+  constructor(
+    private readonly subscribe: Subscribe,
+    private readonly state: any = {},
+    private readonly currentHandler?: ConsumerFilter
+  ) {}
+
+  handle(handler: Handler<T>, paused: boolean = false): Subscription {
+    const activeHandler: Handler<any> = this.currentHandler === undefined
+      ? handler
+      : (data: any) => this.currentHandler!(data, this.state, handler);
+    return this.subscribe(activeHandler, paused);
+  }
+
+  atFrequency(frequency: number, immediateFirstPublish: boolean = true): Consumer<T> {
+    const deltaTimeTrigger = 1000 / frequency;
+    return new BasicConsumer<T>(this.subscribe, { previousTime: Date.now(), firstRun: immediateFirstPublish }, (data, state, next) => {
+      const currentTime = Date.now();
+      if (deltaTimeTrigger <= currentTime - state.previousTime || state.firstRun) {
+        // Stay on the frequency grid rather than drifting with late publications
+        while (state.previousTime + deltaTimeTrigger < currentTime) {
+          state.previousTime += deltaTimeTrigger;
+        }
+        state.firstRun = false;
+        this.with(data, next);
+      }
+    });
+  }
+
+  withPrecision(precision: number): Consumer<T> {
+    return new BasicConsumer<T>(this.subscribe, { lastValue: 0, hasLastValue: false }, (data, state, next) => {
+      const multiplier = Math.pow(10, precision);
+      const value = Math.round(data * multiplier) / multiplier;
+      if (!state.hasLastValue || value !== state.lastValue) {
+        state.hasLastValue = true;
+        state.lastValue = value;
+        this.with(value, next);
+      }
+    });
+  }
+
+  whenChangedBy(amount: number): Consumer<T> {
+    return new BasicConsumer<T>(this.subscribe, { lastValue: 0, hasLastValue: false }, (data, state, next) => {
+      if (!state.hasLastValue || Math.abs(data - state.lastValue) >= amount) {
+        state.hasLastValue = true;
+        state.lastValue = data;
+        this.with(data, next);
+      }
+    });
+  }
+
+  whenChanged(): Consumer<T> {
+    return new BasicConsumer<T>(this.subscribe, { lastValue: '', hasLastValue: false }, (data, state, next) => {
+      if (!state.hasLastValue || state.lastValue !== data) {
+        state.hasLastValue = true;
+        state.lastValue = data;
+        this.with(data, next);
+      }
+    });
+  }
+
+  onlyAfter(deltaTime: number): Consumer<T> {
+    return new BasicConsumer<T>(this.subscribe, { previousTime: Date.now() }, (data, state, next) => {
+      if (Date.now() - state.previousTime > deltaTime) {
+        state.previousTime += deltaTime;
+        this.with(data, next);
+      }
+    });
+  }
+
+  /**
+   * Run data through the filters of this consumer, then the handler
+   */
+  private with(data: any, handler: Handler<any>): void {
+    if (this.currentHandler !== undefined) {
+      this.currentHandler(data, this.state, handler);
+    } else {
+      handler(data);
+    }
+  }
+}
+
+/**
+ * Subscriber returned by EventBus.getSubscriber()
+ */
+export class EventSubscriber<E> {
+  constructor(private readonly bus: EventBus) {}
+
+  on<K extends keyof E & string>(topic: K): Consumer<E[K]> {
+    return new BasicConsumer<E[K]>((handler, paused) => this.bus.on(topic, handler, paused));
+  }
+}
+
+interface TopicSubscriptions {
+  subs: HandlerSubscription<Handler<any>>[];
+  /** Publications in progress on the topic; dead subscriptions are removed once it is back to 0 */
+  notifyDepth: number;
+}
+
+// Mock EventBus
+export class EventBus {
+  private topics: Map<string, TopicSubscriptions> = new Map();
+  private wildcardSubs: HandlerSubscription<WildcardHandler>[] = [];
+  private wildcardNotifyDepth: number = 0;
+  private cache: Map<string, { data: any }> = new Map();
+  private publishListeners: Set<PublishListener> = new Set();
+  private readonly coherent: any;
+
+  private readonly onSync = (message: { topic: string; data: any; isCached?: boolean }): void => {
+    this.pub(message.topic, message.data, false, message.isCached ?? true);
+  };
+
+  // H events sent by TestEnvironment.sendHEvent(), published like the SDK HEventPublisher does
+  private readonly onHEvent = (message: { name: string; args: string[] }): void => {
+    this.pub('hEvent', message.name, false, false);
+    this.pub('hEvent_with_args', { event: message.name, args: message.args }, false, false);
+  };
+
+  constructor() {
+    // Like the SDK, sync goes through the Coherent API of the instrument that created the bus
+    this.coherent = (globalThis as any).Coherent;
+    if (this.coherent && typeof this.coherent.on === 'function') {
+      this.coherent.on(EVENT_BUS_SYNC, this.onSync);
+      this.coherent.on(H_EVENT, this.onHEvent);
+    }
+  }
+
+  /**
+   * Stop listening to the Coherent sync and H events and drop all subscriptions (not part of the SDK API).
+   * Buses created outside of a TestEnvironment listen to the shared Coherent mock until destroyed.
+   */
+  destroy(): void {
+    if (this.coherent && typeof this.coherent.off === 'function') {
+      this.coherent.off(EVENT_BUS_SYNC, this.onSync);
+      this.coherent.off(H_EVENT, this.onHEvent);
+    }
+    this.topics.forEach(topicSubs => topicSubs.subs.forEach(sub => sub.destroy()));
+    this.wildcardSubs.forEach(sub => sub.destroy());
+    this.topics.clear();
+    this.wildcardSubs = [];
+    this.cache.clear();
+    this.publishListeners.clear();
+  }
+
+  /**
+   * Subscribe to a topic. Unless paused, the handler gets the cached value of the topic right away.
+   */
+  on<T = any>(topic: string, handler: Handler<T>, paused: boolean = false): HandlerSubscription<Handler<T>> {
+    let topicSubs = this.topics.get(topic);
+    if (!topicSubs) {
+      topicSubs = { subs: [], notifyDepth: 0 };
+      this.topics.set(topic, topicSubs);
+      this.pub('event_bus_topic_first_sub', topic, false, false);
+    }
+
+    const subs = topicSubs;
+    const sub = new HandlerSubscription<Handler<T>>(
+      handler,
+      s => {
+        const cached = this.cache.get(topic);
+        if (cached !== undefined) {
+          s.handler(cached.data);
+        }
+      },
+      s => {
+        // During a publication, the topic is cleaned up once it is done
+        if (subs.notifyDepth === 0) {
+          subs.subs.splice(subs.subs.indexOf(s), 1);
+        }
+      }
+    );
+    subs.subs.push(sub);
+
+    if (paused) {
+      sub.pause();
+    } else {
+      sub.initialNotify();
+    }
+    return sub;
+  }
+
+  /**
+   * Remove the subscriptions of a handler to a topic
+   */
+  off<T = any>(topic: string, handler: Handler<T>): void {
+    this.topics.get(topic)?.subs.filter(sub => sub.handler === handler).forEach(sub => sub.destroy());
+  }
+
+  /**
+   * Subscribe to every topic. Wildcard handlers get publications only, not cached values.
+   */
+  onAll(handler: WildcardHandler): HandlerSubscription<WildcardHandler> {
+    const sub = new HandlerSubscription<WildcardHandler>(handler, undefined, s => {
+      if (this.wildcardNotifyDepth === 0) {
+        this.wildcardSubs.splice(this.wildcardSubs.indexOf(s), 1);
+      }
+    });
+    this.wildcardSubs.push(sub);
+    return sub;
+  }
+
+  /**
+   * Remove a wildcard handler
+   */
+  offAll(handler: WildcardHandler): void {
+    this.wildcardSubs.filter(sub => sub.handler === handler).forEach(sub => sub.destroy());
+  }
+
+  /**
+   * Publish to local subscribers; `sync` publications are also sent to the buses of other instruments.
+   * Cached publications are replayed to later subscribers of the topic.
+   */
+  pub<T = any>(topic: string, data: T, sync: boolean = false, isCached: boolean = true): void {
+    this.publishListeners.forEach(listener => listener(topic, data, sync, isCached));
+
+    if (isCached) {
+      this.cache.set(topic, { data });
+    }
+
+    const topicSubs = this.topics.get(topic);
+    if (topicSubs) {
+      topicSubs.notifyDepth++;
+      // Subscriptions added by a handler only get later publications
+      const subs = topicSubs.subs;
+      const count = subs.length;
+      for (let i = 0; i < count; i++) {
+        const sub = subs[i];
+        try {
+          if (!sub.isPaused) {
+            sub.handler(data);
+          }
+        } catch (error) {
+          console.error(`EventBus: error in handler for topic ${topic}:`, error);
+        }
+      }
+      topicSubs.notifyDepth--;
+      if (topicSubs.notifyDepth === 0) {
+        topicSubs.subs = topicSubs.subs.filter(sub => sub.isAlive);
+      }
+    }
+
+    if (sync && this.coherent && typeof this.coherent.call === 'function') {
+      this.coherent.call(EVENT_BUS_SYNC, topic, data, isCached);
+    }
+
+    this.wildcardNotifyDepth++;
+    const wildcardCount = this.wildcardSubs.length;
+    for (let i = 0; i < wildcardCount; i++) {
+      const sub = this.wildcardSubs[i];
+      if (!sub.isPaused) {
+        sub.handler(topic, data);
+      }
+    }
+    this.wildcardNotifyDepth--;
+    if (this.wildcardNotifyDepth === 0) {
+      this.wildcardSubs = this.wildcardSubs.filter(sub => sub.isAlive);
+    }
+  }
+
+  /**
+   * Listen to every publication, including its `sync` and `isCached` flags (not part of the SDK API)
+   */
+  onPublish(listener: PublishListener): { destroy: () => void } {
+    this.publishListeners.add(listener);
+    return {
+      destroy: () => {
+        this.publishListeners.delete(listener);
+      }
+    };
+  }
+
+  getPublisher<E>(): Publisher<E> {
+    return this as unknown as Publisher<E>;
+  }
+
+  getSubscriber<E>(): EventSubscriber<E> {
+    return new EventSubscriber<E>(this);
+  }
+
+  /**
+   * Number of live subscriptions to a topic
+   */
+  getTopicSubscriberCount(topic: string): number {
+    return this.topics.get(topic)?.subs.filter(sub => sub.isAlive).length ?? 0;
+  }
+
+  /**
+   * Run a function for each topic with at least one subscription
+   */
+  forEachSubscribedTopic(fn: (topic: string, subscriberCount: number) => void): void {
+    this.topics.forEach((_subs, topic) => {
+      const count = this.getTopicSubscriberCount(topic);
+      if (count > 0) {
+        fn(topic, count);
+      }
+    });
+  }
+
+  /**
+   * Last cached value of a topic, or undefined
+   */
+  getCachedValue<T = any>(topic: string): T | undefined {
+    return this.cache.get(topic)?.data;
+  }
+}
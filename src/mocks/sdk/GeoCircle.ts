@@ -0,0 +1,429 @@
+/**
+ * Mock of the SDK `GeoCircle`: a circle on the earth's surface, defined by the cartesian position vector
+ * of its center and its radius in great-arc radians. Great circles (radius π/2) describe great-circle paths:
+ *
+ * ```typescript
+ * const path = GeoCircle.createGreatCircle(kbos, kjfk);
+ * path.distance(position); // signed cross-track distance in great-arc radians
+ * path.bearingAt(path.closest(position, new GeoPoint(0, 0))); // desired track
+ * ```
+ */
+
+import { GeoPoint, LatLonInterface } from './GeoPoint';
+import { MathUtils } from './MathUtils';
+import { ReadonlyFloat64Array, Vec3Math } from './Vectors';
+
+const RAD2DEG = 180 / Math.PI;
+const DEG2RAD = Math.PI / 180;
+
+export class GeoCircle {
+  /**
+   * Default tolerance of the point-on-circle checks, in great-arc radians (about 61 cm)
+   */
+  static readonly ANGULAR_TOLERANCE = 1e-7;
+
+  private static readonly NORTH_POLE = Vec3Math.create(0, 0, 1);
+  private static readonly vec3Cache = Array.from({ length: 6 }, () => Vec3Math.create());
+  private static readonly geoPointCache = [new GeoPoint(0, 0)];
+  private static readonly intersectionCache = [Vec3Math.create(), Vec3Math.create()];
+
+  private readonly _center = Vec3Math.create();
+  /** Cartesian position vector of the center */
+  readonly center: ReadonlyFloat64Array = this._center;
+  /** Radius in great-arc radians, in [0, π] */
+  radius = 0;
+  private sinRadius = 0;
+
+  /**
+   * @param center Cartesian position vector of the center
+   * @param radius Radius in great-arc radians
+   */
+  constructor(center: ReadonlyFloat64Array, radius: number) {
+    this.set(center, radius);
+  }
+
+  isValid(): boolean {
+    return Vec3Math.isFinite(this._center) && isFinite(this.radius);
+  }
+
+  isGreatCircle(): boolean {
+    return this.radius === Math.PI / 2;
+  }
+
+  /**
+   * Length, in great-arc radians, of an arc of this circle spanning an angle in radians
+   */
+  arcLength(angle: number): number {
+    return this.sinRadius * angle;
+  }
+
+  /**
+   * Angle, in radians, spanned by an arc of this circle of a length in great-arc radians
+   */
+  angularWidth(length: number): number {
+    return length / this.sinRadius;
+  }
+
+  set(center: ReadonlyFloat64Array | LatLonInterface, radius: number): this {
+    if (center instanceof Float64Array) {
+      if (Vec3Math.abs(center) === 0) {
+        Vec3Math.set(NaN, NaN, NaN, this._center);
+      } else {
+        Vec3Math.normalize(center, this._center);
+      }
+    } else {
+      GeoPoint.sphericalToCartesian(center as LatLonInterface, this._center);
+    }
+    return this.setRadius(radius);
+  }
+
+  /**
+   * Make this circle the great circle through two points, or through a point with an initial true bearing
+   */
+  setAsGreatCircle(point1: ReadonlyFloat64Array | LatLonInterface, point2: ReadonlyFloat64Array | LatLonInterface): this;
+  setAsGreatCircle(point: ReadonlyFloat64Array | LatLonInterface, bearing: number): this;
+  setAsGreatCircle(arg1: ReadonlyFloat64Array | LatLonInterface, arg2: ReadonlyFloat64Array | LatLonInterface | number): this {
+    GeoCircle.getGreatCircleNormal(arg1, arg2 as any, this._center);
+    return this.setRadius(Math.PI / 2);
+  }
+
+  /**
+   * Reverse the direction of this circle (same points, opposite bearings)
+   */
+  reverse(): this {
+    Vec3Math.multScalar(this._center, -1, this._center);
+    this.radius = Math.PI - this.radius;
+    return this;
+  }
+
+  /**
+   * Distance from a point to the center of this circle, in great-arc radians
+   */
+  distanceToCenter(point: ReadonlyFloat64Array | LatLonInterface): number {
+    const vec = point instanceof Float64Array
+      ? Vec3Math.normalize(point, GeoCircle.vec3Cache[0])
+      : GeoPoint.sphericalToCartesian(point as LatLonInterface, GeoCircle.vec3Cache[0]);
+    return Vec3Math.unitAngle(vec, this._center);
+  }
+
+  /**
+   * Point of this circle closest to a point (NaN when every point of the circle is as close)
+   */
+  closest(point: ReadonlyFloat64Array | LatLonInterface, out: Float64Array): Float64Array;
+  closest(point: ReadonlyFloat64Array | LatLonInterface, out: GeoPoint): GeoPoint;
+  closest(point: ReadonlyFloat64Array | LatLonInterface, out: Float64Array | GeoPoint): Float64Array | GeoPoint {
+    const vec = point instanceof Float64Array ? point : GeoPoint.sphericalToCartesian(point as LatLonInterface, GeoCircle.vec3Cache[0]);
+    const offset = Vec3Math.multScalar(this._center, Math.cos(this.radius), GeoCircle.vec3Cache[1]);
+    const dot = Vec3Math.dot(Vec3Math.sub(vec, offset, GeoCircle.vec3Cache[2]), this._center);
+    const planeProjected = Vec3Math.sub(vec, Vec3Math.multScalar(this._center, dot, GeoCircle.vec3Cache[2]), GeoCircle.vec3Cache[2]);
+    if (Vec3Math.dot(planeProjected, planeProjected) === 0 || Math.abs(Vec3Math.dot(planeProjected, this._center)) === 1) {
+      return out instanceof GeoPoint ? out.set(NaN, NaN) : Vec3Math.set(NaN, NaN, NaN, out);
+    }
+    const displacement = Vec3Math.multScalar(
+      Vec3Math.normalize(Vec3Math.sub(planeProjected, offset, GeoCircle.vec3Cache[2]), GeoCircle.vec3Cache[2]),
+      this.sinRadius,
+      GeoCircle.vec3Cache[2]
+    );
+    const closest = Vec3Math.add(offset, displacement, GeoCircle.vec3Cache[2]);
+    return out instanceof Float64Array ? Vec3Math.normalize(closest, out) : out.setFromCartesian(closest);
+  }
+
+  /**
+   * Signed distance from a point to this circle, in great-arc radians: negative inside, positive outside.
+   * For a great circle, positive is right of the path.
+   */
+  distance(point: ReadonlyFloat64Array | LatLonInterface): number {
+    return this.distanceToCenter(point) - this.radius;
+  }
+
+  /**
+   * Whether a point lies on this circle
+   */
+  includes(point: ReadonlyFloat64Array | LatLonInterface, tolerance: number = GeoCircle.ANGULAR_TOLERANCE): boolean {
+    return Math.abs(this.distance(point)) < tolerance;
+  }
+
+  /**
+   * Whether a point lies inside this circle (or on it when `inclusive`)
+   */
+  encircles(point: ReadonlyFloat64Array | LatLonInterface, inclusive: boolean = true, tolerance: number = GeoCircle.ANGULAR_TOLERANCE): boolean {
+    const distance = this.distance(point);
+    return inclusive ? distance <= tolerance : distance < -tolerance;
+  }
+
+  /**
+   * Angle, in radians, from one point of this circle to another in the direction of the circle
+   */
+  angleAlong(
+    start: ReadonlyFloat64Array | LatLonInterface,
+    end: ReadonlyFloat64Array | LatLonInterface,
+    tolerance: number = GeoCircle.ANGULAR_TOLERANCE,
+    equalityTolerance: number = 0
+  ): number {
+    const startVec = start instanceof Float64Array ? start : GeoPoint.sphericalToCartesian(start as LatLonInterface, GeoCircle.vec3Cache[1]);
+    const endVec = end instanceof Float64Array ? end : GeoPoint.sphericalToCartesian(end as LatLonInterface, GeoCircle.vec3Cache[2]);
+    if (tolerance < Math.PI && (!this.includes(startVec, tolerance) || !this.includes(endVec, tolerance))) {
+      throw new Error(
+        `GeoCircle: at least one of the two specified arc end points does not lie on this circle (start point distance of ${this.distance(startVec)}, end point distance of ${this.distance(endVec)}, vs tolerance of ${tolerance}).`
+      );
+    }
+    if (this.radius <= GeoCircle.ANGULAR_TOLERANCE) {
+      return 0;
+    }
+    const startRadialNormal = Vec3Math.normalize(Vec3Math.cross(this._center, startVec, GeoCircle.vec3Cache[3]), GeoCircle.vec3Cache[3]);
+    const endRadialNormal = Vec3Math.normalize(Vec3Math.cross(this._center, endVec, GeoCircle.vec3Cache[4]), GeoCircle.vec3Cache[4]);
+    const angularDistance = Math.acos(MathUtils.clamp(Vec3Math.dot(startRadialNormal, endRadialNormal), -1, 1));
+    const isArcGreaterThanSemi = Vec3Math.dot(startRadialNormal, endVec) < 0;
+    const angle = isArcGreaterThanSemi ? MathUtils.TWO_PI - angularDistance : angularDistance;
+    return angle >= MathUtils.TWO_PI - equalityTolerance || angle <= equalityTolerance ? 0 : angle;
+  }
+
+  /**
+   * Distance, in great-arc radians, from one point of this circle to another in the direction of the circle
+   */
+  distanceAlong(
+    start: ReadonlyFloat64Array | LatLonInterface,
+    end: ReadonlyFloat64Array | LatLonInterface,
+    tolerance: number = GeoCircle.ANGULAR_TOLERANCE,
+    equalityTolerance: number = 0
+  ): number {
+    return this.arcLength(this.angleAlong(start, end, tolerance, this.angularWidth(equalityTolerance)));
+  }
+
+  /**
+   * True bearing, in degrees, of this circle at one of its points (NaN at the poles and for a zero radius)
+   */
+  bearingAt(point: ReadonlyFloat64Array | LatLonInterface, tolerance: number = GeoCircle.ANGULAR_TOLERANCE): number {
+    const vec = point instanceof Float64Array ? point : GeoPoint.sphericalToCartesian(point as LatLonInterface, GeoCircle.vec3Cache[1]);
+    if (tolerance < Math.PI && !this.includes(vec, tolerance)) {
+      throw new Error(`GeoCircle: the specified point does not lie on this circle (distance of ${Math.abs(this.distance(vec))} vs tolerance of ${tolerance}).`);
+    }
+    if (this.sinRadius <= GeoCircle.ANGULAR_TOLERANCE || 1 - Math.abs(Vec3Math.dot(vec, GeoCircle.NORTH_POLE)) <= GeoCircle.ANGULAR_TOLERANCE) {
+      return NaN;
+    }
+    const radialNormal = Vec3Math.normalize(Vec3Math.cross(this._center, vec, GeoCircle.vec3Cache[2]), GeoCircle.vec3Cache[2]);
+    const northNormal = Vec3Math.normalize(Vec3Math.cross(vec, GeoCircle.NORTH_POLE, GeoCircle.vec3Cache[3]), GeoCircle.vec3Cache[3]);
+    return (Vec3Math.unitAngle(radialNormal, northNormal) * (radialNormal[2] >= 0 ? 1 : -1) * RAD2DEG - 90 + 360) % 360;
+  }
+
+  /**
+   * Offset a point of this circle along it by a distance in great-arc radians
+   */
+  offsetDistanceAlong(point: ReadonlyFloat64Array | LatLonInterface, distance: number, out: Float64Array, tolerance?: number): Float64Array;
+  offsetDistanceAlong(point: ReadonlyFloat64Array | LatLonInterface, distance: number, out: GeoPoint, tolerance?: number): GeoPoint;
+  offsetDistanceAlong(point: ReadonlyFloat64Array | LatLonInterface, distance: number, out: any, tolerance?: number): Float64Array | GeoPoint {
+    return this.offsetAngleAlong(point, distance / Math.sin(this.radius), out, tolerance);
+  }
+
+  /**
+   * Offset a point of this circle along it by an angle in radians
+   */
+  offsetAngleAlong(point: ReadonlyFloat64Array | LatLonInterface, angle: number, out: Float64Array, tolerance?: number): Float64Array;
+  offsetAngleAlong(point: ReadonlyFloat64Array | LatLonInterface, angle: number, out: GeoPoint, tolerance?: number): GeoPoint;
+  offsetAngleAlong(
+    point: ReadonlyFloat64Array | LatLonInterface,
+    angle: number,
+    out: Float64Array | GeoPoint,
+    tolerance: number = GeoCircle.ANGULAR_TOLERANCE
+  ): Float64Array | GeoPoint {
+    let vec = point instanceof Float64Array ? point : GeoPoint.sphericalToCartesian(point as LatLonInterface, GeoCircle.vec3Cache[3]);
+    if (tolerance < Math.PI && !this.includes(vec, tolerance)) {
+      throw new Error(`GeoCircle: the specified point does not lie on this circle (distance of ${Math.abs(this.distance(vec))} vs tolerance of ${tolerance}).`);
+    }
+    if (this.sinRadius <= GeoCircle.ANGULAR_TOLERANCE) {
+      return out instanceof GeoPoint ? out.setFromCartesian(this._center) : Vec3Math.copy(this._center, out);
+    }
+    // Project the point onto this circle, then rotate it about the center (Rodrigues' rotation)
+    vec = this.closest(vec, GeoCircle.vec3Cache[3]);
+    const a = Math.sin(angle);
+    const b = 1 - Math.cos(angle);
+    const cross = Vec3Math.cross(this._center, vec, GeoCircle.vec3Cache[0]);
+    const crossCross = Vec3Math.cross(this._center, cross, GeoCircle.vec3Cache[1]);
+    const rotated = Vec3Math.set(
+      vec[0] + a * cross[0] + b * crossCross[0],
+      vec[1] + a * cross[1] + b * crossCross[1],
+      vec[2] + a * cross[2] + b * crossCross[2],
+      GeoCircle.vec3Cache[2]
+    );
+    return out instanceof Float64Array ? Vec3Math.copy(rotated, out) : out.setFromCartesian(rotated);
+  }
+
+  /**
+   * Intersections with another circle, as cartesian position vectors written to `out`
+   * @returns The number of intersections (0, 1 or 2)
+   */
+  intersection(other: GeoCircle, out: Float64Array[], tolerance: number = 0): number {
+    const center1 = this._center;
+    const center2 = other.center;
+    const dot = Vec3Math.dot(center1, center2);
+    const dotSquared = dot * dot;
+    if (dotSquared === 1) {
+      // Concentric circles: none or infinitely many intersections
+      return 0;
+    }
+    const cross = Vec3Math.cross(center1, center2, GeoCircle.vec3Cache[0]);
+    const crossLengthSquared = Vec3Math.dot(cross, cross);
+    if (crossLengthSquared === 0) {
+      return 0;
+    }
+    const a = (Math.cos(this.radius) - dot * Math.cos(other.radius)) / (1 - dotSquared);
+    const b = (Math.cos(other.radius) - dot * Math.cos(this.radius)) / (1 - dotSquared);
+    const intersection = Vec3Math.add(
+      Vec3Math.multScalar(center1, a, GeoCircle.vec3Cache[1]),
+      Vec3Math.multScalar(center2, b, GeoCircle.vec3Cache[2]),
+      GeoCircle.vec3Cache[1]
+    );
+    const intersectionLengthSquared = Vec3Math.dot(intersection, intersection);
+    const sinTol = Math.sin(tolerance);
+    const sinTolSquared = sinTol * sinTol;
+    const offsetSquared = (1 - intersectionLengthSquared) / crossLengthSquared;
+    if (offsetSquared < -sinTolSquared) {
+      return 0;
+    }
+    out[0] ??= new Float64Array(3);
+    if (offsetSquared <= sinTolSquared) {
+      Vec3Math.normalize(intersection, out[0]);
+      return 1;
+    }
+    const offset = Math.sqrt(offsetSquared);
+    out[1] ??= new Float64Array(3);
+    Vec3Math.add(Vec3Math.multScalar(cross, offset, out[0]), intersection, out[0]);
+    Vec3Math.add(Vec3Math.multScalar(cross, -offset, out[1]), intersection, out[1]);
+    return 2;
+  }
+
+  /**
+   * Intersections with another circle, as GeoPoints written to `out`
+   * @returns The number of intersections (0, 1 or 2)
+   */
+  intersectionGeoPoint(other: GeoCircle, out: GeoPoint[], tolerance: number = 0): number {
+    const count = this.intersection(other, GeoCircle.intersectionCache, tolerance);
+    for (let i = 0; i < count; i++) {
+      out[i] ??= new GeoPoint(0, 0);
+      out[i].setFromCartesian(GeoCircle.intersectionCache[i]);
+    }
+    return count;
+  }
+
+  /**
+   * Number of intersections with another circle: 0, 1, 2, or NaN for the same circle
+   */
+  numIntersectionPoints(other: GeoCircle, tolerance: number = GeoCircle.ANGULAR_TOLERANCE): number {
+    const center1 = this._center;
+    const center2 = other.center;
+    const dot = Vec3Math.dot(center1, center2);
+    const dotSquared = dot * dot;
+    if (dotSquared === 1) {
+      return dot === 1
+        ? (Math.abs(this.radius - other.radius) <= tolerance ? NaN : 0)
+        : (Math.abs(Math.PI - this.radius - other.radius) <= tolerance ? NaN : 0);
+    }
+    const cross = Vec3Math.cross(center1, center2, GeoCircle.vec3Cache[0]);
+    const crossLengthSquared = Vec3Math.dot(cross, cross);
+    if (crossLengthSquared === 0) {
+      return 0;
+    }
+    const a = (Math.cos(this.radius) - dot * Math.cos(other.radius)) / (1 - dotSquared);
+    const b = (Math.cos(other.radius) - dot * Math.cos(this.radius)) / (1 - dotSquared);
+    const intersection = Vec3Math.add(
+      Vec3Math.multScalar(center1, a, GeoCircle.vec3Cache[0]),
+      Vec3Math.multScalar(center2, b, GeoCircle.vec3Cache[1]),
+      GeoCircle.vec3Cache[1]
+    );
+    const offset = (1 - Vec3Math.dot(intersection, intersection)) / crossLengthSquared;
+    const sinTol = Math.sin(tolerance);
+    const sinTolSquared = sinTol * sinTol;
+    if (offset < -sinTolSquared) {
+      return 0;
+    }
+    return offset > sinTolSquared ? 2 : 1;
+  }
+
+  /**
+   * Circle centered on a point, with a radius in great-arc radians
+   */
+  static createFromPoint(point: LatLonInterface, radius: number): GeoCircle {
+    return new GeoCircle(GeoPoint.sphericalToCartesian(point, GeoCircle.vec3Cache[0]), radius);
+  }
+
+  /**
+   * Great circle through two points, or through a point with an initial true bearing
+   */
+  static createGreatCircle(point1: ReadonlyFloat64Array | LatLonInterface, point2: ReadonlyFloat64Array | LatLonInterface): GeoCircle;
+  static createGreatCircle(point: ReadonlyFloat64Array | LatLonInterface, bearing: number): GeoCircle;
+  static createGreatCircle(arg1: ReadonlyFloat64Array | LatLonInterface, arg2: ReadonlyFloat64Array | LatLonInterface | number): GeoCircle {
+    return new GeoCircle(GeoCircle.getGreatCircleNormal(arg1, arg2 as any, GeoCircle.vec3Cache[0]), Math.PI / 2);
+  }
+
+  /**
+   * Great circle through a point with an initial true bearing
+   */
+  static createGreatCircleFromPointBearing(point: ReadonlyFloat64Array | LatLonInterface, bearing: number): GeoCircle {
+    return new GeoCircle(GeoCircle.getGreatCircleNormalFromPointBearing(point, bearing, GeoCircle.vec3Cache[0]), Math.PI / 2);
+  }
+
+  /**
+   * Center (normal) of the great circle through two points, through a point with a true bearing, or through a
+   * point and perpendicular to a circle
+   */
+  static getGreatCircleNormal(point1: ReadonlyFloat64Array | LatLonInterface, point2: ReadonlyFloat64Array | LatLonInterface, out: Float64Array): Float64Array;
+  static getGreatCircleNormal(point: ReadonlyFloat64Array | LatLonInterface, bearing: number, out: Float64Array): Float64Array;
+  static getGreatCircleNormal(point: ReadonlyFloat64Array | LatLonInterface, circle: GeoCircle, out: Float64Array): Float64Array;
+  static getGreatCircleNormal(
+    arg1: ReadonlyFloat64Array | LatLonInterface,
+    arg2: ReadonlyFloat64Array | LatLonInterface | GeoCircle | number,
+    out: Float64Array
+  ): Float64Array {
+    if (typeof arg2 === 'number') {
+      return GeoCircle.getGreatCircleNormalFromPointBearing(arg1, arg2, out);
+    } else if (arg2 instanceof GeoCircle) {
+      return GeoCircle.getGreatCircleNormalFromCircle(arg1, arg2, out);
+    }
+    return GeoCircle.getGreatCircleNormalFromPoints(arg1, arg2, out);
+  }
+
+  static getGreatCircleNormalFromPoints(
+    point1: ReadonlyFloat64Array | LatLonInterface,
+    point2: ReadonlyFloat64Array | LatLonInterface,
+    out: Float64Array
+  ): Float64Array {
+    const vec1 = point1 instanceof Float64Array ? point1 : GeoPoint.sphericalToCartesian(point1 as LatLonInterface, GeoCircle.vec3Cache[0]);
+    const vec2 = point2 instanceof Float64Array ? point2 : GeoPoint.sphericalToCartesian(point2 as LatLonInterface, GeoCircle.vec3Cache[1]);
+    return Vec3Math.normalize(Vec3Math.cross(vec1, vec2, out), out);
+  }
+
+  static getGreatCircleNormalFromPointBearing(point: ReadonlyFloat64Array | LatLonInterface, bearing: number, out: Float64Array): Float64Array {
+    const geoPoint = point instanceof Float64Array ? GeoCircle.geoPointCache[0].setFromCartesian(point) : point as LatLonInterface;
+    const lat = geoPoint.lat * DEG2RAD;
+    const lon = geoPoint.lon * DEG2RAD;
+    const bearingRad = bearing * DEG2RAD;
+    const sinLat = Math.sin(lat);
+    const sinLon = Math.sin(lon);
+    const cosLon = Math.cos(lon);
+    const sinBearing = Math.sin(bearingRad);
+    const cosBearing = Math.cos(bearingRad);
+    return Vec3Math.set(
+      sinLon * cosBearing - sinLat * cosLon * sinBearing,
+      -cosLon * cosBearing - sinLat * sinLon * sinBearing,
+      Math.cos(lat) * sinBearing,
+      out
+    );
+  }
+
+  static getGreatCircleNormalFromCircle(point: ReadonlyFloat64Array | LatLonInterface, circle: GeoCircle, out: Float64Array): Float64Array {
+    const projectedPoint = circle.closest(point, GeoCircle.vec3Cache[0]);
+    if (!Vec3Math.isFinite(projectedPoint)) {
+      return Vec3Math.set(NaN, NaN, NaN, out);
+    }
+    if (circle.isGreatCircle()) {
+      return Vec3Math.copy(circle.center, out);
+    }
+    return Vec3Math.normalize(Vec3Math.cross(Vec3Math.cross(projectedPoint, circle.center, out), projectedPoint, out), out);
+  }
+
+  private setRadius(radius: number): this {
+    this.radius = Math.abs(radius) % Math.PI;
+    this.sinRadius = Math.sin(this.radius);
+    return this;
+  }
+}
@@ -0,0 +1,472 @@
+/**
+ * Mock of the SDK `GeoPoint`: a point on the earth's surface with great-circle and rhumb line math.
+ *
+ * Distances are in great-arc radians (`UnitType.GA_RADIAN`) and bearings in true degrees, like in the SDK:
+ *
+ * ```typescript
+ * const kbos = new GeoPoint(42.3656, -71.0096);
+ * const kjfk = new GeoPoint(40.6413, -73.7781);
+ * UnitType.GA_RADIAN.convertTo(kbos.distance(kjfk), UnitType.NMILE); // 162.1
+ * kbos.bearingTo(kjfk); // 231.2
+ * ```
+ */
+
+import type { Subscribable } from '../SDKAdapterExports';
+import { AbstractSubscribable } from './AbstractSubscribable';
+import { MathUtils } from './MathUtils';
+import { ReadonlyFloat64Array, Vec3Math } from './Vectors';
+
+const DEG2RAD = Math.PI / 180;
+const RAD2DEG = 180 / Math.PI;
+
+/**
+ * Latitude and longitude in degrees
+ */
+export interface LatLonInterface {
+  lat: number;
+  lon: number;
+}
+
+/**
+ * Read access to a geographic point
+ */
+export interface GeoPointInterface {
+  readonly lat: number;
+  readonly lon: number;
+  isValid(): boolean;
+  distance(other: LatLonInterface): number;
+  distance(lat: number, lon: number): number;
+  distanceRhumb(other: LatLonInterface): number;
+  distanceRhumb(lat: number, lon: number): number;
+  bearingTo(other: LatLonInterface): number;
+  bearingTo(lat: number, lon: number): number;
+  bearingFrom(other: LatLonInterface): number;
+  bearingFrom(lat: number, lon: number): number;
+  bearingRhumb(other: LatLonInterface): number;
+  bearingRhumb(lat: number, lon: number): number;
+  offset(bearing: number, distance: number, out: GeoPoint): GeoPoint;
+  offsetRhumb(bearing: number, distance: number, out: GeoPoint): GeoPoint;
+  antipode(out: GeoPoint): GeoPoint;
+  toCartesian(out: Float64Array): Float64Array;
+  equals(other: LatLonInterface, tolerance?: number): boolean;
+  equals(lat: number, lon: number, tolerance?: number): boolean;
+  copy(to?: GeoPoint): GeoPoint;
+}
+
+/**
+ * Read-only view of a GeoPoint: the methods changing the point require an `out` point
+ */
+export class GeoPointReadOnly implements GeoPointInterface {
+  constructor(private readonly source: GeoPoint) {}
+
+  get lat(): number {
+    return this.source.lat;
+  }
+
+  get lon(): number {
+    return this.source.lon;
+  }
+
+  isValid(): boolean {
+    return this.source.isValid();
+  }
+
+  distance(other: LatLonInterface): number;
+  distance(lat: number, lon: number): number;
+  distance(arg1: LatLonInterface | number, arg2?: number): number {
+    return this.source.distance(arg1 as any, arg2 as any);
+  }
+
+  distanceRhumb(other: LatLonInterface): number;
+  distanceRhumb(lat: number, lon: number): number;
+  distanceRhumb(arg1: LatLonInterface | number, arg2?: number): number {
+    return this.source.distanceRhumb(arg1 as any, arg2 as any);
+  }
+
+  bearingTo(other: LatLonInterface): number;
+  bearingTo(lat: number, lon: number): number;
+  bearingTo(arg1: LatLonInterface | number, arg2?: number): number {
+    return this.source.bearingTo(arg1 as any, arg2 as any);
+  }
+
+  bearingFrom(other: LatLonInterface): number;
+  bearingFrom(lat: number, lon: number): number;
+  bearingFrom(arg1: LatLonInterface | number, arg2?: number): number {
+    return this.source.bearingFrom(arg1 as any, arg2 as any);
+  }
+
+  bearingRhumb(other: LatLonInterface): number;
+  bearingRhumb(lat: number, lon: number): number;
+  bearingRhumb(arg1: LatLonInterface | number, arg2?: number): number {
+    return this.source.bearingRhumb(arg1 as any, arg2 as any);
+  }
+
+  offset(bearing: number, distance: number, out: GeoPoint): GeoPoint {
+    if (!out) {
+      throw new Error('Cannot mutate a read-only GeoPoint.');
+    }
+    return this.source.offset(bearing, distance, out);
+  }
+
+  offsetRhumb(bearing: number, distance: number, out: GeoPoint): GeoPoint {
+    if (!out) {
+      throw new Error('Cannot mutate a read-only GeoPoint.');
+    }
+    return this.source.offsetRhumb(bearing, distance, out);
+  }
+
+  antipode(out: GeoPoint): GeoPoint {
+    if (!out) {
+      throw new Error('Cannot mutate a read-only GeoPoint.');
+    }
+    return this.source.antipode(out);
+  }
+
+  toCartesian(out: Float64Array): Float64Array {
+    return this.source.toCartesian(out);
+  }
+
+  equals(other: LatLonInterface, tolerance?: number): boolean;
+  equals(lat: number, lon: number, tolerance?: number): boolean;
+  equals(arg1: LatLonInterface | number, arg2?: number, arg3?: number): boolean {
+    return this.source.equals(arg1 as any, arg2 as any, arg3);
+  }
+
+  copy(to?: GeoPoint): GeoPoint {
+    return this.source.copy(to);
+  }
+}
+
+export class GeoPoint implements GeoPointInterface {
+  /**
+   * Default equality tolerance, in great-arc radians (about 61 cm)
+   */
+  static readonly EQUALITY_TOLERANCE = 1e-7;
+
+  private static readonly tempVec3 = new Float64Array(3);
+  private static readonly tempGeoPoint = new GeoPoint(0, 0);
+
+  lat = 0;
+  lon = 0;
+  /** Read-only view of this point */
+  readonly readonly: GeoPointReadOnly;
+
+  /**
+   * @param lat Latitude in degrees
+   * @param lon Longitude in degrees
+   */
+  constructor(lat: number, lon: number) {
+    this.set(lat, lon);
+    this.readonly = new GeoPointReadOnly(this);
+  }
+
+  /**
+   * Whether latitude and longitude are both finite
+   */
+  isValid(): boolean {
+    return isFinite(this.lat) && isFinite(this.lon);
+  }
+
+  /**
+   * Set the point, normalizing latitude to [-90, 90] and longitude to [-180, 180)
+   */
+  set(other: LatLonInterface): this;
+  set(lat: number, lon: number): this;
+  set(arg1: LatLonInterface | number, arg2?: number): this {
+    let lat = typeof arg1 === 'number' ? arg1 : arg1.lat;
+    let lon = typeof arg1 === 'number' ? arg2 as number : arg1.lon;
+    lat = MathUtils.normalizeAngleDeg(lat, -180);
+    lon = MathUtils.normalizeAngleDeg(lon, -180);
+    if (Math.abs(lat) > 90) {
+      lat = MathUtils.normalizeAngleDeg(180 - lat, -180);
+      lon = MathUtils.normalizeAngleDeg(lon + 180, -180);
+    }
+    this.lat = lat;
+    this.lon = lon;
+    return this;
+  }
+
+  /**
+   * Set the point from a cartesian position vector (the earth being the unit sphere)
+   */
+  setFromCartesian(vec: ReadonlyFloat64Array): this;
+  setFromCartesian(x: number, y: number, z: number): this;
+  setFromCartesian(arg1: ReadonlyFloat64Array | number, arg2?: number, arg3?: number): this {
+    const vec = typeof arg1 === 'number' ? Vec3Math.set(arg1, arg2 as number, arg3 as number, GeoPoint.tempVec3) : arg1;
+    return this.set(90 - Vec3Math.theta(vec) * RAD2DEG, Vec3Math.phi(vec) * RAD2DEG);
+  }
+
+  /**
+   * Great-circle distance to another point, in great-arc radians
+   */
+  distance(other: LatLonInterface): number;
+  distance(lat: number, lon: number): number;
+  distance(arg1: LatLonInterface | number, arg2?: number): number {
+    const other = GeoPoint.asLatLonInterface(arg1, arg2);
+    return GeoPoint.distance(this.lat, this.lon, other.lat, other.lon);
+  }
+
+  /**
+   * Rhumb line distance to another point, in great-arc radians
+   */
+  distanceRhumb(other: LatLonInterface): number;
+  distanceRhumb(lat: number, lon: number): number;
+  distanceRhumb(arg1: LatLonInterface | number, arg2?: number): number {
+    const other = GeoPoint.asLatLonInterface(arg1, arg2);
+    return GeoPoint.distanceRhumb(this.lat, this.lon, other.lat, other.lon);
+  }
+
+  /**
+   * Initial true bearing of the great circle to another point, in degrees (NaN for coincident or antipodal points)
+   */
+  bearingTo(other: LatLonInterface): number;
+  bearingTo(lat: number, lon: number): number;
+  bearingTo(arg1: LatLonInterface | number, arg2?: number): number {
+    const other = GeoPoint.asLatLonInterface(arg1, arg2);
+    return GeoPoint.initialBearing(this.lat, this.lon, other.lat, other.lon);
+  }
+
+  /**
+   * Final true bearing of the great circle from another point to this one, in degrees
+   */
+  bearingFrom(other: LatLonInterface): number;
+  bearingFrom(lat: number, lon: number): number;
+  bearingFrom(arg1: LatLonInterface | number, arg2?: number): number {
+    const other = GeoPoint.asLatLonInterface(arg1, arg2);
+    return GeoPoint.finalBearing(other.lat, other.lon, this.lat, this.lon);
+  }
+
+  /**
+   * Constant true bearing of the rhumb line to another point, in degrees
+   */
+  bearingRhumb(other: LatLonInterface): number;
+  bearingRhumb(lat: number, lon: number): number;
+  bearingRhumb(arg1: LatLonInterface | number, arg2?: number): number {
+    const other = GeoPoint.asLatLonInterface(arg1, arg2);
+    return GeoPoint.bearingRhumb(this.lat, this.lon, other.lat, other.lon);
+  }
+
+  /**
+   * Offset along the great circle with an initial true bearing, by a distance in great-arc radians.
+   * Changes this point unless `out` is given.
+   */
+  offset(bearing: number, distance: number, out?: GeoPoint): GeoPoint {
+    let offsetLat: number;
+    let offsetLon: number;
+    if (Math.abs(this.lat) === 90) {
+      // At the poles, bearings are measured from the meridian of this point's longitude
+      offsetLat = this.lat + distance * RAD2DEG;
+      offsetLon = this.lon + bearing * (this.lat > 0 ? -1 : 1);
+    } else {
+      const latRad = this.lat * DEG2RAD;
+      const lonRad = this.lon * DEG2RAD;
+      const sinLat = Math.sin(latRad);
+      const cosLat = Math.cos(latRad);
+      const sinBearing = Math.sin(bearing * DEG2RAD);
+      const cosBearing = Math.cos(bearing * DEG2RAD);
+      const sinDistance = Math.sin(distance);
+      const cosDistance = Math.cos(distance);
+      const offsetLatRad = Math.asin(sinLat * cosDistance + cosLat * sinDistance * cosBearing);
+      const offsetLonDeltaRad = Math.atan2(sinBearing * sinDistance * cosLat, cosDistance - sinLat * Math.sin(offsetLatRad));
+      offsetLat = offsetLatRad * RAD2DEG;
+      offsetLon = (lonRad + offsetLonDeltaRad) * RAD2DEG;
+    }
+    return (out ?? this).set(offsetLat, offsetLon);
+  }
+
+  /**
+   * Offset along the rhumb line with a constant true bearing, by a distance in great-arc radians.
+   * Changes this point unless `out` is given.
+   */
+  offsetRhumb(bearing: number, distance: number, out?: GeoPoint): GeoPoint {
+    const latRad = this.lat * DEG2RAD;
+    const lonRad = this.lon * DEG2RAD;
+    const bearingRad = bearing * DEG2RAD;
+    let offsetLat = latRad + distance * Math.cos(bearingRad);
+    let offsetLon: number;
+    if (Math.abs(offsetLat) >= Math.PI / 2) {
+      // Rhumb lines end at the poles
+      offsetLat = Math.sign(offsetLat) * 90;
+      offsetLon = 0;
+    } else {
+      const deltaPsi = GeoPoint.deltaPsi(latRad, offsetLat);
+      const correction = GeoPoint.rhumbCorrection(deltaPsi, latRad, offsetLat);
+      offsetLon = (lonRad + distance * Math.sin(bearingRad) / correction) * RAD2DEG;
+      offsetLat *= RAD2DEG;
+    }
+    return (out ?? this).set(offsetLat, offsetLon);
+  }
+
+  /**
+   * Antipode of this point; changes this point unless `out` is given
+   */
+  antipode(out?: GeoPoint): GeoPoint {
+    return (out ?? this).set(-this.lat, this.lon + 180);
+  }
+
+  /**
+   * Cartesian position vector of this point on the unit sphere
+   */
+  toCartesian(out: Float64Array): Float64Array {
+    return GeoPoint.sphericalToCartesian(this, out);
+  }
+
+  /**
+   * Whether another point is within `tolerance` great-arc radians of this one
+   */
+  equals(other: LatLonInterface, tolerance?: number): boolean;
+  equals(lat: number, lon: number, tolerance?: number): boolean;
+  equals(arg1: LatLonInterface | number, arg2?: number, arg3?: number): boolean {
+    const other = GeoPoint.asLatLonInterface(arg1, arg2);
+    if (isNaN(this.lat) && isNaN(this.lon) && isNaN(other.lat) && isNaN(other.lon)) {
+      return true;
+    }
+    const tolerance = typeof arg1 === 'number' ? arg3 : arg2;
+    const distance = this.distance(other);
+    return !isNaN(distance) && distance <= (tolerance ?? GeoPoint.EQUALITY_TOLERANCE);
+  }
+
+  copy(to?: GeoPoint): GeoPoint {
+    return to ? to.set(this.lat, this.lon) : new GeoPoint(this.lat, this.lon);
+  }
+
+  /**
+   * Cartesian position vector of a point on the unit sphere
+   */
+  static sphericalToCartesian(point: LatLonInterface, out: Float64Array): Float64Array;
+  static sphericalToCartesian(lat: number, lon: number, out: Float64Array): Float64Array;
+  static sphericalToCartesian(arg1: LatLonInterface | number, arg2: number | Float64Array, arg3?: Float64Array): Float64Array {
+    const point = GeoPoint.asLatLonInterface(arg1, arg2 as number);
+    const theta = (90 - point.lat) * DEG2RAD;
+    const phi = point.lon * DEG2RAD;
+    return Vec3Math.setFromSpherical(1, theta, phi, arg3 ?? arg2 as Float64Array);
+  }
+
+  /**
+   * Great-circle distance between two points, in great-arc radians
+   */
+  static distance(point1: LatLonInterface, point2: LatLonInterface): number;
+  static distance(lat1: number, lon1: number, lat2: number, lon2: number): number;
+  static distance(vec1: ReadonlyFloat64Array, vec2: ReadonlyFloat64Array): number;
+  static distance(arg1: any, arg2: any, arg3?: number, arg4?: number): number {
+    if (arg1 instanceof Float64Array) {
+      return Vec3Math.unitAngle(arg1, arg2);
+    }
+    const lat1 = (typeof arg1 === 'number' ? arg1 : arg1.lat) * DEG2RAD;
+    const lon1 = (typeof arg1 === 'number' ? arg2 : arg1.lon) * DEG2RAD;
+    const lat2 = (typeof arg1 === 'number' ? arg3 as number : arg2.lat) * DEG2RAD;
+    const lon2 = (typeof arg1 === 'number' ? arg4 as number : arg2.lon) * DEG2RAD;
+    // haversine formula
+    const sinHalfDeltaLat = Math.sin((lat2 - lat1) / 2);
+    const sinHalfDeltaLon = Math.sin((lon2 - lon1) / 2);
+    const a = sinHalfDeltaLat * sinHalfDeltaLat + Math.cos(lat1) * Math.cos(lat2) * sinHalfDeltaLon * sinHalfDeltaLon;
+    return 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  /**
+   * Rhumb line distance between two points, in great-arc radians
+   */
+  static distanceRhumb(point1: LatLonInterface, point2: LatLonInterface): number;
+  static distanceRhumb(lat1: number, lon1: number, lat2: number, lon2: number): number;
+  static distanceRhumb(arg1: any, arg2: any, arg3?: number, arg4?: number): number {
+    const lat1 = (typeof arg1 === 'number' ? arg1 : arg1.lat) * DEG2RAD;
+    const lon1 = (typeof arg1 === 'number' ? arg2 : arg1.lon) * DEG2RAD;
+    const lat2 = (typeof arg1 === 'number' ? arg3 as number : arg2.lat) * DEG2RAD;
+    const lon2 = (typeof arg1 === 'number' ? arg4 as number : arg2.lon) * DEG2RAD;
+    const deltaLat = lat2 - lat1;
+    let deltaLon = lon2 - lon1;
+    const correction = GeoPoint.rhumbCorrection(GeoPoint.deltaPsi(lat1, lat2), lat1, lat2);
+    if (Math.abs(deltaLon) > Math.PI) {
+      deltaLon += -Math.sign(deltaLon) * 2 * Math.PI;
+    }
+    return Math.sqrt(deltaLat * deltaLat + correction * correction * deltaLon * deltaLon);
+  }
+
+  /**
+   * Initial true bearing of the great circle between two points, in degrees in [0, 360)
+   */
+  static initialBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    lat1 *= DEG2RAD;
+    lat2 *= DEG2RAD;
+    lon1 *= DEG2RAD;
+    lon2 *= DEG2RAD;
+    const cosLat2 = Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * cosLat2 * Math.cos(lon2 - lon1);
+    const y = Math.sin(lon2 - lon1) * cosLat2;
+    if (Math.abs(x) < 1e-14 && Math.abs(y) < 1e-14) {
+      // Coincident or antipodal points: no unique great circle
+      return NaN;
+    }
+    return (Math.atan2(y, x) * RAD2DEG + 360) % 360;
+  }
+
+  /**
+   * Final true bearing of the great circle between two points, in degrees in [0, 360)
+   */
+  static finalBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    return (GeoPoint.initialBearing(lat2, lon2, lat1, lon1) + 180) % 360;
+  }
+
+  /**
+   * True bearing of the rhumb line between two points, in degrees in (-180, 180]
+   */
+  static bearingRhumb(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    lat1 *= DEG2RAD;
+    lat2 *= DEG2RAD;
+    lon1 *= DEG2RAD;
+    lon2 *= DEG2RAD;
+    let deltaLon = lon2 - lon1;
+    const deltaPsi = GeoPoint.deltaPsi(lat1, lat2);
+    if (Math.abs(deltaLon) > Math.PI) {
+      deltaLon += -Math.sign(deltaLon) * 2 * Math.PI;
+    }
+    return Math.atan2(deltaLon, deltaPsi) * RAD2DEG;
+  }
+
+  private static asLatLonInterface(arg1: LatLonInterface | number, arg2?: number): LatLonInterface {
+    return typeof arg1 === 'number' ? GeoPoint.tempGeoPoint.set(arg1, arg2 as number) : arg1;
+  }
+
+  private static deltaPsi(latRad1: number, latRad2: number): number {
+    return Math.log(Math.tan(latRad2 / 2 + Math.PI / 4) / Math.tan(latRad1 / 2 + Math.PI / 4));
+  }
+
+  private static rhumbCorrection(deltaPsi: number, latRad1: number, latRad2: number): number {
+    return Math.abs(deltaPsi) > 1e-12 ? (latRad2 - latRad1) / deltaPsi : Math.cos(latRad1);
+  }
+}
+
+/**
+ * Subject holding a GeoPoint changed in place, notified when the point moves by more than a tolerance
+ */
+export class GeoPointSubject extends AbstractSubscribable<GeoPointReadOnly> implements Subscribable<GeoPointReadOnly> {
+  readonly isMutableSubscribable = true;
+
+  private constructor(private readonly value: GeoPoint, private readonly tolerance?: number) {
+    super();
+  }
+
+  /**
+   * @param initialVal Point held (and changed in place) by the subject
+   * @param tolerance Great-arc radians under which two points are equal, `GeoPoint.EQUALITY_TOLERANCE` by default
+   */
+  static create(initialVal: GeoPoint, tolerance?: number): GeoPointSubject {
+    return new GeoPointSubject(initialVal, tolerance);
+  }
+
+  get(): GeoPointReadOnly {
+    return this.value.readonly;
+  }
+
+  set(value: LatLonInterface): void;
+  set(lat: number, lon: number): void;
+  set(arg1: LatLonInterface | number, arg2?: number): void {
+    const equals = typeof arg1 === 'number'
+      ? this.value.equals(arg1, arg2 as number, this.tolerance)
+      : this.value.equals(arg1, this.tolerance);
+    if (!equals) {
+      typeof arg1 === 'number' ? this.value.set(arg1, arg2 as number) : this.value.set(arg1);
+      this.notify();
+    }
+  }
+}
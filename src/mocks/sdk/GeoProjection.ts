@@ -0,0 +1,294 @@
+/**
+ * Mock of the SDK geographic projections: `MercatorProjection` and `OrthographicProjection`.
+ *
+ * A projection maps lat/lon to planar coordinates: pre-rotation of the globe, raw projection, centering,
+ * scaling (1 pixel = 1 great-arc radian at scale factor 1), post-rotation and translation, like in the SDK:
+ *
+ * ```typescript
+ * const projection = new MercatorProjection()
+ *   .setCenter(new GeoPoint(42.36, -71.01))
+ *   .setScaleFactor(UnitType.GA_RADIAN.convertTo(1, UnitType.NMILE) * 4) // 4 px per NM
+ *   .setTranslation(Vec2Math.create(300, 300))
+ *   .setReflectY(true); // screen coordinates, north up
+ * projection.project(airport, Vec2Math.create());
+ * ```
+ */
+
+import { GeoPoint, GeoPointInterface, LatLonInterface } from './GeoPoint';
+import { UnitType } from './Units';
+import { ReadonlyFloat64Array, Vec2Math } from './Vectors';
+
+const DEG2RAD = Math.PI / 180;
+const RAD2DEG = 180 / Math.PI;
+
+/**
+ * Projection of lat/lon coordinates to planar coordinates and back
+ */
+export interface GeoProjection {
+  getCenter(): GeoPointInterface;
+  getScaleFactor(): number;
+  getPreRotation(): ReadonlyFloat64Array;
+  getTranslation(): ReadonlyFloat64Array;
+  getPostRotation(): number;
+  getReflectY(): boolean;
+  /**
+   * Project a point (or `[lon, lat]` in degrees) to planar coordinates
+   */
+  project(point: LatLonInterface | ReadonlyFloat64Array, out: Float64Array): Float64Array;
+  /**
+   * Invert planar coordinates to a point (or `[lon, lat]` in degrees)
+   */
+  invert(vec: ReadonlyFloat64Array, out: Float64Array): Float64Array;
+  invert(vec: ReadonlyFloat64Array, out: GeoPoint): GeoPoint;
+}
+
+/**
+ * Projection whose parameters can be changed
+ */
+export interface MutableGeoProjection extends GeoProjection {
+  setCenter(point: LatLonInterface): this;
+  setScaleFactor(factor: number): this;
+  /**
+   * Rotation of the globe before projection, as `[lambda, phi, gamma]` in radians
+   */
+  setPreRotation(vec: ReadonlyFloat64Array): this;
+  setTranslation(vec: ReadonlyFloat64Array): this;
+  setPostRotation(rotation: number): this;
+  setReflectY(val: boolean): this;
+  copyParametersFrom(other: GeoProjection): this;
+}
+
+export abstract class AbstractGeoProjection implements MutableGeoProjection {
+  private static readonly vec2Cache = [new Float64Array(2)];
+  private static readonly vec3Cache = [new Float64Array(3)];
+  private static readonly geoPointCache = [new GeoPoint(0, 0)];
+
+  private readonly center = new GeoPoint(0, 0);
+  private readonly centerTranslation = new Float64Array(2);
+  private scaleFactor = UnitType.GA_RADIAN.convertTo(1, UnitType.NMILE);
+  private readonly preRotation = new Float64Array(3);
+  private readonly translation = new Float64Array(2);
+  private postRotation = 0;
+  private rotationSin = 0;
+  private rotationCos = 1;
+  private reflectY = 1;
+
+  /**
+   * Project `[lon, lat]` in degrees to unscaled planar coordinates
+   */
+  protected abstract projectRaw(vec: ReadonlyFloat64Array, out: Float64Array): Float64Array;
+
+  /**
+   * Invert unscaled planar coordinates to `[lon, lat]` in degrees
+   */
+  protected abstract invertRaw(vec: ReadonlyFloat64Array, out: Float64Array): Float64Array;
+
+  getCenter(): GeoPointInterface {
+    return this.center.readonly;
+  }
+
+  getScaleFactor(): number {
+    return this.scaleFactor;
+  }
+
+  getPreRotation(): ReadonlyFloat64Array {
+    return this.preRotation;
+  }
+
+  getTranslation(): ReadonlyFloat64Array {
+    return this.translation;
+  }
+
+  getPostRotation(): number {
+    return this.postRotation;
+  }
+
+  getReflectY(): boolean {
+    return this.reflectY === -1;
+  }
+
+  setCenter(point: LatLonInterface): this {
+    this.center.set(point);
+    this.updateCenterTranslation();
+    return this;
+  }
+
+  setScaleFactor(factor: number): this {
+    this.scaleFactor = factor;
+    return this;
+  }
+
+  setPreRotation(vec: ReadonlyFloat64Array): this {
+    this.preRotation.set(vec as Float64Array);
+    this.updateCenterTranslation();
+    return this;
+  }
+
+  setTranslation(vec: ReadonlyFloat64Array): this {
+    this.translation.set(vec as Float64Array);
+    return this;
+  }
+
+  setPostRotation(rotation: number): this {
+    this.postRotation = rotation;
+    this.rotationCos = Math.cos(rotation);
+    this.rotationSin = Math.sin(rotation);
+    return this;
+  }
+
+  setReflectY(val: boolean): this {
+    this.reflectY = val ? -1 : 1;
+    return this;
+  }
+
+  copyParametersFrom(other: GeoProjection): this {
+    return this.setCenter(other.getCenter())
+      .setPreRotation(other.getPreRotation())
+      .setScaleFactor(other.getScaleFactor())
+      .setTranslation(other.getTranslation())
+      .setPostRotation(other.getPostRotation())
+      .setReflectY(other.getReflectY());
+  }
+
+  project(point: LatLonInterface | ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    if (point instanceof Float64Array) {
+      out.set(point);
+    } else {
+      out[0] = (point as LatLonInterface).lon;
+      out[1] = (point as LatLonInterface).lat;
+    }
+    this.preRotateForward(out, out);
+    this.projectRaw(out, out);
+    out[0] = (out[0] - this.centerTranslation[0]) * this.scaleFactor;
+    out[1] = (out[1] - this.centerTranslation[1]) * this.reflectY * this.scaleFactor;
+    const x = out[0];
+    const y = out[1];
+    out[0] = x * this.rotationCos - y * this.rotationSin + this.translation[0];
+    out[1] = x * this.rotationSin + y * this.rotationCos + this.translation[1];
+    return out;
+  }
+
+  invert(vec: ReadonlyFloat64Array, out: Float64Array): Float64Array;
+  invert(vec: ReadonlyFloat64Array, out: GeoPoint): GeoPoint;
+  invert(vec: ReadonlyFloat64Array, out: Float64Array | GeoPoint): Float64Array | GeoPoint {
+    const projected = AbstractGeoProjection.vec2Cache[0];
+    const x = vec[0] - this.translation[0];
+    const y = vec[1] - this.translation[1];
+    projected[0] = (x * this.rotationCos + y * this.rotationSin) / this.scaleFactor + this.centerTranslation[0];
+    projected[1] = (-x * this.rotationSin + y * this.rotationCos) / this.scaleFactor * this.reflectY + this.centerTranslation[1];
+    const inverted = this.invertRaw(projected, projected);
+    this.preRotateReverse(inverted, inverted);
+    if (out instanceof Float64Array) {
+      out.set(inverted);
+      return out;
+    }
+    return out.set(inverted[1], inverted[0]);
+  }
+
+  private updateCenterTranslation(): void {
+    const center = Vec2Math.set(this.center.lon, this.center.lat, AbstractGeoProjection.vec2Cache[0]);
+    this.preRotateForward(center, center);
+    this.projectRaw(center, this.centerTranslation);
+  }
+
+  /**
+   * Rotate `[lon, lat]` by the pre-rotation: about the poles by lambda, then about the x axis by gamma and the y axis by -phi
+   */
+  private preRotateForward(vec: Float64Array, out: Float64Array): Float64Array {
+    const [lambda, phi, gamma] = this.preRotation;
+    if (lambda === 0 && phi === 0 && gamma === 0) {
+      out.set(vec);
+      return out;
+    }
+    const rotatedLon = ((vec[0] + lambda * RAD2DEG) % 360 + 540) % 360 - 180;
+    if (phi === 0 && gamma === 0) {
+      return Vec2Math.set(rotatedLon, vec[1], out);
+    }
+    const cartesian = GeoPoint.sphericalToCartesian(vec[1], rotatedLon, AbstractGeoProjection.vec3Cache[0]);
+    AbstractGeoProjection.rotateY(AbstractGeoProjection.rotateX(cartesian, gamma), -phi);
+    const rotated = AbstractGeoProjection.geoPointCache[0].setFromCartesian(cartesian);
+    return Vec2Math.set(rotated.lon, rotated.lat, out);
+  }
+
+  private preRotateReverse(vec: Float64Array, out: Float64Array): Float64Array {
+    const [lambda, phi, gamma] = this.preRotation;
+    if (lambda === 0 && phi === 0 && gamma === 0) {
+      out.set(vec);
+      return out;
+    }
+    let lat = vec[1];
+    let lon = vec[0];
+    if (phi !== 0 || gamma !== 0) {
+      const cartesian = GeoPoint.sphericalToCartesian(lat, lon, AbstractGeoProjection.vec3Cache[0]);
+      AbstractGeoProjection.rotateX(AbstractGeoProjection.rotateY(cartesian, phi), -gamma);
+      const unrotated = AbstractGeoProjection.geoPointCache[0].setFromCartesian(cartesian);
+      lat = unrotated.lat;
+      lon = unrotated.lon;
+    }
+    lon = ((lon - lambda * RAD2DEG) % 360 + 540) % 360 - 180;
+    return Vec2Math.set(lon, lat, out);
+  }
+
+  private static rotateX(vec: Float64Array, theta: number): Float64Array {
+    const sin = Math.sin(theta);
+    const cos = Math.cos(theta);
+    const y = vec[1];
+    const z = vec[2];
+    vec[1] = cos * y - sin * z;
+    vec[2] = sin * y + cos * z;
+    return vec;
+  }
+
+  private static rotateY(vec: Float64Array, theta: number): Float64Array {
+    const sin = Math.sin(theta);
+    const cos = Math.cos(theta);
+    const x = vec[0];
+    const z = vec[2];
+    vec[0] = cos * x + sin * z;
+    vec[2] = -sin * x + cos * z;
+    return vec;
+  }
+}
+
+/**
+ * Mercator projection
+ */
+export class MercatorProjection extends AbstractGeoProjection {
+  protected projectRaw(vec: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    out[0] = vec[0] * DEG2RAD;
+    out[1] = Math.log(Math.tan((90 + vec[1]) * DEG2RAD / 2));
+    return out;
+  }
+
+  protected invertRaw(vec: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    out[0] = vec[0] * RAD2DEG;
+    out[1] = 2 * Math.atan(Math.exp(vec[1])) * RAD2DEG - 90;
+    return out;
+  }
+}
+
+/**
+ * Orthographic projection (the globe seen from space); center it on a point with a pre-rotation of
+ * `[-lon, -lat, 0]` in radians
+ */
+export class OrthographicProjection extends AbstractGeoProjection {
+  protected projectRaw(vec: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    const lonRad = vec[0] * DEG2RAD;
+    const latRad = vec[1] * DEG2RAD;
+    out[0] = Math.cos(latRad) * Math.sin(lonRad);
+    out[1] = Math.sin(latRad);
+    return out;
+  }
+
+  protected invertRaw(vec: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    const x = vec[0];
+    const y = vec[1];
+    const rho = Math.hypot(x, y);
+    const c = Math.asin(rho);
+    const sinC = Math.sin(c);
+    const cosC = Math.cos(c);
+    out[0] = Math.atan2(x * sinC, rho * cosC) * RAD2DEG;
+    out[1] = Math.asin(rho === 0 ? rho : y * sinC / rho) * RAD2DEG;
+    return out;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Subscription calling a handler on each notification of its source, like the SDK `HandlerSubscription`.
+ *
+ * Used by the EventBus mock for topic and wildcard subscriptions, and by its consumers.
+ */
+
+/**
+ * Subscription with the SDK lifecycle: it can be paused, resumed and destroyed
+ */
+export interface Subscription {
+  readonly isAlive: boolean;
+  readonly isPaused: boolean;
+  readonly canInitialNotify: boolean;
+  pause(): this;
+  resume(initialNotify?: boolean): this;
+  destroy(): void;
+}
+
+export class HandlerSubscription<H extends (...args: any[]) => void> implements Subscription {
+  isAlive: boolean = true;
+  /**
+   * Paused subscriptions are not notified by their source. Destroyed subscriptions are always paused.
+   */
+  isPaused: boolean = false;
+  readonly canInitialNotify: boolean;
+
+  /**
+   * @param handler Called on each notification
+   * @param initialNotifyFunc Sends the initial notification (e.g. the cached value of a topic)
+   * @param onDestroy Called once when the subscription is destroyed
+   */
+  constructor(
+    readonly handler: H,
+    private readonly initialNotifyFunc?: (sub: HandlerSubscription<H>) => void,
+    private readonly onDestroy?: (sub: HandlerSubscription<H>) => void
+  ) {
+    this.canInitialNotify = initialNotifyFunc !== undefined;
+  }
+
+  /**
+   * Send the initial notification to this subscription
+   */
+  initialNotify(): void {
+    if (!this.isAlive) {
+      throw new Error('HandlerSubscription: cannot notify a dead Subscription.');
+    }
+    this.initialNotifyFunc?.(this);
+  }
+
+  pause(): this {
+    if (!this.isAlive) {
+      throw new Error('Subscription: cannot pause a dead Subscription.');
+    }
+    this.isPaused = true;
+    return this;
+  }
+
+  /**
+   * Resume notifications, optionally sending the initial notification right away
+   */
+  resume(initialNotify: boolean = false): this {
+    if (!this.isAlive) {
+      throw new Error('Subscription: cannot resume a dead Subscription.');
+    }
+    if (!this.isPaused) {
+      return this;
+    }
+    this.isPaused = false;
+    if (initialNotify) {
+      this.initialNotify();
+    }
+    return this;
+  }
+
+  destroy(): void {
+    if (!this.isAlive) {
+      return;
+    }
+    this.isAlive = false;
+    this.isPaused = true;
+    this.onDestroy?.(this);
+  }
+}
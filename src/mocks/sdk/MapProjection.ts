@@ -0,0 +1,464 @@
+/**
+ * Mock of the SDK `MapProjection`: the Mercator projection of a map, defined by a target point, its
+ * projected position, a range (or scale factor), a rotation and the projected window size.
+ *
+ * Projections match the sim, so map layers place symbols where they would be drawn:
+ *
+ * ```typescript
+ * const projection = new MapProjection(600, 600);
+ * projection.set({
+ *   target: new GeoPoint(42.36, -71.01),
+ *   range: UnitType.NMILE.convertTo(20, UnitType.GA_RADIAN), // top to bottom of the window by default
+ *   rotation: -heading * Avionics.Utils.DEG2RAD, // heading up
+ * });
+ * projection.project(airport, Vec2Math.create()); // pixel position of the airport
+ * ```
+ */
+
+import { GeoPoint, GeoPointInterface, LatLonInterface } from './GeoPoint';
+import { MercatorProjection } from './GeoProjection';
+import { UnitType } from './Units';
+import { ReadonlyFloat64Array, Vec2Math, Vec3Math } from './Vectors';
+
+const DEG2RAD = Math.PI / 180;
+
+/**
+ * Parameters of `MapProjection.set()`; parameters left out are unchanged
+ */
+export type MapProjectionParameters = {
+  /** Point projected at the center of the window plus `targetProjectedOffset` */
+  target?: LatLonInterface;
+  /** Offset of the projected target from the center of the window, in pixels */
+  targetProjectedOffset?: ReadonlyFloat64Array;
+  /** Nominal scale factor (pixels per great-arc radian), or null to derive it from the range */
+  scaleFactor?: number | null;
+  /** Range between the range endpoints, in great-arc radians, used while `scaleFactor` is null */
+  range?: number;
+  /** Range endpoints `[relX1, relY1, relX2, relY2]`, relative to the window size */
+  rangeEndpoints?: ReadonlyFloat64Array;
+  /** Rotation of the projected map, in radians */
+  rotation?: number;
+  /** Size of the projected window, in pixels */
+  projectedSize?: ReadonlyFloat64Array;
+};
+
+/**
+ * Flags of the changes passed to the change listeners of a MapProjection
+ */
+export enum MapProjectionChangeType {
+  Target = 1,
+  Center = 2,
+  TargetProjected = 4,
+  Range = 8,
+  RangeEndpoints = 16,
+  ScaleFactor = 32,
+  Rotation = 64,
+  ProjectedSize = 128,
+  ProjectedResolution = 256,
+}
+
+type MapProjectionRecord = {
+  target: GeoPoint;
+  center: GeoPoint;
+  targetProjected: Float64Array;
+  range: number;
+  rangeEndpoints: Float64Array;
+  scaleFactor: number;
+  rotation: number;
+  projectedSize: Float64Array;
+  projectedResolution: number;
+};
+
+export class MapProjection {
+  static readonly DEFAULT_SCALE_FACTOR = UnitType.GA_RADIAN.convertTo(1, UnitType.NMILE);
+  private static readonly SCALE_FACTOR_MAX_ITER = 20;
+  private static readonly SCALE_FACTOR_TOLERANCE = 1e-6;
+
+  private static readonly tempVec2_1 = new Float64Array(2);
+  private static readonly tempVec2_2 = new Float64Array(2);
+  private static readonly tempVec2_3 = new Float64Array(2);
+  private static readonly tempVec2_4 = new Float64Array(2);
+  private static readonly tempGeoPoint_1 = new GeoPoint(0, 0);
+  private static readonly tempGeoPoint_2 = new GeoPoint(0, 0);
+  private static readonly vec3Cache = [Vec3Math.create()];
+
+  private readonly geoProjection = new MercatorProjection();
+
+  private readonly target = new GeoPoint(0, 0);
+  private readonly targetProjectedOffset = new Float64Array(2);
+  private readonly targetProjected = new Float64Array(2);
+  private scaleFactor: number | null = null;
+  private range = 1;
+  private readonly rangeEndpoints = new Float64Array([0.5, 0, 0.5, 1]);
+  private readonly projectedSize = new Float64Array(2);
+
+  private readonly center = new GeoPoint(0, 0);
+  private readonly centerProjected = new Float64Array(2);
+  private projectedRange = 0;
+  private widthRange = 0;
+  private heightRange = 0;
+
+  private readonly oldParameters: MapProjectionRecord = {
+    target: new GeoPoint(0, 0),
+    center: new GeoPoint(0, 0),
+    targetProjected: new Float64Array(2),
+    range: 1,
+    rangeEndpoints: new Float64Array(4),
+    scaleFactor: 1,
+    rotation: 0,
+    projectedSize: new Float64Array(2),
+    projectedResolution: 0,
+  };
+  private readonly queuedParameters: MapProjectionParameters = {};
+  private updateQueued = false;
+  private readonly changeListeners: ((projection: MapProjection, changeFlags: number) => void)[] = [];
+
+  /**
+   * @param projectedWidth Width of the projected window, in pixels
+   * @param projectedHeight Height of the projected window, in pixels
+   */
+  constructor(projectedWidth: number, projectedHeight: number) {
+    Vec2Math.set(projectedWidth, projectedHeight, this.projectedSize);
+    Vec2Math.set(projectedWidth / 2, projectedHeight / 2, this.centerProjected);
+    this.targetProjected.set(this.centerProjected);
+    this.geoProjection.setReflectY(true).setTranslation(this.centerProjected);
+    this.recompute();
+  }
+
+  getGeoProjection(): MercatorProjection {
+    return this.geoProjection;
+  }
+
+  getTarget(): GeoPointInterface {
+    return this.target.readonly;
+  }
+
+  getTargetProjectedOffset(): ReadonlyFloat64Array {
+    return this.targetProjectedOffset;
+  }
+
+  getTargetProjected(): ReadonlyFloat64Array {
+    return this.targetProjected;
+  }
+
+  /**
+   * Range between the range endpoints, in great-arc radians
+   */
+  getRange(): number {
+    return this.range;
+  }
+
+  getRangeEndpoints(): ReadonlyFloat64Array {
+    return this.rangeEndpoints;
+  }
+
+  /**
+   * Range from the center-left to the center-right of the window, in great-arc radians
+   */
+  getWidthRange(): number {
+    return this.widthRange;
+  }
+
+  /**
+   * Range from the top-center to the bottom-center of the window, in great-arc radians
+   */
+  getHeightRange(): number {
+    return this.heightRange;
+  }
+
+  getScaleFactor(): number {
+    return this.geoProjection.getScaleFactor();
+  }
+
+  getRotation(): number {
+    return this.geoProjection.getPostRotation();
+  }
+
+  getProjectedSize(): ReadonlyFloat64Array {
+    return this.projectedSize;
+  }
+
+  /**
+   * Point projected at the center of the window
+   */
+  getCenter(): GeoPointInterface {
+    return this.center.readonly;
+  }
+
+  getCenterProjected(): ReadonlyFloat64Array {
+    return this.centerProjected;
+  }
+
+  /**
+   * Average resolution between the range endpoints, in great-arc radians per pixel
+   */
+  getProjectedResolution(): number {
+    return this.range / this.projectedRange;
+  }
+
+  /**
+   * Set parameters, recompute the projection and notify the change listeners of what changed
+   */
+  set(parameters: Readonly<MapProjectionParameters>): void {
+    this.storeParameters(this.oldParameters);
+
+    parameters.projectedSize && this.setProjectedSize(parameters.projectedSize);
+    parameters.target && this.target.set(parameters.target);
+    parameters.targetProjectedOffset && this.setTargetProjectedOffset(parameters.targetProjectedOffset);
+    parameters.scaleFactor !== undefined && (this.scaleFactor = parameters.scaleFactor);
+    parameters.range !== undefined && (this.range = parameters.range);
+    parameters.rangeEndpoints && this.rangeEndpoints.set(parameters.rangeEndpoints as Float64Array);
+    parameters.rotation !== undefined && this.geoProjection.setPostRotation(parameters.rotation);
+
+    let changeFlags = this.computeChangeFlags(this.oldParameters);
+    if (changeFlags !== 0) {
+      this.recompute();
+      changeFlags |= this.computeDerivedChangeFlags(this.oldParameters);
+      this.changeListeners.forEach(listener => listener(this, changeFlags));
+    }
+  }
+
+  /**
+   * Queue parameters applied by the next `applyQueued()`
+   */
+  setQueued(parameters: Readonly<MapProjectionParameters>): void {
+    Object.assign(this.queuedParameters, parameters);
+    this.updateQueued = true;
+  }
+
+  applyQueued(): void {
+    if (this.updateQueued) {
+      this.updateQueued = false;
+      this.set(this.queuedParameters);
+      for (const key in this.queuedParameters) {
+        delete this.queuedParameters[key as keyof MapProjectionParameters];
+      }
+    }
+  }
+
+  /**
+   * Project a point (or `[lon, lat]` in degrees) to pixels
+   */
+  project(point: LatLonInterface | ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    return this.geoProjection.project(point, out);
+  }
+
+  /**
+   * Point projected at a pixel position
+   */
+  invert(vec: ReadonlyFloat64Array, out: Float64Array): Float64Array;
+  invert(vec: ReadonlyFloat64Array, out: GeoPoint): GeoPoint;
+  invert(vec: ReadonlyFloat64Array, out: Float64Array | GeoPoint): Float64Array | GeoPoint {
+    return this.geoProjection.invert(vec, out as any);
+  }
+
+  /**
+   * Whether a point (projected first unless given in pixels) lies within `[left, top, right, bottom]`
+   * bounds, the window by default
+   */
+  isInProjectedBounds(point: LatLonInterface | ReadonlyFloat64Array, bounds?: ReadonlyFloat64Array): boolean {
+    const left = bounds ? bounds[0] : 0;
+    const top = bounds ? bounds[1] : 0;
+    const right = bounds ? bounds[2] : this.projectedSize[0];
+    const bottom = bounds ? bounds[3] : this.projectedSize[1];
+    const projected = point instanceof Float64Array ? point : this.project(point, MapProjection.tempVec2_2);
+    return projected[0] >= left && projected[0] <= right && projected[1] >= top && projected[1] <= bottom;
+  }
+
+  /**
+   * Great-circle distance, in great-arc radians, between two points (inverted first when given in pixels)
+   */
+  geoDistance(point1: LatLonInterface | ReadonlyFloat64Array, point2: LatLonInterface | ReadonlyFloat64Array): number {
+    const geo1 = point1 instanceof Float64Array ? this.invert(point1, MapProjection.tempGeoPoint_1) : point1 as LatLonInterface;
+    const geo2 = point2 instanceof Float64Array ? this.invert(point2, MapProjection.tempGeoPoint_2) : point2 as LatLonInterface;
+    return GeoPoint.distance(geo1, geo2);
+  }
+
+  /**
+   * Distance, in pixels, between two points (projected first unless given in pixels)
+   */
+  projectedDistance(point1: LatLonInterface | ReadonlyFloat64Array, point2: LatLonInterface | ReadonlyFloat64Array): number {
+    const vec1 = point1 instanceof Float64Array ? point1 : this.project(point1, MapProjection.tempVec2_1);
+    const vec2 = point2 instanceof Float64Array ? point2 : this.project(point2, MapProjection.tempVec2_2);
+    return Vec2Math.distance(vec1, vec2);
+  }
+
+  /**
+   * Register a listener called with the change flags on every change (once per registration)
+   */
+  addChangeListener(listener: (projection: MapProjection, changeFlags: number) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Remove one registration of a change listener
+   */
+  removeChangeListener(listener: (projection: MapProjection, changeFlags: number) => void): boolean {
+    const index = this.changeListeners.lastIndexOf(listener);
+    if (index < 0) {
+      return false;
+    }
+    this.changeListeners.splice(index, 1);
+    return true;
+  }
+
+  private setProjectedSize(size: ReadonlyFloat64Array): void {
+    this.projectedSize.set(size as Float64Array);
+    Vec2Math.set(size[0] / 2, size[1] / 2, this.centerProjected);
+    this.geoProjection.setTranslation(this.centerProjected);
+    Vec2Math.add(this.centerProjected, this.targetProjectedOffset, this.targetProjected);
+  }
+
+  private setTargetProjectedOffset(offset: ReadonlyFloat64Array): void {
+    this.targetProjectedOffset.set(offset as Float64Array);
+    Vec2Math.add(this.centerProjected, this.targetProjectedOffset, this.targetProjected);
+  }
+
+  private recompute(): void {
+    const success = this.scaleFactor === null
+      ? this.recomputeCenterAndScaleWithRange(this.range)
+      : this.recomputeCenterAndRangeWithScaleFactor(this.scaleFactor);
+    if (!success) {
+      return;
+    }
+
+    // Pre-rotate the globe to the center longitude to avoid anti-meridian wrapping
+    this.geoProjection.setPreRotation(Vec3Math.set(-this.center.lon * DEG2RAD, 0, 0, MapProjection.vec3Cache[0]));
+
+    const width = this.projectedSize[0];
+    const height = this.projectedSize[1];
+    this.projectedRange = Math.hypot(
+      (this.rangeEndpoints[2] - this.rangeEndpoints[0]) * width,
+      (this.rangeEndpoints[3] - this.rangeEndpoints[1]) * height
+    );
+    this.widthRange = this.geoDistance(Vec2Math.set(0, height / 2, MapProjection.tempVec2_1), Vec2Math.set(width, height / 2, MapProjection.tempVec2_2));
+    this.heightRange = this.geoDistance(Vec2Math.set(width / 2, 0, MapProjection.tempVec2_1), Vec2Math.set(width / 2, height, MapProjection.tempVec2_2));
+  }
+
+  private calculateRangeAtCenter(centerProjected: ReadonlyFloat64Array): number {
+    const endpoints = this.rangeEndpoints;
+    const width = this.projectedSize[0];
+    const height = this.projectedSize[1];
+    const endpoint1 = Vec2Math.set(
+      centerProjected[0] + width * (endpoints[0] - 0.5),
+      centerProjected[1] + height * (endpoints[1] - 0.5),
+      MapProjection.tempVec2_3
+    );
+    const endpoint2 = Vec2Math.set(
+      centerProjected[0] + width * (endpoints[2] - 0.5),
+      centerProjected[1] + height * (endpoints[3] - 0.5),
+      MapProjection.tempVec2_4
+    );
+    return this.geoProjection.invert(endpoint1, MapProjection.tempGeoPoint_1).distance(this.geoProjection.invert(endpoint2, MapProjection.tempGeoPoint_2));
+  }
+
+  /**
+   * Project the target with the current geo projection, falling back to default parameters if it does not project
+   */
+  private projectTarget(out: Float64Array, resetScaleFactor: boolean): boolean {
+    this.geoProjection.project(this.target, out);
+    if (Vec2Math.isFinite(out)) {
+      return true;
+    }
+    if (!this.target.isValid() || !isFinite(this.geoProjection.getPostRotation()) || !Vec2Math.isFinite(this.geoProjection.getTranslation())) {
+      return false;
+    }
+    resetScaleFactor && this.geoProjection.setScaleFactor(MapProjection.DEFAULT_SCALE_FACTOR);
+    this.geoProjection.setCenter(MapProjection.tempGeoPoint_1.set(0, 0));
+    this.geoProjection.setPreRotation(Vec3Math.set(0, 0, 0, MapProjection.vec3Cache[0]));
+    this.geoProjection.project(this.target, out);
+    return true;
+  }
+
+  private recomputeCenterAndScaleWithRange(range: number): boolean {
+    const currentTargetProjected = MapProjection.tempVec2_1;
+    if (!this.projectTarget(currentTargetProjected, true)) {
+      return false;
+    }
+    const currentCenterProjected = Vec2Math.sub(currentTargetProjected, this.targetProjectedOffset, MapProjection.tempVec2_2);
+
+    let ratio = this.calculateRangeAtCenter(currentCenterProjected) / range;
+    if (!isFinite(ratio) || ratio === 0) {
+      return false;
+    }
+
+    // Iterate on the scale factor until the range matches (usually converges in less than 4 iterations)
+    let lastScaleFactor = this.geoProjection.getScaleFactor();
+    let iterCount = 0;
+    let ratioError = Math.abs(ratio - 1);
+    let deltaRatioError = MapProjection.SCALE_FACTOR_TOLERANCE + 1;
+    while (
+      iterCount++ < MapProjection.SCALE_FACTOR_MAX_ITER
+      && ratioError > MapProjection.SCALE_FACTOR_TOLERANCE
+      && deltaRatioError > MapProjection.SCALE_FACTOR_TOLERANCE
+    ) {
+      this.geoProjection.setScaleFactor(ratio * lastScaleFactor);
+      this.geoProjection.project(this.target, currentTargetProjected);
+      Vec2Math.sub(currentTargetProjected, this.targetProjectedOffset, currentCenterProjected);
+      const newRatio = this.calculateRangeAtCenter(currentCenterProjected) / range;
+      const ratioDelta = newRatio - ratio;
+
+      // Near the poles the range no longer changes monotonically with the scale factor: keep the last good one
+      if (!isFinite(ratio) || ratio < 1 && ratioDelta <= 0 || ratio > 1 && ratioDelta >= 0) {
+        this.geoProjection.setScaleFactor(lastScaleFactor);
+        this.geoProjection.project(this.target, currentTargetProjected);
+        Vec2Math.sub(currentTargetProjected, this.targetProjectedOffset, currentCenterProjected);
+        break;
+      }
+
+      lastScaleFactor = this.geoProjection.getScaleFactor();
+      ratio = newRatio;
+      const newRatioError = Math.abs(ratio - 1);
+      deltaRatioError = Math.abs(newRatioError - ratioError);
+      ratioError = newRatioError;
+    }
+
+    this.invert(currentCenterProjected, this.center);
+    this.geoProjection.setCenter(this.center);
+    return true;
+  }
+
+  private recomputeCenterAndRangeWithScaleFactor(scaleFactor: number): boolean {
+    this.geoProjection.setScaleFactor(scaleFactor);
+    const currentTargetProjected = MapProjection.tempVec2_1;
+    if (!this.projectTarget(currentTargetProjected, false)) {
+      return false;
+    }
+    const currentCenterProjected = Vec2Math.sub(currentTargetProjected, this.targetProjectedOffset, MapProjection.tempVec2_2);
+    this.range = this.calculateRangeAtCenter(currentCenterProjected);
+    this.invert(currentCenterProjected, this.center);
+    this.geoProjection.setCenter(this.center);
+    return true;
+  }
+
+  private storeParameters(record: MapProjectionRecord): void {
+    record.target.set(this.target);
+    record.center.set(this.center);
+    record.targetProjected.set(this.targetProjected);
+    record.range = this.range;
+    record.rangeEndpoints.set(this.rangeEndpoints);
+    record.scaleFactor = this.geoProjection.getScaleFactor();
+    record.rotation = this.getRotation();
+    record.projectedSize.set(this.projectedSize);
+    record.projectedResolution = this.getProjectedResolution();
+  }
+
+  private computeChangeFlags(old: MapProjectionRecord): number {
+    return (old.target.equals(this.target) ? 0 : MapProjectionChangeType.Target)
+      | (Vec2Math.equals(old.targetProjected, this.targetProjected) ? 0 : MapProjectionChangeType.TargetProjected)
+      | (this.scaleFactor === null
+        ? (old.range === this.range ? 0 : MapProjectionChangeType.Range)
+        : (old.scaleFactor === this.scaleFactor ? 0 : MapProjectionChangeType.ScaleFactor))
+      | (old.rangeEndpoints.every((value, i) => value === this.rangeEndpoints[i]) ? 0 : MapProjectionChangeType.RangeEndpoints)
+      | (old.rotation === this.getRotation() ? 0 : MapProjectionChangeType.Rotation)
+      | (Vec2Math.equals(old.projectedSize, this.projectedSize) ? 0 : MapProjectionChangeType.ProjectedSize);
+  }
+
+  private computeDerivedChangeFlags(old: MapProjectionRecord): number {
+    return (old.center.equals(this.center) ? 0 : MapProjectionChangeType.Center)
+      | (this.scaleFactor === null
+        ? (old.scaleFactor === this.geoProjection.getScaleFactor() ? 0 : MapProjectionChangeType.ScaleFactor)
+        : (old.range === this.range ? 0 : MapProjectionChangeType.Range))
+      | (old.projectedResolution === this.getProjectedResolution() ? 0 : MapProjectionChangeType.ProjectedResolution);
+  }
+}
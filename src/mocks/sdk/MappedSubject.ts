@@ -0,0 +1,167 @@
+/**
+ * Mock of the SDK `MappedSubject`: a subscribable mapped from one or more input subscribables.
+ *
+ * ```typescript
+ * const speed = Subject.create(120);
+ * const overspeed = Subject.create(false);
+ * const color = MappedSubject.create(([kts, over]) => over || kts > 250 ? 'red' : 'white', speed, overspeed);
+ * ```
+ *
+ * Without a mapping function, the value is the array of input values, notified on every input change.
+ */
+
+import type { Subscribable } from '../SDKAdapterExports';
+import { AbstractSubscribable } from './AbstractSubscribable';
+import { Subscription } from './HandlerSubscription';
+
+/**
+ * Subscribables whose values make the input tuple `I`
+ */
+export type MappedSubscribableInputs<I extends any[]> = { readonly [K in keyof I]: Subscribable<I[K]> };
+
+export class MappedSubject<I extends any[], T> extends AbstractSubscribable<T> {
+  static readonly IDENTITY_MAP = <V>(input: V): V => input;
+  static readonly NEVER_EQUALS = (): boolean => false;
+
+  readonly canInitialNotify = true;
+  private value: T;
+  private readonly inputs: Subscribable<any>[];
+  private readonly inputValues: I;
+  private readonly mutateFunc: (newVal: T) => void;
+  private readonly inputSubs: Subscription[];
+  private _isAlive: boolean = true;
+  private _isPaused: boolean = false;
+
+  private constructor(
+    private readonly mapFunc: (inputs: Readonly<I>, previousVal?: T) => T,
+    private readonly equalityFunc: (a: T, b: T) => boolean,
+    mutateFunc: ((oldVal: T, newVal: T) => void) | undefined,
+    initialVal: T | undefined,
+    ...inputs: Subscribable<any>[]
+  ) {
+    super();
+    this.inputs = inputs;
+    this.inputValues = inputs.map(input => input.get()) as I;
+    if (initialVal !== undefined && mutateFunc) {
+      this.value = initialVal;
+      mutateFunc(this.value, this.mapFunc(this.inputValues, undefined));
+      this.mutateFunc = (newVal: T): void => mutateFunc(this.value, newVal);
+    } else {
+      this.value = this.mapFunc(this.inputValues, undefined);
+      this.mutateFunc = (newVal: T): void => {
+        this.value = newVal;
+      };
+    }
+    this.inputSubs = inputs.map((input, index) => input.sub(value => {
+      this.inputValues[index] = value;
+      this.updateValue();
+    }));
+  }
+
+  /**
+   * Create a subject whose value is the array of input values, notified on every input change
+   */
+  static create<I extends any[]>(...inputs: MappedSubscribableInputs<I>): MappedSubject<I, Readonly<I>>;
+  /**
+   * Create a subject mapped from its inputs, notified when the mapped value changes (strict equality)
+   */
+  static create<I extends any[], T>(
+    mapFunc: (inputs: Readonly<I>, previousVal?: T) => T,
+    ...inputs: MappedSubscribableInputs<I>
+  ): MappedSubject<I, T>;
+  /**
+   * Create a subject mapped from its inputs, notified when the mapped value changes according to `equalityFunc`
+   */
+  static create<I extends any[], T>(
+    mapFunc: (inputs: Readonly<I>, previousVal?: T) => T,
+    equalityFunc: (a: T, b: T) => boolean,
+    ...inputs: MappedSubscribableInputs<I>
+  ): MappedSubject<I, T>;
+  /**
+   * Create a subject mapped from its inputs, whose value is changed in place by `mutateFunc`
+   */
+  static create<I extends any[], T>(
+    mapFunc: (inputs: Readonly<I>, previousVal?: T) => T,
+    equalityFunc: (a: T, b: T) => boolean,
+    mutateFunc: (oldVal: T, newVal: T) => void,
+    initialVal: T,
+    ...inputs: MappedSubscribableInputs<I>
+  ): MappedSubject<I, T>;
+  static create(...args: any[]): MappedSubject<any[], any> {
+    let mapFunc: (inputs: any, previousVal?: any) => any;
+    let equalityFunc: (a: any, b: any) => boolean;
+    let mutateFunc: ((oldVal: any, newVal: any) => void) | undefined;
+    let initialVal: any;
+
+    if (typeof args[0] === 'function') {
+      mapFunc = args.shift();
+      equalityFunc = typeof args[0] === 'function' ? args.shift() : AbstractSubscribable.DEFAULT_EQUALITY_FUNC;
+      if (typeof args[0] === 'function') {
+        mutateFunc = args.shift();
+        initialVal = args.shift();
+      }
+    } else {
+      mapFunc = MappedSubject.IDENTITY_MAP;
+      equalityFunc = MappedSubject.NEVER_EQUALS;
+    }
+
+    return new MappedSubject(mapFunc, equalityFunc, mutateFunc, initialVal, ...args);
+  }
+
+  get isAlive(): boolean {
+    return this._isAlive;
+  }
+
+  get isPaused(): boolean {
+    return this._isPaused;
+  }
+
+  get(): T {
+    return this.value;
+  }
+
+  /**
+   * Stop following the inputs until resume()
+   */
+  pause(): this {
+    if (!this._isAlive) {
+      throw new Error('MappedSubject: cannot pause a dead subject');
+    }
+    if (!this._isPaused) {
+      this.inputSubs.forEach(sub => sub.pause());
+      this._isPaused = true;
+    }
+    return this;
+  }
+
+  /**
+   * Follow the inputs again, starting with their current values
+   */
+  resume(): this {
+    if (!this._isAlive) {
+      throw new Error('MappedSubject: cannot resume a dead subject');
+    }
+    if (this._isPaused) {
+      this._isPaused = false;
+      this.inputs.forEach((input, index) => {
+        this.inputValues[index] = input.get();
+        this.inputSubs[index].resume();
+      });
+      this.updateValue();
+    }
+    return this;
+  }
+
+  destroy(): void {
+    this._isAlive = false;
+    this.inputSubs.forEach(sub => sub.destroy());
+  }
+
+  private updateValue(): void {
+    const value = this.mapFunc(this.inputValues, this.value);
+    if (!this.equalityFunc(this.value, value)) {
+      this.mutateFunc(value);
+      this.notify();
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Mock of the SDK `MathUtils`: rounding to a precision and angle normalization.
+ */
+
+export class MathUtils {
+  static readonly TWO_PI = Math.PI * 2;
+  static readonly HALF_PI = Math.PI / 2;
+
+  static clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+  }
+
+  /**
+   * Round to the nearest multiple of `precision`
+   */
+  static round(value: number, precision: number = 1): number {
+    return Math.round(value / precision) * precision;
+  }
+
+  static ceil(value: number, precision: number = 1): number {
+    return Math.ceil(value / precision) * precision;
+  }
+
+  static floor(value: number, precision: number = 1): number {
+    return Math.floor(value / precision) * precision;
+  }
+
+  /**
+   * Normalize an angle in radians to `[lowerBound, lowerBound + 2π)`
+   */
+  static normalizeAngle(radians: number, lowerBound: number = 0): number {
+    return (((radians - lowerBound) % MathUtils.TWO_PI) + MathUtils.TWO_PI) % MathUtils.TWO_PI + lowerBound;
+  }
+
+  /**
+   * Normalize an angle in degrees to `[lowerBound, lowerBound + 360)`
+   */
+  static normalizeAngleDeg(degrees: number, lowerBound: number = 0): number {
+    return (((degrees - lowerBound) % 360) + 360) % 360 + lowerBound;
+  }
+
+  /**
+   * Angle in radians from `startRadians` to `endRadians`: clockwise (1), counterclockwise (-1) or the shortest way (0)
+   */
+  static angularDistance(startRadians: number, endRadians: number, direction: number): number {
+    const sign = direction < 0 ? -1 : 1;
+    const diff = MathUtils.normalizeAngle((endRadians - startRadians) * sign);
+    return direction === 0 ? Math.min(diff, MathUtils.TWO_PI - diff) : diff;
+  }
+
+  /**
+   * Angle in degrees from `startDegrees` to `endDegrees`: clockwise (1), counterclockwise (-1) or the shortest way (0)
+   */
+  static angularDistanceDeg(startDegrees: number, endDegrees: number, direction: number): number {
+    const sign = direction < 0 ? -1 : 1;
+    const diff = MathUtils.normalizeAngleDeg((endDegrees - startDegrees) * sign);
+    return direction === 0 ? Math.min(diff, 360 - diff) : diff;
+  }
+}
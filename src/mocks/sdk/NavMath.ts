@@ -0,0 +1,251 @@
+/**
+ * Mock of the SDK `NavMath` and `MagVar`: headings, turns, wind and great-circle track math.
+ *
+ * `MagVar` reads the magnetic variation from `Facilities.getMagVar(lat, lon)` like in the SDK. The mocked
+ * `Facilities` global returns the `MAGVAR` SimVar for every position; replace `Facilities.getMagVar` to model
+ * a variation that changes along a route.
+ */
+
+import { GeoCircle } from './GeoCircle';
+import { GeoPoint, GeoPointInterface, LatLonInterface } from './GeoPoint';
+import { MathUtils } from './MathUtils';
+import { UnitType } from './Units';
+
+const DEG2RAD = Math.PI / 180;
+const RAD2DEG = 180 / Math.PI;
+
+export class NavMath {
+  private static readonly vec3Cache = [new Float64Array(3)];
+  private static readonly geoPointCache = [new GeoPoint(0, 0)];
+  private static readonly geoCircleCache = [new GeoCircle(new Float64Array(3), 0)];
+
+  static clamp(val: number, min: number, max: number): number {
+    return Math.min(Math.max(val, min), max);
+  }
+
+  /**
+   * Normalize a heading to [0, 360); logs an error and returns NaN for a non-finite heading
+   */
+  static normalizeHeading(heading: number): number {
+    if (isFinite(heading)) {
+      return (heading % 360 + 360) % 360;
+    }
+    console.error(`normalizeHeading: Invalid heading: ${heading}`);
+    return NaN;
+  }
+
+  static reciprocateHeading(heading: number): number {
+    return NavMath.normalizeHeading(heading + 180);
+  }
+
+  /**
+   * Turn radius, in meters, at a true airspeed in knots and a bank angle in degrees
+   */
+  static turnRadius(airspeedTrue: number, bankAngle: number): number {
+    return (Math.pow(airspeedTrue, 2) / (11.26 * Math.tan(bankAngle * DEG2RAD))) / 3.2808399;
+  }
+
+  /**
+   * Bank angle, in degrees, to fly a turn radius in meters at a true airspeed in knots
+   */
+  static bankAngle(airspeedTrue: number, radius: number): number {
+    const airspeedMS = airspeedTrue * 0.51444444;
+    return Math.atan(Math.pow(airspeedMS, 2) / (radius * 9.80665)) * RAD2DEG;
+  }
+
+  /**
+   * Ground track flown with a heading and true airspeed in a wind (direction the wind blows from, and speed)
+   */
+  static headingToGroundTrack(heading: number, tas: number, windDirection: number, windSpeed: number): number {
+    if (windSpeed === 0) {
+      return heading;
+    }
+    const x = tas * Math.cos(heading * DEG2RAD) - windSpeed * Math.cos(windDirection * DEG2RAD);
+    const y = tas * Math.sin(heading * DEG2RAD) - windSpeed * Math.sin(windDirection * DEG2RAD);
+    if (x === 0 && y === 0) {
+      return NaN;
+    }
+    return MathUtils.normalizeAngleDeg(Math.atan2(y, x) * RAD2DEG);
+  }
+
+  /**
+   * Shortest turn direction from one course to another
+   */
+  static getTurnDirection(startCourse: number, endCourse: number): 'left' | 'right' {
+    return NavMath.normalizeHeading(endCourse - startCourse) > 180 ? 'left' : 'right';
+  }
+
+  static polarToDegreesNorth(radians: number): number {
+    return NavMath.normalizeHeading(RAD2DEG * (Math.PI / 2 - radians));
+  }
+
+  static degreesNorthToPolar(degrees: number): number {
+    return NavMath.normalizeHeading(degrees - 90) * DEG2RAD;
+  }
+
+  /**
+   * Length, in meters, of an arc between two bearings from its center, with a radius in meters
+   */
+  static calculateArcDistance(startBearing: number, endBearing: number, radius: number): number {
+    const angularWidth = ((endBearing - startBearing + 360) % 360) * DEG2RAD;
+    const conversion = UnitType.GA_RADIAN.convertTo(1, UnitType.METER);
+    return angularWidth * Math.sin(radius / conversion) * conversion;
+  }
+
+  /**
+   * Whether a bearing lies between two bearings, clockwise from `start` to `end`
+   */
+  static bearingIsBetween(bearing: number, start: number, end: number): boolean {
+    const range = NavMath.normalizeHeading(end - start);
+    const relativeBearing = NavMath.normalizeHeading(bearing - start);
+    return relativeBearing >= 0 && relativeBearing <= range;
+  }
+
+  static headingToAngle(heading: number, turnDirection: 'left' | 'right'): number {
+    return NavMath.normalizeHeading(heading + (turnDirection === 'left' ? 90 : -90));
+  }
+
+  static angleToHeading(angle: number, turnDirection: 'left' | 'right'): number {
+    return NavMath.normalizeHeading(angle + (turnDirection === 'left' ? -90 : 90));
+  }
+
+  /**
+   * Wind correction angle, in degrees, to fly a course at a true airspeed in a wind
+   */
+  static windCorrectionAngle(course: number, airspeedTrue: number, windDirection: number, windSpeed: number): number {
+    const crosswind = windSpeed * Math.sin(course * DEG2RAD - windDirection * DEG2RAD);
+    return Math.asin(crosswind / airspeedTrue) * RAD2DEG;
+  }
+
+  /**
+   * Cross-track distance, in nautical miles, from the great-circle path between two points (positive right of the path)
+   */
+  static crossTrack(start: LatLonInterface, end: LatLonInterface, pos: LatLonInterface): number {
+    const path = NavMath.geoCircleCache[0].setAsGreatCircle(start, end);
+    if (isNaN(path.center[0])) {
+      return NaN;
+    }
+    return UnitType.GA_RADIAN.convertTo(path.distance(pos), UnitType.NMILE);
+  }
+
+  /**
+   * Along-track distance, in nautical miles, from the start of the great-circle path between two points
+   */
+  static alongTrack(start: LatLonInterface, end: LatLonInterface, pos: LatLonInterface): number {
+    const path = NavMath.geoCircleCache[0].setAsGreatCircle(start, end);
+    if (isNaN(path.center[0])) {
+      return NaN;
+    }
+    const distance = path.distanceAlong(start, path.closest(pos, NavMath.vec3Cache[0]));
+    return UnitType.GA_RADIAN.convertTo((distance + Math.PI) % (2 * Math.PI) - Math.PI, UnitType.NMILE);
+  }
+
+  /**
+   * Desired true track, in degrees, abeam a position on the great-circle path between two points
+   */
+  static desiredTrack(start: LatLonInterface, end: LatLonInterface, pos: LatLonInterface): number {
+    const path = NavMath.geoCircleCache[0].setAsGreatCircle(start, end);
+    if (isNaN(path.center[0])) {
+      return NaN;
+    }
+    return path.bearingAt(path.closest(pos, NavMath.vec3Cache[0]));
+  }
+
+  /**
+   * Desired true track, in degrees, abeam a position on an arc around a center
+   */
+  static desiredTrackArc(center: LatLonInterface, turnDirection: 'left' | 'right', pos: LatLonInterface): number {
+    const northAngle = NavMath.geoPointCache[0].set(pos).bearingFrom(center);
+    return NavMath.angleToHeading(northAngle, turnDirection);
+  }
+
+  /**
+   * Cross-track distance, in nautical miles, from an arc of a radius in meters (positive inside the arc)
+   */
+  static crossTrackArc(center: LatLonInterface, radius: number, pos: LatLonInterface): number {
+    return UnitType.METER.convertTo(radius, UnitType.NMILE)
+      - UnitType.GA_RADIAN.convertTo(NavMath.geoPointCache[0].set(pos).distance(center), UnitType.NMILE);
+  }
+
+  /**
+   * Position at a distance in meters along an arc of a radius in meters, from a bearing from its center
+   */
+  static positionAlongArc(
+    start: number,
+    center: GeoPointInterface,
+    radius: number,
+    turnDirection: 'left' | 'right',
+    distance: number,
+    out: GeoPoint
+  ): GeoPoint {
+    const convertedRadius = UnitType.GA_RADIAN.convertTo(Math.sin(UnitType.METER.convertTo(radius, UnitType.GA_RADIAN)), UnitType.METER);
+    const theta = UnitType.RADIAN.convertTo(distance / convertedRadius, UnitType.DEGREE);
+    const bearing = turnDirection === 'right' ? start + theta : start - theta;
+    center.offset(NavMath.normalizeHeading(bearing), UnitType.METER.convertTo(radius, UnitType.GA_RADIAN), out);
+    return out;
+  }
+
+  /**
+   * Signed difference from angle `a` to angle `b`, in degrees in (-180, 180]
+   */
+  static diffAngle(a: number, b: number): number {
+    let diff = b - a;
+    while (diff > 180) {
+      diff -= 360;
+    }
+    while (diff <= -180) {
+      diff += 360;
+    }
+    return diff;
+  }
+
+  /**
+   * Unit normal of a course towards a turn direction, as a 2D vector
+   */
+  static normal(course: number, turnDirection: 'left' | 'right', outVector: Float64Array): void {
+    const polarCourse = NavMath.degreesNorthToPolar(NavMath.headingToAngle(course, turnDirection));
+    outVector[0] = Math.cos(polarCourse);
+    outVector[1] = Math.sin(polarCourse);
+  }
+}
+
+export class MagVar {
+  /**
+   * Magnetic variation at a point, in degrees (positive east)
+   */
+  static get(point: LatLonInterface): number;
+  static get(lat: number, lon: number): number;
+  static get(arg1: LatLonInterface | number, arg2?: number): number {
+    return MagVar.getMagVar(arg1, arg2);
+  }
+
+  /**
+   * Convert a magnetic bearing to true, with a variation in degrees or the variation at a point
+   */
+  static magneticToTrue(bearing: number, magVar: number): number;
+  static magneticToTrue(bearing: number, point: LatLonInterface): number;
+  static magneticToTrue(bearing: number, lat: number, lon: number): number;
+  static magneticToTrue(bearing: number, arg1: LatLonInterface | number, arg2?: number): number {
+    return NavMath.normalizeHeading(bearing + (typeof arg1 === 'number' && arg2 === undefined ? arg1 : MagVar.getMagVar(arg1, arg2)));
+  }
+
+  /**
+   * Convert a true bearing to magnetic, with a variation in degrees or the variation at a point
+   */
+  static trueToMagnetic(bearing: number, magVar: number): number;
+  static trueToMagnetic(bearing: number, point: LatLonInterface): number;
+  static trueToMagnetic(bearing: number, lat: number, lon: number): number;
+  static trueToMagnetic(bearing: number, arg1: LatLonInterface | number, arg2?: number): number {
+    return NavMath.normalizeHeading(bearing - (typeof arg1 === 'number' && arg2 === undefined ? arg1 : MagVar.getMagVar(arg1, arg2)));
+  }
+
+  private static getMagVar(arg1: LatLonInterface | number, arg2?: number): number {
+    const facilities = (globalThis as any).Facilities;
+    if (typeof facilities?.getMagVar !== 'function') {
+      return 0;
+    }
+    const lat = typeof arg1 === 'number' ? arg1 : arg1.lat;
+    const lon = typeof arg1 === 'number' ? arg2 as number : arg1.lon;
+    return facilities.getMagVar(lat, lon);
+  }
+}
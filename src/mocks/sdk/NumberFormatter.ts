@@ -0,0 +1,218 @@
+/**
+ * Mock of the SDK `NumberFormatter`: formats numbers for display with rounding, padding, digit limits and signs.
+ *
+ * ```typescript
+ * const formatAltitude = NumberFormatter.create({ precision: 20, showCommas: true });
+ * formatAltitude(12345); // '12,340'
+ * const formatBaro = NumberFormatter.create({ precision: 0.01 });
+ * formatBaro(29.9); // '29.90'
+ * ```
+ */
+
+import { Rounding } from './SubscribableMapFunctions';
+
+/**
+ * Options of NumberFormatter.create(); omitted options take their default
+ */
+export interface NumberFormatterOptions {
+  /** Precision to round to (0.01 for hundredths, 10 for tens), 0 for none. Default: 0 */
+  precision: number;
+  /** Rounding direction. Default: nearest */
+  round: Rounding;
+  /** Hysteresis keeping the previous output, one value or `[lower, upper]`. Default: 0 */
+  hysteresis: number | readonly [number, number];
+  /** Maximum number of digits; decimals are dropped to fit. Default: Infinity */
+  maxDigits: number;
+  /** Keep trailing decimal zeroes. Default: true */
+  forceDecimalZeroes: boolean;
+  /** Minimum digits before the decimal point, padded with zeroes; 0 drops a leading '0' before the point. Default: 1 */
+  pad: number;
+  /** Group thousands with commas. Default: false */
+  showCommas: boolean;
+  /** Use the minus sign '−' instead of '-'. Default: false */
+  useMinusSign: boolean;
+  /** Show '+' for positive numbers. Default: false */
+  forceSign: boolean;
+  /** Never show a sign. Default: false */
+  hideSign: boolean;
+  /** Output for NaN. Default: 'NaN' */
+  nanString: string;
+  /** Output for Infinity. Default: 'Infinity' */
+  posInfinityString: string;
+  /** Output for -Infinity. Default: '-Infinity' */
+  negInfinityString: string;
+  /** Reuse the previous output when the rounded number is unchanged. Default: false (true with hysteresis) */
+  cache: boolean;
+}
+
+interface ResolvedOptions extends Omit<NumberFormatterOptions, 'hysteresis'> {
+  roundFunc: (value: number) => number;
+  hysteresisOffsetLower: number;
+  hysteresisOffsetUpper: number;
+  cachedNumber?: number;
+  cachedString?: string;
+}
+
+export class NumberFormatter {
+  static readonly DEFAULT_OPTIONS: Readonly<NumberFormatterOptions> = {
+    precision: 0,
+    round: Rounding.Nearest,
+    hysteresis: 0,
+    maxDigits: Infinity,
+    forceDecimalZeroes: true,
+    pad: 1,
+    showCommas: false,
+    useMinusSign: false,
+    forceSign: false,
+    hideSign: false,
+    nanString: 'NaN',
+    posInfinityString: 'Infinity',
+    negInfinityString: '-Infinity',
+    cache: false,
+  };
+
+  private static readonly TRAILING_ZERO_REGEX = /0+$/;
+  private static readonly LEADING_ZERO_REGEX = /^0\./;
+  private static readonly COMMAS_REGEX = /\B(?=(\d{3})+(?!\d))/g;
+
+  /**
+   * Create a function formatting numbers with the given options
+   */
+  static create(options?: Partial<NumberFormatterOptions>): (number: number) => string {
+    const resolved = NumberFormatter.resolveOptions(options);
+    return (number: number): string => NumberFormatter.formatNumber(number, resolved);
+  }
+
+  private static resolveOptions(options?: Partial<NumberFormatterOptions>): ResolvedOptions {
+    const merged = { ...NumberFormatter.DEFAULT_OPTIONS };
+    for (const key in options) {
+      const value = options[key as keyof NumberFormatterOptions];
+      if (value !== undefined && value !== null) {
+        (merged as any)[key] = value;
+      }
+    }
+    const { hysteresis, ...rest } = merged;
+    const [hysteresisLower, hysteresisUpper] = typeof hysteresis === 'number'
+      ? [Math.max(0, hysteresis), Math.max(0, hysteresis)]
+      : [Math.max(0, hysteresis[0]), Math.max(0, hysteresis[1])];
+
+    let roundFunc: (value: number) => number;
+    let hysteresisOffsetLower: number;
+    let hysteresisOffsetUpper: number;
+    if (rest.round > 0) {
+      roundFunc = Math.ceil;
+      hysteresisOffsetLower = -(rest.precision + hysteresisLower);
+      hysteresisOffsetUpper = hysteresisUpper;
+    } else if (rest.round < 0) {
+      roundFunc = Math.floor;
+      hysteresisOffsetLower = -hysteresisLower;
+      hysteresisOffsetUpper = rest.precision + hysteresisUpper;
+    } else {
+      roundFunc = Math.round;
+      hysteresisOffsetLower = -(rest.precision * 0.5 + hysteresisLower);
+      hysteresisOffsetUpper = rest.precision * 0.5 + hysteresisUpper;
+    }
+
+    return {
+      ...rest,
+      roundFunc,
+      hysteresisOffsetLower,
+      hysteresisOffsetUpper,
+      cache: rest.cache || hysteresisOffsetLower !== 0 || hysteresisOffsetUpper !== 0,
+    };
+  }
+
+  private static formatNumber(number: number, opts: ResolvedOptions): string {
+    if (isNaN(number)) {
+      opts.cachedNumber = undefined;
+      opts.cachedString = undefined;
+      return opts.nanString;
+    } else if (!isFinite(number)) {
+      opts.cachedNumber = undefined;
+      opts.cachedString = undefined;
+      return number > 0 ? opts.posInfinityString : opts.negInfinityString;
+    }
+
+    const { precision, roundFunc, hysteresisOffsetLower, hysteresisOffsetUpper, maxDigits, forceDecimalZeroes, pad } = opts;
+
+    // Within the hysteresis of the previous output, keep it
+    if (opts.cachedNumber !== undefined && opts.cachedString !== undefined && (hysteresisOffsetLower !== 0 || hysteresisOffsetUpper !== 0)) {
+      const lower = opts.cachedNumber + hysteresisOffsetLower;
+      const upper = opts.cachedNumber + hysteresisOffsetUpper;
+      const inside = opts.round > 0 ? number > lower && number <= upper : number >= lower && number < upper;
+      if (inside) {
+        return opts.cachedString;
+      }
+    }
+
+    let rounded = precision !== 0 ? roundFunc(number / precision) * precision : number;
+    if (opts.cache) {
+      if (opts.cachedString !== undefined && opts.cachedNumber === rounded) {
+        return opts.cachedString;
+      }
+      opts.cachedNumber = rounded;
+    }
+
+    let formatted: string;
+    const precisionDecimalIndex = `${precision}`.indexOf('.');
+    if (precision !== 0 && precisionDecimalIndex >= 0) {
+      formatted = Math.abs(rounded).toFixed(`${precision}`.length - precisionDecimalIndex - 1);
+    } else {
+      formatted = `${Math.abs(rounded)}`;
+    }
+
+    if (!forceDecimalZeroes && formatted.indexOf('.') >= 0) {
+      formatted = formatted.replace(NumberFormatter.TRAILING_ZERO_REGEX, '');
+      if (formatted.indexOf('.') === formatted.length - 1) {
+        formatted = formatted.substring(0, formatted.length - 1);
+      }
+    }
+
+    // Padding and digit limit; dropping decimals can change the padding, so this runs at most twice
+    let needRecalc = false;
+    let iterations = 0;
+    do {
+      let decimalIndex = formatted.indexOf('.');
+      if (pad === 0) {
+        if (decimalIndex > 0) {
+          formatted = formatted.replace(NumberFormatter.LEADING_ZERO_REGEX, '.');
+        }
+      } else if (pad > 1) {
+        if (decimalIndex < 0) {
+          decimalIndex = formatted.length;
+        }
+        if (decimalIndex < pad) {
+          formatted = formatted.padStart(pad + formatted.length - decimalIndex, '0');
+        }
+      }
+
+      decimalIndex = formatted.indexOf('.');
+      if (decimalIndex >= 0 && formatted.length - 1 > maxDigits) {
+        const desiredRightDigits = Math.max(maxDigits - decimalIndex, 0);
+        const shiftPrecision = Math.pow(0.1, desiredRightDigits);
+        rounded = roundFunc(rounded / shiftPrecision) * shiftPrecision;
+        formatted = Math.abs(rounded).toFixed(desiredRightDigits);
+        needRecalc = pad !== 0 || desiredRightDigits > 0;
+      } else {
+        needRecalc = false;
+      }
+      iterations++;
+    } while (needRecalc && iterations < 2);
+
+    if (opts.showCommas) {
+      const parts = formatted.split('.');
+      parts[0] = parts[0].replace(NumberFormatter.COMMAS_REGEX, ',');
+      formatted = parts.join('.');
+    }
+
+    const signText = rounded < 0 ? (opts.useMinusSign ? '−' : '-') : '+';
+    if (!opts.hideSign && (opts.forceSign || signText !== '+')) {
+      formatted = signText + formatted;
+    }
+
+    if (opts.cache) {
+      opts.cachedString = formatted;
+    }
+    return formatted;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Mock of the SDK `ObjectSubject`: an object notifying each changed property.
+ *
+ * Handlers get `(obj, key, newValue, oldValue)`; the initial notification reports every property,
+ * with its value as both the new and old value.
+ */
+
+import { HandlerSubscription } from './HandlerSubscription';
+import { AbstractSubscribable } from './AbstractSubscribable';
+import { MappedSubject } from './MappedSubject';
+import { SubscriptionList } from './SubscriptionList';
+
+export type ObjectSubjectHandler<T> = (obj: Readonly<T>, key: keyof T, newValue: T[keyof T], oldValue: T[keyof T]) => void;
+
+export class ObjectSubject<T extends object> {
+  readonly isSubscribable = true;
+  readonly isMutableSubscribable = true;
+  private readonly subs: SubscriptionList<ObjectSubjectHandler<T>> = new SubscriptionList('ObjectSubject');
+
+  private constructor(private readonly obj: T) {}
+
+  /**
+   * Create a subject backed by `obj` (not copied)
+   */
+  static create<T extends object>(obj: T): ObjectSubject<T> {
+    return new ObjectSubject(obj);
+  }
+
+  get(): Readonly<T> {
+    return this.obj;
+  }
+
+  /**
+   * Subscribe to property changes
+   * @param handler Called with the object, the key and the new and old values
+   * @param initialNotify Call the handler right away for every property
+   * @param paused Create the subscription paused
+   */
+  sub(handler: ObjectSubjectHandler<T>, initialNotify: boolean = false, paused: boolean = false): HandlerSubscription<ObjectSubjectHandler<T>> {
+    const sub = new HandlerSubscription(handler, this.initialNotify.bind(this), this.subs.onSubDestroyed);
+    return this.subs.add(sub, initialNotify, paused);
+  }
+
+  /**
+   * Map the object to a subscribable, notified when the mapped value changes according to `equalityFunc`
+   */
+  map<M>(fn: (input: Readonly<T>, previousVal?: M) => M, equalityFunc?: (a: M, b: M) => boolean): MappedSubject<[Readonly<T>], M> {
+    return MappedSubject.create<[Readonly<T>], M>(
+      (inputs, previousVal) => fn(inputs[0], previousVal),
+      equalityFunc ?? AbstractSubscribable.DEFAULT_EQUALITY_FUNC,
+      this
+    );
+  }
+
+  /**
+   * Set one property, or every property of a partial object that the object has. Each changed property is notified.
+   */
+  set(value: Partial<T>): void;
+  set<K extends keyof T>(key: K, value: T[K]): void;
+  set<K extends keyof T>(arg1: K | Partial<T>, value?: T[K]): void {
+    if (typeof arg1 === 'object') {
+      for (const prop in arg1) {
+        if (prop in this.obj) {
+          this.set(prop as keyof T, arg1[prop] as T[keyof T]);
+        }
+      }
+      return;
+    }
+
+    const oldValue = this.obj[arg1];
+    if (value !== oldValue) {
+      this.obj[arg1] = value as T[K];
+      this.notify(arg1, oldValue);
+    }
+  }
+
+  private notify(key: keyof T, oldValue: T[keyof T]): void {
+    this.subs.notify(sub => sub.handler(this.obj, key, this.obj[key], oldValue));
+  }
+
+  private initialNotify(sub: HandlerSubscription<ObjectSubjectHandler<T>>): void {
+    for (const key in this.obj) {
+      const value = this.obj[key];
+      sub.handler(this.obj, key, value, value);
+    }
+  }
+}
@@ -0,0 +1,384 @@
+/**
+ * Mock of the SDK publishers: BasePublisher, SimVarPublisher and the publish pacers.
+ *
+ * SimVarPublisher reads its SimVars from the current SimVarMock (through the `SimVar` global) and
+ * publishes only the topics someone subscribed to, like in the sim. In the sim, the instrument
+ * calls `onUpdate()` every frame; here the virtual clock of the active TestEnvironment does it on
+ * each frame of `env.advance()`, until instrument code calls `onUpdate()` itself:
+ *
+ * ```typescript
+ * const publisher = new SimVarPublisher(new Map([
+ *   ['indicated_alt', { name: 'INDICATED ALTITUDE', type: SimVarValueType.Feet }],
+ * ]), bus);
+ * publisher.startPublish();
+ *
+ * env.setSimVar('INDICATED ALTITUDE', 'feet', 5000);
+ * env.advance(16); // 'indicated_alt' = 5000 on the bus
+ * ```
+ */
+
+import { EventBus, Publisher } from './EventBus';
+import { SimVarValueType } from './SimVarValueType';
+
+/**
+ * Decides whether a publication goes through, like the SDK `PublishPacer`
+ */
+export interface PublishPacer<E> {
+  canPublish<K extends keyof E>(topic: K, data: E[K]): boolean;
+}
+
+/**
+ * Pacer letting a topic publish at most once per `msec` (on `Date.now()`)
+ */
+export class IntervalPacer<E> implements PublishPacer<E> {
+  private lastPublished: Map<keyof E, number> = new Map();
+
+  constructor(private readonly interval: number) {}
+
+  canPublish<K extends keyof E>(topic: K, _data: E[K]): boolean {
+    const prior = this.lastPublished.get(topic);
+    const now = Date.now();
+    if (prior && now - prior < this.interval) {
+      return false;
+    }
+    this.lastPublished.set(topic, now);
+    return true;
+  }
+}
+
+/**
+ * Pacer letting a numeric topic publish only when it moved by at least `delta`
+ */
+export class DeltaPacer<E> implements PublishPacer<E> {
+  private lastPublished: Map<keyof E, number> = new Map();
+
+  constructor(private readonly delta: number) {}
+
+  canPublish<K extends keyof E>(topic: K, data: E[K]): boolean {
+    const prior = this.lastPublished.get(topic);
+    if (prior && Math.abs((data as unknown as number) - prior) < this.delta) {
+      return false;
+    }
+    this.lastPublished.set(topic, data as unknown as number);
+    return true;
+  }
+}
+
+/**
+ * Source of instrument frames (the VirtualClock of a TestEnvironment or PanelEnvironment)
+ */
+export interface PublisherFrameSource {
+  onTick(listener: () => void): { destroy(): void };
+}
+
+let currentFrameSource: PublisherFrameSource | null = null;
+
+/**
+ * Set the frame source of publishers created from now on; TestEnvironment.activate() sets its clock
+ */
+export function setPublisherFrameSource(source: PublisherFrameSource | null): void {
+  currentFrameSource = source;
+}
+
+export function getPublisherFrameSource(): PublisherFrameSource | null {
+  return currentFrameSource;
+}
+
+const frameDrivenPublishers: WeakMap<PublisherFrameSource, Set<BasePublisher<any>>> = new WeakMap();
+
+/**
+ * Stop the frame updates of every publisher created on `source`; TestEnvironment and PanelEnvironment
+ * call it on teardown
+ */
+export function stopPublisherFrameUpdates(source: PublisherFrameSource): void {
+  frameDrivenPublishers.get(source)?.forEach(publisher => publisher.stopFrameUpdates());
+  frameDrivenPublishers.delete(source);
+}
+
+/** Prototypes whose onUpdate() hands the updates over to instrument code when called outside of a frame */
+const handOverPrototypes: WeakSet<object> = new WeakSet();
+
+// Mock BasePublisher
+export class BasePublisher<E extends Record<string, any>> {
+  protected readonly publisher: Publisher<E>;
+  protected publishActive: boolean = false;
+  private frameSource: PublisherFrameSource | null = null;
+  private frameHandle: { destroy(): void } | null = null;
+  private inFrame: boolean = false;
+
+  /**
+   * @param bus Bus to publish to
+   * @param pacer Optional pacer deciding which publications go through
+   */
+  constructor(protected readonly bus: EventBus, protected pacer: PublishPacer<E> | undefined = undefined) {
+    this.publisher = this.bus.getPublisher<E>();
+
+    const source = currentFrameSource;
+    if (source) {
+      BasePublisher.handOverOnUpdate(Object.getPrototypeOf(this));
+      this.frameSource = source;
+      this.frameHandle = source.onTick(() => this.onFrame());
+      if (!frameDrivenPublishers.has(source)) {
+        frameDrivenPublishers.set(source, new Set());
+      }
+      frameDrivenPublishers.get(source)!.add(this);
+    }
+  }
+
+  /**
+   * Make the onUpdate() of each class in the prototype chain stop the frame updates when instrument code
+   * calls it. An onUpdate declared as a class field is called on frames, and hands over through super.onUpdate().
+   */
+  private static handOverOnUpdate(prototype: any): void {
+    for (; prototype && prototype !== Object.prototype; prototype = Object.getPrototypeOf(prototype)) {
+      if (handOverPrototypes.has(prototype) || !Object.prototype.hasOwnProperty.call(prototype, 'onUpdate')) {
+        continue;
+      }
+      handOverPrototypes.add(prototype);
+      const onUpdate: () => void = prototype.onUpdate;
+      prototype.onUpdate = function (this: BasePublisher<any>): void {
+        if (!this.inFrame) {
+          this.stopFrameUpdates();
+        }
+        onUpdate.call(this);
+      };
+    }
+  }
+
+  private onFrame(): void {
+    this.inFrame = true;
+    try {
+      this.onUpdate();
+    } finally {
+      this.inFrame = false;
+    }
+  }
+
+  startPublish(): void {
+    this.publishActive = true;
+  }
+
+  stopPublish(): void {
+    this.publishActive = false;
+  }
+
+  isPublishing(): boolean {
+    return this.publishActive;
+  }
+
+  /**
+   * Called on each instrument frame
+   */
+  onUpdate(): void {
+    return;
+  }
+
+  /**
+   * Check if the virtual clock calls onUpdate() on each frame
+   */
+  isFrameDriven(): boolean {
+    return this.frameHandle !== null;
+  }
+
+  /**
+   * Stop calling onUpdate() on each frame of the virtual clock (not part of the SDK API)
+   */
+  stopFrameUpdates(): void {
+    this.frameHandle?.destroy();
+    this.frameHandle = null;
+    if (this.frameSource) {
+      frameDrivenPublishers.get(this.frameSource)?.delete(this);
+      this.frameSource = null;
+    }
+  }
+
+  /**
+   * Publish if publishing is active and the pacer allows it
+   */
+  protected publish<K extends keyof E>(topic: K, data: E[K], sync: boolean = false, isCached: boolean = true): void {
+    if (this.publishActive && (!this.pacer || this.pacer.canPublish(topic, data))) {
+      this.publisher.pub(topic, data, sync, isCached);
+    }
+  }
+}
+
+/**
+ * SimVar published by a SimVarPublisher
+ */
+export interface SimVarPublisherEntry<T> {
+  name: string;
+  type: SimVarValueType | string;
+  /** Map the raw SimVar value to the published value */
+  map?: (value: any) => T;
+  /**
+   * Indexed SimVar (`#index#` in the name), published to `{topic}_{index}` topics: `true` for any index,
+   * or the valid indexes
+   */
+  indexed?: boolean | Iterable<number>;
+  /** Index also published to the unsuffixed topic (default: 1), `null` for none */
+  defaultIndex?: number | null;
+}
+
+interface IndexedEntry {
+  name: string;
+  type: SimVarValueType | string;
+  map?: (value: any) => any;
+  indexes: Set<number> | undefined;
+  defaultIndex?: number | null;
+}
+
+interface ResolvedEntry {
+  name: string;
+  type: SimVarValueType | string;
+  map?: (value: any) => any;
+  /** Unsuffixed topic of an indexed SimVar resolved to its default index */
+  unsuffixedTopic?: string;
+}
+
+const boolRegex = /boolean|bool/i;
+
+// Mock SimVarPublisher
+export class SimVarPublisher<E extends Record<string, any>> extends BasePublisher<E> {
+  static readonly INDEXED_REGEX = /(.*)_(0|[1-9]\d*)$/;
+
+  protected readonly resolvedSimVars: Map<string, ResolvedEntry> = new Map();
+  protected readonly indexedSimVars: Map<string, IndexedEntry> = new Map();
+  protected readonly subscribed: Map<string, ResolvedEntry> = new Map();
+
+  /**
+   * @param entries Topics and the SimVars they publish
+   * @param bus Bus to publish to
+   * @param pacer Optional pacer deciding which publications go through
+   */
+  constructor(entries: Iterable<readonly [keyof E & string, SimVarPublisherEntry<any>]>, bus: EventBus, pacer?: PublishPacer<E>) {
+    super(bus, pacer);
+
+    for (const [topic, entry] of entries) {
+      if (entry.indexed) {
+        this.indexedSimVars.set(topic, {
+          name: entry.name,
+          type: entry.type,
+          map: entry.map,
+          indexes: entry.indexed === true ? undefined : new Set(entry.indexed),
+          defaultIndex: entry.defaultIndex,
+        });
+      } else {
+        this.resolvedSimVars.set(topic, { name: entry.name, type: entry.type, map: entry.map });
+      }
+    }
+
+    // Only subscribed topics are published: the ones subscribed so far, then first subscriptions
+    const handleSubscribedTopic = this.handleSubscribedTopic.bind(this);
+    this.bus.forEachSubscribedTopic(handleSubscribedTopic);
+    this.bus.getSubscriber<{ event_bus_topic_first_sub: string }>().on('event_bus_topic_first_sub').handle(handleSubscribedTopic);
+  }
+
+  /**
+   * Publish every subscribed topic
+   */
+  onUpdate(): void {
+    this.subscribed.forEach((entry, topic) => this.publishTopic(topic, entry));
+  }
+
+  /**
+   * Current value of a topic, or undefined for unknown topics
+   */
+  getValue<K extends keyof E & string>(topic: K): E[K] | undefined {
+    const entry = this.resolvedSimVars.get(topic);
+    return entry === undefined ? undefined : this.getValueFromEntry(entry);
+  }
+
+  protected handleSubscribedTopic(topic: string): void {
+    if (this.resolvedSimVars.has(topic)) {
+      this.onTopicSubscribed(topic);
+    } else {
+      this.tryMatchIndexedSubscribedTopic(topic);
+    }
+  }
+
+  /**
+   * Resolve a subscribed topic matching an indexed SimVar (`topic` or `topic_{index}`)
+   */
+  protected tryMatchIndexedSubscribedTopic(topic: string): void {
+    if (this.indexedSimVars.size === 0) {
+      return;
+    }
+
+    let entry = this.indexedSimVars.get(topic);
+    if (entry) {
+      // Unsuffixed topic: published with the default index
+      if (entry.defaultIndex !== null) {
+        const resolved = this.resolveIndexedSimVar(topic, entry, entry.defaultIndex ?? 1);
+        if (resolved !== undefined) {
+          this.onTopicSubscribed(resolved);
+        }
+      }
+      return;
+    }
+
+    const match = topic.match(SimVarPublisher.INDEXED_REGEX);
+    if (!match) {
+      return;
+    }
+    entry = this.indexedSimVars.get(match[1]);
+    if (entry) {
+      const resolved = this.resolveIndexedSimVar(match[1], entry, parseInt(match[2]));
+      if (resolved !== undefined) {
+        this.onTopicSubscribed(resolved);
+      }
+    }
+  }
+
+  /**
+   * Resolve an indexed topic to `{topic}_{index}`, or undefined if the index is not valid
+   */
+  protected resolveIndexedSimVar(topic: string, entry: IndexedEntry, index: number): string | undefined {
+    const resolvedTopic = `${topic}_${index}`;
+    if (this.resolvedSimVars.has(resolvedTopic)) {
+      return resolvedTopic;
+    }
+    if (entry.indexes !== undefined && !entry.indexes.has(index)) {
+      return undefined;
+    }
+
+    const defaultIndex = entry.defaultIndex === undefined ? 1 : entry.defaultIndex;
+    this.resolvedSimVars.set(resolvedTopic, {
+      name: entry.name.replace('#index#', `${index}`),
+      type: entry.type,
+      map: entry.map,
+      unsuffixedTopic: defaultIndex === index ? topic : undefined,
+    });
+    return resolvedTopic;
+  }
+
+  /**
+   * Start publishing a topic on its first subscription, with its current value right away
+   */
+  protected onTopicSubscribed(topic: string): void {
+    if (this.subscribed.has(topic)) {
+      return;
+    }
+    const entry = this.resolvedSimVars.get(topic)!;
+    this.subscribed.set(topic, entry);
+    if (this.publishActive) {
+      this.publishTopic(topic, entry);
+    }
+  }
+
+  protected publishTopic(topic: string, entry: ResolvedEntry): void {
+    const value = this.getValueFromEntry(entry);
+    this.publish(topic as keyof E, value);
+    if (entry.unsuffixedTopic) {
+      this.publish(entry.unsuffixedTopic as keyof E, value);
+    }
+  }
+
+  protected getValueFromEntry(entry: ResolvedEntry): any {
+    let value = (globalThis as any).SimVar.GetSimVarValue(entry.name, entry.type);
+    // Like the SDK, bool SimVars are published as booleans
+    if (boolRegex.test(entry.type)) {
+      value = !!value;
+    }
+    return entry.map === undefined ? value : entry.map(value);
+  }
+}
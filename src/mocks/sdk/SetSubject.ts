@@ -0,0 +1,130 @@
+/**
+ * Mock of the SDK `SetSubject`: a set notifying each added and deleted key.
+ *
+ * Handlers get `(set, type, key)`; the initial notification reports every key as added.
+ */
+
+import { HandlerSubscription } from './HandlerSubscription';
+import { AbstractSubscribable } from './AbstractSubscribable';
+import { MappedSubject } from './MappedSubject';
+import { SubscriptionList } from './SubscriptionList';
+
+export enum SubscribableSetEventType {
+  Added = 'Added',
+  Deleted = 'Deleted',
+}
+
+export type SubscribableSetHandler<K> = (set: ReadonlySet<K>, type: SubscribableSetEventType, key: K) => void;
+
+export class SetSubject<K> {
+  readonly isSubscribable = true;
+  readonly isMutableSubscribable = true;
+  readonly isSubscribableSet = true;
+  readonly isMutableSubscribableSet = true;
+  private readonly backingSet: Set<K>;
+  private readonly subs: SubscriptionList<SubscribableSetHandler<K>> = new SubscriptionList('SetSubject');
+
+  private constructor(initialKeys?: Iterable<K>) {
+    this.backingSet = new Set(initialKeys);
+  }
+
+  static create<K>(initialKeys?: Iterable<K>): SetSubject<K> {
+    return new SetSubject(initialKeys);
+  }
+
+  get size(): number {
+    return this.backingSet.size;
+  }
+
+  get(): ReadonlySet<K> {
+    return this.backingSet;
+  }
+
+  has(key: K): boolean {
+    return this.backingSet.has(key);
+  }
+
+  /**
+   * Subscribe to added and deleted keys
+   * @param handler Called with the set, the event type and the key
+   * @param initialNotify Call the handler right away with every key as added
+   * @param paused Create the subscription paused
+   */
+  sub(handler: SubscribableSetHandler<K>, initialNotify: boolean = false, paused: boolean = false): HandlerSubscription<SubscribableSetHandler<K>> {
+    const sub = new HandlerSubscription(handler, this.initialNotify.bind(this), this.subs.onSubDestroyed);
+    return this.subs.add(sub, initialNotify, paused);
+  }
+
+  /**
+   * Map the set to a subscribable, notified when the mapped value changes according to `equalityFunc`
+   */
+  map<M>(fn: (input: ReadonlySet<K>, previousVal?: M) => M, equalityFunc?: (a: M, b: M) => boolean): MappedSubject<[ReadonlySet<K>], M> {
+    return MappedSubject.create<[ReadonlySet<K>], M>(
+      (inputs, previousVal) => fn(inputs[0], previousVal),
+      equalityFunc ?? AbstractSubscribable.DEFAULT_EQUALITY_FUNC,
+      this
+    );
+  }
+
+  /**
+   * Replace the keys: keys not in `keys` are deleted, then new keys are added
+   */
+  set(keys: Iterable<K>): void {
+    const toAdd = new Set(keys);
+    for (const key of this.backingSet) {
+      if (!toAdd.delete(key)) {
+        this.delete(key);
+      }
+    }
+    for (const key of toAdd) {
+      this.add(key);
+    }
+  }
+
+  add(key: K): this {
+    const oldSize = this.backingSet.size;
+    this.backingSet.add(key);
+    if (oldSize !== this.backingSet.size) {
+      this.notify(SubscribableSetEventType.Added, key);
+    }
+    return this;
+  }
+
+  delete(key: K): boolean {
+    const wasDeleted = this.backingSet.delete(key);
+    if (wasDeleted) {
+      this.notify(SubscribableSetEventType.Deleted, key);
+    }
+    return wasDeleted;
+  }
+
+  /**
+   * Add the key if absent, delete it if present (or add/delete as `force` says)
+   * @returns Whether the set has the key afterwards
+   */
+  toggle(key: K, force?: boolean): boolean {
+    if (force ?? !this.backingSet.has(key)) {
+      this.add(key);
+    } else {
+      this.delete(key);
+    }
+    return this.backingSet.has(key);
+  }
+
+  clear(): void {
+    for (const key of this.backingSet) {
+      this.backingSet.delete(key);
+      this.notify(SubscribableSetEventType.Deleted, key);
+    }
+  }
+
+  private notify(type: SubscribableSetEventType, key: K): void {
+    this.subs.notify(sub => sub.handler(this.backingSet, type, key));
+  }
+
+  private initialNotify(sub: HandlerSubscription<SubscribableSetHandler<K>>): void {
+    for (const key of this.backingSet) {
+      sub.handler(this.backingSet, SubscribableSetEventType.Added, key);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * SimVar value types, like the SDK `SimVarValueType`: the unit strings passed to `SimVar.GetSimVarValue()`
+ */
+export enum SimVarValueType {
+  Amps = 'Amperes',
+  Bool = 'bool',
+  Celsius = 'celsius',
+  CubicInches = 'cubic inches',
+  Degree = 'degrees',
+  DegreesPerSecond = 'degrees per second',
+  DegreesPerSecondSquared = 'degrees per second squared',
+  Enum = 'enum',
+  Farenheit = 'farenheit',
+  Feet = 'feet',
+  FPM = 'feet per minute',
+  FtLb = 'Foot pounds',
+  GAL = 'gallons',
+  GPH = 'gph',
+  Hertz = 'hertz',
+  Hours = 'Hours',
+  HPA = 'hectopascals',
+  Inches = 'inches',
+  InHG = 'inches of mercury',
+  KHz = 'KHz',
+  Kilograms = 'kilograms',
+  Knots = 'knots',
+  KgPerCubicMeter = 'kilogram per cubic meter',
+  LBS = 'pounds',
+  Liters = 'liters',
+  LLA = 'latlonalt',
+  LLA_PBH = 'latlonaltpbh',
+  Mach = 'mach',
+  MB = 'Millibars',
+  Meters = 'meters',
+  MetersPerSecond = 'meters per second',
+  MetersPerSecondSquared = 'meters per second squared',
+  MillimetersWater = 'millimeters of water',
+  MHz = 'MHz',
+  NM = 'nautical mile',
+  Number = 'number',
+  PBH = 'pbh',
+  Percent = 'percent',
+  PercentOver100 = 'percent over 100',
+  PerSecond = 'per second',
+  PIDStruct = 'pid_struct',
+  Position = 'position',
+  Position16k = 'position 16k',
+  Position32k = 'position 32k',
+  Pounds = 'pounds',
+  PoundsPerSquareFoot = 'pounds per square foot',
+  PPH = 'Pounds per hour',
+  PSI = 'psi',
+  Radians = 'radians',
+  RadiansPerSecond = 'radians per second',
+  RadiansPerSecondSquared = 'radians per second squared',
+  Rankine = 'rankine',
+  RPM = 'Rpm',
+  Seconds = 'seconds',
+  SlugsPerCubicFoot = 'slug per cubic foot',
+  String = 'string',
+  Volts = 'Volts',
+  XYZ = 'xyz'
+}
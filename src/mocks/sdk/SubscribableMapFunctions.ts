@@ -0,0 +1,179 @@
+/**
+ * Mock of the SDK `SubscribableMapFunctions`: factories of mapping functions for `map()` and `MappedSubject`.
+ *
+ * ```typescript
+ * const anyWarning = MappedSubject.create(SubscribableMapFunctions.or(), lowOil, lowFuel, fire);
+ * const altitude = indicatedAlt.map(SubscribableMapFunctions.withPrecision(20));
+ * ```
+ */
+
+/**
+ * Rounding direction, like the SDK `Rounding`
+ */
+export enum Rounding {
+  Down = -1,
+  Nearest = 0,
+  Up = 1,
+}
+
+type RoundFunc = (value: number, precision: number) => number;
+
+const roundFuncs: Record<Rounding, RoundFunc> = {
+  [Rounding.Down]: (value, precision) => Math.floor(value / precision) * precision,
+  [Rounding.Nearest]: (value, precision) => Math.round(value / precision) * precision,
+  [Rounding.Up]: (value, precision) => Math.ceil(value / precision) * precision,
+};
+
+function roundFuncFor(round: Rounding): RoundFunc {
+  return roundFuncs[round > 0 ? Rounding.Up : round < 0 ? Rounding.Down : Rounding.Nearest];
+}
+
+export class SubscribableMapFunctions {
+  static identity<T>(): (input: T) => T {
+    return input => input;
+  }
+
+  static not(): (input: boolean) => boolean {
+    return input => !input;
+  }
+
+  /**
+   * `true` if any input is `true` (`false` for no inputs)
+   */
+  static or(): (inputs: readonly boolean[]) => boolean {
+    return inputs => inputs.length > 0 && inputs.includes(true);
+  }
+
+  /**
+   * `true` if no input is `true`
+   */
+  static nor(): (inputs: readonly boolean[]) => boolean {
+    return inputs => !inputs.includes(true);
+  }
+
+  /**
+   * `true` if every input is `true` (`false` for no inputs)
+   */
+  static and(): (inputs: readonly boolean[]) => boolean {
+    return inputs => inputs.length > 0 && !inputs.includes(false);
+  }
+
+  /**
+   * `true` if any input is `false` (`true` for no inputs)
+   */
+  static nand(): (inputs: readonly boolean[]) => boolean {
+    return inputs => inputs.length < 1 || inputs.includes(false);
+  }
+
+  static negate(): (input: number) => number {
+    return input => -input;
+  }
+
+  static abs(): (input: number) => number {
+    return Math.abs;
+  }
+
+  /**
+   * Smallest input (Infinity for no inputs)
+   */
+  static min(): (inputs: readonly number[]) => number {
+    return inputs => Math.min(...inputs);
+  }
+
+  /**
+   * Largest input (-Infinity for no inputs)
+   */
+  static max(): (inputs: readonly number[]) => number {
+    return inputs => Math.max(...inputs);
+  }
+
+  /**
+   * Number of inputs satisfying `predicate`
+   */
+  static count<T>(predicate: (input: T) => boolean): (inputs: readonly T[]) => number {
+    return SubscribableMapFunctions.reduce<T, number>((count, input) => predicate(input) ? count + 1 : count, 0);
+  }
+
+  static sum(): (inputs: readonly number[]) => number {
+    return SubscribableMapFunctions.reduce<number, number>((sum, input) => sum + input, 0);
+  }
+
+  /**
+   * Average of the inputs (NaN for no inputs)
+   */
+  static average(): (inputs: readonly number[]) => number {
+    return inputs => {
+      let sum = 0;
+      for (let i = 0; i < inputs.length; i++) {
+        sum += inputs[i];
+      }
+      return sum / inputs.length;
+    };
+  }
+
+  static reduce<T, U>(
+    callbackFn: (previousValue: U, currentInput: T, currentIndex: number, inputs: readonly T[]) => U,
+    initialValue: U
+  ): (inputs: readonly T[]) => U {
+    return inputs => inputs.reduce(callbackFn, initialValue);
+  }
+
+  /**
+   * Round to a precision (e.g. 10 for tens); a precision subscribable is read on each input change
+   */
+  static withPrecision(precision: number | { get(): number }, round: Rounding = Rounding.Nearest): (input: number) => number {
+    const roundFunc = roundFuncFor(round);
+    return typeof precision === 'object'
+      ? input => roundFunc(input, precision.get())
+      : input => roundFunc(input, precision);
+  }
+
+  /**
+   * Round to a precision, keeping the previous output until the input leaves the rounding interval of that
+   * output by more than the hysteresis (`[lower, upper]` or one value for both)
+   */
+  static withPrecisionHysteresis(
+    precision: number,
+    hysteresis: number | readonly [number, number],
+    round: Rounding = Rounding.Nearest
+  ): (input: number, currentVal?: number) => number {
+    const [hysteresisLower, hysteresisUpper] = typeof hysteresis === 'number'
+      ? [Math.max(0, hysteresis), Math.max(0, hysteresis)]
+      : [Math.max(0, hysteresis[0]), Math.max(0, hysteresis[1])];
+    const roundFunc = roundFuncFor(round);
+
+    let lowerOffset: number;
+    let upperOffset: number;
+    if (round > 0) {
+      lowerOffset = -(precision + hysteresisLower);
+      upperOffset = hysteresisUpper;
+    } else if (round < 0) {
+      lowerOffset = -hysteresisLower;
+      upperOffset = precision + hysteresisUpper;
+    } else {
+      lowerOffset = -(precision * 0.5 + hysteresisLower);
+      upperOffset = precision * 0.5 + hysteresisUpper;
+    }
+
+    // Like the SDK, the interval is open at its lower end unless rounding up
+    const isRangeOpenLower = round <= 0;
+    return (input, currentVal) => {
+      if (currentVal === undefined || !isFinite(input)) {
+        return roundFunc(input, precision);
+      }
+      const outside = isRangeOpenLower
+        ? input < currentVal + lowerOffset || input >= currentVal + upperOffset
+        : input <= currentVal + lowerOffset || input > currentVal + upperOffset;
+      return outside ? roundFunc(input, precision) : currentVal;
+    };
+  }
+
+  /**
+   * Follow the input only when it moved by at least `threshold` from the previous output
+   */
+  static changedBy(threshold: number | { get(): number }): (input: number, currentVal?: number) => number {
+    return typeof threshold === 'object'
+      ? (input, currentVal) => currentVal === undefined || Math.abs(input - currentVal) >= threshold.get() ? input : currentVal
+      : (input, currentVal) => currentVal === undefined || Math.abs(input - currentVal) >= threshold ? input : currentVal;
+  }
+}
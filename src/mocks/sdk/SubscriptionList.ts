@@ -0,0 +1,76 @@
+/**
+ * Subscription bookkeeping shared by the subscribable mocks.
+ *
+ * Ports the notify loop of the SDK `AbstractSubscribable`: paused subscriptions are skipped, an error in a
+ * handler is logged and does not stop the others, and subscriptions destroyed during a notification are
+ * removed once the outermost notification is done.
+ */
+
+import { HandlerSubscription } from './HandlerSubscription';
+
+export class SubscriptionList<H extends (...args: any[]) => void> {
+  private subs: HandlerSubscription<H>[] = [];
+  private notifyDepth: number = 0;
+
+  /**
+   * Removes a destroyed subscription; pass it as the `onDestroy` of new subscriptions
+   */
+  readonly onSubDestroyed = (sub: HandlerSubscription<H>): void => {
+    if (this.notifyDepth === 0) {
+      const index = this.subs.indexOf(sub);
+      if (index >= 0) {
+        this.subs.splice(index, 1);
+      }
+    }
+  };
+
+  /**
+   * @param owner Name used in error logs, like the SDK class name
+   */
+  constructor(private readonly owner: string) {}
+
+  get size(): number {
+    return this.subs.length;
+  }
+
+  /**
+   * Add a subscription, then pause it or send it the initial notification, like the SDK `sub()`
+   */
+  add<S extends HandlerSubscription<H>>(sub: S, initialNotify: boolean, paused: boolean): S {
+    this.subs.push(sub);
+    if (paused) {
+      sub.pause();
+    } else if (initialNotify) {
+      sub.initialNotify();
+    }
+    return sub;
+  }
+
+  /**
+   * Call `notify` for each subscription that is not paused
+   */
+  notify(notify: (sub: HandlerSubscription<H>) => void): void {
+    this.notifyDepth++;
+    const subs = this.subs;
+    const length = subs.length;
+    for (let i = 0; i < length; i++) {
+      const sub = subs[i];
+      if (sub.isPaused) {
+        continue;
+      }
+      try {
+        notify(sub);
+      } catch (error) {
+        console.error(`${this.owner}: error in handler: ${error}`);
+        if (error instanceof Error) {
+          console.error(error.stack);
+        }
+      }
+    }
+    this.notifyDepth--;
+
+    if (this.notifyDepth === 0 && this.subs.some(sub => !sub.isAlive)) {
+      this.subs = this.subs.filter(sub => sub.isAlive);
+    }
+  }
+}
@@ -0,0 +1,588 @@
+/**
+ * Mock of the SDK units: the `UnitType` catalog, `NumberUnit` and `NumberUnitSubject`.
+ *
+ * Units and conversion factors are the SDK ones, so distances, speeds, pressures, temperatures and fuel
+ * quantities convert to the same numbers as in the sim:
+ *
+ * ```typescript
+ * const range = UnitType.NMILE.createNumber(10);
+ * range.asUnit(UnitType.KILOMETER); // 18.52
+ * range.add(500, UnitType.METER);   // 10.27 NM
+ * UnitType.KNOT.convertTo(250, UnitType.MPH); // 287.7
+ * ```
+ */
+
+import type { Subscribable } from '../SDKAdapterExports';
+import { AbstractSubscribable } from './AbstractSubscribable';
+import { MappedSubject } from './MappedSubject';
+
+export enum UnitFamily {
+  Distance = 'distance',
+  Angle = 'angle',
+  Duration = 'duration',
+  Weight = 'weight',
+  Mass = 'weight',
+  Volume = 'volume',
+  Pressure = 'pressure',
+  Temperature = 'temperature',
+  TemperatureDelta = 'temperature_delta',
+  Speed = 'speed',
+  Acceleration = 'acceleration',
+  WeightFlux = 'weight_flux',
+  MassFlux = 'weight_flux',
+  VolumeFlux = 'volume_flux',
+  Density = 'density',
+  Force = 'force',
+  DistancePerWeight = 'distance_per_weight',
+  DistanceRatio = 'distance_ratio',
+  WeightPerDistance = 'weight_per_distance',
+  Area = 'area',
+}
+
+/**
+ * Unit of measure of a family; numbers convert between units of the same family
+ */
+export interface Unit<F extends string> {
+  readonly family: F;
+  readonly name: string;
+  canConvert(otherUnit: Unit<string>): boolean;
+  convertTo(value: number, toUnit: Unit<F>): number;
+  convertFrom(value: number, fromUnit: Unit<F>): number;
+  createNumber(value: number): NumberUnit<F>;
+  equals(other: Unit<string>): boolean;
+}
+
+export abstract class AbstractUnit<F extends string> implements Unit<F> {
+  abstract readonly family: F;
+
+  constructor(readonly name: string) {}
+
+  abstract convertTo(value: number, toUnit: Unit<F>): number;
+  abstract convertFrom(value: number, fromUnit: Unit<F>): number;
+
+  canConvert(otherUnit: Unit<string>): boolean {
+    return this.family === otherUnit.family;
+  }
+
+  createNumber(value: number): NumberUnit<F> {
+    return new NumberUnit(value, this);
+  }
+
+  equals(other: Unit<string>): boolean {
+    return this.family === other.family && this.name === other.name;
+  }
+}
+
+/**
+ * Unit defined by a scale factor (and zero offset) from the base unit of its family
+ */
+export class SimpleUnit<F extends string> extends AbstractUnit<F> {
+  /**
+   * @param family Unit family
+   * @param name Unit name
+   * @param scaleFactor Size of the unit in base units of the family
+   * @param zeroOffset Offset of the zero of the unit, in this unit (temperatures)
+   */
+  constructor(readonly family: F, name: string, readonly scaleFactor: number, readonly zeroOffset: number = 0) {
+    super(name);
+  }
+
+  canConvert(otherUnit: Unit<string>): boolean {
+    return otherUnit instanceof SimpleUnit && super.canConvert(otherUnit);
+  }
+
+  convertTo(value: number, toUnit: Unit<F>): number {
+    if (!this.canConvert(toUnit)) {
+      throw new Error(`Invalid conversion from ${this.name} to ${toUnit.name}.`);
+    }
+    const to = toUnit as SimpleUnit<F>;
+    return (value + this.zeroOffset) * (this.scaleFactor / to.scaleFactor) - to.zeroOffset;
+  }
+
+  convertFrom(value: number, fromUnit: Unit<F>): number {
+    if (!this.canConvert(fromUnit)) {
+      throw new Error(`Invalid conversion from ${fromUnit.name} to ${this.name}.`);
+    }
+    const from = fromUnit as SimpleUnit<F>;
+    return (value + from.zeroOffset) * (from.scaleFactor / this.scaleFactor) - this.zeroOffset;
+  }
+}
+
+/**
+ * Unit made of simple units, like knots (nautical miles per hour)
+ */
+export class CompoundUnit<F extends string> extends AbstractUnit<F> {
+  readonly numerator: SimpleUnit<string>[];
+  readonly denominator: SimpleUnit<string>[];
+  readonly scaleFactor: number;
+
+  /**
+   * @param family Unit family
+   * @param numerator Units multiplied together
+   * @param denominator Units dividing the numerator
+   * @param name Unit name, by default built from the unit names ('kilometer per hour')
+   */
+  constructor(readonly family: F, numerator: readonly SimpleUnit<string>[], denominator: readonly SimpleUnit<string>[], name?: string) {
+    super(name ?? CompoundUnit.buildName(numerator, denominator));
+    this.numerator = [...numerator].sort((a, b) => a.family.localeCompare(b.family));
+    this.denominator = [...denominator].sort((a, b) => a.family.localeCompare(b.family));
+    this.scaleFactor = this.denominator.reduce(
+      (factor, unit) => factor / unit.scaleFactor,
+      this.numerator.reduce((factor, unit) => factor * unit.scaleFactor, 1)
+    );
+  }
+
+  private static buildName(numerator: readonly SimpleUnit<string>[], denominator: readonly SimpleUnit<string>[]): string {
+    const name = numerator.map(unit => unit.name).join('-');
+    return denominator.length > 0 ? `${name} per ${denominator.map(unit => unit.name).join('-')}` : name;
+  }
+
+  canConvert(otherUnit: Unit<string>): boolean {
+    return otherUnit instanceof CompoundUnit && super.canConvert(otherUnit);
+  }
+
+  convertTo(value: number, toUnit: Unit<F>): number {
+    if (!this.canConvert(toUnit)) {
+      throw new Error(`Invalid conversion from ${this.name} to ${toUnit.name}.`);
+    }
+    return value * (this.scaleFactor / (toUnit as CompoundUnit<F>).scaleFactor);
+  }
+
+  convertFrom(value: number, fromUnit: Unit<F>): number {
+    if (!this.canConvert(fromUnit)) {
+      throw new Error(`Invalid conversion from ${fromUnit.name} to ${this.name}.`);
+    }
+    return value * ((fromUnit as CompoundUnit<F>).scaleFactor / this.scaleFactor);
+  }
+}
+
+/**
+ * Read access to a number with a unit
+ */
+export interface NumberUnitInterface<F extends string, U extends Unit<F> = Unit<F>> {
+  readonly number: number;
+  readonly unit: U;
+  asUnit(unit: Unit<F>): number;
+  compare(value: NumberUnitInterface<F>): number;
+  compare(value: number, unit?: Unit<F>): number;
+  equals(value: NumberUnitInterface<string>): boolean;
+  equals(value: number, unit?: Unit<string>): boolean;
+  isNaN(): boolean;
+  copy(): NumberUnit<F, U>;
+}
+
+/**
+ * Number with a unit, like the SDK `NumberUnit`. Arithmetic changes the number in place unless
+ * an `out` number is given, and converts values given in other units of the family.
+ */
+export class NumberUnit<F extends string, U extends Unit<F> = Unit<F>> implements NumberUnitInterface<F, U> {
+  /** Read-only view of this number */
+  readonly readonly: NumberUnitReadOnly<F, U>;
+
+  constructor(private _number: number, private readonly _unit: U) {
+    this.readonly = new NumberUnitReadOnly(this);
+  }
+
+  get number(): number {
+    return this._number;
+  }
+
+  get unit(): U {
+    return this._unit;
+  }
+
+  /**
+   * Set the number, converted from a number with a unit or from `unit`
+   */
+  set(value: NumberUnitInterface<F>): this;
+  set(value: number, unit?: Unit<F>): this;
+  set(arg1: number | NumberUnitInterface<F>, arg2?: Unit<F>): this {
+    const converted = this.toNumberOfThisUnit(arg1, arg2);
+    if (converted === undefined) {
+      throw new Error('Invalid unit conversion attempted.');
+    }
+    this._number = converted;
+    return this;
+  }
+
+  add<OU extends Unit<F>>(value: NumberUnitInterface<F>, out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  add(value: NumberUnitInterface<F>): this;
+  add<OU extends Unit<F>>(value: number, unit: Unit<F>, out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  add(value: number, unit?: Unit<F>): this;
+  add(arg1: number | NumberUnitInterface<F>, arg2?: Unit<F> | NumberUnit<F>, arg3?: NumberUnit<F>): NumberUnit<F, any> {
+    return this.combine(arg1, arg2, arg3, 1);
+  }
+
+  subtract<OU extends Unit<F>>(value: NumberUnitInterface<F>, out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  subtract(value: NumberUnitInterface<F>): this;
+  subtract<OU extends Unit<F>>(value: number, unit: Unit<F>, out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  subtract(value: number, unit?: Unit<F>): this;
+  subtract(arg1: number | NumberUnitInterface<F>, arg2?: Unit<F> | NumberUnit<F>, arg3?: NumberUnit<F>): NumberUnit<F, any> {
+    return this.combine(arg1, arg2, arg3, -1);
+  }
+
+  scale<OU extends Unit<F>>(factor: number, out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  scale(factor: number): this;
+  scale(factor: number, out?: NumberUnit<F>): NumberUnit<F, any> {
+    if (out) {
+      return out.set(this._number * factor, this._unit);
+    }
+    this._number *= factor;
+    return this;
+  }
+
+  /**
+   * This number divided by another
+   */
+  ratio(value: NumberUnitInterface<F>): number;
+  ratio(value: number, unit?: Unit<F>): number;
+  ratio(value: number | NumberUnitInterface<F>, unit?: Unit<F>): number {
+    const converted = this.toNumberOfThisUnit(value, unit);
+    if (converted) {
+      return this._number / converted;
+    }
+    throw new Error('Invalid unit conversion attempted.');
+  }
+
+  abs<OU extends Unit<F>>(out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  abs(): this;
+  abs(out?: NumberUnit<F>): NumberUnit<F, any> {
+    if (out) {
+      return out.set(Math.abs(this._number), this._unit);
+    }
+    this._number = Math.abs(this._number);
+    return this;
+  }
+
+  asUnit(unit: Unit<F>): number {
+    return this._unit.convertTo(this._number, unit);
+  }
+
+  /**
+   * Compare with another number: 0 if equal (within 1e-14), -1 if smaller, 1 if larger
+   */
+  compare(value: NumberUnitInterface<F>): number;
+  compare(value: number, unit?: Unit<F>): number;
+  compare(value: number | NumberUnitInterface<F>, unit?: Unit<F>): number {
+    const converted = this.toNumberOfThisUnit(value, unit);
+    if (converted === undefined) {
+      throw new Error('Invalid unit conversion attempted.');
+    }
+    const diff = this._number - converted;
+    return Math.abs(diff) < 1e-14 ? 0 : Math.sign(diff);
+  }
+
+  /**
+   * Check equality (within 1e-14) with another number; numbers of other families are never equal
+   */
+  equals(value: NumberUnitInterface<string>): boolean;
+  equals(value: number, unit?: Unit<string>): boolean;
+  equals(value: number | NumberUnitInterface<string>, unit?: Unit<string>): boolean {
+    const converted = this.toNumberOfThisUnit(value as number | NumberUnitInterface<F>, unit as Unit<F> | undefined);
+    if (converted === undefined) {
+      return false;
+    }
+    if (isNaN(converted) && this.isNaN()) {
+      return true;
+    }
+    const diff = this._number - converted;
+    return !isNaN(diff) && Math.abs(diff) < 1e-14;
+  }
+
+  isNaN(): boolean {
+    return isNaN(this._number);
+  }
+
+  copy(): NumberUnit<F, U> {
+    return new NumberUnit(this._number, this._unit);
+  }
+
+  private combine(arg1: number | NumberUnitInterface<F>, arg2: Unit<F> | NumberUnit<F> | undefined, arg3: NumberUnit<F> | undefined, sign: number): NumberUnit<F, any> {
+    const isArg2NumberUnit = arg2 instanceof NumberUnit;
+    const converted = this.toNumberOfThisUnit(arg1, isArg2NumberUnit ? undefined : arg2 as Unit<F> | undefined);
+    if (converted === undefined) {
+      throw new Error('Invalid unit conversion attempted.');
+    }
+    const out = isArg2NumberUnit ? arg2 as NumberUnit<F> : arg3;
+    if (out) {
+      return out.set(this._number + sign * converted, this._unit);
+    }
+    this._number += sign * converted;
+    return this;
+  }
+
+  private toNumberOfThisUnit(value: number | NumberUnitInterface<F>, unit?: Unit<F>): number | undefined {
+    if (typeof value !== 'number') {
+      return this._unit.canConvert(value.unit) ? this._unit.convertFrom(value.number, value.unit) : undefined;
+    }
+    if (!unit) {
+      return value;
+    }
+    return this._unit.canConvert(unit) ? this._unit.convertFrom(value, unit) : undefined;
+  }
+}
+
+/**
+ * Read-only view of a NumberUnit: arithmetic needs an `out` number
+ */
+export class NumberUnitReadOnly<F extends string, U extends Unit<F> = Unit<F>> implements NumberUnitInterface<F, U> {
+  constructor(private readonly source: NumberUnit<F, U>) {}
+
+  get number(): number {
+    return this.source.number;
+  }
+
+  get unit(): U {
+    return this.source.unit;
+  }
+
+  add<OU extends Unit<F>>(value: NumberUnitInterface<F>, out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  add<OU extends Unit<F>>(value: number, unit: Unit<F>, out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  add(arg1: number | NumberUnitInterface<F>, arg2: Unit<F> | NumberUnit<F>, arg3?: NumberUnit<F>): NumberUnit<F, any> {
+    return typeof arg1 === 'number'
+      ? this.source.add(arg1, arg2 as Unit<F>, arg3 as NumberUnit<F>)
+      : this.source.add(arg1, arg2 as NumberUnit<F>);
+  }
+
+  subtract<OU extends Unit<F>>(value: NumberUnitInterface<F>, out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  subtract<OU extends Unit<F>>(value: number, unit: Unit<F>, out: NumberUnit<F, OU>): NumberUnit<F, OU>;
+  subtract(arg1: number | NumberUnitInterface<F>, arg2: Unit<F> | NumberUnit<F>, arg3?: NumberUnit<F>): NumberUnit<F, any> {
+    return typeof arg1 === 'number'
+      ? this.source.subtract(arg1, arg2 as Unit<F>, arg3 as NumberUnit<F>)
+      : this.source.subtract(arg1, arg2 as NumberUnit<F>);
+  }
+
+  scale<OU extends Unit<F>>(factor: number, out: NumberUnit<F, OU>): NumberUnit<F, OU> {
+    return this.source.scale(factor, out);
+  }
+
+  ratio(value: NumberUnitInterface<F>): number;
+  ratio(value: number, unit?: Unit<F>): number;
+  ratio(value: number | NumberUnitInterface<F>, unit?: Unit<F>): number {
+    return typeof value === 'number' ? this.source.ratio(value, unit) : this.source.ratio(value);
+  }
+
+  abs<OU extends Unit<F>>(out: NumberUnit<F, OU>): NumberUnit<F, OU> {
+    return this.source.abs(out);
+  }
+
+  asUnit(unit: Unit<F>): number {
+    return this.source.asUnit(unit);
+  }
+
+  compare(value: NumberUnitInterface<F>): number;
+  compare(value: number, unit?: Unit<F>): number;
+  compare(value: number | NumberUnitInterface<F>, unit?: Unit<F>): number {
+    return typeof value === 'number' ? this.source.compare(value, unit) : this.source.compare(value);
+  }
+
+  equals(value: NumberUnitInterface<string>): boolean;
+  equals(value: number, unit?: Unit<string>): boolean;
+  equals(value: number | NumberUnitInterface<string>, unit?: Unit<string>): boolean {
+    return typeof value === 'number' ? this.source.equals(value, unit) : this.source.equals(value);
+  }
+
+  isNaN(): boolean {
+    return this.source.isNaN();
+  }
+
+  copy(): NumberUnit<F, U> {
+    return this.source.copy();
+  }
+}
+
+/**
+ * The SDK unit catalog
+ */
+export class UnitType {
+  static readonly METER = new SimpleUnit(UnitFamily.Distance, 'meter', 1);
+  static readonly CENTIMETER = new SimpleUnit(UnitFamily.Distance, 'centimeter', 0.01);
+  static readonly KILOMETER = new SimpleUnit(UnitFamily.Distance, 'kilometer', 1000);
+  static readonly INCH = new SimpleUnit(UnitFamily.Distance, 'inch', 0.0254);
+  static readonly FOOT = new SimpleUnit(UnitFamily.Distance, 'foot', 0.3048);
+  static readonly MILE = new SimpleUnit(UnitFamily.Distance, 'mile', 1609.34);
+  static readonly NMILE = new SimpleUnit(UnitFamily.Distance, 'nautical mile', 1852);
+  static readonly GA_RADIAN = new SimpleUnit(UnitFamily.Distance, 'great arc radian', 6378100);
+  static readonly G_METER = new SimpleUnit(UnitFamily.Distance, '9.80665 meter', 9.80665);
+
+  static readonly RADIAN = new SimpleUnit(UnitFamily.Angle, 'radian', 1);
+  static readonly DEGREE = new SimpleUnit(UnitFamily.Angle, 'degree', Math.PI / 180);
+  static readonly ARC_MIN = new SimpleUnit(UnitFamily.Angle, 'minute', Math.PI / 180 / 60);
+  static readonly ARC_SEC = new SimpleUnit(UnitFamily.Angle, 'second', Math.PI / 180 / 3600);
+
+  static readonly MILLISECOND = new SimpleUnit(UnitFamily.Duration, 'millisecond', 0.001);
+  static readonly SECOND = new SimpleUnit(UnitFamily.Duration, 'second', 1);
+  static readonly MINUTE = new SimpleUnit(UnitFamily.Duration, 'minute', 60);
+  static readonly HOUR = new SimpleUnit(UnitFamily.Duration, 'hour', 3600);
+
+  static readonly KILOGRAM = new SimpleUnit(UnitFamily.Weight, 'kilogram', 1);
+  static readonly POUND = new SimpleUnit(UnitFamily.Weight, 'pound', 0.45359237);
+  static readonly SLUG = new SimpleUnit(UnitFamily.Weight, 'slug', 14.59390);
+  static readonly TON = new SimpleUnit(UnitFamily.Weight, 'ton', 907.18474);
+  static readonly TONNE = new SimpleUnit(UnitFamily.Weight, 'tonne', 1000);
+
+  static readonly LITER = new SimpleUnit(UnitFamily.Volume, 'liter', 1);
+  static readonly GALLON = new SimpleUnit(UnitFamily.Volume, 'gallon', 3.785411784);
+  static readonly IMP_GALLON = new SimpleUnit(UnitFamily.Volume, 'imperial gallon', 4.54609);
+
+  static readonly HPA = new SimpleUnit(UnitFamily.Pressure, 'hectopascal', 1);
+  static readonly MB = new SimpleUnit(UnitFamily.Pressure, 'millibar', 1);
+  static readonly ATM = new SimpleUnit(UnitFamily.Pressure, 'atmosphere', 1013.25);
+  static readonly IN_HG = new SimpleUnit(UnitFamily.Pressure, 'inch of mercury', 33.8639);
+  static readonly MM_HG = new SimpleUnit(UnitFamily.Pressure, 'millimeter of mercury', 1.33322);
+  static readonly PSI = new SimpleUnit(UnitFamily.Pressure, 'pound per square inch', 68.9476);
+
+  static readonly KELVIN = new SimpleUnit(UnitFamily.Temperature, 'kelvin', 1, 0);
+  static readonly CELSIUS = new SimpleUnit(UnitFamily.Temperature, '° Celsius', 1, 273.15);
+  static readonly FAHRENHEIT = new SimpleUnit(UnitFamily.Temperature, '° Fahrenheit', 5 / 9, 459.67);
+  static readonly RANKINE = new SimpleUnit(UnitFamily.Temperature, '° Rankine', 5 / 9, 0);
+  static readonly DELTA_CELSIUS = new SimpleUnit(UnitFamily.TemperatureDelta, 'Δ° Celsius', 1);
+  static readonly DELTA_FAHRENHEIT = new SimpleUnit(UnitFamily.TemperatureDelta, 'Δ° Fahrenheit', 5 / 9);
+
+  static readonly KNOT = new CompoundUnit(UnitFamily.Speed, [UnitType.NMILE], [UnitType.HOUR], 'knot');
+  static readonly KPH = new CompoundUnit(UnitFamily.Speed, [UnitType.KILOMETER], [UnitType.HOUR]);
+  static readonly MPH = new CompoundUnit(UnitFamily.Speed, [UnitType.MILE], [UnitType.HOUR]);
+  static readonly MPM = new CompoundUnit(UnitFamily.Speed, [UnitType.METER], [UnitType.MINUTE]);
+  static readonly MPS = new CompoundUnit(UnitFamily.Speed, [UnitType.METER], [UnitType.SECOND]);
+  static readonly FPM = new CompoundUnit(UnitFamily.Speed, [UnitType.FOOT], [UnitType.MINUTE]);
+  static readonly FPS = new CompoundUnit(UnitFamily.Speed, [UnitType.FOOT], [UnitType.SECOND]);
+
+  static readonly MPM_PER_SEC = new CompoundUnit(UnitFamily.Acceleration, [UnitType.METER], [UnitType.MINUTE, UnitType.SECOND]);
+  static readonly MPS_PER_SEC = new CompoundUnit(UnitFamily.Acceleration, [UnitType.METER], [UnitType.SECOND, UnitType.SECOND]);
+  static readonly FPM_PER_SEC = new CompoundUnit(UnitFamily.Acceleration, [UnitType.FOOT], [UnitType.MINUTE, UnitType.SECOND]);
+  static readonly FPS_PER_SEC = new CompoundUnit(UnitFamily.Acceleration, [UnitType.FOOT], [UnitType.SECOND, UnitType.SECOND]);
+  static readonly KNOT_PER_SEC = new CompoundUnit(UnitFamily.Acceleration, [UnitType.NMILE], [UnitType.HOUR, UnitType.SECOND]);
+  static readonly G_ACCEL = new CompoundUnit(UnitFamily.Acceleration, [UnitType.G_METER], [UnitType.SECOND, UnitType.SECOND]);
+
+  static readonly KGH = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.KILOGRAM], [UnitType.HOUR]);
+  static readonly PPH = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.POUND], [UnitType.HOUR]);
+
+  static readonly SLUG_PER_FT3 = new CompoundUnit(UnitFamily.Density, [UnitType.SLUG], [UnitType.FOOT, UnitType.FOOT, UnitType.FOOT]);
+  static readonly KG_PER_M3 = new CompoundUnit(UnitFamily.Density, [UnitType.KILOGRAM], [UnitType.METER, UnitType.METER, UnitType.METER]);
+
+  static readonly NEWTON = new CompoundUnit(UnitFamily.Force, [UnitType.KILOGRAM, UnitType.METER], [UnitType.SECOND, UnitType.SECOND]);
+  static readonly POUND_FORCE = new CompoundUnit(UnitFamily.Force, [UnitType.POUND, UnitType.G_METER], [UnitType.SECOND, UnitType.SECOND]);
+
+  static readonly FOOT_PER_NMILE = new CompoundUnit(UnitFamily.DistanceRatio, [UnitType.FOOT], [UnitType.NMILE]);
+
+  static readonly METER_SQ = new CompoundUnit(UnitFamily.Area, [UnitType.METER, UnitType.METER], []);
+  static readonly CENTIMETER_SQ = new CompoundUnit(UnitFamily.Area, [UnitType.CENTIMETER, UnitType.CENTIMETER], []);
+  static readonly KILOMETER_SQ = new CompoundUnit(UnitFamily.Area, [UnitType.KILOMETER, UnitType.KILOMETER], []);
+  static readonly INCH_SQ = new CompoundUnit(UnitFamily.Area, [UnitType.INCH, UnitType.INCH], []);
+  static readonly FOOT_SQ = new CompoundUnit(UnitFamily.Area, [UnitType.FOOT, UnitType.FOOT], []);
+  static readonly MILE_SQ = new CompoundUnit(UnitFamily.Area, [UnitType.MILE, UnitType.MILE], []);
+  static readonly NMILE_SQ = new CompoundUnit(UnitFamily.Area, [UnitType.NMILE, UnitType.NMILE], []);
+
+  // Fuel quantities are weights: 6.7 lb/gal for jet fuel, 6 lb/gal for avgas and autogas
+  static readonly LITER_FUEL = UnitType.fuelUnit('liter fuel', UnitType.LITER, 6.7);
+  static readonly GALLON_FUEL = UnitType.fuelUnit('gallon fuel', UnitType.GALLON, 6.7);
+  static readonly IMP_GALLON_FUEL = UnitType.fuelUnit('imperial gallon fuel', UnitType.IMP_GALLON, 6.7);
+  static readonly LITER_JET_A_FUEL = UnitType.fuelUnit('liter jet a', UnitType.LITER, 6.7);
+  static readonly GALLON_JET_A_FUEL = UnitType.fuelUnit('gallon jet a', UnitType.GALLON, 6.7);
+  static readonly IMP_GALLON_JET_A_FUEL = UnitType.fuelUnit('imperial gallon jet a', UnitType.IMP_GALLON, 6.7);
+  static readonly LITER_100LL_FUEL = UnitType.fuelUnit('liter 100ll', UnitType.LITER, 6);
+  static readonly GALLON_100LL_FUEL = UnitType.fuelUnit('gallon 100ll', UnitType.GALLON, 6);
+  static readonly IMP_GALLON_100LL_FUEL = UnitType.fuelUnit('imperial gallon 100ll', UnitType.IMP_GALLON, 6);
+  static readonly LITER_AUTOGAS_FUEL = UnitType.fuelUnit('liter autogas', UnitType.LITER, 6);
+  static readonly GALLON_AUTOGAS_FUEL = UnitType.fuelUnit('gallon autogas', UnitType.GALLON, 6);
+  static readonly IMP_GALLON_AUTOGAS_FUEL = UnitType.fuelUnit('imperial gallon autogas', UnitType.IMP_GALLON, 6);
+
+  static readonly LPH_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.LITER_FUEL], [UnitType.HOUR]);
+  static readonly GPH_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.GALLON_FUEL], [UnitType.HOUR]);
+  static readonly IGPH_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.IMP_GALLON_FUEL], [UnitType.HOUR]);
+  static readonly LPH_JET_A_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.LITER_JET_A_FUEL], [UnitType.HOUR]);
+  static readonly GPH_JET_A_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.GALLON_JET_A_FUEL], [UnitType.HOUR]);
+  static readonly IGPH_JET_A_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.IMP_GALLON_JET_A_FUEL], [UnitType.HOUR]);
+  static readonly LPH_100LL_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.LITER_100LL_FUEL], [UnitType.HOUR]);
+  static readonly GPH_100LL_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.GALLON_100LL_FUEL], [UnitType.HOUR]);
+  static readonly IGPH_100LL_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.IMP_GALLON_100LL_FUEL], [UnitType.HOUR]);
+  static readonly LPH_AUTOGAS_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.LITER_AUTOGAS_FUEL], [UnitType.HOUR]);
+  static readonly GPH_AUTOGAS_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.GALLON_AUTOGAS_FUEL], [UnitType.HOUR]);
+  static readonly IGPH_AUTOGAS_FUEL = new CompoundUnit(UnitFamily.WeightFlux, [UnitType.IMP_GALLON_AUTOGAS_FUEL], [UnitType.HOUR]);
+
+  static readonly MILE_PER_GALLON_FUEL = new CompoundUnit(UnitFamily.DistancePerWeight, [UnitType.MILE], [UnitType.GALLON_FUEL]);
+  static readonly NMILE_PER_GALLON_FUEL = new CompoundUnit(UnitFamily.DistancePerWeight, [UnitType.NMILE], [UnitType.GALLON_FUEL]);
+  static readonly MILE_PER_GALLON_JET_A_FUEL = new CompoundUnit(UnitFamily.DistancePerWeight, [UnitType.MILE], [UnitType.GALLON_JET_A_FUEL]);
+  static readonly NMILE_PER_GALLON_JET_A_FUEL = new CompoundUnit(UnitFamily.DistancePerWeight, [UnitType.NMILE], [UnitType.GALLON_JET_A_FUEL]);
+  static readonly MILE_PER_GALLON_100LL_FUEL = new CompoundUnit(UnitFamily.DistancePerWeight, [UnitType.MILE], [UnitType.GALLON_100LL_FUEL]);
+  static readonly NMILE_PER_GALLON_100LL_FUEL = new CompoundUnit(UnitFamily.DistancePerWeight, [UnitType.NMILE], [UnitType.GALLON_100LL_FUEL]);
+  static readonly MILE_PER_GALLON_AUTOGAS_FUEL = new CompoundUnit(UnitFamily.DistancePerWeight, [UnitType.MILE], [UnitType.GALLON_AUTOGAS_FUEL]);
+  static readonly NMILE_PER_GALLON_AUTOGAS_FUEL = new CompoundUnit(UnitFamily.DistancePerWeight, [UnitType.NMILE], [UnitType.GALLON_AUTOGAS_FUEL]);
+
+  /**
+   * Weight unit of a volume of fuel with a density in pounds per gallon
+   */
+  static createFuelWeightUnit(density: number, ...defs: { volumeUnit: SimpleUnit<UnitFamily.Volume>; name?: string }[]): SimpleUnit<UnitFamily.Weight>[] {
+    return defs.map(({ volumeUnit, name }) => UnitType.fuelUnit(name ?? `${volumeUnit.name} fuel (${density} pounds per gallon)`, volumeUnit, density));
+  }
+
+  private static fuelUnit(name: string, volumeUnit: SimpleUnit<UnitFamily.Volume>, poundsPerGallon: number): SimpleUnit<UnitFamily.Weight> {
+    const kgPerGallon = UnitType.POUND.convertTo(poundsPerGallon, UnitType.KILOGRAM);
+    return new SimpleUnit(UnitFamily.Weight, name, volumeUnit.convertTo(kgPerGallon, UnitType.GALLON));
+  }
+}
+
+/**
+ * Subject holding a number with a unit, like the SDK `NumberUnitSubject`: `get()` returns a read-only
+ * view, and `set()` notifies only when the number changes
+ */
+export class NumberUnitSubject<F extends string, U extends Unit<F> = Unit<F>> extends AbstractSubscribable<NumberUnitReadOnly<F, U>> {
+  readonly isMutableSubscribable = true;
+
+  private constructor(private readonly value: NumberUnit<F, U>) {
+    super();
+  }
+
+  /**
+   * Create a subject holding `initialVal` (not copied)
+   */
+  static create<F extends string, U extends Unit<F>>(initialVal: NumberUnit<F, U>): NumberUnitSubject<F, U> {
+    return new NumberUnitSubject(initialVal);
+  }
+
+  static createFromNumberUnit<F extends string, U extends Unit<F>>(initialVal: NumberUnit<F, U>): NumberUnitSubject<F, U> {
+    return new NumberUnitSubject(initialVal);
+  }
+
+  get(): NumberUnitReadOnly<F, U> {
+    return this.value.readonly;
+  }
+
+  set(value: NumberUnitInterface<F>): void;
+  set(value: number, unit?: Unit<F>): void;
+  set(arg1: number | NumberUnitInterface<F>, arg2?: Unit<F>): void {
+    const isArg1Number = typeof arg1 === 'number';
+    const equals = isArg1Number ? this.value.equals(arg1, arg2) : this.value.equals(arg1);
+    if (!equals) {
+      isArg1Number ? this.value.set(arg1, arg2) : this.value.set(arg1);
+      this.notify();
+    }
+  }
+
+  /**
+   * Subscribable of the number in another unit
+   */
+  asUnit(unit: Unit<F> | Subscribable<Unit<F>>): MappedSubject<[NumberUnitReadOnly<F, U>, Unit<F>], number> {
+    const unitSubscribable: Subscribable<Unit<F>> = typeof unit === 'object' && (unit as any).isSubscribable === true
+      ? unit as Subscribable<Unit<F>>
+      : new StaticUnit(unit as Unit<F>);
+    return MappedSubject.create<[NumberUnitReadOnly<F, U>, Unit<F>], number>(
+      ([value, toUnit]) => value.asUnit(toUnit),
+      this,
+      unitSubscribable
+    );
+  }
+}
+
+/**
+ * Constant subscribable of a unit, input of NumberUnitSubject.asUnit()
+ */
+class StaticUnit<F extends string> extends AbstractSubscribable<Unit<F>> {
+  constructor(private readonly unit: Unit<F>) {
+    super();
+  }
+
+  get(): Unit<F> {
+    return this.unit;
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * Mock of the SDK vector math: `Vec2Math`, `Vec3Math` and `Vec2Subject`.
+ *
+ * Vectors are `Float64Array`s and every operation writes to an `out` vector and returns it, like in the SDK:
+ *
+ * ```typescript
+ * const offset = Vec2Math.sub(symbolPos, ownshipPos, Vec2Math.create());
+ * Vec2Math.abs(offset); // projected distance in pixels
+ * ```
+ */
+
+import { AbstractSubscribable } from './AbstractSubscribable';
+import { MathUtils } from './MathUtils';
+
+export type ReadonlyFloat64Array = Readonly<Omit<Float64Array, 'set' | 'copyWithin' | 'sort'>>;
+
+export class Vec2Math {
+  /**
+   * Create a 2D vector, `[0, 0]` by default
+   */
+  static create(x?: number, y?: number): Float64Array {
+    const vec = new Float64Array(2);
+    if (x !== undefined && y !== undefined) {
+      vec[0] = x;
+      vec[1] = y;
+    }
+    return vec;
+  }
+
+  /**
+   * Polar angle of the vector, in radians
+   */
+  static theta(vec: ReadonlyFloat64Array): number {
+    return Math.atan2(vec[1], vec[0]);
+  }
+
+  static set(x: number, y: number, vec: Float64Array): Float64Array {
+    vec[0] = x;
+    vec[1] = y;
+    return vec;
+  }
+
+  static setFromPolar(r: number, theta: number, vec: Float64Array): Float64Array {
+    vec[0] = r * Math.cos(theta);
+    vec[1] = r * Math.sin(theta);
+    return vec;
+  }
+
+  static add(v1: ReadonlyFloat64Array, v2: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    out[0] = v1[0] + v2[0];
+    out[1] = v1[1] + v2[1];
+    return out;
+  }
+
+  static sub(v1: ReadonlyFloat64Array, v2: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    out[0] = v1[0] - v2[0];
+    out[1] = v1[1] - v2[1];
+    return out;
+  }
+
+  static dot(v1: ReadonlyFloat64Array, v2: ReadonlyFloat64Array): number {
+    return v1[0] * v2[0] + v1[1] * v2[1];
+  }
+
+  /**
+   * Determinant of the matrix `[v1, v2]`
+   */
+  static det(v1: ReadonlyFloat64Array, v2: ReadonlyFloat64Array): number {
+    return v1[0] * v2[1] - v1[1] * v2[0];
+  }
+
+  static multScalar(v1: ReadonlyFloat64Array, scalar: number, out: Float64Array): Float64Array {
+    out[0] = v1[0] * scalar;
+    out[1] = v1[1] * scalar;
+    return out;
+  }
+
+  /**
+   * Magnitude of the vector
+   */
+  static abs(v1: ReadonlyFloat64Array): number {
+    return Math.hypot(v1[0], v1[1]);
+  }
+
+  static normalize(v1: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    const mag = Vec2Math.abs(v1);
+    out[0] = v1[0] / mag;
+    out[1] = v1[1] / mag;
+    return out;
+  }
+
+  /**
+   * Normal of the vector, clockwise unless `counterClockwise`
+   */
+  static normal(v1: ReadonlyFloat64Array, out: Float64Array, counterClockwise: boolean = false): Float64Array {
+    const x = v1[0];
+    const y = v1[1];
+    if (!counterClockwise) {
+      out[0] = y;
+      out[1] = -x;
+    } else {
+      out[0] = -y;
+      out[1] = x;
+    }
+    return out;
+  }
+
+  static distance(vec1: ReadonlyFloat64Array, vec2: ReadonlyFloat64Array): number {
+    return Math.hypot(vec2[0] - vec1[0], vec2[1] - vec1[1]);
+  }
+
+  /**
+   * Angle between two vectors, in radians
+   */
+  static angle(vec1: ReadonlyFloat64Array, vec2: ReadonlyFloat64Array): number {
+    const absProduct = Vec2Math.abs(vec1) * Vec2Math.abs(vec2);
+    return absProduct === 0 ? NaN : Math.acos(MathUtils.clamp(Vec2Math.dot(vec1, vec2) / absProduct, -1, 1));
+  }
+
+  /**
+   * Angle between two unit vectors, in radians
+   */
+  static unitAngle(vec1: ReadonlyFloat64Array, vec2: ReadonlyFloat64Array): number {
+    return Math.acos(MathUtils.clamp(Vec2Math.dot(vec1, vec2), -1, 1));
+  }
+
+  static equals(vec1: ReadonlyFloat64Array, vec2: ReadonlyFloat64Array): boolean {
+    return vec1[0] === vec2[0] && vec1[1] === vec2[1];
+  }
+
+  static isFinite(vec: ReadonlyFloat64Array): boolean {
+    return isFinite(vec[0]) && isFinite(vec[1]);
+  }
+
+  static copy(from: ReadonlyFloat64Array, to: Float64Array): Float64Array {
+    return Vec2Math.set(from[0], from[1], to);
+  }
+}
+
+export class Vec3Math {
+  /**
+   * Create a 3D vector, `[0, 0, 0]` by default
+   */
+  static create(x?: number, y?: number, z?: number): Float64Array {
+    const vec = new Float64Array(3);
+    if (x !== undefined && y !== undefined && z !== undefined) {
+      vec[0] = x;
+      vec[1] = y;
+      vec[2] = z;
+    }
+    return vec;
+  }
+
+  /**
+   * Polar angle (from +z) of the vector, in radians
+   */
+  static theta(vec: ReadonlyFloat64Array): number {
+    return Math.atan2(Math.hypot(vec[0], vec[1]), vec[2]);
+  }
+
+  /**
+   * Azimuthal angle (from +x towards +y) of the vector, in radians
+   */
+  static phi(vec: ReadonlyFloat64Array): number {
+    return Math.atan2(vec[1], vec[0]);
+  }
+
+  static set(x: number, y: number, z: number, vec: Float64Array): Float64Array {
+    vec[0] = x;
+    vec[1] = y;
+    vec[2] = z;
+    return vec;
+  }
+
+  static setFromSpherical(r: number, theta: number, phi: number, vec: Float64Array): Float64Array {
+    const sinTheta = Math.sin(theta);
+    vec[0] = r * sinTheta * Math.cos(phi);
+    vec[1] = r * sinTheta * Math.sin(phi);
+    vec[2] = r * Math.cos(theta);
+    return vec;
+  }
+
+  static add(v1: ReadonlyFloat64Array, v2: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    out[0] = v1[0] + v2[0];
+    out[1] = v1[1] + v2[1];
+    out[2] = v1[2] + v2[2];
+    return out;
+  }
+
+  static sub(v1: ReadonlyFloat64Array, v2: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    out[0] = v1[0] - v2[0];
+    out[1] = v1[1] - v2[1];
+    out[2] = v1[2] - v2[2];
+    return out;
+  }
+
+  static dot(v1: ReadonlyFloat64Array, v2: ReadonlyFloat64Array): number {
+    return v1[0] * v2[0] + v1[1] * v2[1] + v1[2] * v2[2];
+  }
+
+  static cross(v1: ReadonlyFloat64Array, v2: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    const x1 = v1[0];
+    const y1 = v1[1];
+    const z1 = v1[2];
+    const x2 = v2[0];
+    const y2 = v2[1];
+    const z2 = v2[2];
+    out[0] = y1 * z2 - z1 * y2;
+    out[1] = z1 * x2 - x1 * z2;
+    out[2] = x1 * y2 - y1 * x2;
+    return out;
+  }
+
+  static multScalar(v1: ReadonlyFloat64Array, scalar: number, out: Float64Array): Float64Array {
+    out[0] = v1[0] * scalar;
+    out[1] = v1[1] * scalar;
+    out[2] = v1[2] * scalar;
+    return out;
+  }
+
+  /**
+   * Magnitude of the vector
+   */
+  static abs(v1: ReadonlyFloat64Array): number {
+    return Math.hypot(v1[0], v1[1], v1[2]);
+  }
+
+  static setMagnitude(v1: ReadonlyFloat64Array, magnitude: number, out: Float64Array): Float64Array {
+    const magnitudeV1 = Vec3Math.abs(v1);
+    const factor = magnitudeV1 === 0 ? NaN : magnitude / magnitudeV1;
+    return Vec3Math.multScalar(v1, factor, out);
+  }
+
+  static normalize(v1: ReadonlyFloat64Array, out: Float64Array): Float64Array {
+    const mag = Vec3Math.abs(v1);
+    out[0] = v1[0] / mag;
+    out[1] = v1[1] / mag;
+    out[2] = v1[2] / mag;
+    return out;
+  }
+
+  static distance(vec1: ReadonlyFloat64Array, vec2: ReadonlyFloat64Array): number {
+    return Math.hypot(vec2[0] - vec1[0], vec2[1] - vec1[1], vec2[2] - vec1[2]);
+  }
+
+  /**
+   * Angle between two vectors, in radians
+   */
+  static angle(vec1: ReadonlyFloat64Array, vec2: ReadonlyFloat64Array): number {
+    const absProduct = Vec3Math.abs(vec1) * Vec3Math.abs(vec2);
+    return absProduct === 0 ? NaN : Math.acos(MathUtils.clamp(Vec3Math.dot(vec1, vec2) / absProduct, -1, 1));
+  }
+
+  /**
+   * Angle between two unit vectors, in radians
+   */
+  static unitAngle(vec1: ReadonlyFloat64Array, vec2: ReadonlyFloat64Array): number {
+    return Math.acos(MathUtils.clamp(Vec3Math.dot(vec1, vec2), -1, 1));
+  }
+
+  static equals(vec1: ReadonlyFloat64Array, vec2: ReadonlyFloat64Array): boolean {
+    return vec1[0] === vec2[0] && vec1[1] === vec2[1] && vec1[2] === vec2[2];
+  }
+
+  static isFinite(vec: ReadonlyFloat64Array): boolean {
+    return isFinite(vec[0]) && isFinite(vec[1]) && isFinite(vec[2]);
+  }
+
+  static copy(from: ReadonlyFloat64Array, to: Float64Array): Float64Array {
+    return Vec3Math.set(from[0], from[1], from[2], to);
+  }
+}
+
+/**
+ * Subject holding a 2D vector changed in place, notified when a component changes (NaN equals NaN)
+ */
+export class Vec2Subject extends AbstractSubscribable<ReadonlyFloat64Array> {
+  readonly isMutableSubscribable = true;
+
+  private constructor(private readonly value: Float64Array) {
+    super();
+  }
+
+  /**
+   * Create a subject holding `initialVal` (which is changed in place by `set()`)
+   */
+  static create(initialVal: Float64Array): Vec2Subject {
+    return new Vec2Subject(initialVal);
+  }
+
+  /**
+   * @deprecated Use `Vec2Subject.create()`, like in the SDK
+   */
+  static createFromVector(initialVal: Float64Array): Vec2Subject {
+    return new Vec2Subject(initialVal);
+  }
+
+  get(): ReadonlyFloat64Array {
+    return this.value;
+  }
+
+  set(value: ReadonlyFloat64Array): void;
+  set(x: number, y: number): void;
+  set(arg1: ReadonlyFloat64Array | number, arg2?: number): void {
+    const x = typeof arg1 === 'number' ? arg1 : arg1[0];
+    const y = typeof arg1 === 'number' ? arg2 as number : arg1[1];
+    if (!Vec2Subject.numericEquals(x, this.value[0]) || !Vec2Subject.numericEquals(y, this.value[1])) {
+      Vec2Math.set(x, y, this.value);
+      this.notify();
+    }
+  }
+
+  private static numericEquals(a: number, b: number): boolean {
+    return a === b || (isNaN(a) && isNaN(b));
+  }
+}
@@ -8,7 +8,8 @@
  * 2. JSX type definitions (for TypeScript)
  * 3. MSFS globals (BaseInstrument, DisplayComponent, FSComponent, etc.)
  * 4. SimVar and Coherent mocks
- * 5. SDK can now be imported safely
+ * 5. Custom matchers
+ * 6. SDK can now be imported safely
  */
 
 // ============================================
@@ -45,50 +46,36 @@ setupMSFSGlobals();
 // ============================================
 // STEP 3: Setup SimVar and Coherent mocks
 // ============================================
-const { SimVarMock } = require('./mocks/SimVarMock');
-const { CoherentMock } = require('./mocks/CoherentMock');
-const simVarMock = SimVarMock.getInstance();
-const coherentMock = CoherentMock.getInstance();
+// The globals forward to the current mocks, so they follow the active TestEnvironment
+const { simVarMock, createSimVarGlobal, createSimvarGlobal } = require('./mocks/SimVarMock');
+const { coherentMock, createCoherentGlobal } = require('./mocks/CoherentMock');
 
 const globalObj = globalThis as any;
 
 // Setup SimVar mock
+// (prefixes such as A:, L:, E:, B: are handled by SimVarMock)
 if (typeof globalObj.SimVar === 'undefined') {
-  globalObj.SimVar = {
-    GetSimVarValue: (name: string, unit: string, dataSource: string = '') => {
-      return simVarMock.getSimVarValue(name, unit, dataSource);
-    },
-    SetSimVarValue: (name: string, unit: string, value: any, dataSource: string = '') => {
-      return Promise.resolve(simVarMock.setSimVarValue(name, unit, value, dataSource));
-    },
-    GetRegisteredId: (name: string, unit: string, dataSource: string = '') => {
-      return simVarMock.getRegisteredId(name, unit, dataSource);
-    },
-  };
+  globalObj.SimVar = createSimVarGlobal(simVarMock);
 }
 
 // Setup simvar global (used by SDK internally)
+// (struct values such as LatLongAlt are stored in SimVarMock)
 if (typeof globalObj.simvar === 'undefined') {
-  globalObj.simvar = {
-    getValueReg: (id: number) => simVarMock.getValueReg(id),
-    getValueReg_String: (id: number) => simVarMock.getValueReg(id),
-    getValue_LatLongAlt: () => ({ lat: 0, long: 0, alt: 0 }),
-    getValue_LatLongAltPBH: () => ({ lat: 0, long: 0, alt: 0, pitch: 0, bank: 0, heading: 0 }),
-    getValue_PBH: () => ({ pitch: 0, bank: 0, heading: 0 }),
-    getValue_PID_STRUCT: () => ({ p: 0, i: 0, d: 0 }),
-    getValue_XYZ: () => ({ x: 0, y: 0, z: 0 }),
-  };
+  globalObj.simvar = createSimvarGlobal(simVarMock);
 }
 
 // Setup Coherent mock
 if (typeof globalObj.Coherent === 'undefined') {
-  globalObj.Coherent = {
-    call: (method: string, ...args: any[]) => coherentMock.call(method, ...args),
-    on: (eventName: string, callback: (data: any) => void) => coherentMock.on(eventName, callback),
-    off: (eventName: string, callback: (data: any) => void) => coherentMock.off(eventName, callback),
-  };
+  globalObj.Coherent = createCoherentGlobal(coherentMock);
 }
 
+// ============================================
+// STEP 4: Register custom matchers
+// ============================================
+// expect(bus).toHavePublished(...) and friends, for buses with an EventBusRecorder
+const { eventBusMatchers } = require('./test-utils/EventBusMatchers');
+expect.extend(eventBusMatchers);
+
 // Setup fetch mock (for agent logging in production code)
 if (typeof globalObj.fetch === 'undefined') {
   globalObj.fetch = async (url: string | URL | Request, init?: RequestInit): Promise<Response> => {
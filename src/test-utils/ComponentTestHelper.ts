@@ -537,6 +537,11 @@ export class ComponentTestHelper {
    * Wait for async updates (useful for Subject subscriptions)
    */
   async waitForUpdate(ms: number = 10): Promise<void> {
+    if (this.env.clock.isInstalled()) {
+      // Real timers do not run under virtual time
+      this.env.advance(ms);
+      return;
+    }
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
@@ -0,0 +1,172 @@
+/**
+ * Jest matchers for EventBus traffic, registered by setupTests.
+ *
+ * They take a bus with an EventBusRecorder attached, or the recorder itself:
+ *
+ * ```typescript
+ * new EventBusRecorder(bus);
+ * controller.tuneNav1(110.3);
+ *
+ * expect(bus).toHavePublished('nav_radio_active_1', 110.3);
+ * expect(bus).toHavePublishedInOrder(['nav_radio_standby_1', { topic: 'nav_radio_active_1', data: 110.3 }]);
+ * expect(bus).toHavePublishedAtMostPerSecond('nav_radio_active_1', 6);
+ * ```
+ */
+
+import { EventBusPublication, EventBusRecorder } from './EventBusRecorder';
+
+/**
+ * Expected publication in toHavePublishedInOrder(): a topic, or a topic with its payload
+ */
+export type ExpectedPublication = string | { topic: string; data?: unknown };
+
+declare global {
+  namespace jest {
+    interface Matchers<R> {
+      /** The topic was published, with a payload equal to `data` if given */
+      toHavePublished(topic: string, data?: unknown): R;
+      /** The topic was published exactly `times` times */
+      toHavePublishedTimes(topic: string, times: number): R;
+      /** The last publication of the topic has a payload equal to `data` */
+      toHaveLastPublished(topic: string, data: unknown): R;
+      /** The publications happened in this order (other publications may come in between) */
+      toHavePublishedInOrder(expected: ExpectedPublication[]): R;
+      /** No one-second window holds more than `maxPerSecond` publications of the topic */
+      toHavePublishedAtMostPerSecond(topic: string, maxPerSecond: number): R;
+    }
+  }
+}
+
+/**
+ * Recorder of a matcher's received value: an EventBusRecorder, or a bus with one attached
+ */
+function getRecorder(received: unknown): EventBusRecorder {
+  if (received instanceof EventBusRecorder) {
+    return received;
+  }
+  const recorder = typeof received === 'object' && received !== null ? EventBusRecorder.forBus(received as any) : undefined;
+  if (!recorder) {
+    throw new Error('Expected an EventBus with an EventBusRecorder attached (new EventBusRecorder(bus)) or an EventBusRecorder');
+  }
+  return recorder;
+}
+
+function formatPayloads(context: jest.MatcherContext, publications: EventBusPublication[]): string {
+  if (publications.length === 0) {
+    return 'it was never published';
+  }
+  const shown = publications.slice(-10).map(publication => context.utils.printReceived(publication.data)).join(', ');
+  const more = publications.length > 10 ? ` (last 10 of ${publications.length})` : '';
+  return `it was published with: ${shown}${more}`;
+}
+
+function matchesPublication(context: jest.MatcherContext, publication: EventBusPublication, expected: ExpectedPublication): boolean {
+  if (typeof expected === 'string') {
+    return publication.topic === expected;
+  }
+  return publication.topic === expected.topic && (!('data' in expected) || context.equals(publication.data, expected.data));
+}
+
+function describePublication(context: jest.MatcherContext, expected: ExpectedPublication): string {
+  if (typeof expected === 'string') {
+    return expected;
+  }
+  if (!('data' in expected)) {
+    return expected.topic;
+  }
+  return `${expected.topic} ${context.utils.printExpected(expected.data)}`;
+}
+
+export const eventBusMatchers = {
+  toHavePublished(this: jest.MatcherContext, received: unknown, topic: string, ...expected: unknown[]): jest.CustomMatcherResult {
+    const publications = getRecorder(received).getPublications(topic);
+    const hasData = expected.length > 0;
+    const pass = publications.some(publication => !hasData || this.equals(publication.data, expected[0]));
+    const what = hasData ? `${topic} with ${this.utils.printExpected(expected[0])}` : topic;
+
+    return {
+      pass,
+      message: () => pass
+        ? `${this.utils.matcherHint('.not.toHavePublished')}\n\nExpected the bus not to publish ${what}, but it did`
+        : `${this.utils.matcherHint('.toHavePublished')}\n\nExpected the bus to publish ${what}, but ${formatPayloads(this, publications)}`,
+    };
+  },
+
+  toHavePublishedTimes(this: jest.MatcherContext, received: unknown, topic: string, times: number): jest.CustomMatcherResult {
+    const count = getRecorder(received).getPublications(topic).length;
+    const pass = count === times;
+
+    return {
+      pass,
+      message: () => `${this.utils.matcherHint(pass ? '.not.toHavePublishedTimes' : '.toHavePublishedTimes')}\n\n` +
+        `Expected ${topic} ${pass ? 'not ' : ''}to be published ${this.utils.printExpected(times)} times, ` +
+        `it was published ${this.utils.printReceived(count)} times`,
+    };
+  },
+
+  toHaveLastPublished(this: jest.MatcherContext, received: unknown, topic: string, data: unknown): jest.CustomMatcherResult {
+    const last = getRecorder(received).getLastPublication(topic);
+    const pass = last !== undefined && this.equals(last.data, data);
+
+    return {
+      pass,
+      message: () => `${this.utils.matcherHint(pass ? '.not.toHaveLastPublished' : '.toHaveLastPublished')}\n\n` +
+        `Expected the last ${topic} publication ${pass ? 'not ' : ''}to be ${this.utils.printExpected(data)}, ` +
+        (last ? `it was ${this.utils.printReceived(last.data)}` : 'it was never published'),
+    };
+  },
+
+  toHavePublishedInOrder(this: jest.MatcherContext, received: unknown, expected: ExpectedPublication[]): jest.CustomMatcherResult {
+    const publications = getRecorder(received).getPublications();
+
+    // Find each expected publication after the previous one
+    let index = 0;
+    let matched = 0;
+    for (; matched < expected.length; matched++) {
+      while (index < publications.length && !matchesPublication(this, publications[index], expected[matched])) {
+        index++;
+      }
+      if (index === publications.length) {
+        break;
+      }
+      index++;
+    }
+    const pass = matched === expected.length;
+
+    const topics = new Set(expected.map(item => typeof item === 'string' ? item : item.topic));
+    const sequence = publications.filter(publication => topics.has(publication.topic)).map(publication => publication.topic);
+    return {
+      pass,
+      message: () => pass
+        ? `${this.utils.matcherHint('.not.toHavePublishedInOrder')}\n\nExpected the publications not to happen in this order, but they did`
+        : `${this.utils.matcherHint('.toHavePublishedInOrder')}\n\n` +
+          `Expected ${describePublication(this, expected[matched])} after ${matched} matched publication(s)\n` +
+          `Published: ${this.utils.printReceived(sequence)}`,
+    };
+  },
+
+  toHavePublishedAtMostPerSecond(this: jest.MatcherContext, received: unknown, topic: string, maxPerSecond: number): jest.CustomMatcherResult {
+    const timestamps = getRecorder(received).getPublications(topic).map(publication => publication.timestamp);
+
+    // Busiest one-second window, starting at a publication
+    let busiestCount = 0;
+    let busiestStart = 0;
+    for (let start = 0, end = 0; start < timestamps.length; start++) {
+      while (end < timestamps.length && timestamps[end] < timestamps[start] + 1000) {
+        end++;
+      }
+      if (end - start > busiestCount) {
+        busiestCount = end - start;
+        busiestStart = timestamps[start];
+      }
+    }
+    const pass = busiestCount <= maxPerSecond;
+
+    return {
+      pass,
+      message: () => `${this.utils.matcherHint(pass ? '.not.toHavePublishedAtMostPerSecond' : '.toHavePublishedAtMostPerSecond')}\n\n` +
+        `Expected ${topic} ${pass ? 'not ' : ''}to be published at most ${this.utils.printExpected(maxPerSecond)} times per second, ` +
+        `the busiest second (from ${busiestStart}) had ${this.utils.printReceived(busiestCount)}`,
+    };
+  },
+};
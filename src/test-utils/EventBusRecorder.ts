@@ -0,0 +1,112 @@
+/**
+ * EventBus traffic recorder.
+ *
+ * Captures every publication on a bus with its payload, `sync`/`isCached` flags and timestamp
+ * (`Date.now()`, virtual when the clock is installed). The EventBus matchers registered by
+ * setupTests read the recorder attached to a bus:
+ *
+ * ```typescript
+ * const recorder = new EventBusRecorder(bus);
+ * controller.tuneNav1(110.3);
+ *
+ * expect(bus).toHavePublished('nav_radio_active_1', 110.3);
+ * expect(recorder.getPublications('nav_radio_active_1')[0].sync).toBe(true);
+ * ```
+ */
+
+import { EventBus } from '../mocks/SDKAdapterExports';
+
+/**
+ * Publication captured by an EventBusRecorder
+ */
+export interface EventBusPublication {
+  topic: string;
+  data: any;
+  sync: boolean;
+  isCached: boolean;
+  timestamp: number;
+}
+
+const recorders: WeakMap<EventBus, EventBusRecorder> = new WeakMap();
+
+/**
+ * Records the publications of an EventBus
+ */
+export class EventBusRecorder {
+  private publications: EventBusPublication[] = [];
+  private handle: { destroy: () => void } | null = null;
+  private maxHistorySize: number = 10000;
+
+  /**
+   * Start recording the bus. The recorder becomes the one the EventBus matchers use for this bus.
+   */
+  constructor(readonly bus: EventBus) {
+    this.start();
+  }
+
+  /**
+   * Recorder the EventBus matchers use for a bus (the last one created), if any
+   */
+  static forBus(bus: EventBus): EventBusRecorder | undefined {
+    return recorders.get(bus);
+  }
+
+  /**
+   * Resume recording after stop()
+   */
+  start(): void {
+    recorders.set(this.bus, this);
+    if (this.handle) {
+      return;
+    }
+    this.handle = this.bus.onPublish((topic, data, sync, isCached) => {
+      this.publications.push({ topic, data, sync, isCached, timestamp: Date.now() });
+
+      // Keep history size manageable
+      if (this.publications.length > this.maxHistorySize) {
+        this.publications = this.publications.slice(-this.maxHistorySize);
+      }
+    });
+  }
+
+  /**
+   * Stop recording; recorded publications are kept
+   */
+  stop(): void {
+    this.handle?.destroy();
+    this.handle = null;
+  }
+
+  isRecording(): boolean {
+    return this.handle !== null;
+  }
+
+  /**
+   * Get recorded publications, optionally for one topic
+   */
+  getPublications(topic?: string): EventBusPublication[] {
+    return topic === undefined ? [...this.publications] : this.publications.filter(publication => publication.topic === topic);
+  }
+
+  /**
+   * Get the last recorded publication of a topic
+   */
+  getLastPublication(topic: string): EventBusPublication | undefined {
+    const publications = this.getPublications(topic);
+    return publications[publications.length - 1];
+  }
+
+  /**
+   * Get the recorded topics, in order of first publication
+   */
+  getTopics(): string[] {
+    return [...new Set(this.publications.map(publication => publication.topic))];
+  }
+
+  /**
+   * Clear recorded publications
+   */
+  clear(): void {
+    this.publications = [];
+  }
+}
@@ -0,0 +1,425 @@
+/**
+ * Replay of recorded flight data into the SimVar mock.
+ *
+ * A recording is a table with a time column and one column per SimVar, named `NAME|unit`
+ * (e.g. `PLANE ALTITUDE|feet`, `L:MY_VAR|number`). The replay interpolates every column at
+ * the current replay time and writes the values to SimVarMock, frame by frame, so instruments
+ * can be regression-tested against real takeoff and approach data.
+ *
+ * ```typescript
+ * const replay = FlightDataReplay.fromFile('tests/data/approach.csv');
+ * replay.onFrame(() => instrument.Update());
+ * replay.seek(30000);
+ * replay.play(10000);
+ * ```
+ */
+
+import * as fs from 'fs';
+import { SimVarMock, simVarMock } from '../mocks/SimVarMock';
+import { parseSimVarName } from '../mocks/SimVarNames';
+import { convertSimVarUnit } from '../mocks/SimVarUnits';
+import { VirtualClock, VirtualClockHandle } from './VirtualClock';
+
+export type FlightDataInterpolation = 'linear' | 'step';
+
+export interface FlightDataColumn {
+  name: string;
+  unit: string;
+}
+
+export interface FlightDataReplayOptions {
+  /** Name of the time column (default: `time`) */
+  timeColumn?: string;
+  /** Unit of the time column when its header has none (default: `seconds`) */
+  timeUnit?: string;
+  /** Interpolation between samples (default: `linear`; string values always step) */
+  interpolation?: FlightDataInterpolation;
+  /** Playback speed multiplier (default: 1) */
+  speed?: number;
+  /** Restart from the beginning after the last sample (default: false) */
+  loop?: boolean;
+  /** SimVar mock to drive (default: the global mock) */
+  simVars?: SimVarMock;
+}
+
+/**
+ * Frame applied by the replay, passed to frame hooks
+ */
+export interface FlightDataFrame {
+  /** Replay time in milliseconds since the first sample */
+  time: number;
+  /** Replay time elapsed since the previous frame, in milliseconds */
+  deltaMs: number;
+  /** Values written in this frame, keyed by column header (`NAME|unit`) */
+  values: Record<string, any>;
+}
+
+export type FlightDataFrameHook = (frame: FlightDataFrame) => void;
+
+/**
+ * Handle returned by onFrame()/attach()
+ */
+export interface FlightDataReplayHandle {
+  destroy(): void;
+}
+
+interface FlightDataTrack {
+  column: FlightDataColumn;
+  header: string;
+  times: number[];
+  values: any[];
+}
+
+/**
+ * Drives SimVarMock from recorded flight data over virtual time
+ */
+export class FlightDataReplay {
+  private tracks: FlightDataTrack[];
+  private duration: number;
+  private time: number = 0;
+  private speed: number;
+  private loop: boolean;
+  private interpolation: FlightDataInterpolation;
+  private simVars: SimVarMock;
+  private hooks: Set<FlightDataFrameHook> = new Set();
+
+  /**
+   * @param headers Column headers, including the time column
+   * @param rows Rows of raw cell values; empty cells are missing samples
+   */
+  constructor(headers: string[], rows: any[][], options: FlightDataReplayOptions = {}) {
+    this.speed = options.speed ?? 1;
+    this.loop = options.loop ?? false;
+    this.interpolation = options.interpolation ?? 'linear';
+    this.simVars = options.simVars ?? simVarMock;
+
+    const timeColumn = (options.timeColumn ?? 'time').toLowerCase();
+    const parsedHeaders = headers.map(header => parseColumnHeader(header));
+    const timeIndex = parsedHeaders.findIndex(column => column.name.toLowerCase() === timeColumn);
+    if (timeIndex < 0) {
+      throw new Error(`Flight data has no '${options.timeColumn ?? 'time'}' column`);
+    }
+
+    const timeUnit = headers[timeIndex].includes('|') ? parsedHeaders[timeIndex].unit : options.timeUnit ?? 'seconds';
+    const times = rows.map(row => convertSimVarUnit(Number(parseCellValue(row[timeIndex])), timeUnit, 'seconds') * 1000);
+    if (times.some(time => !isFinite(time))) {
+      throw new Error('Flight data has rows without a valid time');
+    }
+    const startTime = times.reduce((min, time) => Math.min(min, time), Infinity);
+
+    const order = rows.map((_row, index) => index).sort((a, b) => times[a] - times[b]);
+    this.tracks = parsedHeaders
+      .map((column, columnIndex) => ({ column, columnIndex }))
+      .filter(({ columnIndex }) => columnIndex !== timeIndex)
+      .map(({ column, columnIndex }) => {
+        const track: FlightDataTrack = { column, header: `${column.name}|${column.unit}`, times: [], values: [] };
+        order.forEach(rowIndex => {
+          const value = parseCellValue(rows[rowIndex][columnIndex]);
+          if (value !== undefined) {
+            track.times.push(times[rowIndex] - startTime);
+            track.values.push(value);
+          }
+        });
+        return track;
+      });
+    this.duration = times.length > 0 ? times[order[order.length - 1]] - startTime : 0;
+  }
+
+  /**
+   * Load a CSV recording (first line: headers)
+   */
+  static fromCSV(text: string, options: FlightDataReplayOptions = {}): FlightDataReplay {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.trim().startsWith('#'));
+    if (lines.length === 0) {
+      throw new Error('Flight data CSV is empty');
+    }
+    const [headers, ...rows] = lines.map(line => splitCSVLine(line));
+    return new FlightDataReplay(headers, rows, options);
+  }
+
+  /**
+   * Load a JSON recording: an array of row objects keyed by column header,
+   * or `{ columns: string[], rows: any[][] }`
+   */
+  static fromJSON(data: string | object, options: FlightDataReplayOptions = {}): FlightDataReplay {
+    const json = typeof data === 'string' ? JSON.parse(data) : data;
+
+    if (Array.isArray(json)) {
+      const headers: string[] = [];
+      json.forEach((row: Record<string, any>) => {
+        Object.keys(row).forEach(header => {
+          if (!headers.includes(header)) {
+            headers.push(header);
+          }
+        });
+      });
+      return new FlightDataReplay(headers, json.map((row: Record<string, any>) => headers.map(header => row[header])), options);
+    }
+
+    if (json && Array.isArray(json.columns) && Array.isArray(json.rows)) {
+      return new FlightDataReplay(json.columns, json.rows, options);
+    }
+
+    throw new Error('Flight data JSON must be an array of rows or { columns, rows }');
+  }
+
+  /**
+   * Load a `.csv` or `.json` recording from disk
+   */
+  static fromFile(path: string, options: FlightDataReplayOptions = {}): FlightDataReplay {
+    const text = fs.readFileSync(path, 'utf8');
+    return /\.json$/i.test(path) ? FlightDataReplay.fromJSON(text, options) : FlightDataReplay.fromCSV(text, options);
+  }
+
+  /**
+   * Get the replayed SimVar columns
+   */
+  getColumns(): FlightDataColumn[] {
+    return this.tracks.map(track => ({ ...track.column }));
+  }
+
+  /**
+   * Get the recording duration in milliseconds
+   */
+  getDuration(): number {
+    return this.duration;
+  }
+
+  /**
+   * Get the replay time in milliseconds since the first sample
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Check if the replay reached the end of the recording (never when looping)
+   */
+  isFinished(): boolean {
+    return !this.loop && this.time >= this.duration;
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+
+  setInterpolation(interpolation: FlightDataInterpolation): void {
+    this.interpolation = interpolation;
+  }
+
+  /**
+   * Get the interpolated values at a replay time, keyed by column header
+   */
+  valuesAt(time: number): Record<string, any> {
+    const values: Record<string, any> = {};
+    this.tracks.forEach(track => {
+      const value = this.interpolate(track, time);
+      if (value !== undefined) {
+        values[track.header] = value;
+      }
+    });
+    return values;
+  }
+
+  /**
+   * Jump to a replay time and write its values (frame hooks are not run)
+   */
+  seek(time: number): void {
+    this.time = this.normalizeTime(time);
+    this.apply(this.valuesAt(this.time));
+  }
+
+  /**
+   * Advance the replay by one frame of `ms` wall time (scaled by the speed), write the
+   * recorded values and run the frame hooks
+   */
+  advance(ms: number): FlightDataFrame {
+    const deltaMs = ms * this.speed;
+    this.time = this.normalizeTime(this.time + deltaMs);
+
+    const frame: FlightDataFrame = { time: this.time, deltaMs, values: this.valuesAt(this.time) };
+    this.apply(frame.values);
+    this.hooks.forEach(hook => hook(frame));
+    return frame;
+  }
+
+  /**
+   * Play `durationMs` of wall time in frames of `frameMs`. Stops early at the end of a
+   * non-looping recording.
+   */
+  play(durationMs: number, frameMs: number = 1000 / 60): void {
+    if (frameMs <= 0) {
+      throw new Error(`Frame length must be positive, got ${frameMs}`);
+    }
+
+    let remaining = durationMs;
+    while (remaining > 1e-9 && !this.isFinished()) {
+      const delta = Math.min(frameMs, remaining);
+      this.advance(delta);
+      remaining -= delta;
+    }
+  }
+
+  /**
+   * Play until the end of the recording
+   */
+  playToEnd(frameMs: number = 1000 / 60): void {
+    if (this.loop) {
+      throw new Error('Cannot play a looping replay to its end');
+    }
+    this.play(Infinity, frameMs);
+  }
+
+  /**
+   * Run a hook after each frame is written, e.g. the instrument's update
+   */
+  onFrame(hook: FlightDataFrameHook): FlightDataReplayHandle {
+    this.hooks.add(hook);
+    return {
+      destroy: () => {
+        this.hooks.delete(hook);
+      }
+    };
+  }
+
+  /**
+   * Advance the replay with a virtual clock: one replay frame per clock tick
+   */
+  attach(clock: VirtualClock): FlightDataReplayHandle {
+    const handle: VirtualClockHandle = clock.onTick((_now, deltaMs) => {
+      if (!this.isFinished()) {
+        this.advance(deltaMs);
+      }
+    });
+    return { destroy: () => handle.destroy() };
+  }
+
+  private normalizeTime(time: number): number {
+    if (this.loop && this.duration > 0) {
+      const wrapped = ((time % this.duration) + this.duration) % this.duration;
+      // The end of a lap plays the last sample; the next frame wraps to the start
+      return wrapped === 0 && time > 0 ? this.duration : wrapped;
+    }
+    return Math.min(Math.max(time, 0), this.duration);
+  }
+
+  private interpolate(track: FlightDataTrack, time: number): any {
+    const { times, values } = track;
+    if (times.length === 0) {
+      return undefined;
+    }
+    if (time <= times[0]) {
+      return values[0];
+    }
+    if (time >= times[times.length - 1]) {
+      return values[values.length - 1];
+    }
+
+    // Last sample at or before `time`
+    let low = 0;
+    let high = times.length - 1;
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (times[mid] <= time) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const from = values[low];
+    const to = values[high];
+    if (this.interpolation === 'step' || typeof from !== 'number' || typeof to !== 'number') {
+      return from;
+    }
+    return from + (to - from) * (time - times[low]) / (times[high] - times[low]);
+  }
+
+  /**
+   * Write every recorded value, so SimVars changed between frames by the test or the
+   * instrument follow the recording again
+   */
+  private apply(values: Record<string, any>): void {
+    this.tracks.forEach(track => {
+      if (!(track.header in values)) {
+        return;
+      }
+      const value = values[track.header];
+      const { name, unit } = track.column;
+      if (parseSimVarName(name).prefix === 'E') {
+        this.simVars.setEnvironmentVar(name, unit, value);
+      } else {
+        this.simVars.setSimVarValue(name, unit, value);
+      }
+    });
+  }
+}
+
+/**
+ * Parse a `NAME|unit` column header; the unit defaults to `number`
+ */
+function parseColumnHeader(header: string): FlightDataColumn {
+  const separator = header.lastIndexOf('|');
+  if (separator < 0) {
+    return { name: header.trim(), unit: 'number' };
+  }
+  return { name: header.slice(0, separator).trim(), unit: header.slice(separator + 1).trim() || 'number' };
+}
+
+/**
+ * Parse a cell: numbers and booleans become numbers, empty cells are missing samples
+ */
+function parseCellValue(cell: any): any {
+  if (cell === undefined || cell === null) {
+    return undefined;
+  }
+  if (typeof cell === 'number' || typeof cell === 'boolean') {
+    return Number(cell);
+  }
+
+  const text = String(cell).trim();
+  if (text === '') {
+    return undefined;
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return text.toLowerCase() === 'true' ? 1 : 0;
+  }
+  const number = Number(text);
+  return isNaN(number) ? text : number;
+}
+
+/**
+ * Split a CSV line, honoring double-quoted cells
+ */
+function splitCSVLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map(value => value.trim());
+}
@@ -0,0 +1,219 @@
+/**
+ * BaseInstrument lifecycle harness.
+ *
+ * Mounts a whole instrument class the way the sim does: builds the custom element with its
+ * template, connects it (`connectedCallback`), runs `Init()`, walks the game states up to
+ * `ingame` (`onGameStateChanged`, `onFlightStart`), then runs `doUpdate()`/`Update()` at the
+ * instrument frame rate on the virtual clock:
+ *
+ * ```typescript
+ * const mounted = mountInstrument(MyInstrument, {
+ *   templateHtml: '<div id="InstrumentContent"></div>',
+ * });
+ *
+ * mounted.advance(1000); // 60 Update() calls at the default frame rate
+ * mounted.env.sendHEvent('MY_PFD_SOFTKEY_1'); // onInteractionEvent(['MY_PFD_SOFTKEY_1'])
+ * mounted.unmount();
+ * ```
+ */
+
+import { GAME_STATE, getRegisteredInstrumentName, isCustomElementClass, registerInstrument } from '../mocks/BaseInstrumentMock';
+import { TestEnvironment, TestEnvironmentOptions } from './TestEnvironment';
+import { VirtualClockHandle } from './VirtualClock';
+
+export interface MountInstrumentOptions {
+  /**
+   * Template content. Without it, the template must already be in the document
+   * (`<script type="text/html" id="{templateId}">` or `<template id="{templateId}">`).
+   */
+  templateHtml?: string;
+  /**
+   * Id of the template (default: the instrument's `templateID`)
+   */
+  templateId?: string;
+  /**
+   * Custom element name (default: the name passed to `registerInstrument()`, else derived from the class name)
+   */
+  tagName?: string;
+  /**
+   * Instrument identifier returned by `instrumentIdentifier` (default: the element name)
+   */
+  instrumentId?: string;
+  /**
+   * Instrument index (`urlConfig.index`, default: 1)
+   */
+  index?: number;
+  /**
+   * `Update()` calls per second of real time (default: 60)
+   */
+  frameRate?: number;
+  /**
+   * Game states to go through after `Init()` (default: `loading`, `briefing`, `ingame`)
+   */
+  gameStates?: number[];
+  /**
+   * Environment to mount into. Without it, one is created with virtual time and torn down by unmount().
+   */
+  env?: TestEnvironment;
+  /**
+   * Options of the environment created when `env` is not given
+   */
+  envOptions?: TestEnvironmentOptions;
+}
+
+/**
+ * Instrument mounted by mountInstrument()
+ */
+export interface MountedInstrument<T> {
+  /** The instrument (the custom element itself under jsdom) */
+  instrument: T;
+  /** Element holding the instrument's DOM */
+  element: HTMLElement;
+  env: TestEnvironment;
+  /** Advance virtual time in instrument frames, running `Update()` on each */
+  advance(ms: number): void;
+  /** Run a single instrument frame now */
+  update(): void;
+  /** Move to a game state */
+  setGameState(state: number): void;
+  /** Send an H event through `env.sendHEvent()`, reaching `onInteractionEvent()` of the mounted instruments */
+  interact(event: string, ...args: string[]): void;
+  /** Disconnect the instrument and clean up */
+  unmount(): void;
+}
+
+/**
+ * Mount an instrument class (a `BaseInstrument` subclass) and start its lifecycle
+ */
+export function mountInstrument<T = any>(instrumentClass: new () => T, options: MountInstrumentOptions = {}): MountedInstrument<T> {
+  const ownsEnv = !options.env;
+  const env = options.env ?? new TestEnvironment();
+  if (ownsEnv) {
+    env.setup({ virtualTime: true, ...options.envOptions });
+  }
+
+  // Custom elements can only be constructed by the document; other classes wrap a host element
+  let instrument: any;
+  let element: HTMLElement | undefined;
+  let template: HTMLElement | null = null;
+  const customElement = isCustomElementClass(instrumentClass);
+  const setGameState = (state: number): void => instrument.setGameState?.(state);
+  try {
+    const doc = (globalThis as any).document as Document;
+    const tagName = resolveTagName(instrumentClass, options.tagName);
+
+    if (customElement) {
+      element = doc.createElement(tagName);
+      instrument = element;
+    } else {
+      instrument = new instrumentClass();
+      element = doc.createElement(tagName);
+      instrument.host = element;
+    }
+
+    if (options.templateId && options.templateId !== instrument.templateID) {
+      Object.defineProperty(instrument, 'templateID', { value: options.templateId, configurable: true });
+    }
+    instrument.setInstrumentIdentifier?.(options.instrumentId ?? tagName);
+    if (instrument.urlConfig) {
+      instrument.urlConfig.index = options.index ?? 1;
+    }
+
+    if (options.templateHtml !== undefined) {
+      const templateId = instrument.templateID;
+      if (!templateId) {
+        throw new Error(`${instrumentClass.name} has no templateID: pass options.templateId with options.templateHtml`);
+      }
+      template = doc.createElement('script');
+      template.setAttribute('type', 'text/html');
+      template.id = templateId;
+      template.textContent = options.templateHtml;
+      doc.head.appendChild(template);
+    }
+
+    // Connecting a custom element runs connectedCallback(), like in the sim
+    doc.body.appendChild(element);
+    if (!customElement) {
+      instrument.connectedCallback?.();
+    }
+
+    instrument.Init?.();
+    (options.gameStates ?? [GAME_STATE.loading, GAME_STATE.briefing, GAME_STATE.ingame]).forEach(setGameState);
+  } catch (error) {
+    element?.remove();
+    template?.remove();
+    if (ownsEnv) {
+      env.teardown();
+    }
+    throw error;
+  }
+
+  const hEventHandle = env.onHEvent((name, args) => instrument.onInteractionEvent?.([name, ...args]));
+
+  // Frames run on real time, so they continue while the sim is paused
+  const frameMs = 1000 / (options.frameRate ?? 60);
+  const start = env.clock.realNow();
+  let frames = 0;
+  const update = (): void => instrument.doUpdate?.();
+  const tickHandle: VirtualClockHandle = env.clock.onTick(() => {
+    // At most one frame per clock tick, when the next instrument frame is due
+    if (env.clock.realNow() >= start + (frames + 1) * frameMs - 1e-6) {
+      frames = Math.floor((env.clock.realNow() - start) / frameMs + 1e-6);
+      update();
+    }
+  });
+
+  let mounted = true;
+  const mountedElement = element;
+  return {
+    instrument: instrument as T,
+    element: mountedElement,
+    env,
+    advance: (ms: number) => env.advance(ms, frameMs),
+    update,
+    setGameState,
+    interact: (event: string, ...args: string[]) => env.sendHEvent(event, { args }),
+    unmount: () => {
+      if (!mounted) {
+        return;
+      }
+      mounted = false;
+      tickHandle.destroy();
+      hEventHandle.destroy();
+      mountedElement.remove();
+      if (!customElement) {
+        instrument.disconnectedCallback?.();
+      }
+      template?.remove();
+      if (ownsEnv) {
+        env.teardown();
+      }
+    },
+  };
+}
+
+/**
+ * Element name of an instrument class, registering it if needed
+ */
+function resolveTagName(instrumentClass: Function, tagName?: string): string {
+  const registered = getRegisteredInstrumentName(instrumentClass);
+  if (registered && (!tagName || tagName === registered)) {
+    return registered;
+  }
+
+  let name = tagName ?? toElementName(instrumentClass.name);
+  const registry = (globalThis as any).customElements as CustomElementRegistry | undefined;
+  if (!tagName && registry) {
+    // A class can only be defined once, and a name used once, per document
+    for (let i = 2; registry.get(name) && registry.get(name) !== instrumentClass; i++) {
+      name = `${toElementName(instrumentClass.name)}-${i}`;
+    }
+  }
+  registerInstrument(name, instrumentClass);
+  return name;
+}
+
+function toElementName(className: string): string {
+  const name = (className || 'instrument').replace(/([a-z0-9])([A-Z])/g, '$1-$2').replace(/[^a-zA-Z0-9-]/g, '-').toLowerCase();
+  return name.includes('-') ? name : `${name}-instrument`;
+}
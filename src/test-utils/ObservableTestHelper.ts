@@ -3,7 +3,8 @@
  */
 
 // Import from our SDK adapter instead of real SDK
-import { Subscribable, Subject, Subscription } from '../mocks/SDKAdapter';
+import { Subscribable, Subject, Subscription } from '../mocks/SDKAdapterExports';
+import { VirtualClock } from './VirtualClock';
 
 /**
  * Helper for testing observables in components
@@ -75,15 +76,22 @@ export class ObservableTestHelper {
   }
 
   /**
-   * Simulate observable updates over time
+   * Simulate observable updates over time.
+   * With a virtual clock (e.g. `env.clock`) the clock is advanced between updates instead of waiting.
+   * Timeouts of waitForValue() and collectValues() use the current `setTimeout`, so they follow an installed virtual clock.
    */
   static async simulateUpdates<T>(
     subject: Subject<T>,
     values: T[],
-    interval: number = 50
+    interval: number = 50,
+    clock?: VirtualClock
   ): Promise<void> {
     for (const value of values) {
-      await new Promise(resolve => setTimeout(resolve, interval));
+      if (clock) {
+        clock.advance(interval);
+      } else {
+        await new Promise(resolve => setTimeout(resolve, interval));
+      }
       subject.set(value);
     }
   }
@@ -0,0 +1,302 @@
+/**
+ * Multi-instrument panel simulation.
+ *
+ * A real panel runs several VCockpit instruments (PFD, MFD, EIS, ...) in separate JS contexts:
+ * they read the same simulator state but each has its own DOM, Coherent view and EventBus.
+ * PanelEnvironment hosts one TestEnvironment per instrument, all sharing a single SimVarMock,
+ * and forwards `sync` EventBus publications between the instruments so synchronization logic
+ * can be tested. The instruments also share the panel clock: timers, animation frames and E: time
+ * variables of every instrument follow advance() once useVirtualTime() is on.
+ *
+ * ```typescript
+ * const panel = new PanelEnvironment();
+ * const pfd = panel.addInstrument('PFD');
+ * const mfd = panel.addInstrument('MFD');
+ *
+ * mfd.bus.on('mfd_page', page => ...);
+ * pfd.run(() => pfd.bus.pub('mfd_page', 'map', true));
+ * ```
+ */
+
+import { EVENT_BUS_SYNC, EventBus } from '../mocks/SDKAdapterExports';
+import { CoherentMock } from '../mocks/CoherentMock';
+import { PublisherFrameSource, getPublisherFrameSource, setPublisherFrameSource, stopPublisherFrameUpdates } from '../mocks/sdk/Publishers';
+import { SimVarFixture, SimVarFixtureLoadOptions, SimVarMock } from '../mocks/SimVarMock';
+import { resolveSimVarFixture } from '../fixtures';
+import { SimVarProfiles } from './SimVarProfiles';
+import { TestEnvironment } from './TestEnvironment';
+import { VirtualClock } from './VirtualClock';
+
+/**
+ * EventBus publication forwarded from one instrument to the others
+ */
+export interface PanelSyncMessage {
+  source: string;
+  topic: string;
+  data: any;
+  /** Whether the receiving buses cache the data for later subscribers */
+  isCached: boolean;
+  timestamp: number;
+}
+
+/**
+ * Instrument hosted by a PanelEnvironment
+ */
+export class PanelInstrument {
+  /**
+   * EventBus of the instrument, created while the instrument was active
+   */
+  readonly bus: EventBus;
+
+  /**
+   * @param frameSource Clock whose frames update the publishers created in this instrument (default: the environment's)
+   */
+  constructor(readonly name: string, readonly env: TestEnvironment, private readonly frameSource: PublisherFrameSource = env.clock) {
+    this.bus = this.run(() => new EventBus());
+  }
+
+  get document(): Document {
+    return this.env.getDocument();
+  }
+
+  get window(): any {
+    return this.env.getWindow();
+  }
+
+  get coherentMock(): CoherentMock {
+    return this.env.coherentMock;
+  }
+
+  /**
+   * Make this instrument's document, Coherent and SimVar globals current
+   */
+  activate(): void {
+    this.env.activate();
+    setPublisherFrameSource(this.frameSource);
+  }
+
+  /**
+   * Check if this instrument is the current one
+   */
+  isActive(): boolean {
+    return this.env.isActive() && CoherentMock.getCurrent() === this.env.coherentMock;
+  }
+
+  /**
+   * Activate the instrument and run code in its context
+   */
+  run<T>(fn: () => T): T {
+    this.activate();
+    return fn();
+  }
+}
+
+/**
+ * Several instruments sharing one simulated aircraft
+ */
+export class PanelEnvironment {
+  private instruments: Map<string, PanelInstrument> = new Map();
+  private syncLog: PanelSyncMessage[] = [];
+  private pendingSync: PanelSyncMessage[] = [];
+  private syncHeld: boolean = false;
+  private maxLogSize: number = 10000;
+  private previousFrameSource: PublisherFrameSource | null = null;
+  private virtualTime: boolean = false;
+
+  /**
+   * SimVar mock shared by all instruments (the "sim")
+   */
+  readonly simVarMock: SimVarMock = new SimVarMock();
+
+  /**
+   * Virtual clock advanced by advance(), shared by the instruments
+   */
+  readonly clock: VirtualClock = new VirtualClock();
+
+  /**
+   * Scripted SimVar ramps and profiles on the shared SimVar mock
+   */
+  readonly simvars: SimVarProfiles = new SimVarProfiles(this.clock, this.simVarMock);
+
+  /**
+   * Add an instrument with its own document, Coherent mock and EventBus. It becomes the active instrument.
+   */
+  addInstrument(name: string): PanelInstrument {
+    if (this.instruments.has(name)) {
+      throw new Error(`Panel already has an instrument named ${name}`);
+    }
+
+    if (this.instruments.size === 0) {
+      this.previousFrameSource = getPublisherFrameSource();
+    }
+    const env = new TestEnvironment(this.simVarMock, this.clock);
+    env.setup();
+    env.coherentMock.registerHandler(EVENT_BUS_SYNC, (topic: string, data: any, isCached: boolean = true) => {
+      this.forwardSync({ source: name, topic, data, isCached, timestamp: Date.now() });
+    });
+
+    // Publishers of every instrument update on the frames of the shared clock
+    const instrument = new PanelInstrument(name, env);
+    this.instruments.set(name, instrument);
+    if (this.virtualTime) {
+      this.installClock();
+    }
+    return instrument;
+  }
+
+  /**
+   * Get an instrument by name
+   */
+  getInstrument(name: string): PanelInstrument {
+    const instrument = this.instruments.get(name);
+    if (!instrument) {
+      throw new Error(`Panel has no instrument named ${name}`);
+    }
+    return instrument;
+  }
+
+  /**
+   * Get all instruments, in the order they were added
+   */
+  getInstruments(): PanelInstrument[] {
+    return Array.from(this.instruments.values());
+  }
+
+  /**
+   * Make an instrument current
+   */
+  activate(name: string): PanelInstrument {
+    const instrument = this.getInstrument(name);
+    instrument.activate();
+    return instrument;
+  }
+
+  /**
+   * Load an aircraft state into the shared SimVar mock
+   */
+  loadFixture(fixture: string | SimVarFixture, options: SimVarFixtureLoadOptions = {}): void {
+    this.simVarMock.loadFixture(resolveSimVarFixture(fixture), options);
+  }
+
+  /**
+   * Advance virtual time by `ms` in frames of `frameMs`
+   */
+  advance(ms: number, frameMs?: number): void {
+    this.clock.advance(ms, frameMs);
+  }
+
+  /**
+   * Hand time over to the panel clock until teardown, in every instrument (present and added later):
+   * timers, `requestAnimationFrame`, `Date`, `performance.now` and the E: time variables only move with advance().
+   * See TestEnvironment.useVirtualTime().
+   */
+  useVirtualTime(): void {
+    this.virtualTime = true;
+    this.installClock();
+    this.simVarMock.setTimeSource(() => this.clock.now());
+    this.simVarMock.setSimVarValue('SIMULATION RATE', 'number', this.clock.getSimRate());
+  }
+
+  /**
+   * Queue sync publications instead of delivering them, e.g. to test an instrument
+   * that has not received its partner's state yet
+   */
+  holdSync(): void {
+    this.syncHeld = true;
+  }
+
+  /**
+   * Deliver queued sync publications and resume immediate delivery
+   */
+  releaseSync(): void {
+    this.syncHeld = false;
+    const pending = this.pendingSync;
+    this.pendingSync = [];
+    pending.forEach(message => this.deliverSync(message));
+  }
+
+  /**
+   * Get the sync publications forwarded between instruments
+   */
+  getSyncLog(): PanelSyncMessage[] {
+    return [...this.syncLog];
+  }
+
+  /**
+   * Clear the sync log
+   */
+  clearSyncLog(): void {
+    this.syncLog = [];
+  }
+
+  /**
+   * Tear down all instruments (last added first) and reset the shared SimVar mock
+   */
+  teardown(): void {
+    const instruments = this.getInstruments().reverse();
+    this.instruments.clear();
+    this.simvars.clear();
+    this.syncLog = [];
+    this.pendingSync = [];
+    this.syncHeld = false;
+    this.virtualTime = false;
+
+    const errors: unknown[] = [];
+    instruments.forEach(instrument => {
+      try {
+        instrument.env.teardown();
+      } catch (error) {
+        errors.push(error);
+      }
+    });
+    this.clock.uninstall();
+    this.clock.clearTimers();
+    stopPublisherFrameUpdates(this.clock);
+    this.simVarMock.reset();
+    if (getPublisherFrameSource() === this.clock) {
+      setPublisherFrameSource(this.previousFrameSource);
+    }
+
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+
+  private installClock(): void {
+    this.clock.install(...this.getInstruments().map(instrument => instrument.window));
+  }
+
+  private forwardSync(message: PanelSyncMessage): void {
+    // Sync data crosses JS contexts as JSON, like in the sim
+    const serialized: PanelSyncMessage = {
+      ...message,
+      data: message.data === undefined ? undefined : JSON.parse(JSON.stringify(message.data)),
+    };
+
+    this.syncLog.push(serialized);
+    if (this.syncLog.length > this.maxLogSize) {
+      this.syncLog = this.syncLog.slice(-this.maxLogSize);
+    }
+
+    if (this.syncHeld) {
+      this.pendingSync.push(serialized);
+    } else {
+      this.deliverSync(serialized);
+    }
+  }
+
+  /**
+   * Deliver a sync publication to every other instrument, in its own context
+   */
+  private deliverSync(message: PanelSyncMessage): void {
+    const active = this.getInstruments().find(instrument => instrument.isActive());
+
+    this.instruments.forEach(instrument => {
+      if (instrument.name !== message.source) {
+        instrument.run(() => instrument.coherentMock.triggerEvent(EVENT_BUS_SYNC, { topic: message.topic, data: message.data, isCached: message.isCached }));
+      }
+    });
+
+    active?.activate();
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Conformance of the SDK adapter with the real SDK type declarations.
+ *
+ * Compares each export of the SDK adapter (`SDKAdapterExports`) with the export of the same name in the installed
+ * `@microsoft/msfs-sdk/msfssdk.d.ts` using the TypeScript compiler API: the kind of export, the public
+ * members of the value side (statics, namespace functions, enum members) and of the type side (instance
+ * members, interface members), and the member signatures. After an SDK upgrade the report shows what the
+ * mocks need next:
+ *
+ * ```typescript
+ * const report = checkSDKConformance({ exports: ['Subscription', 'EventBus'] });
+ * console.log(formatSDKConformanceReport(report));
+ * // Subscription (interface)
+ * //   - withLifecycle: SDK member missing from the adapter
+ * //
+ * // EventBus (class)
+ * //   ~ on: adapter <T = any>(topic: string, ...) => HandlerSubscription<Handler<T>>, SDK (...) => Subscription
+ * ```
+ *
+ * `describeSDKConformance()` turns the checks into a Jest suite, one test per export, and
+ * `npx msfs-jest-utils-sdk-conformance` prints the report. The checker needs the `typescript` package, an optional
+ * peer dependency loaded on first use.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as TS from 'typescript';
+import { resolveSDKPackageFile } from '../mocks/SDKBundle';
+
+export type SDKExportKind = 'class' | 'interface' | 'enum' | 'function' | 'namespace' | 'variable' | 'type';
+
+/**
+ * - `not-in-sdk`: the adapter export doesn't exist in the SDK (informational)
+ * - `kind`: the SDK export has a value (class, function...) and the adapter's only a type, or the other way around
+ * - `untyped`: the adapter export is typed `any`
+ * - `missing-member`: an SDK member the adapter lacks
+ * - `extra-member`: an adapter member the SDK doesn't have (informational)
+ * - `signature`: a member whose adapter type doesn't match the SDK's
+ * - `value`: an enum member with another value
+ */
+export type SDKConformanceIssueKind = 'not-in-sdk' | 'kind' | 'untyped' | 'missing-member' | 'extra-member' | 'signature' | 'value';
+
+export interface SDKConformanceIssue {
+  kind: SDKConformanceIssueKind;
+  /** Member name, prefixed with `static ` for the value side of a class */
+  member?: string;
+  /** Adapter type or value */
+  adapter?: string;
+  /** SDK type or value */
+  sdk?: string;
+}
+
+export interface SDKExportConformance {
+  name: string;
+  adapterKind: SDKExportKind;
+  sdkKind?: SDKExportKind;
+  /** True when the only issues are informational (`not-in-sdk`, `extra-member`) */
+  conforms: boolean;
+  issues: SDKConformanceIssue[];
+}
+
+export interface SDKConformanceReport {
+  adapterFile: string;
+  sdkDeclarationFile: string;
+  /** Version of the SDK package the declarations belong to, if found */
+  sdkVersion?: string;
+  exports: SDKExportConformance[];
+}
+
+export interface SDKConformanceOptions {
+  /** Adapter source or declaration file (default: the framework's SDKAdapterExports) */
+  adapterFile?: string;
+  /** SDK declaration file (default: the installed `@microsoft/msfs-sdk/msfssdk.d.ts`) */
+  sdkDeclarationFile?: string;
+  /** Adapter exports to check (default: all) */
+  exports?: string[];
+}
+
+const INFORMATIONAL: ReadonlySet<SDKConformanceIssueKind> = new Set(['not-in-sdk', 'extra-member']);
+
+function loadTypeScript(): typeof TS {
+  try {
+    return require('typescript');
+  } catch {
+    throw new Error('The SDK conformance checker needs the typescript package, an optional peer dependency of @avimate/msfs-jest-utils: npm install --save-dev typescript');
+  }
+}
+
+/**
+ * The framework's SDK adapter exports: the source under ts-jest, the declaration file in the published package
+ */
+function defaultAdapterFile(): string {
+  const base = path.join(__dirname, '..', 'mocks', 'SDKAdapterExports');
+  return fs.existsSync(`${base}.ts`) ? `${base}.ts` : `${base}.d.ts`;
+}
+
+/**
+ * Compare the adapter exports with the SDK declarations
+ */
+export function checkSDKConformance(options: SDKConformanceOptions = {}): SDKConformanceReport {
+  const ts = loadTypeScript();
+  const adapterFile = path.resolve(options.adapterFile ?? defaultAdapterFile());
+  const sdkDeclarationFile = path.resolve(options.sdkDeclarationFile ?? resolveSDKPackageFile('msfssdk.d.ts'));
+  for (const file of [adapterFile, sdkDeclarationFile]) {
+    if (!fs.existsSync(file)) {
+      throw new Error(`SDK conformance: file not found: ${file}`);
+    }
+  }
+
+  const program = ts.createProgram([adapterFile, sdkDeclarationFile], {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+    types: [],
+    strict: true,
+    skipLibCheck: true,
+    noEmit: true,
+  });
+  const checker = program.getTypeChecker();
+  const comparer = new ExportComparer(ts, checker);
+
+  const adapterExports = getModuleExports(ts, checker, program, adapterFile);
+  const sdkExports = getModuleExports(ts, checker, program, sdkDeclarationFile);
+  const names = options.exports ?? [...adapterExports.keys()].sort();
+
+  const exports: SDKExportConformance[] = [];
+  for (const name of names) {
+    const adapterSymbol = adapterExports.get(name);
+    if (!adapterSymbol) {
+      throw new Error(`SDK conformance: the adapter has no export ${name}`);
+    }
+    const sdkSymbol = sdkExports.get(name);
+    const issues = sdkSymbol ? comparer.compare(adapterSymbol, sdkSymbol) : [{ kind: 'not-in-sdk' as const }];
+    exports.push({
+      name,
+      adapterKind: getExportKind(ts, adapterSymbol),
+      sdkKind: sdkSymbol ? getExportKind(ts, sdkSymbol) : undefined,
+      conforms: issues.every(issue => INFORMATIONAL.has(issue.kind)),
+      issues,
+    });
+  }
+
+  return { adapterFile, sdkDeclarationFile, sdkVersion: readPackageVersion(sdkDeclarationFile), exports };
+}
+
+/**
+ * Diff-style report: `-` SDK members missing from the adapter, `+` adapter-only members, `~` mismatches
+ */
+export function formatSDKConformanceReport(report: SDKConformanceReport, options: { includeInformational?: boolean } = {}): string {
+  const includeInformational = options.includeInformational ?? false;
+  const failing = report.exports.filter(entry => !entry.conforms);
+  const lines = [
+    `SDK conformance of ${report.adapterFile}`,
+    `against ${report.sdkDeclarationFile}${report.sdkVersion ? ` (${report.sdkVersion})` : ''}`,
+    `${report.exports.length - failing.length}/${report.exports.length} exports conform`,
+  ];
+
+  for (const entry of report.exports) {
+    const issues = entry.issues.filter(issue => includeInformational || !INFORMATIONAL.has(issue.kind));
+    if (issues.length === 0) {
+      continue;
+    }
+    lines.push('', `${entry.name} (${entry.adapterKind}${entry.sdkKind && entry.sdkKind !== entry.adapterKind ? `, SDK ${entry.sdkKind}` : ''})`);
+    for (const issue of issues) {
+      lines.push(`  ${formatIssue(issue)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Register a Jest suite with one test per adapter export, failing with the export's diff when it doesn't conform
+ */
+export function describeSDKConformance(options: SDKConformanceOptions = {}): void {
+  describe('msfs-sdk conformance', () => {
+    const report = checkSDKConformance(options);
+    for (const entry of report.exports) {
+      test(entry.name, () => {
+        if (!entry.conforms) {
+          throw new Error(formatSDKConformanceReport({ ...report, exports: [entry] }));
+        }
+      });
+    }
+  });
+}
+
+function formatIssue(issue: SDKConformanceIssue): string {
+  switch (issue.kind) {
+    case 'not-in-sdk':
+      return '+ not exported by the SDK';
+    case 'kind':
+      return `~ adapter ${issue.adapter}, SDK ${issue.sdk}`;
+    case 'untyped':
+      return `~ ${issue.member ? `${issue.member}: ` : ''}typed any in the adapter`;
+    case 'missing-member':
+      return `- ${issue.member}: SDK member missing from the adapter`;
+    case 'extra-member':
+      return `+ ${issue.member}: not in the SDK`;
+    case 'signature':
+    case 'value':
+      return `~ ${issue.member}: adapter ${issue.adapter}, SDK ${issue.sdk}`;
+  }
+}
+
+function getModuleExports(ts: typeof TS, checker: TS.TypeChecker, program: TS.Program, file: string): Map<string, TS.Symbol> {
+  const sourceFile = program.getSourceFile(file);
+  const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) {
+    throw new Error(`SDK conformance: ${file} is not a module`);
+  }
+  const exports = new Map<string, TS.Symbol>();
+  for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+    exports.set(symbol.getName(), symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol);
+  }
+  return exports;
+}
+
+function getExportKind(ts: typeof TS, symbol: TS.Symbol): SDKExportKind {
+  const flags = symbol.flags;
+  if (flags & ts.SymbolFlags.Class) {
+    return 'class';
+  }
+  if (flags & ts.SymbolFlags.Enum) {
+    return 'enum';
+  }
+  if (flags & ts.SymbolFlags.Function) {
+    return 'function';
+  }
+  if (flags & ts.SymbolFlags.ValueModule) {
+    return 'namespace';
+  }
+  if (flags & ts.SymbolFlags.Variable) {
+    return 'variable';
+  }
+  if (flags & ts.SymbolFlags.Interface) {
+    return 'interface';
+  }
+  return 'type';
+}
+
+function readPackageVersion(declarationFile: string): string | undefined {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(path.dirname(declarationFile), 'package.json'), 'utf8')).version;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Member-by-member comparison of an adapter export with the SDK export
+ */
+class ExportComparer {
+  constructor(private readonly ts: typeof TS, private readonly checker: TS.TypeChecker) {}
+
+  compare(adapter: TS.Symbol, sdk: TS.Symbol): SDKConformanceIssue[] {
+    const { ts } = this;
+    const issues: SDKConformanceIssue[] = [];
+    const adapterHasValue = (adapter.flags & ts.SymbolFlags.Value) !== 0;
+    const sdkHasValue = (sdk.flags & ts.SymbolFlags.Value) !== 0;
+    const adapterHasType = (adapter.flags & ts.SymbolFlags.Type) !== 0;
+    const sdkHasType = (sdk.flags & ts.SymbolFlags.Type) !== 0;
+
+    if (adapterHasValue !== sdkHasValue) {
+      issues.push({ kind: 'kind', adapter: getExportKind(ts, adapter), sdk: getExportKind(ts, sdk) });
+    }
+
+    if (adapterHasValue && sdkHasValue) {
+      const prefix = sdk.flags & ts.SymbolFlags.Class ? 'static ' : '';
+      this.compareTypes(this.checker.getTypeOfSymbol(adapter), this.checker.getTypeOfSymbol(sdk), prefix, issues);
+    }
+    // Enums and namespaces only have a value side worth comparing
+    const typeSideFlags = ts.SymbolFlags.Class | ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias;
+    if (adapterHasType && sdkHasType && adapter.flags & typeSideFlags && sdk.flags & typeSideFlags) {
+      this.compareTypes(this.checker.getDeclaredTypeOfSymbol(adapter), this.checker.getDeclaredTypeOfSymbol(sdk), '', issues);
+    }
+    return issues;
+  }
+
+  private compareTypes(adapter: TS.Type, sdk: TS.Type, prefix: string, issues: SDKConformanceIssue[]): void {
+    const { ts, checker } = this;
+    if (adapter.flags & ts.TypeFlags.Any) {
+      if (!(sdk.flags & ts.TypeFlags.Any)) {
+        issues.push(prefix ? { kind: 'untyped', member: prefix.trim() } : { kind: 'untyped' });
+      }
+      return;
+    }
+
+    const adapterMembers = this.getPublicMembers(adapter);
+    const sdkMembers = this.getPublicMembers(sdk);
+    for (const [name, sdkMember] of sdkMembers) {
+      const member = `${prefix}${name}`;
+      const adapterMember = adapterMembers.get(name);
+      if (!adapterMember) {
+        issues.push({ kind: 'missing-member', member });
+        continue;
+      }
+
+      const adapterValue = this.getEnumValue(adapterMember);
+      const sdkValue = this.getEnumValue(sdkMember);
+      if (adapterValue !== undefined || sdkValue !== undefined) {
+        if (adapterValue !== sdkValue) {
+          issues.push({ kind: 'value', member, adapter: JSON.stringify(adapterValue), sdk: JSON.stringify(sdkValue) });
+        }
+        continue;
+      }
+
+      const adapterType = checker.getTypeOfSymbol(adapterMember);
+      const sdkType = checker.getTypeOfSymbol(sdkMember);
+      if (!this.isCompatible(adapterType, sdkType)) {
+        issues.push({ kind: 'signature', member, adapter: this.typeToString(adapterType), sdk: this.typeToString(sdkType) });
+      }
+    }
+    for (const name of adapterMembers.keys()) {
+      if (!sdkMembers.has(name)) {
+        issues.push({ kind: 'extra-member', member: `${prefix}${name}` });
+      }
+    }
+  }
+
+  /**
+   * Whether an adapter member can stand in for the SDK member. Adapter and SDK types are distinct (nominal classes,
+   * separate type parameters), so instead of assignability: both callable or neither, every SDK call signature
+   * accepted by an adapter one (argument counts), and returning an object with the members of the SDK return type.
+   */
+  private isCompatible(adapterType: TS.Type, sdkType: TS.Type): boolean {
+    const { checker } = this;
+    if (adapterType.flags & this.ts.TypeFlags.Any) {
+      return true;
+    }
+    const adapterSignatures = checker.getNonNullableType(adapterType).getCallSignatures();
+    const sdkSignatures = checker.getNonNullableType(sdkType).getCallSignatures();
+    if (sdkSignatures.length === 0 || adapterSignatures.length === 0) {
+      return sdkSignatures.length === adapterSignatures.length;
+    }
+    return sdkSignatures.every(sdkSignature => adapterSignatures.some(adapterSignature =>
+      this.acceptsArguments(adapterSignature, sdkSignature) && this.returnsMembers(adapterSignature, sdkSignature)));
+  }
+
+  private acceptsArguments(adapter: TS.Signature, sdk: TS.Signature): boolean {
+    const adapterArity = this.getArity(adapter);
+    const sdkArity = this.getArity(sdk);
+    return adapterArity.min <= sdkArity.min && adapterArity.max >= sdkArity.max;
+  }
+
+  private getArity(signature: TS.Signature): { min: number; max: number } {
+    let min = 0;
+    let max = 0;
+    for (const parameter of signature.getParameters()) {
+      const declaration = parameter.valueDeclaration;
+      if (declaration && this.ts.isParameter(declaration)) {
+        if (declaration.dotDotDotToken) {
+          return { min, max: Infinity };
+        }
+        if (!this.checker.isOptionalParameter(declaration)) {
+          min = max + 1;
+        }
+      }
+      max++;
+    }
+    return { min, max };
+  }
+
+  private returnsMembers(adapter: TS.Signature, sdk: TS.Signature): boolean {
+    const { ts, checker } = this;
+    const sdkReturn = checker.getNonNullableType(checker.getReturnTypeOfSignature(sdk));
+    const adapterReturn = checker.getNonNullableType(checker.getReturnTypeOfSignature(adapter));
+    const opaque = ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.TypeParameter;
+    if (!(sdkReturn.flags & ts.TypeFlags.Object) || adapterReturn.flags & opaque) {
+      return true;
+    }
+    // A type of the same name is compared as an export of its own
+    if (sdkReturn.getSymbol() && sdkReturn.getSymbol()?.getName() === adapterReturn.getSymbol()?.getName()) {
+      return true;
+    }
+    const adapterMembers = this.getPublicMembers(adapterReturn);
+    return [...this.getPublicMembers(sdkReturn).keys()].every(name => adapterMembers.has(name));
+  }
+
+  private getPublicMembers(type: TS.Type): Map<string, TS.Symbol> {
+    const { ts } = this;
+    const members = new Map<string, TS.Symbol>();
+    for (const property of this.checker.getPropertiesOfType(type)) {
+      const name = property.getName();
+      if (name === 'prototype' || name.startsWith('__') || name.startsWith('#')) {
+        continue;
+      }
+      const hidden = (property.declarations ?? []).some(declaration =>
+        (ts.getCombinedModifierFlags(declaration) & (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)) !== 0);
+      if (!hidden) {
+        members.set(name, property);
+      }
+    }
+    return members;
+  }
+
+  private getEnumValue(member: TS.Symbol): string | number | undefined {
+    const declaration = member.valueDeclaration;
+    return declaration && this.ts.isEnumMember(declaration) ? this.checker.getConstantValue(declaration) : undefined;
+  }
+
+  private typeToString(type: TS.Type): string {
+    return this.checker.typeToString(type, undefined, this.ts.TypeFormatFlags.NoTruncation);
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Report of the SDK exports a project imports that the adapters don't provide.
+ *
+ * Scans the project sources for value imports from `@microsoft/msfs-sdk` and `@microsoft/msfs-garminsdk`
+ * (named imports, `export { ... } from` and `sdk.Name` on namespace imports; type-only imports are skipped)
+ * and checks them against the adapter exports. Names that aren't runtime exports of the real SDK bundle (interfaces and
+ * types imported without `import type`) are not gaps. For packages whose bundle isn't found (see `adapterOnly`), names
+ * the adapter lacks may be types, so they are listed as `unverified` rather than as gaps. Under Jest these gaps throw
+ * "msfs-sdk export X is not mocked by @avimate/msfs-jest-utils" (see SDKExportGuard).
+ *
+ * ```typescript
+ * const report = scanSDKGaps({ rootDir: 'html_ui' });
+ * console.log(formatSDKGapReport(report));
+ * ```
+ *
+ * or from the command line: `npx msfs-jest-utils-sdk-gaps html_ui`
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { readSDKBundleExportNames } from '../mocks/SDKBundle';
+import { SDK_EXPORT_PROBES } from '../mocks/SDKExportGuard';
+
+export interface SDKGapScanOptions {
+  /** Directory to scan (default: the current directory) */
+  rootDir?: string;
+  /** Source file extensions (default: `.ts`, `.tsx`, `.js`, `.jsx`, `.mjs`) */
+  extensions?: string[];
+  /** Directory names skipped anywhere in the tree (default: `node_modules`, `dist`, `build`, `coverage` and dot directories) */
+  excludeDirs?: string[];
+  /** Adapter exports by SDK package (default: SDKAdapter and GarminSDKAdapter) */
+  adapters?: Record<string, object>;
+  /** Runtime export names of the real SDK packages (default: read from the installed msfs-sdk bundle) */
+  runtimeExports?: Record<string, ReadonlySet<string>>;
+}
+
+/**
+ * An SDK export imported by the project that the adapter doesn't provide
+ */
+export interface SDKGap {
+  /** SDK package, e.g. `@microsoft/msfs-sdk` */
+  module: string;
+  name: string;
+  /** Importing files, relative to the scanned directory */
+  files: string[];
+}
+
+export interface SDKGapReport {
+  rootDir: string;
+  /** Number of files scanned */
+  files: number;
+  /** Number of distinct SDK exports imported, by package */
+  imported: Record<string, number>;
+  gaps: SDKGap[];
+  /** Packages checked against the adapter only, since their runtime exports are unknown */
+  adapterOnly: string[];
+  /** Imports of `adapterOnly` packages the adapter lacks: missing exports, or types imported without `import type` */
+  unverified: SDKGap[];
+}
+
+const DEFAULT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs'];
+const DEFAULT_EXCLUDE_DIRS = ['node_modules', 'dist', 'build', 'coverage'];
+
+const IMPORT_PATTERN = /\b(import|export)\s+(type\s+)?((?:[\w$*,\s]|\{[^}]*\})+?)\s*from\s+['"](@microsoft\/msfs-(?:sdk|garminsdk))(?:\/[^'"]*)?['"]/g;
+
+/**
+ * Adapter exports used when none are given
+ */
+function defaultAdapters(): Record<string, object> {
+  return {
+    '@microsoft/msfs-sdk': require('../mocks/SDKAdapter'),
+    '@microsoft/msfs-garminsdk': require('../mocks/GarminSDKAdapter'),
+  };
+}
+
+/**
+ * Runtime export names used when none are given
+ */
+function defaultRuntimeExports(): Record<string, ReadonlySet<string>> {
+  try {
+    return { '@microsoft/msfs-sdk': readSDKBundleExportNames() };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Scan a project's imports against the adapter surface
+ */
+export function scanSDKGaps(options: SDKGapScanOptions = {}): SDKGapReport {
+  const rootDir = path.resolve(options.rootDir ?? process.cwd());
+  const extensions = options.extensions ?? DEFAULT_EXTENSIONS;
+  const excludeDirs = new Set(options.excludeDirs ?? DEFAULT_EXCLUDE_DIRS);
+  const adapters = options.adapters ?? defaultAdapters();
+  const runtimeExports = options.runtimeExports ?? defaultRuntimeExports();
+
+  // package -> export name -> importing files
+  const imports = new Map<string, Map<string, Set<string>>>();
+  const files = listSourceFiles(rootDir, extensions, excludeDirs);
+  for (const file of files) {
+    const relative = path.relative(rootDir, file).split(path.sep).join('/');
+    for (const { module, name } of extractSDKImports(fs.readFileSync(file, 'utf8'))) {
+      let names = imports.get(module);
+      if (!names) {
+        names = new Map();
+        imports.set(module, names);
+      }
+      const importers = names.get(name) ?? new Set<string>();
+      importers.add(relative);
+      names.set(name, importers);
+    }
+  }
+
+  const imported: Record<string, number> = {};
+  const gaps: SDKGap[] = [];
+  const adapterOnly: string[] = [];
+  const unverified: SDKGap[] = [];
+  for (const [module, names] of [...imports].sort(([a], [b]) => a.localeCompare(b))) {
+    imported[module] = names.size;
+    const adapter = adapters[module] ?? {};
+    const runtime = runtimeExports[module];
+    if (!runtime) {
+      adapterOnly.push(module);
+    }
+    for (const [name, importers] of [...names].sort(([a], [b]) => a.localeCompare(b))) {
+      if (name in adapter) {
+        continue;
+      }
+      if (!runtime) {
+        unverified.push({ module, name, files: [...importers].sort() });
+      } else if (runtime.has(name)) {
+        gaps.push({ module, name, files: [...importers].sort() });
+      }
+    }
+  }
+
+  return { rootDir, files: files.length, imported, gaps, adapterOnly, unverified };
+}
+
+/**
+ * Value imports from the SDK packages in a source text
+ */
+export function extractSDKImports(source: string): Array<{ module: string; name: string }> {
+  const found: Array<{ module: string; name: string }> = [];
+  const code = source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:'"`])\/\/.*$/gm, '$1');
+  for (const match of code.matchAll(IMPORT_PATTERN)) {
+    const [, keyword, typeOnly, clause, module] = match;
+    if (typeOnly) {
+      continue;
+    }
+
+    const namespace = /^\*\s+as\s+([A-Za-z_$][\w$]*)$/.exec(clause.trim());
+    if (namespace) {
+      if (keyword === 'import') {
+        const usage = new RegExp(`\\b${namespace[1].replace(/\$/g, '\\$')}\\.([A-Za-z_$][\\w$]*)`, 'g');
+        for (const [, name] of code.matchAll(usage)) {
+          // Interop and tooling probes such as `sdk.default` or `sdk.then` are not SDK exports
+          if (!SDK_EXPORT_PROBES.has(name)) {
+            found.push({ module, name });
+          }
+        }
+      }
+      continue;
+    }
+
+    const braces = /\{([^}]*)\}/.exec(clause);
+    if (!braces) {
+      continue;
+    }
+    for (const specifier of braces[1].split(',')) {
+      const parts = specifier.trim().split(/\s+/);
+      if (parts[0] === '' || parts[0] === 'type') {
+        continue;
+      }
+      found.push({ module, name: parts[0] });
+    }
+  }
+  return found;
+}
+
+/**
+ * Human-readable report, one line per missing export
+ */
+export function formatSDKGapReport(report: SDKGapReport): string {
+  const lines = [`Scanned ${report.files} files in ${report.rootDir}`];
+  for (const [module, count] of Object.entries(report.imported)) {
+    if (report.adapterOnly.includes(module)) {
+      const unverified = report.unverified.filter(gap => gap.module === module).length;
+      lines.push(`${module}: ${count} exports imported, ${unverified} not in the adapter (SDK bundle not found: checked against the adapter only)`);
+    } else {
+      const missing = report.gaps.filter(gap => gap.module === module).length;
+      lines.push(`${module}: ${count} exports imported, ${missing} not mocked`);
+    }
+  }
+  if (report.gaps.length === 0 && report.unverified.length === 0) {
+    lines.push('All imported SDK exports are mocked by @avimate/msfs-jest-utils');
+    return lines.join('\n');
+  }
+  if (report.gaps.length > 0) {
+    lines.push('');
+    for (const gap of report.gaps) {
+      lines.push(`${gap.module} ${gap.name} - ${gap.files.join(', ')}`);
+    }
+  }
+  if (report.unverified.length > 0) {
+    lines.push('', 'Not in the adapter, missing exports or types imported without `import type`:');
+    for (const gap of report.unverified) {
+      lines.push(`${gap.module} ${gap.name} - ${gap.files.join(', ')}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function listSourceFiles(dir: string, extensions: string[], excludeDirs: Set<string>): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!excludeDirs.has(entry.name) && !entry.name.startsWith('.')) {
+        files.push(...listSourceFiles(fullPath, extensions, excludeDirs));
+      }
+    } else if (extensions.includes(path.extname(entry.name)) && !entry.name.endsWith('.d.ts')) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
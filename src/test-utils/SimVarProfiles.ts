@@ -0,0 +1,239 @@
+/**
+ * Scripted SimVar profiles over virtual time.
+ *
+ * Profiles write a SimVar on every tick of a VirtualClock, so trend vectors, filters and
+ * smoothing can be tested against realistic changing inputs without real timers:
+ *
+ * ```typescript
+ * env.simvars.ramp('AIRSPEED INDICATED', 'knots', 0, 120, { over: 30_000 });
+ * env.simvars.oscillate('PLANE BANK DEGREES', 'degrees', { amplitude: 5, period: 4000 });
+ * env.advance(10_000);
+ * ```
+ *
+ * A new profile on a SimVar replaces the running one.
+ */
+
+import { SimVarMock } from '../mocks/SimVarMock';
+import { parseSimVarName } from '../mocks/SimVarNames';
+import { VirtualClock } from './VirtualClock';
+
+export interface SimVarProfileTiming {
+  /** Delay before the profile starts, in milliseconds (default: 0) */
+  delay?: number;
+}
+
+export interface SimVarRampOptions extends SimVarProfileTiming {
+  /** Ramp duration in milliseconds */
+  over: number;
+  /** Easing of the ramp (default: `linear`) */
+  easing?: 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+}
+
+export interface SimVarOscillateOptions extends SimVarProfileTiming {
+  /** Value around which the SimVar oscillates (default: 0) */
+  center?: number;
+  amplitude: number;
+  /** Period in milliseconds */
+  period: number;
+  /** Phase offset in degrees (default: 0) */
+  phase?: number;
+  /** Duration in milliseconds (default: until cancelled) */
+  over?: number;
+}
+
+export interface SimVarHoldOptions extends SimVarProfileTiming {
+  /** Duration in milliseconds */
+  over: number;
+}
+
+/**
+ * Segment of a sequence. Ramps start from the end value of the previous segment unless `from` is given.
+ */
+export type SimVarProfileSegment =
+  | { type: 'ramp'; from?: number; to: number; over: number; easing?: SimVarRampOptions['easing'] }
+  | { type: 'hold'; value?: number; over: number }
+  | { type: 'step'; value: number }
+  | { type: 'oscillate'; center?: number; amplitude: number; period: number; phase?: number; over: number };
+
+/**
+ * Handle of a running profile
+ */
+export interface SimVarProfileHandle {
+  /** Cancel the profile, leaving the SimVar at its current value */
+  destroy(): void;
+  /** Check if the profile ran to its end (or was cancelled) */
+  isComplete(): boolean;
+}
+
+interface SimVarProfile {
+  name: string;
+  unit: string;
+  startTime: number;
+  duration: number;
+  valueAt: (elapsed: number) => any;
+  complete: boolean;
+}
+
+const EASINGS: Record<NonNullable<SimVarRampOptions['easing']>, (t: number) => number> = {
+  'linear': t => t,
+  'ease-in': t => t * t,
+  'ease-out': t => t * (2 - t),
+  'ease-in-out': t => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+};
+
+/**
+ * Scripted SimVar changes driven by a virtual clock
+ */
+export class SimVarProfiles {
+  private profiles: Map<string, SimVarProfile> = new Map();
+
+  constructor(private readonly clock: VirtualClock, private readonly simVars: SimVarMock) {
+    this.clock.onTick(now => this.update(now));
+  }
+
+  /**
+   * Ramp a SimVar from one value to another
+   */
+  ramp(name: string, unit: string, from: number, to: number, options: SimVarRampOptions): SimVarProfileHandle {
+    const easing = EASINGS[options.easing ?? 'linear'];
+    return this.start(name, unit, options.over, options.delay, elapsed => {
+      const t = options.over > 0 ? Math.min(elapsed / options.over, 1) : 1;
+      return from + (to - from) * easing(t);
+    });
+  }
+
+  /**
+   * Oscillate a SimVar along a sine wave
+   */
+  oscillate(name: string, unit: string, options: SimVarOscillateOptions): SimVarProfileHandle {
+    const center = options.center ?? 0;
+    const phase = (options.phase ?? 0) * Math.PI / 180;
+    return this.start(name, unit, options.over ?? Infinity, options.delay, elapsed => {
+      return center + options.amplitude * Math.sin(2 * Math.PI * elapsed / options.period + phase);
+    });
+  }
+
+  /**
+   * Set a SimVar to a value once the delay elapsed
+   */
+  step(name: string, unit: string, value: any, options: SimVarProfileTiming = {}): SimVarProfileHandle {
+    return this.start(name, unit, 0, options.delay, () => value);
+  }
+
+  /**
+   * Hold a SimVar at a value, overriding other writes on every frame
+   */
+  hold(name: string, unit: string, value: any, options: SimVarHoldOptions): SimVarProfileHandle {
+    return this.start(name, unit, options.over, options.delay, () => value);
+  }
+
+  /**
+   * Run segments one after the other
+   */
+  sequence(name: string, unit: string, segments: SimVarProfileSegment[], options: SimVarProfileTiming = {}): SimVarProfileHandle {
+    const initial = this.simVars.hasSimVar(name, unit) ? Number(this.simVars.getSimVarValue(name, unit)) || 0 : 0;
+    const timeline: Array<{ start: number; end: number; valueAt: (elapsed: number) => number }> = [];
+    let start = 0;
+    let value = initial;
+
+    segments.forEach(segment => {
+      const from = value;
+      switch (segment.type) {
+        case 'ramp': {
+          const rampFrom = segment.from ?? from;
+          const easing = EASINGS[segment.easing ?? 'linear'];
+          timeline.push({ start, end: start + segment.over, valueAt: t => rampFrom + (segment.to - rampFrom) * easing(segment.over > 0 ? Math.min(t / segment.over, 1) : 1) });
+          value = segment.to;
+          start += segment.over;
+          break;
+        }
+        case 'hold': {
+          const held = segment.value ?? from;
+          timeline.push({ start, end: start + segment.over, valueAt: () => held });
+          value = held;
+          start += segment.over;
+          break;
+        }
+        case 'step':
+          timeline.push({ start, end: start, valueAt: () => segment.value });
+          value = segment.value;
+          break;
+        case 'oscillate': {
+          const center = segment.center ?? from;
+          const phase = (segment.phase ?? 0) * Math.PI / 180;
+          timeline.push({ start, end: start + segment.over, valueAt: t => center + segment.amplitude * Math.sin(2 * Math.PI * t / segment.period + phase) });
+          value = center + segment.amplitude * Math.sin(2 * Math.PI * segment.over / segment.period + phase);
+          start += segment.over;
+          break;
+        }
+      }
+    });
+
+    return this.start(name, unit, start, options.delay, elapsed => {
+      // Last segment that started at or before `elapsed`
+      let current = timeline[0];
+      for (const entry of timeline) {
+        if (entry.start <= elapsed) {
+          current = entry;
+        }
+      }
+      return current ? current.valueAt(Math.min(elapsed, current.end) - current.start) : initial;
+    });
+  }
+
+  /**
+   * Check if a profile is running on a SimVar
+   */
+  isRunning(name: string): boolean {
+    return this.profiles.has(parseSimVarName(name).key);
+  }
+
+  /**
+   * Cancel all profiles
+   */
+  clear(): void {
+    this.profiles.forEach(profile => {
+      profile.complete = true;
+    });
+    this.profiles.clear();
+  }
+
+  private start(name: string, unit: string, duration: number, delay: number = 0, valueAt: (elapsed: number) => any): SimVarProfileHandle {
+    const key = parseSimVarName(name).key;
+    const previous = this.profiles.get(key);
+    if (previous) {
+      previous.complete = true;
+    }
+
+    const profile: SimVarProfile = { name, unit, startTime: this.clock.now() + delay, duration, valueAt, complete: false };
+    this.profiles.set(key, profile);
+    this.apply(key, profile, this.clock.now());
+
+    return {
+      destroy: () => {
+        profile.complete = true;
+        if (this.profiles.get(key) === profile) {
+          this.profiles.delete(key);
+        }
+      },
+      isComplete: () => profile.complete,
+    };
+  }
+
+  private update(now: number): void {
+    this.profiles.forEach((profile, key) => this.apply(key, profile, now));
+  }
+
+  private apply(key: string, profile: SimVarProfile, now: number): void {
+    const elapsed = now - profile.startTime;
+    if (elapsed < 0) {
+      return;
+    }
+
+    this.simVars.setSimVarValue(profile.name, profile.unit, profile.valueAt(Math.min(elapsed, profile.duration)));
+    if (elapsed >= profile.duration) {
+      profile.complete = true;
+      this.profiles.delete(key);
+    }
+  }
+}
@@ -5,21 +5,119 @@
  */
 
 import { JSDOM } from 'jsdom';
-import { SimVarMock, simVarMock } from '../mocks/SimVarMock';
-import { CoherentMock, coherentMock } from '../mocks/CoherentMock';
+import {
+  SimVarMock,
+  createSimVarGlobal,
+  createSimvarGlobal,
+  SimVarCatalogOptions,
+  SimVarCatalogViolation,
+  SimVarFixture,
+  SimVarFixtureLoadOptions,
+  SimVarSetListener,
+  SimVarSnapshot,
+  SimVarStrictOptions,
+  SimVarStrictViolation,
+  SimVarWatchCallback,
+  SimVarWatchHandle,
+} from '../mocks/SimVarMock';
+import { CoherentMock, createCoherentGlobal } from '../mocks/CoherentMock';
+import { H_EVENT, HEventHandle, HEventListener, HEventRecord } from '../mocks/HEventMock';
+import { KeyEventRecord } from '../mocks/KeyEventMock';
+import { LatLongAltPBHStruct, LatLongAltStruct } from '../mocks/SimVarStructs';
+import { PublisherFrameSource, getPublisherFrameSource, setPublisherFrameSource, stopPublisherFrameUpdates } from '../mocks/sdk/Publishers';
+import { resolveSimVarFixture } from '../fixtures';
+import { FlightDataReplay, FlightDataReplayOptions } from './FlightDataReplay';
+import { SimVarProfiles } from './SimVarProfiles';
+import { VirtualClock } from './VirtualClock';
 import { Subject } from '@microsoft/msfs-sdk';
 
+export interface TestEnvironmentOptions {
+  /**
+   * Report reads of SimVars that were never set.
+   * In `collect` mode (the default) teardown() fails with a summary of the offending reads.
+   */
+  strictSimVars?: boolean | SimVarStrictOptions;
+  /**
+   * Validate SimVar units, indexes and writability against the SimVar catalog
+   * (off by default; `true` enables `warn` mode). In `collect` mode teardown() fails with the violations.
+   */
+  simVarCatalog?: boolean | SimVarCatalogOptions;
+  /**
+   * Aircraft state to start from: a registered fixture name (`cold-and-dark`, `cruise-fl350`,
+   * `ils-final`, ...), a path to a fixture JSON file or a fixture object
+   */
+  fixture?: string | SimVarFixture;
+  /**
+   * Drive timers, `requestAnimationFrame`, `Date`, `performance.now`, `Avionics` times and the
+   * E: time variables from the virtual clock (see useVirtualTime())
+   */
+  virtualTime?: boolean;
+}
+
+export interface HEventSendOptions {
+  /** Arguments passed to `onInteractionEvent()` after the event name */
+  args?: string[];
+  /** Number of times the event is sent (default: 1), e.g. knob detents */
+  repeat?: number;
+  /** Virtual time advanced between repeats, in milliseconds (default: 0) */
+  interval?: number;
+  /** Virtual time advanced before the first event, in milliseconds (default: 0) */
+  delay?: number;
+}
+
 export class TestEnvironment {
   private dom: JSDOM | null = null;
   private originalSimVar: any = null;
+  private originalSimvar: any = null;
   private originalCoherent: any = null;
+  private previousSimVarMock: SimVarMock | null = null;
+  private previousCoherentMock: CoherentMock | null = null;
+  private previousFrameSource: PublisherFrameSource | null = null;
   private originalDocument: Document | null = null;
   private originalWindow: Window | null = null;
+  private hEventListeners: Set<HEventListener> = new Set();
+  private hEventHandle: HEventHandle | null = null;
+
+  /**
+   * Coherent mock owned by this environment, installed into the globals while it is active
+   */
+  readonly coherentMock: CoherentMock = new CoherentMock();
+
+  /**
+   * Virtual clock advanced by advance()
+   */
+  readonly clock: VirtualClock;
+
+  /**
+   * Scripted SimVar ramps and profiles, driven by the virtual clock
+   */
+  readonly simvars: SimVarProfiles;
+
+  private readonly ownsClock: boolean;
+
+  /**
+   * @param simVarMock SimVar mock installed into the globals while this environment is active.
+   * Each environment owns one by default; the instruments of a PanelEnvironment share one.
+   * @param clock Virtual clock shared with other environments, e.g. the clock of a PanelEnvironment.
+   * Its owner sets it up, installs it (virtual time) and tears it down.
+   */
+  constructor(readonly simVarMock: SimVarMock = new SimVarMock(), clock?: VirtualClock) {
+    this.clock = clock ?? new VirtualClock();
+    this.ownsClock = !clock;
+    this.simvars = new SimVarProfiles(this.clock, this.simVarMock);
+  }
 
   /**
    * Setup test environment with jsdom
    */
-  setup(): void {
+  setup(options: TestEnvironmentOptions = {}): void {
+    this.simvars.clear();
+    if (this.ownsClock) {
+      this.clock.setTime(Date.now());
+      this.clock.setSimRate(1);
+      this.clock.resume();
+    }
+
     // Create jsdom environment
     this.dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
       url: 'http://localhost',
@@ -41,26 +139,66 @@ export class TestEnvironment {
       writable: true,
     });
 
-    // Setup SimVar mock
-    this.setupSimVarMock();
+    // Store the globals and current mocks to restore on teardown
+    this.originalSimVar = globalObj.SimVar;
+    this.originalSimvar = globalObj.simvar;
+    this.originalCoherent = globalObj.Coherent;
+    this.previousSimVarMock = SimVarMock.getCurrent();
+    this.previousCoherentMock = CoherentMock.getCurrent();
+    this.previousFrameSource = getPublisherFrameSource();
 
-    // Setup Coherent mock
-    this.setupCoherentMock();
+    // Connect Coherent handlers to this environment's SimVar mock
+    this.connectCoherentHandlers();
 
-    // Setup simvar global (used by SDK)
-    this.setupSimvarGlobal();
+    // Install this environment's mocks
+    this.activate();
+
+    if (options.strictSimVars) {
+      this.enableStrictSimVars(options.strictSimVars === true ? {} : options.strictSimVars);
+    }
+    if (options.simVarCatalog) {
+      this.simVarMock.enableCatalogValidation(options.simVarCatalog === true ? {} : options.simVarCatalog);
+    }
+
+    if (options.fixture) {
+      this.loadFixture(options.fixture);
+    }
+    if (options.virtualTime) {
+      this.useVirtualTime();
+    }
   }
 
   /**
    * Teardown test environment
    */
   teardown(): void {
+    const strictViolations = this.simVarMock.getStrictViolations();
+    const strictReport = this.simVarMock.formatStrictViolations(strictViolations);
+    const catalogViolations = this.simVarMock.getCatalogViolations();
+
+    this.simvars.clear();
+    if (this.ownsClock) {
+      this.clock.uninstall();
+      this.clock.clearTimers();
+      stopPublisherFrameUpdates(this.clock);
+    }
+
     // Reset mocks
-    simVarMock.reset();
-    coherentMock.reset();
+    this.simVarMock.reset();
+    this.coherentMock.reset();
 
-    // Restore original globals
+    // Restore original globals and mocks
     const globalObj = globalThis as any;
+    if (SimVarMock.getCurrent() === this.simVarMock) {
+      SimVarMock.setCurrent(this.previousSimVarMock === SimVarMock.getInstance() ? null : this.previousSimVarMock);
+      CoherentMock.setCurrent(this.previousCoherentMock === CoherentMock.getInstance() ? null : this.previousCoherentMock);
+      globalObj.SimVar = this.originalSimVar;
+      globalObj.simvar = this.originalSimvar;
+      globalObj.Coherent = this.originalCoherent;
+    }
+    if (getPublisherFrameSource() === this.clock) {
+      setPublisherFrameSource(this.previousFrameSource);
+    }
     if (this.originalDocument) {
       globalObj.document = this.originalDocument;
     }
@@ -70,14 +208,55 @@ export class TestEnvironment {
 
     // Clean up
     this.dom = null;
+    this.hEventListeners.clear();
+    this.hEventHandle = null;
+
+    if (strictViolations.length > 0) {
+      throw new Error(`Strict SimVar mode: ${strictReport}`);
+    }
+    if (catalogViolations.length > 0) {
+      throw new Error(`SimVar catalog: ${catalogViolations.length} invalid access(es):\n` + catalogViolations.map(violation => `  ${violation.message}`).join('\n'));
+    }
+  }
+
+  /**
+   * Make this environment current: install its document and mocks into the `document`, `window`,
+   * `SimVar`, `simvar` and `Coherent` globals and the `simVarMock`/`coherentMock` exports. setup() activates the environment;
+   * call it again to switch between environments running side by side.
+   */
+  activate(): void {
+    SimVarMock.setCurrent(this.simVarMock);
+    CoherentMock.setCurrent(this.coherentMock);
+    // Publishers created from now on update on the frames of this environment's clock
+    setPublisherFrameSource(this.clock);
+
+    const globalObj = globalThis as any;
+    if (this.dom) {
+      globalObj.document = this.dom.window.document;
+      globalObj.window = this.dom.window;
+    }
+    // Prefixes such as A:, L:, E:, B: are handled by SimVarMock
+    globalObj.SimVar = createSimVarGlobal(this.simVarMock);
+    // The SDK uses a global 'simvar' object for optimized access (structs come from SimVarMock)
+    globalObj.simvar = createSimvarGlobal(this.simVarMock);
+    globalObj.Coherent = createCoherentGlobal(this.coherentMock);
   }
 
   /**
-   * Reset environment (clear mocks but keep setup)
+   * Check if this environment's mocks are the current ones
+   */
+  isActive(): boolean {
+    return SimVarMock.getCurrent() === this.simVarMock;
+  }
+
+  /**
+   * Reset environment (clear mocks but keep setup): SimVar values, history and violations are cleared,
+   * strict mode, catalog validation and virtual time stay on
    */
   reset(): void {
-    simVarMock.reset();
-    coherentMock.reset();
+    this.simVarMock.clearState();
+    this.coherentMock.reset();
+    this.connectCoherentHandlers();
   }
 
   /**
@@ -104,42 +283,236 @@ export class TestEnvironment {
    * Set a SimVar value
    */
   setSimVar(name: string, unit: string, value: any, dataSource: string = ''): void {
-    simVarMock.setSimVarValue(name, unit, value, dataSource);
+    this.simVarMock.setSimVarValue(name, unit, value, dataSource);
   }
 
   /**
    * Get a SimVar value
    */
   getSimVar(name: string, unit: string, dataSource: string = ''): any {
-    return simVarMock.getSimVarValue(name, unit, dataSource);
+    return this.simVarMock.getSimVarValue(name, unit, dataSource);
+  }
+
+  /**
+   * Set an environment (E:) variable, which instruments can only read
+   */
+  setEnvironmentVar(name: string, unit: string, value: any): void {
+    this.simVarMock.setEnvironmentVar(name, unit, value);
+  }
+
+  /**
+   * Set the LatLongAlt struct of a SimVar (`STRUCT LATLONALT` updates PLANE LATITUDE/LONGITUDE/ALTITUDE)
+   */
+  setLatLongAlt(name: string, value: Partial<LatLongAltStruct>, dataSource: string = ''): void {
+    this.simVarMock.setLatLongAlt(name, value, dataSource);
+  }
+
+  /**
+   * Set the LatLongAltPBH struct of a SimVar (`STRUCT LATLONALTPBH` also updates the plane attitude)
+   */
+  setLatLongAltPBH(name: string, value: Partial<LatLongAltPBHStruct>, dataSource: string = ''): void {
+    this.simVarMock.setLatLongAltPBH(name, value, dataSource);
+  }
+
+  /**
+   * Watch writes to a SimVar (from tests, SimVar.SetSimVarValue or Coherent setValueReg_* calls)
+   */
+  watchSimVar(name: string, unit: string, callback: SimVarWatchCallback, dataSource: string = ''): SimVarWatchHandle {
+    return this.simVarMock.watch(name, unit, callback, dataSource);
+  }
+
+  /**
+   * Listen to every SimVar write
+   */
+  onAnySimVarSet(listener: SimVarSetListener): SimVarWatchHandle {
+    return this.simVarMock.onAnySet(listener);
+  }
+
+  /**
+   * Load an aircraft state: a registered fixture name, a path to a fixture JSON file or a fixture object
+   */
+  loadFixture(fixture: string | SimVarFixture, options: SimVarFixtureLoadOptions = {}): void {
+    this.simVarMock.loadFixture(resolveSimVarFixture(fixture), options);
+  }
+
+  /**
+   * Export the current SimVar values as a fixture, e.g. to save with JSON.stringify()
+   */
+  exportFixture(name?: string, description?: string): SimVarFixture {
+    return this.simVarMock.exportFixture(name, description);
+  }
+
+  /**
+   * Take a copy of the SimVar state (values, registered IDs, access log)
+   */
+  snapshot(): SimVarSnapshot {
+    return this.simVarMock.snapshot();
+  }
+
+  /**
+   * Restore a SimVar state taken with snapshot()
+   */
+  restore(snapshot: SimVarSnapshot): void {
+    this.simVarMock.restore(snapshot);
+  }
+
+  /**
+   * Advance virtual time by `ms` in frames of `frameMs`, running timers, animation frames,
+   * SimVar profiles and other clock listeners each frame
+   */
+  advance(ms: number, frameMs?: number): void {
+    this.clock.advance(ms, frameMs);
+  }
+
+  /**
+   * Hand time over to the virtual clock until teardown: `setTimeout`/`setInterval`, `requestAnimationFrame`,
+   * `Date`, `performance.now`, `Avionics.getCurrentGpsTime/UtcTime` and `E:SIMULATION TIME`, `E:ZULU TIME`,
+   * `E:ABSOLUTE TIME`, ... only move with advance(). Real timers never fire, so `await`ing one
+   * (e.g. `ComponentTestHelper.waitForUpdate()`) needs the clock to be advanced.
+   */
+  useVirtualTime(): void {
+    if (!this.ownsClock) {
+      throw new Error('This environment uses a shared clock; turn on virtual time on its owner, e.g. PanelEnvironment.useVirtualTime()');
+    }
+    this.clock.install(this.dom?.window);
+    this.simVarMock.setTimeSource(() => this.clock.now());
+    this.simVarMock.setSimVarValue('SIMULATION RATE', 'number', this.clock.getSimRate());
+  }
+
+  /**
+   * Set the sim rate (`SIMULATION RATE`): sim time runs `rate` times as fast as real time
+   */
+  setSimRate(rate: number): void {
+    this.clock.setSimRate(rate);
+    this.simVarMock.setSimVarValue('SIMULATION RATE', 'number', rate);
+  }
+
+  /**
+   * Pause the sim: sim time, SimVar profiles and replays stop while timers and animation frames keep running
+   */
+  pause(): void {
+    this.clock.pause();
+  }
+
+  /**
+   * Resume a paused sim
+   */
+  resume(): void {
+    this.clock.resume();
+  }
+
+  /**
+   * Load a recorded flight (`.csv` or `.json`, columns `NAME|unit`) to replay into the SimVar mock
+   */
+  loadFlightData(path: string, options: FlightDataReplayOptions = {}): FlightDataReplay {
+    return FlightDataReplay.fromFile(path, { simVars: this.simVarMock, ...options });
+  }
+
+  /**
+   * Fire a key event as the simulator would (e.g. from a cockpit knob)
+   */
+  triggerKeyEvent(name: string, ...args: number[]): void {
+    this.simVarMock.keyEvents.trigger(name, ...args);
+  }
+
+  /**
+   * Get fired key events, optionally filtered by name
+   */
+  getKeyEventHistory(name?: string): KeyEventRecord[] {
+    return name ? this.simVarMock.keyEvents.getEvents(name) : this.simVarMock.keyEvents.getHistory();
+  }
+
+  /**
+   * Send an H event as a cockpit knob or button would. It reaches `onInteractionEvent()` of mounted
+   * instruments and the `hEvent`/`hEvent_with_args` topics of every EventBus created in this environment.
+   * An error thrown by an instrument handling it is rethrown here.
+   */
+  sendHEvent(name: string, options: HEventSendOptions = {}): void {
+    const repeat = options.repeat ?? 1;
+    if (options.delay) {
+      this.advance(options.delay);
+    }
+    for (let i = 0; i < repeat; i++) {
+      if (i > 0 && options.interval) {
+        this.advance(options.interval);
+      }
+      this.simVarMock.hEvents.trigger(name, options.args ?? []);
+    }
+  }
+
+  /**
+   * Listen to H events sent by tests and instruments (mountInstrument() routes them to `onInteractionEvent()`)
+   */
+  onHEvent(listener: HEventListener): HEventHandle {
+    this.hEventListeners.add(listener);
+    return {
+      destroy: () => {
+        this.hEventListeners.delete(listener);
+      }
+    };
+  }
+
+  /**
+   * Get sent H events, optionally filtered by name
+   */
+  getHEventHistory(name?: string): HEventRecord[] {
+    return name ? this.simVarMock.hEvents.getEvents(name) : this.simVarMock.hEvents.getHistory();
+  }
+
+  /**
+   * Enable strict SimVar mode (reads of SimVars that were never set are reported)
+   */
+  enableStrictSimVars(options: SimVarStrictOptions = {}): void {
+    this.simVarMock.enableStrictMode(options);
+  }
+
+  /**
+   * Get reads of unset SimVars recorded in strict mode
+   */
+  getStrictSimVarViolations(): SimVarStrictViolation[] {
+    return this.simVarMock.getStrictViolations();
+  }
+
+  /**
+   * Get a summary of strict mode violations (names, units and call sites)
+   */
+  getStrictSimVarReport(): string {
+    return this.simVarMock.formatStrictViolations();
+  }
+
+  /**
+   * Get SimVar accesses that did not match the SimVar catalog (catalog validation in `collect` mode)
+   */
+  getSimVarCatalogViolations(): SimVarCatalogViolation[] {
+    return this.simVarMock.getCatalogViolations();
   }
 
   /**
    * Get SimVar access log
    */
   getSimVarAccessLog() {
-    return simVarMock.getAccessLog();
+    return this.simVarMock.getAccessLog();
   }
 
   /**
    * Clear SimVar access log
    */
   clearSimVarAccessLog(): void {
-    simVarMock.clearAccessLog();
+    this.simVarMock.clearAccessLog();
   }
 
   /**
    * Get Coherent call history
    */
   getCoherentCallHistory() {
-    return coherentMock.getCallHistory();
+    return this.coherentMock.getCallHistory();
   }
 
   /**
    * Clear Coherent call history
    */
   clearCoherentCallHistory(): void {
-    coherentMock.clearHistory();
+    this.coherentMock.clearHistory();
   }
 
   /**
@@ -154,99 +527,45 @@ export class TestEnvironment {
   }
 
   /**
-   * Setup SimVar mock in global scope
+   * Connect Coherent calls made by the SDK to this environment's SimVar mock,
+   * and H events to the listeners and EventBus of this environment
    */
-  private setupSimVarMock(): void {
-    const globalObj = globalThis as any;
-    // Store original if exists
-    if (typeof globalObj.SimVar !== 'undefined') {
-      this.originalSimVar = globalObj.SimVar;
-    }
-
-    // Create mock SimVar object
-    globalObj.SimVar = {
-      GetSimVarValue: (name: string, unit: string, dataSource: string = '') => {
-        return simVarMock.getSimVarValue(name, unit, dataSource);
-      },
-      SetSimVarValue: (name: string, unit: string, value: any, dataSource: string = '') => {
-        return Promise.resolve(simVarMock.setSimVarValue(name, unit, value, dataSource));
-      },
-      GetRegisteredId: (name: string, unit: string, dataSource: string = '') => {
-        return simVarMock.getRegisteredId(name, unit, dataSource);
-      },
-    };
-  }
-
-  /**
-   * Setup Coherent mock in global scope
-   */
-  private setupCoherentMock(): void {
-    const globalObj = globalThis as any;
-    // Store original if exists
-    if (typeof globalObj.Coherent !== 'undefined') {
-      this.originalCoherent = globalObj.Coherent;
-    }
+  private connectCoherentHandlers(): void {
+    this.hEventHandle?.destroy();
+    this.hEventHandle = this.simVarMock.hEvents.on((name, args) => {
+      const errors: unknown[] = [];
+      this.hEventListeners.forEach(listener => {
+        try {
+          listener(name, args);
+        } catch (error) {
+          errors.push(error);
+        }
+      });
+      this.coherentMock.triggerEvent(H_EVENT, { name, args });
+      if (errors.length > 0) {
+        throw errors[0];
+      }
+    });
 
-    // Connect Coherent handlers to SimVar mock
-    coherentMock.registerHandler('setValueReg_Number', (id: number, value: number) => {
-      simVarMock.setValueReg(id, value);
+    this.coherentMock.registerHandler('setValueReg_Number', (id: number, value: number) => {
+      this.simVarMock.setValueReg(id, value, 'instrument');
       return Promise.resolve();
     });
 
-    coherentMock.registerHandler('setValueReg_String', (id: number, value: string) => {
-      simVarMock.setValueReg(id, value);
+    this.coherentMock.registerHandler('setValueReg_String', (id: number, value: string) => {
+      this.simVarMock.setValueReg(id, value, 'instrument');
       return Promise.resolve();
     });
 
-    coherentMock.registerHandler('setValueReg_Bool', (id: number, value: boolean) => {
-      simVarMock.setValueReg(id, value ? 1 : 0);
+    this.coherentMock.registerHandler('setValueReg_Bool', (id: number, value: boolean) => {
+      this.simVarMock.setValueReg(id, value ? 1 : 0, 'instrument');
       return Promise.resolve();
     });
 
-    // Create mock Coherent object
-    globalObj.Coherent = {
-      call: (method: string, ...args: any[]) => {
-        return coherentMock.call(method, ...args);
-      },
-      on: (eventName: string, callback: (data: any) => void) => {
-        coherentMock.on(eventName, callback);
-      },
-      off: (eventName: string, callback: (data: any) => void) => {
-        coherentMock.off(eventName, callback);
-      },
-    };
-  }
-
-  /**
-   * Setup simvar global (used by SDK internally)
-   */
-  private setupSimvarGlobal(): void {
-    const globalObj = globalThis as any;
-    // The SDK uses a global 'simvar' object for optimized access
-    globalObj.simvar = {
-      getValueReg: (id: number) => {
-        return simVarMock.getValueReg(id);
-      },
-      getValueReg_String: (id: number) => {
-        return simVarMock.getValueReg(id);
-      },
-      getValue_LatLongAlt: (name: string, dataSource: string) => {
-        // Mock implementation - return default structure
-        return { lat: 0, long: 0, alt: 0 };
-      },
-      getValue_LatLongAltPBH: (name: string, dataSource: string) => {
-        return { lat: 0, long: 0, alt: 0, pitch: 0, bank: 0, heading: 0 };
-      },
-      getValue_PBH: (name: string, dataSource: string) => {
-        return { pitch: 0, bank: 0, heading: 0 };
-      },
-      getValue_PID_STRUCT: (name: string, dataSource: string) => {
-        return { p: 0, i: 0, d: 0 };
-      },
-      getValue_XYZ: (name: string, dataSource: string) => {
-        return { x: 0, y: 0, z: 0 };
-      },
-    };
+    // Key events fired through the SDK KeyEventManager
+    this.coherentMock.registerHandler('TRIGGER_KEY_EVENT', (key: string, _bypass: boolean, ...values: number[]) => {
+      this.simVarMock.keyEvents.trigger(key, ...values.map(value => Number(value) || 0));
+      return Promise.resolve();
+    });
   }
 }
-
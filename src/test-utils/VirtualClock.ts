@@ -0,0 +1,348 @@
+/**
+ * Virtual time for tests.
+ *
+ * Time only moves when the test advances it, in frames, so time-driven behavior (replays,
+ * scripted SimVar changes, instrument updates) is deterministic and runs as fast as the CPU allows.
+ *
+ * The clock keeps two timelines, like the sim:
+ * - real time drives `Date`, `performance.now`, timers and `requestAnimationFrame`;
+ * - sim time drives tick listeners, `Avionics.getCurrentGpsTime/UtcTime` and the E: time variables.
+ *   It runs at the sim rate and stops while the sim is paused.
+ *
+ * Once install()ed the clock replaces the timer, animation frame and date globals until uninstall().
+ */
+
+export type VirtualClockListener = (now: number, deltaMs: number) => void;
+
+/**
+ * Handle returned by VirtualClock.onTick()
+ */
+export interface VirtualClockHandle {
+  destroy(): void;
+}
+
+interface VirtualTimer {
+  id: number;
+  time: number;
+  callback: (...args: any[]) => void;
+  args: any[];
+  interval?: number;
+}
+
+interface InstalledProperty {
+  target: any;
+  key: string;
+  descriptor: PropertyDescriptor | undefined;
+}
+
+/**
+ * Maximum number of timers run in a single frame, to catch timers that keep rescheduling themselves at 0 ms
+ */
+const MAX_TIMERS_PER_FRAME = 10000;
+
+/**
+ * Deterministic clock advanced explicitly by tests
+ */
+export class VirtualClock {
+  private time: number;
+  private realTime: number;
+  private performanceOrigin: number;
+  // Sim time is derived from real time since the last rate/pause change, so frames do not accumulate rounding errors
+  private simAnchor: number;
+  private realAnchor: number;
+  private simRate: number = 1;
+  private paused: boolean = false;
+  private listeners: Set<VirtualClockListener> = new Set();
+  private timers: Map<number, VirtualTimer> = new Map();
+  private animationFrames: Map<number, (timestamp: number) => void> = new Map();
+  private nextTimerId: number = 1;
+  private installed: InstalledProperty[] = [];
+
+  /**
+   * @param startTime Initial time in epoch milliseconds
+   * @param frameMs Default frame length used by advance()
+   */
+  constructor(startTime: number = Date.now(), public frameMs: number = 1000 / 60) {
+    this.time = startTime;
+    this.realTime = startTime;
+    this.performanceOrigin = startTime;
+    this.simAnchor = startTime;
+    this.realAnchor = startTime;
+  }
+
+  /**
+   * Current sim time in epoch milliseconds
+   */
+  now(): number {
+    return this.time;
+  }
+
+  /**
+   * Current real time in epoch milliseconds (what `Date.now()` returns once installed)
+   */
+  realNow(): number {
+    return this.realTime;
+  }
+
+  /**
+   * Milliseconds of real time since the clock started (what `performance.now()` returns once installed)
+   */
+  performanceNow(): number {
+    return this.realTime - this.performanceOrigin;
+  }
+
+  /**
+   * Jump sim and real time to a time without running any tick or timer
+   */
+  setTime(time: number): void {
+    this.time = time;
+    this.realTime = time;
+    this.performanceOrigin = time;
+    this.anchor();
+  }
+
+  /**
+   * Set the sim rate: sim time advances `rate` times as fast as real time
+   */
+  setSimRate(rate: number): void {
+    if (!(rate > 0)) {
+      throw new Error(`Sim rate must be positive, got ${rate}`);
+    }
+    this.anchor();
+    this.simRate = rate;
+  }
+
+  getSimRate(): number {
+    return this.simRate;
+  }
+
+  /**
+   * Pause the sim: real time (timers, animation frames) keeps running, sim time stops
+   */
+  pause(): void {
+    this.anchor();
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.anchor();
+    this.paused = false;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Advance the clock by `ms` of real time, one frame of `frameMs` at a time (the last frame may be shorter).
+   * Each frame runs the timers due in it, then animation frame callbacks, then tick listeners.
+   */
+  advance(ms: number, frameMs: number = this.frameMs): void {
+    if (frameMs <= 0) {
+      throw new Error(`Frame length must be positive, got ${frameMs}`);
+    }
+
+    const end = this.realTime + ms;
+    while (end - this.realTime > 1e-9) {
+      const frameEnd = Math.min(this.realTime + frameMs, end);
+      const simStart = this.time;
+
+      this.runTimers(frameEnd);
+      this.moveTo(frameEnd);
+      this.runAnimationFrames();
+      this.tick(this.time - simStart);
+    }
+  }
+
+  /**
+   * Listen to clock ticks (one per frame)
+   */
+  onTick(listener: VirtualClockListener): VirtualClockHandle {
+    this.listeners.add(listener);
+    return {
+      destroy: () => {
+        this.listeners.delete(listener);
+      }
+    };
+  }
+
+  setTimeout(callback: (...args: any[]) => void, ms: number = 0, ...args: any[]): number {
+    return this.addTimer(callback, ms, args);
+  }
+
+  setInterval(callback: (...args: any[]) => void, ms: number = 0, ...args: any[]): number {
+    // Like browsers, intervals are clamped so that they always move time forward
+    return this.addTimer(callback, ms, args, Math.max(1, Number(ms) || 0));
+  }
+
+  clearTimeout(id: number | undefined): void {
+    if (id !== undefined) {
+      this.timers.delete(id);
+    }
+  }
+
+  clearInterval(id: number | undefined): void {
+    this.clearTimeout(id);
+  }
+
+  requestAnimationFrame(callback: (timestamp: number) => void): number {
+    const id = this.nextTimerId++;
+    this.animationFrames.set(id, callback);
+    return id;
+  }
+
+  cancelAnimationFrame(id: number): void {
+    this.animationFrames.delete(id);
+  }
+
+  /**
+   * Number of pending timers and animation frame callbacks
+   */
+  getPendingTimerCount(): number {
+    return this.timers.size + this.animationFrames.size;
+  }
+
+  /**
+   * Cancel all pending timers and animation frame callbacks
+   */
+  clearTimers(): void {
+    this.timers.clear();
+    this.animationFrames.clear();
+  }
+
+  /**
+   * Replace `setTimeout`/`setInterval`, `requestAnimationFrame`, `Date`, `performance.now` and
+   * `Avionics.getCurrentGpsTime/UtcTime` with virtual ones on `globalThis` and the given windows
+   */
+  install(...windows: any[]): void {
+    if (this.isInstalled()) {
+      this.uninstall();
+    }
+
+    const targets = [globalThis as any, ...windows].filter((target, index, all) => target && all.indexOf(target) === index);
+    targets.forEach(target => {
+      this.replace(target, 'setTimeout', this.setTimeout.bind(this));
+      this.replace(target, 'clearTimeout', this.clearTimeout.bind(this));
+      this.replace(target, 'setInterval', this.setInterval.bind(this));
+      this.replace(target, 'clearInterval', this.clearInterval.bind(this));
+      this.replace(target, 'requestAnimationFrame', this.requestAnimationFrame.bind(this));
+      this.replace(target, 'cancelAnimationFrame', this.cancelAnimationFrame.bind(this));
+      this.replace(target, 'Date', createVirtualDate(target.Date ?? Date, () => this.realTime));
+      if (target.performance) {
+        this.replace(target.performance, 'now', () => this.performanceNow());
+      }
+    });
+
+    const avionics = (globalThis as any).Avionics;
+    if (avionics) {
+      this.replace(avionics, 'getCurrentGpsTime', () => this.time);
+      this.replace(avionics, 'getCurrentUtcTime', () => this.time);
+    }
+  }
+
+  /**
+   * Restore the globals replaced by install()
+   */
+  uninstall(): void {
+    this.installed.reverse().forEach(({ target, key, descriptor }) => {
+      if (descriptor) {
+        Object.defineProperty(target, key, descriptor);
+      } else {
+        delete target[key];
+      }
+    });
+    this.installed = [];
+  }
+
+  isInstalled(): boolean {
+    return this.installed.length > 0;
+  }
+
+  /**
+   * Move real time forward to `realTime`, and sim time by the matching amount
+   */
+  private moveTo(realTime: number): void {
+    this.realTime = realTime;
+    this.time = this.paused ? this.simAnchor : this.simAnchor + (realTime - this.realAnchor) * this.simRate;
+  }
+
+  private anchor(): void {
+    this.simAnchor = this.time;
+    this.realAnchor = this.realTime;
+  }
+
+  private addTimer(callback: (...args: any[]) => void, ms: number, args: any[], interval?: number): number {
+    const id = this.nextTimerId++;
+    this.timers.set(id, { id, time: this.realTime + Math.max(0, Number(ms) || 0), callback, args, interval });
+    return id;
+  }
+
+  /**
+   * Run timers due up to `until` in time order, moving time to each timer as it fires
+   */
+  private runTimers(until: number): void {
+    let count = 0;
+    for (let timer = this.nextTimer(until); timer; timer = this.nextTimer(until)) {
+      if (++count > MAX_TIMERS_PER_FRAME) {
+        throw new Error(`Aborting after ${MAX_TIMERS_PER_FRAME} timers in one frame: a timer keeps rescheduling itself`);
+      }
+
+      this.moveTo(timer.time);
+      if (timer.interval !== undefined) {
+        timer.time += timer.interval;
+      } else {
+        this.timers.delete(timer.id);
+      }
+      timer.callback(...timer.args);
+    }
+  }
+
+  private nextTimer(until: number): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined;
+    this.timers.forEach(timer => {
+      if (timer.time <= until && (!next || timer.time < next.time || (timer.time === next.time && timer.id < next.id))) {
+        next = timer;
+      }
+    });
+    return next;
+  }
+
+  /**
+   * Callbacks requested while running go to the next frame, like in a browser
+   */
+  private runAnimationFrames(): void {
+    const callbacks = Array.from(this.animationFrames.values());
+    this.animationFrames.clear();
+    const timestamp = this.performanceNow();
+    callbacks.forEach(callback => callback(timestamp));
+  }
+
+  private replace(target: any, key: string, value: any): void {
+    this.installed.push({ target, key, descriptor: Object.getOwnPropertyDescriptor(target, key) });
+    Object.defineProperty(target, key, { value, writable: true, configurable: true });
+  }
+
+  /**
+   * Errors thrown by listeners (e.g. an instrument update) propagate to the test
+   */
+  private tick(deltaMs: number): void {
+    this.listeners.forEach(listener => listener(this.time, deltaMs));
+  }
+}
+
+/**
+ * `Date` whose no-argument constructor and `Date.now()` read the virtual clock
+ */
+function createVirtualDate(RealDate: DateConstructor, now: () => number): DateConstructor {
+  const VirtualDate = function (this: unknown, ...args: any[]): any {
+    if (!new.target) {
+      return new RealDate(now()).toString();
+    }
+    return Reflect.construct(RealDate, args.length === 0 ? [now()] : args, new.target);
+  } as unknown as DateConstructor;
+
+  Object.setPrototypeOf(VirtualDate, RealDate);
+  (VirtualDate as any).prototype = RealDate.prototype;
+  (VirtualDate as any).now = now;
+  return VirtualDate;
+}
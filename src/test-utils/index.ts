@@ -5,5 +5,12 @@
 export * from './TestEnvironment';
 export * from './ComponentTestHelper';
 export * from './ObservableTestHelper';
-
-
+export * from './VirtualClock';
+export * from './FlightDataReplay';
+export * from './SimVarProfiles';
+export * from './PanelEnvironment';
+export * from './InstrumentHarness';
+export * from './EventBusRecorder';
+export * from './EventBusMatchers';
+export * from './SDKGapReport';
+export * from './SDKConformance';
@@ -0,0 +1,118 @@
+import '../src/setupTests';
+import { EventBus, EventBusRecorder, PanelEnvironment, TestEnvironment } from '../src';
+
+interface RadioEvents {
+  nav_radio_active_1: number;
+  nav_radio_standby_1: number;
+  com_radio_active_1: number;
+}
+
+/**
+ * Controller under test: swaps NAV1 frequencies over the bus
+ */
+class NavRadioController {
+  private active = 108.0;
+  private standby = 110.3;
+
+  constructor(private readonly bus: EventBus) {}
+
+  swap(): void {
+    [this.active, this.standby] = [this.standby, this.active];
+    const publisher = this.bus.getPublisher<RadioEvents>();
+    publisher.pub('nav_radio_standby_1', this.standby, true);
+    publisher.pub('nav_radio_active_1', this.active, true);
+  }
+}
+
+describe('EventBusRecorder', () => {
+  let env: TestEnvironment;
+  let bus: EventBus;
+  let recorder: EventBusRecorder;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup({ virtualTime: true });
+    bus = new EventBus();
+    recorder = new EventBusRecorder(bus);
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('records topic, payload, flags and virtual timestamp', () => {
+    const start = Date.now();
+    new NavRadioController(bus).swap();
+    env.advance(250);
+    bus.pub('com_radio_active_1', 118.5, false, false);
+
+    expect(recorder.getPublications()).toEqual([
+      { topic: 'nav_radio_standby_1', data: 108.0, sync: true, isCached: true, timestamp: start },
+      { topic: 'nav_radio_active_1', data: 110.3, sync: true, isCached: true, timestamp: start },
+      { topic: 'com_radio_active_1', data: 118.5, sync: false, isCached: false, timestamp: start + 250 },
+    ]);
+    expect(recorder.getTopics()).toEqual(['nav_radio_standby_1', 'nav_radio_active_1', 'com_radio_active_1']);
+    expect(recorder.getLastPublication('nav_radio_active_1')!.data).toBe(110.3);
+
+    recorder.stop();
+    bus.pub('com_radio_active_1', 121.5);
+    expect(recorder.getPublications('com_radio_active_1')).toHaveLength(1);
+    expect(recorder.isRecording()).toBe(false);
+  });
+
+  test('asserts publications with matchers', () => {
+    const controller = new NavRadioController(bus);
+    controller.swap();
+    controller.swap();
+
+    expect(bus).toHavePublished('nav_radio_active_1', 110.3);
+    expect(bus).toHavePublished('nav_radio_active_1', expect.closeTo(108, 5));
+    expect(bus).not.toHavePublished('com_radio_active_1');
+    expect(bus).toHavePublishedTimes('nav_radio_active_1', 2);
+    expect(bus).toHaveLastPublished('nav_radio_active_1', 108.0);
+    expect(recorder).toHavePublishedInOrder([
+      'nav_radio_standby_1',
+      { topic: 'nav_radio_active_1', data: 110.3 },
+      { topic: 'nav_radio_active_1', data: 108.0 },
+    ]);
+    expect(bus).not.toHavePublishedInOrder(['nav_radio_active_1', 'nav_radio_active_1', 'nav_radio_standby_1']);
+  });
+
+  test('explains failures', () => {
+    bus.pub('nav_radio_active_1', 113.9);
+
+    expect(() => expect(bus).toHavePublished('nav_radio_active_1', 110.3)).toThrow('it was published with: 113.9');
+    expect(() => expect(bus).toHavePublished('com_radio_active_1')).toThrow('it was never published');
+    expect(() => expect(bus).toHavePublishedInOrder(['nav_radio_active_1', 'nav_radio_standby_1']))
+      .toThrow('Expected nav_radio_standby_1 after 1 matched publication(s)');
+    expect(() => expect(new EventBus()).toHavePublished('nav_radio_active_1'))
+      .toThrow('Expected an EventBus with an EventBusRecorder attached');
+  });
+
+  test('checks publication rates over virtual time', () => {
+    // 10 Hz for two seconds, then a burst
+    for (let i = 0; i < 20; i++) {
+      bus.pub('nav_radio_active_1', 110 + i / 100);
+      env.advance(100);
+    }
+    expect(bus).toHavePublishedAtMostPerSecond('nav_radio_active_1', 10);
+    expect(bus).not.toHavePublishedAtMostPerSecond('nav_radio_active_1', 9);
+
+    bus.pub('nav_radio_active_1', 111);
+    bus.pub('nav_radio_active_1', 111.1);
+    expect(() => expect(bus).toHavePublishedAtMostPerSecond('nav_radio_active_1', 10)).toThrow('had 11');
+  });
+
+  test('records synced publications received from other instruments', () => {
+    const panel = new PanelEnvironment();
+    const pfd = panel.addInstrument('PFD');
+    const mfd = panel.addInstrument('MFD');
+    const mfdRecorder = new EventBusRecorder(mfd.bus);
+
+    pfd.run(() => new NavRadioController(pfd.bus).swap());
+
+    expect(mfdRecorder).toHavePublished('nav_radio_active_1', 110.3);
+    expect(mfdRecorder.getPublications('nav_radio_active_1')[0].sync).toBe(false);
+    panel.teardown();
+  });
+});
@@ -0,0 +1,160 @@
+import '../src/setupTests';
+import { coherentMock, EVENT_BUS_SYNC, EventBus, PanelEnvironment, SubscribableUtils, Subject, TestEnvironment } from '../src';
+
+interface TestEvents {
+  altitude: number;
+  heading: number;
+  page: string;
+}
+
+describe('EventBus', () => {
+  test('replays cached values to late subscribers', () => {
+    const bus = new EventBus();
+    const publisher = bus.getPublisher<TestEvents>();
+    publisher.pub('altitude', 1500);
+    publisher.pub('page', 'MAP', false, false);
+
+    const altitudes: number[] = [];
+    const pages: string[] = [];
+    const sub = bus.getSubscriber<TestEvents>().on('altitude').handle(alt => altitudes.push(alt));
+    bus.getSubscriber<TestEvents>().on('page').handle(page => pages.push(page));
+    expect(altitudes).toEqual([1500]);
+    expect(pages).toEqual([]);
+    expect(bus.getCachedValue('altitude')).toBe(1500);
+
+    sub.pause();
+    publisher.pub('altitude', 1600);
+    sub.resume(true);
+    publisher.pub('altitude', 1700);
+    expect(altitudes).toEqual([1500, 1600, 1700]);
+
+    sub.destroy();
+    publisher.pub('altitude', 1800);
+    expect(altitudes).toEqual([1500, 1600, 1700]);
+    expect(sub.isAlive).toBe(false);
+    expect(() => sub.resume()).toThrow('cannot resume a dead Subscription');
+  });
+
+  test('filters with whenChanged, withPrecision and whenChangedBy', () => {
+    const bus = new EventBus();
+    const publisher = bus.getPublisher<TestEvents>();
+    const subscriber = bus.getSubscriber<TestEvents>();
+    const changed: number[] = [];
+    const rounded: number[] = [];
+    const moved: number[] = [];
+    subscriber.on('altitude').whenChanged().handle(v => changed.push(v));
+    subscriber.on('altitude').withPrecision(-2).handle(v => rounded.push(v));
+    subscriber.on('altitude').whenChangedBy(100).handle(v => moved.push(v));
+
+    [1000, 1000, 1020, 1060, 1110, 1160].forEach(v => publisher.pub('altitude', v));
+
+    expect(changed).toEqual([1000, 1020, 1060, 1110, 1160]);
+    expect(rounded).toEqual([1000, 1100, 1200]);
+    expect(moved).toEqual([1000, 1110]);
+  });
+
+  test('throttles atFrequency on the virtual clock', () => {
+    const env = new TestEnvironment();
+    env.setup({ virtualTime: true });
+    const bus = new EventBus();
+    const headings: number[] = [];
+    bus.getSubscriber<TestEvents>().on('heading').atFrequency(2).handle(v => headings.push(v));
+
+    // Publish every 100 ms, off the 500 ms grid of the consumer
+    env.advance(50);
+    for (let i = 0; i <= 10; i++) {
+      bus.getPublisher<TestEvents>().pub('heading', i);
+      env.advance(100);
+    }
+
+    expect(headings).toEqual([0, 5, 10]);
+    env.teardown();
+  });
+
+  test('announces first subscriptions and notifies wildcard handlers', () => {
+    const bus = new EventBus();
+    const firstSubs: string[] = [];
+    const all: Array<[string, any]> = [];
+    bus.on<string>('event_bus_topic_first_sub', topic => firstSubs.push(topic));
+    bus.onAll((topic, data) => all.push([topic, data]));
+
+    bus.on('heading', () => undefined);
+    bus.on('heading', () => undefined);
+    bus.pub('heading', 90);
+
+    expect(firstSubs).toEqual(['heading']);
+    expect(all).toEqual([['event_bus_topic_first_sub', 'heading'], ['heading', 90]]);
+    expect(bus.getTopicSubscriberCount('heading')).toBe(2);
+
+    const topics: string[] = [];
+    bus.forEachSubscribedTopic(topic => topics.push(topic));
+    expect(topics).toEqual(['event_bus_topic_first_sub', 'heading']);
+  });
+
+  test('keeps notifying when a handler throws or unsubscribes', () => {
+    const bus = new EventBus();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const received: string[] = [];
+    const first = bus.on('page', () => {
+      first.destroy();
+      throw new Error('boom');
+    }, true);
+    first.resume();
+    bus.on<string>('page', page => received.push(page));
+
+    bus.pub('page', 'FPL');
+    bus.pub('page', 'NRST');
+
+    expect(received).toEqual(['FPL', 'NRST']);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(bus.getTopicSubscriberCount('page')).toBe(1);
+    errorSpy.mockRestore();
+  });
+
+  test('destroy() stops listening to the Coherent mock', () => {
+    const bus = new EventBus();
+    const received: any[] = [];
+    bus.on('mfd_page', page => received.push(page));
+
+    coherentMock.triggerEvent(EVENT_BUS_SYNC, { topic: 'mfd_page', data: 'map' });
+    expect(received).toEqual(['map']);
+
+    bus.destroy();
+    coherentMock.triggerEvent(EVENT_BUS_SYNC, { topic: 'mfd_page', data: 'fpl' });
+    expect(received).toEqual(['map']);
+    expect(bus.getTopicSubscriberCount('mfd_page')).toBe(0);
+  });
+
+  test('syncs cached and uncached publications in a panel', () => {
+    const panel = new PanelEnvironment();
+    const pfd = panel.addInstrument('PFD');
+    const mfd = panel.addInstrument('MFD');
+
+    pfd.run(() => pfd.bus.pub('heading', 270, true));
+    pfd.run(() => pfd.bus.pub('page', 'PROC', true, false));
+
+    const headings: number[] = [];
+    const pages: string[] = [];
+    mfd.bus.getSubscriber<TestEvents>().on('heading').handle(v => headings.push(v));
+    mfd.bus.getSubscriber<TestEvents>().on('page').handle(v => pages.push(v));
+    expect(headings).toEqual([270]);
+    expect(pages).toEqual([]);
+    expect(panel.getSyncLog().map(message => message.isCached)).toEqual([true, false]);
+    panel.teardown();
+  });
+});
+
+describe('SubscribableUtils', () => {
+  test('recognizes and wraps subscribables', () => {
+    const subject = Subject.create(1);
+    expect(SubscribableUtils.isSubscribable(subject)).toBe(true);
+    expect(SubscribableUtils.isMutableSubscribable(subject)).toBe(true);
+    expect(SubscribableUtils.isSubscribable(subject.map(v => v * 2))).toBe(true);
+    expect(SubscribableUtils.isMutableSubscribable(subject.map(v => v * 2))).toBe(false);
+    expect(SubscribableUtils.isSubscribable(1)).toBe(false);
+
+    expect(SubscribableUtils.toSubscribable(subject, true)).toBe(subject);
+    expect(SubscribableUtils.toSubscribable(5, true).get()).toBe(5);
+    expect(SubscribableUtils.NUMERIC_NAN_EQUALITY(NaN, NaN)).toBe(true);
+  });
+});
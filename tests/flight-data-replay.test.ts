@@ -0,0 +1,116 @@
+import '../src/setupTests';
+import * as path from 'path';
+import { FlightDataReplay, TestEnvironment, VirtualClock, simVarMock } from '../src';
+
+const CSV = [
+  'time,PLANE ALTITUDE|feet,AIRSPEED INDICATED|knots,GEAR HANDLE POSITION|bool',
+  '0,1000,100,0',
+  '2,2000,120,1',
+  '4,3000,,1',
+].join('\n');
+
+describe('FlightDataReplay', () => {
+  afterEach(() => {
+    simVarMock.reset();
+  });
+
+  test('parses columns and interpolates linearly or stepwise', () => {
+    const replay = FlightDataReplay.fromCSV(CSV);
+
+    expect(replay.getColumns()).toEqual([
+      { name: 'PLANE ALTITUDE', unit: 'feet' },
+      { name: 'AIRSPEED INDICATED', unit: 'knots' },
+      { name: 'GEAR HANDLE POSITION', unit: 'bool' },
+    ]);
+    expect(replay.getDuration()).toBe(4000);
+
+    replay.seek(1000);
+    expect(simVarMock.getSimVarValue('PLANE ALTITUDE', 'feet')).toBe(1500);
+    expect(simVarMock.getSimVarValue('PLANE ALTITUDE', 'meters')).toBeCloseTo(457.2);
+
+    // Missing samples hold the last value
+    replay.seek(3000);
+    expect(simVarMock.getSimVarValue('AIRSPEED INDICATED', 'knots')).toBe(120);
+
+    replay.setInterpolation('step');
+    replay.seek(1500);
+    expect(simVarMock.getSimVarValue('PLANE ALTITUDE', 'feet')).toBe(1000);
+  });
+
+  test('plays at N× speed, runs frame hooks and stops at the end', () => {
+    const replay = FlightDataReplay.fromCSV(CSV, { speed: 2 });
+    const altitudes: number[] = [];
+    replay.onFrame(() => altitudes.push(simVarMock.getSimVarValue('PLANE ALTITUDE', 'feet')));
+
+    replay.play(1000, 250);
+    expect(replay.getTime()).toBe(2000);
+    expect(altitudes).toEqual([1250, 1500, 1750, 2000]);
+
+    replay.play(10000, 250);
+    expect(replay.isFinished()).toBe(true);
+    expect(altitudes).toHaveLength(8);
+    expect(simVarMock.getSimVarValue('PLANE ALTITUDE', 'feet')).toBe(3000);
+  });
+
+  test('loops and follows a virtual clock', () => {
+    const replay = FlightDataReplay.fromJSON([
+      { time: 0, 'L:SWEEP|number': 0 },
+      { time: 1, 'L:SWEEP|number': 10 },
+    ], { loop: true });
+    const clock = new VirtualClock(0, 100);
+    const handle = replay.attach(clock);
+
+    clock.advance(1500);
+    expect(replay.getTime()).toBeCloseTo(500);
+    expect(simVarMock.getSimVarValue('L:SWEEP', 'number')).toBeCloseTo(5);
+
+    handle.destroy();
+    clock.advance(200);
+    expect(replay.getTime()).toBeCloseTo(500);
+  });
+
+  test('applies the last sample of a looping recording before wrapping', () => {
+    const replay = FlightDataReplay.fromJSON([
+      { time: 0, 'L:SWEEP|number': 0 },
+      { time: 1, 'L:SWEEP|number': 10 },
+    ], { loop: true });
+
+    replay.play(1000, 250);
+    expect(replay.getTime()).toBe(1000);
+    expect(simVarMock.getSimVarValue('L:SWEEP', 'number')).toBe(10);
+
+    replay.advance(250);
+    expect(replay.getTime()).toBe(250);
+    expect(simVarMock.getSimVarValue('L:SWEEP', 'number')).toBe(2.5);
+  });
+
+  test('writes recorded values over SimVars changed between frames', () => {
+    const replay = FlightDataReplay.fromCSV(CSV, { interpolation: 'step' });
+
+    replay.advance(500);
+    expect(simVarMock.getSimVarValue('GEAR HANDLE POSITION', 'bool')).toBe(0);
+
+    simVarMock.setSimVarValue('GEAR HANDLE POSITION', 'bool', 1);
+    replay.advance(500);
+    expect(simVarMock.getSimVarValue('GEAR HANDLE POSITION', 'bool')).toBe(0);
+  });
+
+  test('loads recordings from disk through the TestEnvironment', () => {
+    const env = new TestEnvironment();
+    env.setup();
+
+    const replay = env.loadFlightData(path.join(__dirname, 'data', 'approach.csv'));
+    replay.playToEnd(500);
+
+    expect(env.getSimVar('PLANE ALTITUDE', 'feet')).toBe(1200);
+    expect(env.getSimVar('GEAR HANDLE POSITION', 'bool')).toBe(1);
+    expect(env.getSimVar('ATC ID', 'string')).toBe('N172SP');
+
+    env.teardown();
+  });
+
+  test('rejects recordings without a time column', () => {
+    expect(() => FlightDataReplay.fromCSV('t,PLANE ALTITUDE|feet\n0,1')).toThrow("Flight data has no 'time' column");
+    expect(FlightDataReplay.fromCSV('t|ms,PLANE ALTITUDE|feet\n0,1\n500,2', { timeColumn: 't' }).getDuration()).toBe(500);
+  });
+});
@@ -0,0 +1,205 @@
+import '../src/setupTests';
+import {
+  GeoCircle,
+  GeoPoint,
+  MagVar,
+  MapProjection,
+  MapProjectionChangeType,
+  MercatorProjection,
+  NavMath,
+  OrthographicProjection,
+  UnitType,
+  Vec2Math,
+  Vec2Subject,
+  TestEnvironment,
+  Vec3Math,
+} from '../src';
+
+const KBOS = new GeoPoint(42.3656, -71.0096);
+const KJFK = new GeoPoint(40.6413, -73.7781);
+const nm = (gaRad: number): number => UnitType.GA_RADIAN.convertTo(gaRad, UnitType.NMILE);
+const gaRad = (nmi: number): number => UnitType.NMILE.convertTo(nmi, UnitType.GA_RADIAN);
+
+describe('Vec2Math / Vec3Math', () => {
+  test('vector operations write to out', () => {
+    const out = Vec2Math.create();
+    expect(Vec2Math.add(Vec2Math.create(1, 2), Vec2Math.create(3, 4), out)).toBe(out);
+    expect(Array.from(out)).toEqual([4, 6]);
+    expect(Vec2Math.abs(Vec2Math.create(3, 4))).toBe(5);
+    expect(Vec2Math.distance(Vec2Math.create(0, 0), Vec2Math.create(3, 4))).toBe(5);
+    expect(Vec2Math.angle(Vec2Math.create(2, 0), Vec2Math.create(0, 3))).toBeCloseTo(Math.PI / 2, 12);
+    expect(Array.from(Vec2Math.setFromPolar(2, Math.PI / 2, out)).map(v => Math.round(v))).toEqual([0, 2]);
+
+    const cross = Vec3Math.cross(Vec3Math.create(1, 0, 0), Vec3Math.create(0, 1, 0), Vec3Math.create());
+    expect(Array.from(cross)).toEqual([0, 0, 1]);
+    expect(Vec3Math.abs(Vec3Math.setMagnitude(Vec3Math.create(1, 2, 2), 6, Vec3Math.create()))).toBeCloseTo(6, 12);
+  });
+
+  test('Vec2Subject notifies component changes', () => {
+    const position = Vec2Subject.create(Vec2Math.create(10, 20));
+    const handler = jest.fn();
+    position.sub(handler);
+
+    position.set(10, 20);
+    position.set(Vec2Math.create(15, 20));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(Array.from(position.get())).toEqual([15, 20]);
+  });
+});
+
+describe('GeoPoint', () => {
+  test('great-circle distance, bearings and offsets', () => {
+    expect(nm(KBOS.distance(KJFK))).toBeCloseTo(162.1, 1);
+    expect(KBOS.bearingTo(KJFK)).toBeCloseTo(231.2, 1);
+    // final course on arrival at KJFK
+    expect(KJFK.bearingFrom(KBOS)).toBeCloseTo(229.3, 1);
+
+    const out = KBOS.offset(KBOS.bearingTo(KJFK), KBOS.distance(KJFK), new GeoPoint(0, 0));
+    expect(out.equals(KJFK)).toBe(true);
+    expect(KBOS.lat).toBeCloseTo(42.3656, 10);
+
+    expect(nm(KBOS.distanceRhumb(KJFK))).toBeGreaterThanOrEqual(nm(KBOS.distance(KJFK)));
+    const rhumb = KBOS.offsetRhumb(KBOS.bearingRhumb(KJFK), KBOS.distanceRhumb(KJFK), new GeoPoint(0, 0));
+    expect(rhumb.equals(KJFK, gaRad(0.01))).toBe(true);
+  });
+
+  test('normalizes coordinates and keeps a read-only view', () => {
+    const point = new GeoPoint(100, 10);
+    expect(point.lat).toBeCloseTo(80, 12);
+    expect(point.lon).toBeCloseTo(-170, 12);
+
+    point.set(0, 190);
+    expect(point.lon).toBeCloseTo(-170, 12);
+    expect(point.readonly.lon).toBe(point.lon);
+    expect(() => point.readonly.offset(90, 0.1, undefined as any)).toThrow('Cannot mutate a read-only GeoPoint.');
+
+    const cartesian = new GeoPoint(0, 90).toCartesian(Vec3Math.create());
+    expect(cartesian[1]).toBeCloseTo(1, 12);
+    expect(new GeoPoint(0, 0).setFromCartesian(cartesian).lon).toBeCloseTo(90, 12);
+  });
+});
+
+describe('GeoCircle', () => {
+  test('great-circle paths: cross track, along track and bearings', () => {
+    const equator = GeoCircle.createGreatCircleFromPointBearing(new GeoPoint(0, 0), 90);
+    expect(equator.isGreatCircle()).toBe(true);
+    expect(nm(equator.distance(new GeoPoint(1, 10)))).toBeCloseTo(-60, 0);
+    expect(equator.bearingAt(new GeoPoint(0, 45))).toBeCloseTo(90, 10);
+    expect(equator.distanceAlong(new GeoPoint(0, 0), new GeoPoint(0, 10))).toBeCloseTo(10 * Math.PI / 180, 12);
+
+    const offset = equator.offsetDistanceAlong(new GeoPoint(0, 0), Math.PI / 2, new GeoPoint(0, 0));
+    expect(offset.lon).toBeCloseTo(90, 10);
+    expect(() => equator.bearingAt(new GeoPoint(5, 0))).toThrow('GeoCircle: the specified point does not lie on this circle');
+  });
+
+  test('small circles and intersections', () => {
+    const dmeArc = GeoCircle.createFromPoint(KBOS, gaRad(10));
+    expect(dmeArc.encircles(KBOS)).toBe(true);
+    expect(dmeArc.encircles(KJFK)).toBe(false);
+
+    const radial = GeoCircle.createGreatCircle(KBOS, KJFK);
+    expect(dmeArc.numIntersectionPoints(radial)).toBe(2);
+    const intersections: GeoPoint[] = [];
+    expect(dmeArc.intersectionGeoPoint(radial, intersections)).toBe(2);
+    intersections.forEach(point => expect(nm(point.distance(KBOS))).toBeCloseTo(10, 6));
+  });
+});
+
+describe('NavMath / MagVar', () => {
+  test('headings, turns and wind', () => {
+    expect(NavMath.normalizeHeading(-90)).toBe(270);
+    expect(NavMath.reciprocateHeading(270)).toBe(90);
+    expect(NavMath.diffAngle(350, 10)).toBe(20);
+    expect(NavMath.getTurnDirection(90, 45)).toBe('left');
+    expect(NavMath.turnRadius(120, 25)).toBeCloseTo(836, 0);
+    expect(NavMath.bankAngle(120, NavMath.turnRadius(120, 25))).toBeCloseTo(25, 0);
+    expect(NavMath.windCorrectionAngle(360, 100, 90, 20)).toBeCloseTo(-11.5, 1);
+    expect(NavMath.headingToGroundTrack(90, 100, 90, 0)).toBe(90);
+  });
+
+  test('cross track and along track on a leg', () => {
+    const start = new GeoPoint(0, 0);
+    const end = new GeoPoint(0, 10);
+    const abeam = new GeoPoint(-0.5, 2);
+    expect(NavMath.crossTrack(start, end, abeam)).toBeCloseTo(30, 0);
+    expect(NavMath.alongTrack(start, end, abeam)).toBeCloseTo(120, 0);
+    expect(NavMath.desiredTrack(start, end, abeam)).toBeCloseTo(90, 5);
+  });
+
+  test('magnetic variation follows the MAGVAR SimVar or Facilities.getMagVar', () => {
+    const env = new TestEnvironment();
+    env.setup();
+    env.setSimVar('MAGVAR', 'degrees', -14);
+    expect(MagVar.get(KBOS)).toBe(-14);
+    expect(MagVar.trueToMagnetic(231, KBOS)).toBe(245);
+    expect(MagVar.magneticToTrue(10, 15)).toBe(25);
+
+    const getMagVar = jest.spyOn((globalThis as any).Facilities, 'getMagVar').mockImplementation((_lat: any, lon: any) => lon > -72 ? -14 : -13);
+    expect(MagVar.get(KJFK)).toBe(-13);
+    getMagVar.mockRestore();
+    env.teardown();
+  });
+});
+
+describe('Projections', () => {
+  test('Mercator and orthographic projections invert back', () => {
+    const mercator = new MercatorProjection().setCenter(KBOS).setScaleFactor(1000).setTranslation(Vec2Math.create(300, 300));
+    expect(Array.from(mercator.project(KBOS, Vec2Math.create()))).toEqual([300, 300]);
+    const inverted = mercator.invert(mercator.project(KJFK, Vec2Math.create()), new GeoPoint(0, 0));
+    expect(inverted.equals(KJFK)).toBe(true);
+
+    const globe = new OrthographicProjection()
+      .setPreRotation(Vec3Math.create(-KBOS.lon * Math.PI / 180, -KBOS.lat * Math.PI / 180, 0))
+      .setCenter(KBOS)
+      .setScaleFactor(1000);
+    const projected = globe.project(new GeoPoint(KBOS.lat + 1, KBOS.lon), Vec2Math.create());
+    expect(projected[0]).toBeCloseTo(0, 10);
+    expect(projected[1]).toBeCloseTo(1000 * Math.sin(Math.PI / 180), 10);
+    expect(globe.invert(projected, new GeoPoint(0, 0)).equals(KBOS.lat + 1, KBOS.lon)).toBe(true);
+  });
+
+  test('MapProjection places symbols by target, range and rotation', () => {
+    const projection = new MapProjection(600, 400);
+    const listener = jest.fn();
+    projection.addChangeListener(listener);
+
+    projection.set({ target: KBOS, range: gaRad(20) });
+    expect(Array.from(projection.project(KBOS, Vec2Math.create()))).toEqual([300, 200]);
+    expect(nm(projection.getRange())).toBeCloseTo(20, 4);
+    expect(nm(projection.getHeightRange())).toBeCloseTo(20, 4);
+    expect(listener.mock.calls[0][1] & MapProjectionChangeType.Target).toBeTruthy();
+    expect(listener.mock.calls[0][1] & MapProjectionChangeType.Range).toBeTruthy();
+
+    // 10 NM north of the target is at the top edge of a north-up map
+    const north = KBOS.offset(0, gaRad(10), new GeoPoint(0, 0));
+    const northProjected = projection.project(north, Vec2Math.create());
+    expect(northProjected[0]).toBeCloseTo(300, 6);
+    expect(northProjected[1]).toBeCloseTo(0, 0);
+    expect(projection.isInProjectedBounds(KBOS.offset(0, gaRad(9), new GeoPoint(0, 0)))).toBe(true);
+    expect(projection.isInProjectedBounds(KJFK)).toBe(false);
+
+    // heading 090 up: north is now to the left
+    projection.set({ rotation: -90 * Math.PI / 180 });
+    const rotated = projection.project(north, Vec2Math.create());
+    expect(rotated[0]).toBeCloseTo(100, 0);
+    expect(rotated[1]).toBeCloseTo(200, 6);
+
+    // target offset down, like an arc view
+    projection.set({ rotation: 0, targetProjectedOffset: Vec2Math.create(0, 100) });
+    expect(Array.from(projection.getTargetProjected())).toEqual([300, 300]);
+    const target = projection.project(KBOS, Vec2Math.create());
+    expect(target[0]).toBeCloseTo(300, 6);
+    expect(target[1]).toBeCloseTo(300, 6);
+    expect(projection.invert(Vec2Math.create(300, 300), new GeoPoint(0, 0)).equals(KBOS)).toBe(true);
+
+    expect(nm(projection.geoDistance(Vec2Math.create(300, 0), Vec2Math.create(300, 400)))).toBeCloseTo(20, 4);
+    expect(projection.removeChangeListener(listener)).toBe(true);
+  });
+
+  test('a fixed scale factor sets the range', () => {
+    const projection = new MapProjection(100, 100);
+    projection.set({ target: new GeoPoint(0, 0), scaleFactor: UnitType.GA_RADIAN.convertTo(1, UnitType.NMILE) });
+    expect(nm(projection.getRange())).toBeCloseTo(100, 1);
+  });
+});
@@ -0,0 +1,117 @@
+import '../src/setupTests';
+import { EventBus, PanelEnvironment, TestEnvironment, mountInstrument } from '../src';
+
+const globalObj = globalThis as any;
+
+class SoftkeyInstrument extends globalObj.BaseInstrument {
+  received: Array<{ args: string[]; time: number }> = [];
+
+  get templateID(): string {
+    return 'SoftkeyInstrument';
+  }
+
+  onInteractionEvent(args: string[]): void {
+    this.received.push({ args, time: Date.now() });
+  }
+}
+
+describe('H events', () => {
+  let env: TestEnvironment;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup({ virtualTime: true });
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('delivers H events to mounted instruments and records them', () => {
+    const mounted = mountInstrument(SoftkeyInstrument, { env, templateHtml: '<div></div>' });
+
+    env.sendHEvent('AS1000_PFD_SOFTKEYS_1');
+    env.sendHEvent('H:AS1000_PFD_FMS_Upper_INC', { args: ['1'] });
+
+    expect(mounted.instrument.received.map((event: { args: string[] }) => event.args)).toEqual([
+      ['AS1000_PFD_SOFTKEYS_1'],
+      ['AS1000_PFD_FMS_Upper_INC', '1'],
+    ]);
+    expect(env.getHEventHistory('AS1000_PFD_FMS_Upper_INC')).toEqual([
+      expect.objectContaining({ name: 'AS1000_PFD_FMS_Upper_INC', args: ['1'], source: 'test' }),
+    ]);
+    expect(env.getHEventHistory()).toHaveLength(2);
+
+    mounted.unmount();
+    env.sendHEvent('AS1000_PFD_SOFTKEYS_2');
+    expect(mounted.instrument.received).toHaveLength(2);
+  });
+
+  test('rethrows errors thrown by instruments handling H events', () => {
+    class FailingInstrument extends SoftkeyInstrument {
+      onInteractionEvent(args: string[]): void {
+        throw new Error(`cannot handle ${args[0]}`);
+      }
+    }
+    const failing = mountInstrument(FailingInstrument, { env, templateHtml: '<div></div>' });
+    const mounted = mountInstrument(SoftkeyInstrument, { env, templateHtml: '<div></div>' });
+
+    expect(() => env.sendHEvent('AS1000_PFD_SOFTKEYS_1')).toThrow('cannot handle AS1000_PFD_SOFTKEYS_1');
+    expect(mounted.instrument.received).toHaveLength(1);
+    expect(env.getHEventHistory('AS1000_PFD_SOFTKEYS_1')).toHaveLength(1);
+    failing.unmount();
+    mounted.unmount();
+  });
+
+  test('repeats H events over virtual time', () => {
+    const mounted = mountInstrument(SoftkeyInstrument, { env, templateHtml: '<div></div>' });
+    const start = Date.now();
+
+    env.sendHEvent('AS1000_PFD_FMS_Upper_INC', { repeat: 3, interval: 50, delay: 100 });
+
+    expect(mounted.instrument.received.map((event: { time: number }) => event.time - start)).toEqual([100, 150, 200]);
+    expect(env.getHEventHistory('AS1000_PFD_FMS_Upper_INC')).toHaveLength(3);
+    mounted.unmount();
+  });
+
+  test('publishes H events on EventBus topics', () => {
+    const bus = new EventBus();
+    const events: string[] = [];
+    const withArgs: any[] = [];
+    bus.on<string>('hEvent', event => events.push(event));
+    bus.on('hEvent_with_args', event => withArgs.push(event));
+
+    env.sendHEvent('AS1000_MFD_SOFTKEYS_3', { args: ['x'] });
+
+    expect(events).toEqual(['AS1000_MFD_SOFTKEYS_3']);
+    expect(withArgs).toEqual([{ event: 'AS1000_MFD_SOFTKEYS_3', args: ['x'] }]);
+  });
+
+  test('routes H events written by instruments as H: SimVars', async () => {
+    const listener = jest.fn();
+    env.onHEvent(listener);
+
+    await globalObj.SimVar.SetSimVarValue('H:MY_PANEL_BUTTON', 'number', 0);
+
+    expect(listener).toHaveBeenCalledWith('MY_PANEL_BUTTON', []);
+    expect(env.getHEventHistory('MY_PANEL_BUTTON')[0].source).toBe('instrument');
+  });
+});
+
+describe('H events in a panel', () => {
+  test('reach the bus of every instrument', () => {
+    const panel = new PanelEnvironment();
+    const pfd = panel.addInstrument('PFD');
+    const mfd = panel.addInstrument('MFD');
+    const pfdEvents: string[] = [];
+    const mfdEvents: string[] = [];
+    pfd.bus.on<string>('hEvent', event => pfdEvents.push(event));
+    mfd.bus.on<string>('hEvent', event => mfdEvents.push(event));
+
+    pfd.env.sendHEvent('AS1000_PFD_SOFTKEYS_1');
+
+    expect(pfdEvents).toEqual(['AS1000_PFD_SOFTKEYS_1']);
+    expect(mfdEvents).toEqual(['AS1000_PFD_SOFTKEYS_1']);
+    panel.teardown();
+  });
+});
@@ -0,0 +1,77 @@
+jest.mock('@microsoft/msfs-sdk', () => jest.requireActual('../src/mocks/HybridSDKAdapter'));
+
+import '../src/setupTests';
+import * as msfsSdk from '@microsoft/msfs-sdk';
+import { HYBRID_ADAPTER_EXPORTS, TestEnvironment, createHybridSDK, loadSDKBundle } from '../src';
+
+const sdk = msfsSdk as Record<string, any>;
+// the adapter file is mocked along with the SDK it is mapped to
+const adapter = jest.requireActual('../src/mocks/SDKAdapter');
+
+describe('Hybrid SDK mode', () => {
+  let env: TestEnvironment;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup();
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('serves the real bundle, the adapter for host-bound exports and as a fallback', () => {
+    expect(sdk.GeoPoint).not.toBe(adapter.GeoPoint);
+    expect(typeof sdk.VecNMath).toBe('function');
+    expect(typeof sdk.LerpLookupTable).toBe('function');
+
+    expect(sdk.EventBus).toBe(adapter.EventBus);
+    expect(HYBRID_ADAPTER_EXPORTS).toContain('FacilityLoader');
+    expect(sdk.EVENT_BUS_SYNC).toBe(adapter.EVENT_BUS_SYNC);
+  });
+
+  test('runs real pure logic', () => {
+    const kbos = new sdk.GeoPoint(42.3656, -71.0096);
+    const distance = sdk.UnitType.GA_RADIAN.convertTo(kbos.distance(40.6413, -73.7781), sdk.UnitType.NMILE);
+    expect(distance).toBeCloseTo(162.1, 1);
+
+    const table = new sdk.LerpLookupTable([[0, 0], [100, 10]]);
+    expect(table.get(2.5)).toBe(25);
+    expect(sdk.NumberFormatter.create({ precision: 0.1 })(12.34)).toBe('12.3');
+  });
+
+  test('real SDK code reads the mocked host bindings', () => {
+    env.setSimVar('INDICATED ALTITUDE', 'feet', 4500);
+    env.setSimVar('MAGVAR', 'degrees', -14);
+    const bus = new sdk.EventBus();
+    const publisher = new sdk.SimVarPublisher([['indicated_alt', { name: 'INDICATED ALTITUDE', type: sdk.SimVarValueType.Feet }]], bus);
+
+    const altitudes: number[] = [];
+    bus.getSubscriber().on('indicated_alt').handle((alt: number) => altitudes.push(alt));
+    publisher.startPublish();
+    publisher.onUpdate();
+    env.setSimVar('INDICATED ALTITUDE', 'feet', 4600);
+    publisher.onUpdate();
+
+    expect(altitudes).toEqual([4500, 4600]);
+    expect(sdk.MagVar.get(42.3656, -71.0096)).toBe(-14);
+  });
+
+  test('real FSComponent renders into the jsdom document', () => {
+    const text = sdk.Subject.create('ALT');
+    const root = document.createElement('div');
+    sdk.FSComponent.render(sdk.FSComponent.buildComponent('span', { class: 'label' }, text), root);
+
+    expect(root.querySelector('.label')?.textContent).toBe('ALT');
+    text.set('HDG');
+    expect(root.querySelector('.label')?.textContent).toBe('HDG');
+  });
+
+  test('builds hybrid modules with other adapter exports', () => {
+    const bundle = loadSDKBundle();
+    const hybrid = createHybridSDK(['GeoPoint'], bundle);
+    expect(hybrid.GeoPoint).toBe(adapter.GeoPoint);
+    expect(hybrid.EventBus).toBe(bundle.EventBus);
+    expect(() => createHybridSDK(['LerpLookupTable'], bundle)).toThrow('msfs-sdk export LerpLookupTable is not provided by the adapter');
+  });
+});
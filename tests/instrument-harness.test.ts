@@ -0,0 +1,130 @@
+import '../src/setupTests';
+import { TestEnvironment, mountInstrument } from '../src';
+
+const globalObj = globalThis as any;
+
+class TestInstrument extends globalObj.BaseInstrument {
+  calls: string[] = [];
+  updates = 0;
+  deltas: number[] = [];
+  interactions: string[][] = [];
+
+  get templateID(): string {
+    return 'TestInstrument';
+  }
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.calls.push(`connected:${this.getChildById('Content') !== null}`);
+  }
+
+  protected Init(): void {
+    super.Init();
+    this.calls.push('init');
+  }
+
+  protected onGameStateChanged(oldState: number, newState: number): void {
+    this.calls.push(`state:${oldState}->${newState}`);
+  }
+
+  protected onFlightStart(): void {
+    this.calls.push('flightStart');
+  }
+
+  protected Update(): void {
+    super.Update();
+    this.updates++;
+    this.deltas.push(this.deltaTime);
+    this.getChildById('Content').textContent = `${globalObj.SimVar.GetSimVarValue('AIRSPEED INDICATED', 'knots')}`;
+  }
+
+  onInteractionEvent(args: string[]): void {
+    this.interactions.push(args);
+  }
+}
+
+globalObj.registerInstrument('test-instrument', TestInstrument);
+
+describe('mountInstrument', () => {
+  test('runs the instrument lifecycle', () => {
+    const mounted = mountInstrument(TestInstrument, { templateHtml: '<div id="Content"></div>' });
+    const instrument = mounted.instrument;
+
+    expect(instrument.calls).toEqual([
+      'connected:true',
+      'init',
+      'state:0->1',
+      'state:1->2',
+      'state:2->3',
+      'flightStart',
+    ]);
+    expect(instrument.getGameState()).toBe(globalObj.GameState.ingame);
+    expect(instrument.initialized).toBe(true);
+    expect(instrument.instrumentIdentifier).toBe('test-instrument');
+    expect(mounted.element.tagName.toLowerCase()).toBe('test-instrument');
+    expect(mounted.element.isConnected).toBe(true);
+
+    mounted.unmount();
+    expect(mounted.element.isConnected).toBe(false);
+  });
+
+  test('updates at the instrument frame rate on the virtual clock', () => {
+    const mounted = mountInstrument(TestInstrument, { templateHtml: '<div id="Content"></div>', frameRate: 20 });
+    mounted.env.simvars.ramp('AIRSPEED INDICATED', 'knots', 0, 100, { over: 1000 });
+
+    mounted.advance(1000);
+    expect(mounted.instrument.updates).toBe(20);
+    expect(mounted.instrument.deltas.slice(1)).toEqual(new Array(19).fill(50));
+    expect(mounted.element.querySelector('#Content')!.textContent).toBe('100');
+
+    mounted.env.pause();
+    mounted.env.advance(500);
+    expect(mounted.instrument.updates).toBe(30);
+    mounted.unmount();
+  });
+
+  test('routes interaction events and pending calls', () => {
+    const mounted = mountInstrument(TestInstrument, { templateHtml: '<div id="Content"></div>' });
+    const called = jest.fn();
+    mounted.instrument.requestCall(called, 100);
+
+    mounted.interact('TEST_PUSH_1');
+    mounted.interact('TEST_KNOB', '2');
+    expect(mounted.instrument.interactions).toEqual([['TEST_PUSH_1'], ['TEST_KNOB', '2']]);
+
+    mounted.advance(50);
+    expect(called).not.toHaveBeenCalled();
+    mounted.advance(100);
+    expect(called).toHaveBeenCalledTimes(1);
+    mounted.unmount();
+  });
+
+  test('uses a template from the document and a given environment', () => {
+    const env = new TestEnvironment();
+    env.setup({ virtualTime: true });
+    const template = document.createElement('script');
+    template.setAttribute('type', 'text/html');
+    template.id = 'OtherTemplate';
+    template.textContent = '<div id="Content" class="other"></div>';
+    document.head.appendChild(template);
+
+    const mounted = mountInstrument(TestInstrument, { env, templateId: 'OtherTemplate', gameStates: [] });
+    expect(mounted.element.querySelector('.other')).not.toBeNull();
+    expect(mounted.instrument.calls).toEqual(['connected:true', 'init']);
+    expect(mounted.instrument.templateID).toBe('OtherTemplate');
+
+    mounted.setGameState(globalObj.GameState.ingame);
+    expect(mounted.instrument.calls).toContain('flightStart');
+
+    mounted.unmount();
+    template.remove();
+    env.teardown();
+  });
+
+  test('requires a template id with inline templates', () => {
+    class NoTemplate extends globalObj.BaseInstrument {}
+    const realSetTimeout = globalObj.setTimeout;
+    expect(() => mountInstrument(NoTemplate, { templateHtml: '<div></div>' })).toThrow('NoTemplate has no templateID');
+    expect(globalObj.setTimeout).toBe(realSetTimeout);
+  });
+});
@@ -0,0 +1,82 @@
+import '../src/setupTests';
+import { TestEnvironment, simVarMock } from '../src';
+
+describe('Key event simulation', () => {
+  let env: TestEnvironment;
+  const globalObj = globalThis as any;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup();
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('records K: writes with their argument', async () => {
+    await globalObj.SimVar.SetSimVarValue('K:AP_MASTER', 'number', 0);
+
+    expect(env.getKeyEventHistory()).toEqual([expect.objectContaining({ name: 'AP_MASTER', args: [0] })]);
+    expect(env.getSimVar('AUTOPILOT MASTER', 'bool')).toBe(1);
+    expect(simVarMock.hasSimVar('K:AP_MASTER', 'number')).toBe(false);
+  });
+
+  test('HEADING_BUG_INC wraps around 360 degrees', async () => {
+    env.setSimVar('AUTOPILOT HEADING LOCK DIR', 'degrees', 359);
+
+    await globalObj.SimVar.SetSimVarValue('K:HEADING_BUG_INC', 'number', 0);
+    expect(env.getSimVar('AUTOPILOT HEADING LOCK DIR', 'degrees')).toBe(0);
+
+    await globalObj.SimVar.SetSimVarValue('K:HEADING_BUG_DEC', 'number', 0);
+    expect(env.getSimVar('AUTOPILOT HEADING LOCK DIR', 'degrees')).toBe(359);
+  });
+
+  test('COM_STBY_RADIO_SWAP swaps active and standby frequencies', async () => {
+    env.setSimVar('COM ACTIVE FREQUENCY:1', 'MHz', 118.1);
+    env.setSimVar('COM STANDBY FREQUENCY:1', 'MHz', 121.5);
+
+    await globalObj.Coherent.call('TRIGGER_KEY_EVENT', 'COM_STBY_RADIO_SWAP', true, 0, 0, 0);
+
+    expect(env.getSimVar('COM ACTIVE FREQUENCY:1', 'MHz')).toBeCloseTo(121.5);
+    expect(env.getSimVar('COM STANDBY FREQUENCY:1', 'KHz')).toBeCloseTo(118100);
+  });
+
+  test('custom reactions can be registered', () => {
+    simVarMock.keyEvents.registerReaction('MY_EVENT', (args, simVars) => {
+      simVars.setSimVarValue('L:MY_EVENT_VALUE', 'number', args[0] * 2);
+    });
+
+    env.triggerKeyEvent('K:MY_EVENT', 21);
+
+    expect(env.getSimVar('L:MY_EVENT_VALUE', 'number')).toBe(42);
+    expect(env.getKeyEventHistory('MY_EVENT')).toHaveLength(1);
+  });
+
+  test('reset restores the default reactions', () => {
+    simVarMock.keyEvents.unregisterReaction('AP_MASTER');
+    env.reset();
+
+    expect(simVarMock.keyEvents.hasReaction('AP_MASTER')).toBe(true);
+    expect(simVarMock.keyEvents.hasReaction('MY_EVENT')).toBe(false);
+  });
+
+  test('persistent reactions survive reset', () => {
+    simVarMock.keyEvents.registerReaction('MY_PERSISTENT_EVENT', (args, simVars) => {
+      simVars.setSimVarValue('L:MY_EVENT_VALUE', 'number', args[0]);
+    }, { persistent: true });
+    simVarMock.keyEvents.registerReaction('AP_MASTER', () => undefined, { persistent: true });
+    env.reset();
+
+    env.triggerKeyEvent('MY_PERSISTENT_EVENT', 7);
+    env.triggerKeyEvent('AP_MASTER');
+    expect(env.getSimVar('L:MY_EVENT_VALUE', 'number')).toBe(7);
+    expect(env.getSimVar('AUTOPILOT MASTER', 'bool')).toBe(0);
+
+    simVarMock.keyEvents.unregisterReaction('MY_PERSISTENT_EVENT');
+    simVarMock.keyEvents.unregisterReaction('AP_MASTER');
+    env.reset();
+    expect(simVarMock.keyEvents.hasReaction('MY_PERSISTENT_EVENT')).toBe(false);
+    expect(simVarMock.keyEvents.hasReaction('AP_MASTER')).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import '../src/setupTests';
+import { CoherentMock, SimVarMock, TestEnvironment, coherentMock, simVarMock } from '../src';
+
+describe('Per-environment mock instances', () => {
+  const globalObj = globalThis as any;
+
+  afterEach(() => {
+    simVarMock.reset();
+  });
+
+  test('standalone instances do not share state', () => {
+    const a = new SimVarMock();
+    const b = new SimVarMock();
+    a.setSimVarValue('L:VALUE', 'number', 1);
+
+    expect(b.hasSimVar('L:VALUE', 'number')).toBe(false);
+    expect(simVarMock).toBeInstanceOf(SimVarMock);
+    expect(coherentMock).toBeInstanceOf(CoherentMock);
+  });
+
+  test('each environment owns its mocks and installs them while active', async () => {
+    const pfd = new TestEnvironment();
+    const mfd = new TestEnvironment();
+    pfd.setup();
+    mfd.setup();
+
+    expect(mfd.isActive()).toBe(true);
+    await globalObj.SimVar.SetSimVarValue('L:PAGE', 'number', 2);
+    expect(simVarMock.getSimVarValue('L:PAGE', 'number')).toBe(2);
+    expect(mfd.getSimVar('L:PAGE', 'number')).toBe(2);
+    expect(pfd.getSimVar('L:PAGE', 'number')).toBe(0);
+
+    pfd.activate();
+    expect(pfd.isActive()).toBe(true);
+    await globalObj.SimVar.SetSimVarValue('L:PAGE', 'number', 1);
+    await globalObj.Coherent.call('TRIGGER_KEY_EVENT', 'AP_MASTER', true, 0);
+    expect(simVarMock.getSimVarValue('L:PAGE', 'number')).toBe(1);
+    expect(pfd.getKeyEventHistory('AP_MASTER')).toHaveLength(1);
+    expect(mfd.getKeyEventHistory('AP_MASTER')).toHaveLength(0);
+    expect(pfd.getCoherentCallHistory()).toHaveLength(1);
+    expect(mfd.getCoherentCallHistory()).toHaveLength(0);
+
+    mfd.teardown();
+    pfd.teardown();
+  });
+
+  test('teardown restores the default instances and globals', () => {
+    const originalSimVar = globalObj.SimVar;
+    SimVarMock.getInstance().setSimVarValue('L:DEFAULT', 'number', 5);
+
+    const env = new TestEnvironment();
+    env.setup();
+    expect(simVarMock.hasSimVar('L:DEFAULT', 'number')).toBe(false);
+    expect(SimVarMock.getCurrent()).toBe(env.simVarMock);
+    env.teardown();
+
+    expect(SimVarMock.getCurrent()).toBe(SimVarMock.getInstance());
+    expect(CoherentMock.getCurrent()).toBe(CoherentMock.getInstance());
+    expect(globalObj.SimVar).toBe(originalSimVar);
+    expect(globalObj.SimVar.GetSimVarValue('L:DEFAULT', 'number')).toBe(5);
+  });
+
+  test('reset keeps the Coherent handlers connected', async () => {
+    const env = new TestEnvironment();
+    env.setup();
+    const id = globalObj.SimVar.GetRegisteredId('L:REG', 'number', '');
+
+    env.reset();
+    await globalObj.Coherent.call('setValueReg_Number', globalObj.SimVar.GetRegisteredId('L:REG', 'number', ''), 3);
+
+    expect(id).toBe(0);
+    expect(env.getSimVar('L:REG', 'number')).toBe(3);
+    env.teardown();
+  });
+});
@@ -0,0 +1,129 @@
+import '../src/setupTests';
+import { PanelEnvironment, simVarMock } from '../src';
+
+describe('PanelEnvironment', () => {
+  const globalObj = globalThis as any;
+  let panel: PanelEnvironment;
+
+  beforeEach(() => {
+    panel = new PanelEnvironment();
+  });
+
+  afterEach(() => {
+    panel.teardown();
+  });
+
+  test('instruments share SimVars but not documents or Coherent history', async () => {
+    const pfd = panel.addInstrument('PFD');
+    const mfd = panel.addInstrument('MFD');
+
+    await pfd.run(() => globalObj.SimVar.SetSimVarValue('L:BARO_MODE', 'number', 2));
+    expect(mfd.run(() => globalObj.SimVar.GetSimVarValue('L:BARO_MODE', 'number'))).toBe(2);
+    expect(panel.simVarMock.getSimVarValue('L:BARO_MODE', 'number')).toBe(2);
+
+    pfd.document.body.innerHTML = '<div id="pfd"></div>';
+    expect(mfd.document.getElementById('pfd')).toBeNull();
+
+    await pfd.run(() => globalObj.Coherent.call('TRIGGER_KEY_EVENT', 'AP_MASTER', true, 0));
+    expect(pfd.env.getKeyEventHistory('AP_MASTER')).toHaveLength(1);
+    expect(mfd.env.getCoherentCallHistory()).toHaveLength(0);
+  });
+
+  test('forwards sync publications to the other instruments', () => {
+    const pfd = panel.addInstrument('PFD');
+    const mfd = panel.addInstrument('MFD');
+    const eis = panel.addInstrument('EIS');
+
+    const mfdPages: any[] = [];
+    const eisPages: any[] = [];
+    const pfdPages: any[] = [];
+    mfd.bus.on('mfd_page', page => mfdPages.push(page));
+    eis.bus.on('mfd_page', page => eisPages.push(page));
+    pfd.bus.on('mfd_page', page => pfdPages.push(page));
+
+    const data = { page: 'map', range: 10 };
+    pfd.run(() => pfd.bus.pub('mfd_page', data, true));
+
+    expect(pfdPages).toEqual([data]);
+    expect(mfdPages).toEqual([{ page: 'map', range: 10 }]);
+    expect(mfdPages[0]).not.toBe(data);
+    expect(eisPages).toHaveLength(1);
+    expect(pfd.isActive()).toBe(true);
+
+    const log = panel.getSyncLog();
+    expect(log).toHaveLength(1);
+    expect(log[0]).toMatchObject({ source: 'PFD', topic: 'mfd_page', data });
+
+    mfd.run(() => mfd.bus.pub('local_only', 1));
+    expect(panel.getSyncLog()).toHaveLength(1);
+  });
+
+  test('holds sync publications until released', () => {
+    const pfd = panel.addInstrument('PFD');
+    const mfd = panel.addInstrument('MFD');
+    const received: number[] = [];
+    mfd.bus.on<number>('heading_bug', value => received.push(value));
+
+    panel.holdSync();
+    pfd.run(() => pfd.bus.pub('heading_bug', 90, true));
+    pfd.run(() => pfd.bus.pub('heading_bug', 180, true));
+    expect(received).toEqual([]);
+
+    panel.releaseSync();
+    expect(received).toEqual([90, 180]);
+  });
+
+  test('drives shared state with fixtures and profiles', () => {
+    panel.addInstrument('PFD');
+    const mfd = panel.addInstrument('MFD');
+    panel.loadFixture('cruise-fl350');
+    expect(mfd.env.getSimVar('INDICATED ALTITUDE', 'feet')).toBe(35000);
+    expect(() => panel.loadFixture('no-such-fixture')).toThrow('Unknown SimVar fixture: no-such-fixture');
+
+    panel.simvars.ramp('INDICATED ALTITUDE', 'feet', 35000, 34000, { over: 1000 });
+    panel.advance(1000);
+    expect(mfd.env.getSimVar('INDICATED ALTITUDE', 'feet')).toBe(34000);
+  });
+
+  test('drives instrument timers and time variables with the panel clock', () => {
+    const pfd = panel.addInstrument('PFD');
+    panel.useVirtualTime();
+    const mfd = panel.addInstrument('MFD');
+    expect(pfd.env.clock).toBe(panel.clock);
+    expect(mfd.env.clock).toBe(panel.clock);
+
+    const fired: string[] = [];
+    pfd.run(() => pfd.window.setTimeout(() => fired.push('PFD'), 500));
+    mfd.run(() => globalObj.setTimeout(() => fired.push('MFD'), 1000));
+    const start = mfd.run(() => globalObj.SimVar.GetSimVarValue('E:SIMULATION TIME', 'seconds'));
+
+    panel.advance(500);
+    expect(fired).toEqual(['PFD']);
+    panel.advance(500);
+    expect(fired).toEqual(['PFD', 'MFD']);
+    expect(pfd.run(() => globalObj.SimVar.GetSimVarValue('E:SIMULATION TIME', 'seconds')) - start).toBeCloseTo(1);
+    expect(mfd.window.Date.now()).toBe(panel.clock.realNow());
+
+    expect(() => pfd.env.useVirtualTime()).toThrow('This environment uses a shared clock');
+  });
+
+  test('rejects duplicate and unknown instruments', () => {
+    panel.addInstrument('PFD');
+    expect(() => panel.addInstrument('PFD')).toThrow('Panel already has an instrument named PFD');
+    expect(() => panel.getInstrument('MFD')).toThrow('Panel has no instrument named MFD');
+  });
+
+  test('teardown restores the previous globals', () => {
+    const coherent = globalObj.Coherent;
+    const simVar = globalObj.SimVar;
+    const panelEnv = new PanelEnvironment();
+    panelEnv.addInstrument('PFD');
+    panelEnv.addInstrument('MFD');
+    expect(globalObj.Coherent).not.toBe(coherent);
+
+    panelEnv.teardown();
+    expect(globalObj.Coherent).toBe(coherent);
+    expect(globalObj.SimVar).toBe(simVar);
+    expect(simVarMock.getSimVarValue('L:BARO_MODE', 'number')).toBe(0);
+  });
+});
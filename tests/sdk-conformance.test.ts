@@ -0,0 +1,130 @@
+import '../src/setupTests';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkSDKConformance, describeSDKConformance, formatSDKConformanceReport, resolveSDKPackageFile, SDKConformanceReport } from '../src';
+
+describe('SDK conformance checker', () => {
+  let dir: string;
+  let report: SDKConformanceReport;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sdk-conformance-'));
+    fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'fake-sdk', version: '9.9.9' }));
+    fs.writeFileSync(path.join(dir, 'sdk.d.ts'), [
+      'export interface Subscription { readonly isAlive: boolean; pause(): this; destroy(): void; }',
+      'export declare class Subject<T> {',
+      '  static create<T>(v: T): Subject<T>;',
+      '  get(): T;',
+      '  sub(handler: (v: T) => void, initialNotify?: boolean): Subscription;',
+      '  map<M>(fn: (v: T) => M): Subject<M>;',
+      '  private value;',
+      '}',
+      'export declare enum Rounding { Down = -1, Nearest = 0, Up = 1 }',
+      'export declare class Wait { static awaitDelay(delay: number): Promise<void>; }',
+      'export interface VNode { instance: unknown; }',
+      'export declare class Vec2Math { static create(x?: number, y?: number): number[]; }',
+    ].join('\n'));
+    fs.writeFileSync(path.join(dir, 'adapter.ts'), [
+      'export interface Subscription { readonly isAlive: boolean; pause(): this; destroy(): void; }',
+      'export class Subject<T> {',
+      '  static create<T>(v: T): Subject<T> { return new Subject(v); }',
+      '  constructor(private value: T) {}',
+      '  get(): T { return this.value; }',
+      '  sub(handler: (v: T) => void): { destroy(): void } { return { destroy: () => undefined }; }',
+      '  notify(): void {}',
+      '}',
+      'export enum Rounding { Down = -1, Nearest = 0, Up = 2 }',
+      'export type Wait = any;',
+      'export const VNode: any = {};',
+      'export class Vec2Math { static create(x: number, y: number): number[] { return [x, y]; } }',
+      'export class DebounceSubject {}',
+    ].join('\n'));
+    report = checkSDKConformance({ adapterFile: path.join(dir, 'adapter.ts'), sdkDeclarationFile: path.join(dir, 'sdk.d.ts') });
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('passes exports that match the SDK', () => {
+    expect(report.sdkVersion).toBe('9.9.9');
+    expect(report.exports.map(entry => entry.name)).toEqual(['DebounceSubject', 'Rounding', 'Subject', 'Subscription', 'VNode', 'Vec2Math', 'Wait']);
+    expect(report.exports.find(entry => entry.name === 'Subscription')).toEqual({
+      name: 'Subscription', adapterKind: 'interface', sdkKind: 'interface', conforms: true, issues: [],
+    });
+    expect(report.exports.find(entry => entry.name === 'DebounceSubject')).toMatchObject({ conforms: true, issues: [{ kind: 'not-in-sdk' }] });
+  });
+
+  test('reports missing members, signatures, enum values and kinds', () => {
+    const issues = (name: string) => report.exports.find(entry => entry.name === name)!.issues;
+
+    expect(issues('Subject')).toEqual([
+      { kind: 'signature', member: 'sub', adapter: '(handler: (v: T) => void) => { destroy(): void; }', sdk: '(handler: (v: T) => void, initialNotify?: boolean | undefined) => Subscription' },
+      { kind: 'missing-member', member: 'map' },
+      { kind: 'extra-member', member: 'notify' },
+    ]);
+    expect(issues('Rounding')).toEqual([{ kind: 'value', member: 'Up', adapter: '2', sdk: '1' }]);
+    expect(issues('Vec2Math')).toEqual([
+      { kind: 'signature', member: 'static create', adapter: '(x: number, y: number) => number[]', sdk: '(x?: number | undefined, y?: number | undefined) => number[]' },
+    ]);
+    expect(issues('Wait')).toEqual([{ kind: 'kind', adapter: 'type', sdk: 'class' }, { kind: 'untyped' }]);
+    expect(issues('VNode')).toEqual([{ kind: 'kind', adapter: 'variable', sdk: 'interface' }]);
+  });
+
+  test('formats a diff per export', () => {
+    const text = formatSDKConformanceReport(report);
+    expect(text).toContain(`against ${path.join(dir, 'sdk.d.ts')} (9.9.9)`);
+    expect(text).toContain('2/7 exports conform');
+    expect(text).toContain('Subject (class)\n  ~ sub: adapter (handler: (v: T) => void) => { destroy(): void; }, SDK');
+    expect(text).toContain('  - map: SDK member missing from the adapter');
+    expect(text).toContain('Wait (type, SDK class)\n  ~ adapter type, SDK class\n  ~ typed any in the adapter');
+    expect(text).not.toContain('notify');
+    expect(formatSDKConformanceReport(report, { includeInformational: true })).toContain('  + notify: not in the SDK');
+  });
+
+  test('rejects exports the adapter does not have', () => {
+    expect(() => checkSDKConformance({ adapterFile: path.join(dir, 'adapter.ts'), sdkDeclarationFile: path.join(dir, 'sdk.d.ts'), exports: ['Nope'] }))
+      .toThrow('SDK conformance: the adapter has no export Nope');
+  });
+});
+
+describe('SDK conformance against the installed msfs-sdk', () => {
+  let report: SDKConformanceReport;
+
+  beforeAll(() => {
+    report = checkSDKConformance();
+  });
+
+  test('checks every adapter export against msfssdk.d.ts', () => {
+    expect(path.basename(report.sdkDeclarationFile)).toBe('msfssdk.d.ts');
+    expect(report.sdkVersion).toBe(JSON.parse(fs.readFileSync(resolveSDKPackageFile('package.json'), 'utf8')).version);
+    expect(path.basename(report.adapterFile)).toBe('SDKAdapterExports.ts');
+    expect(report.exports.length).toBeGreaterThan(50);
+  });
+
+  test('reports the diffs of the real declarations', () => {
+    const entry = (name: string) => report.exports.find(e => e.name === name)!;
+
+    expect(entry('UnitType')).toMatchObject({ adapterKind: 'class', sdkKind: 'class', conforms: true });
+    expect(entry('Subscription')).toMatchObject({ sdkKind: 'interface', conforms: false });
+    expect(entry('Subscription').issues).toContainEqual({ kind: 'missing-member', member: 'withLifecycle' });
+    expect(formatSDKConformanceReport(report)).toContain(`against ${report.sdkDeclarationFile} (${report.sdkVersion})`);
+  });
+});
+
+test('explains how to install TypeScript when it is missing', () => {
+  jest.isolateModules(() => {
+    jest.doMock('typescript', () => {
+      throw new Error("Cannot find module 'typescript'");
+    });
+    const { checkSDKConformance: check } = require('../src/test-utils/SDKConformance');
+    expect(() => check()).toThrow('The SDK conformance checker needs the typescript package, an optional peer dependency of @avimate/msfs-jest-utils: npm install --save-dev typescript');
+  });
+  jest.dontMock('typescript');
+});
+
+// The adapter exports known to match the installed msfs-sdk; the full report lists what the mocks need next
+describeSDKConformance({
+  exports: ['Consumer', 'EventSubscriber', 'GeoProjection', 'MapProjection', 'NumberFormatter', 'NumberUnit', 'Publisher', 'SimVarValueType', 'UnitType', 'Vec3Math'],
+});
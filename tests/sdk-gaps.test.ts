@@ -0,0 +1,106 @@
+import '../src/setupTests';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as msfsSdk from '@microsoft/msfs-sdk';
+import { extractSDKImports, formatSDKGapReport, guardSDKExports, scanSDKGaps } from '../src';
+
+describe('SDK export guard', () => {
+  test('throws a clear error for exports the adapter does not mock', () => {
+    const sdk = msfsSdk as Record<string, any>;
+    expect(() => new sdk.LerpLookupTable([[0, 0]])).toThrow('msfs-sdk export LerpLookupTable is not mocked by @avimate/msfs-jest-utils');
+
+    const garmin = jest.requireActual('../src/mocks/GarminSDKAdapter');
+    expect(() => garmin.GarminMapKeys.Units).not.toThrow();
+    expect(() => garmin.UnitsUserSettings).toThrow('msfs-garminsdk export UnitsUserSettings is not mocked by @avimate/msfs-jest-utils');
+  });
+
+  test('leaves mocked exports, interop probes and reflection alone', () => {
+    const sdk = msfsSdk as Record<string, any>;
+    expect(sdk.Subject.create(1).get()).toBe(1);
+    expect(sdk.__esModule).toBe(true);
+    expect(sdk.then).toBeUndefined();
+    expect(sdk.default).toBeUndefined();
+    expect('LerpLookupTable' in sdk).toBe(false);
+    expect(Object.keys(sdk)).toContain('GeoPoint');
+
+    const guarded = guardSDKExports({ present: 1 }, 'my-sdk') as Record<string, any>;
+    expect(guarded.present).toBe(1);
+    expect(() => guarded.absent).toThrow('my-sdk export absent is not mocked by @avimate/msfs-jest-utils');
+  });
+});
+
+describe('SDK gap report', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sdk-gaps-'));
+    fs.mkdirSync(path.join(rootDir, 'src', 'pfd'), { recursive: true });
+    fs.mkdirSync(path.join(rootDir, 'node_modules', 'lib'), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'src', 'pfd', 'Altimeter.tsx'), [
+      "import { DisplayComponent, FSComponent, LerpLookupTable, VNode } from '@microsoft/msfs-sdk';",
+      "import type { ExpSmoother } from '@microsoft/msfs-sdk';",
+      "import { UnitsUserSettings } from '@microsoft/msfs-garminsdk';",
+      '// import { NotImported } from \'@microsoft/msfs-sdk\';',
+    ].join('\n'));
+    fs.writeFileSync(path.join(rootDir, 'src', 'Sdk.ts'), [
+      "import * as sdk from '@microsoft/msfs-sdk'",
+      'const table = new sdk.LerpLookupTable([])',
+      'const smoother = new sdk.ExpSmoother(1)',
+      'const interop = sdk.default ?? sdk.then',
+      "export { GeoPoint, type MapProjectionParameters, Subject as Value } from '@microsoft/msfs-sdk'",
+    ].join('\n'));
+    fs.writeFileSync(path.join(rootDir, 'node_modules', 'lib', 'index.ts'), "import { Wait } from '@microsoft/msfs-sdk';");
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  test('extracts value imports only', () => {
+    expect(extractSDKImports("import { A, type B, C as D } from '@microsoft/msfs-sdk/sub';\nimport type { E } from '@microsoft/msfs-sdk';")).toEqual([
+      { module: '@microsoft/msfs-sdk', name: 'A' },
+      { module: '@microsoft/msfs-sdk', name: 'C' },
+    ]);
+  });
+
+  test('lists imported SDK exports the adapters do not provide', () => {
+    const report = scanSDKGaps({ rootDir });
+
+    expect(report.files).toBe(2);
+    expect(report.imported).toEqual({ '@microsoft/msfs-garminsdk': 1, '@microsoft/msfs-sdk': 7 });
+    expect(report.gaps).toEqual([
+      { module: '@microsoft/msfs-sdk', name: 'ExpSmoother', files: ['src/Sdk.ts'] },
+      { module: '@microsoft/msfs-sdk', name: 'LerpLookupTable', files: ['src/Sdk.ts', 'src/pfd/Altimeter.tsx'] },
+    ]);
+    // No Garmin SDK bundle to tell exports from types
+    expect(report.adapterOnly).toEqual(['@microsoft/msfs-garminsdk']);
+    expect(report.unverified).toEqual([
+      { module: '@microsoft/msfs-garminsdk', name: 'UnitsUserSettings', files: ['src/pfd/Altimeter.tsx'] },
+    ]);
+
+    const text = formatSDKGapReport(report);
+    expect(text).toContain('@microsoft/msfs-sdk: 7 exports imported, 2 not mocked');
+    expect(text).toContain('@microsoft/msfs-sdk LerpLookupTable - src/Sdk.ts, src/pfd/Altimeter.tsx');
+    expect(text).toContain('@microsoft/msfs-garminsdk: 1 exports imported, 1 not in the adapter (SDK bundle not found: checked against the adapter only)');
+  });
+
+  test('does not report types as gaps without the SDK bundle', () => {
+    const report = scanSDKGaps({ rootDir, runtimeExports: {} });
+    expect(report.gaps).toEqual([]);
+    expect(report.adapterOnly).toEqual(['@microsoft/msfs-garminsdk', '@microsoft/msfs-sdk']);
+    expect(report.unverified.map(gap => gap.name)).toEqual(['UnitsUserSettings', 'ExpSmoother', 'LerpLookupTable', 'VNode']);
+    expect(formatSDKGapReport(report)).toContain('Not in the adapter, missing exports or types imported without `import type`:\n@microsoft/msfs-garminsdk UnitsUserSettings');
+  });
+
+  test('reports no gaps against a complete surface', () => {
+    const adapters = { '@microsoft/msfs-sdk': { ...msfsSdk, ExpSmoother: {}, LerpLookupTable: {} }, '@microsoft/msfs-garminsdk': { UnitsUserSettings: {} } };
+    const report = scanSDKGaps({ rootDir, adapters });
+    expect(report.gaps).toEqual([]);
+    expect(report.unverified).toEqual([]);
+
+    fs.rmSync(path.join(rootDir, 'src', 'Sdk.ts'));
+    fs.writeFileSync(path.join(rootDir, 'src', 'pfd', 'Altimeter.tsx'), "import { Subject } from '@microsoft/msfs-sdk';");
+    expect(formatSDKGapReport(scanSDKGaps({ rootDir }))).toContain('All imported SDK exports are mocked by @avimate/msfs-jest-utils');
+  });
+});
@@ -0,0 +1,85 @@
+import '../src/setupTests';
+import { TestEnvironment, simVarMock, getSimVarCatalogEntry, registerSimVarCatalogEntries, validateSimVarAccess } from '../src';
+
+describe('SimVar catalog', () => {
+  const globalObj = globalThis as any;
+
+  afterEach(() => {
+    simVarMock.reset();
+    jest.restoreAllMocks();
+  });
+
+  test('describes documented SimVars', () => {
+    expect(getSimVarCatalogEntry('ENGINE RPM:2')).toMatchObject({ name: 'ENGINE RPM', index: { min: 1, max: 4 }, settable: false });
+    expect(getSimVarCatalogEntry('PLANE ALTITUDE')).toMatchObject({ units: ['length'], settable: 'slew' });
+    expect(getSimVarCatalogEntry('STRUCT LATLONALT')?.struct).toBe('latlonalt');
+    expect(getSimVarCatalogEntry('NOT A SIMVAR')).toBeUndefined();
+  });
+
+  test('flags incompatible units, bad indexes and read-only writes', () => {
+    expect(validateSimVarAccess('AIRSPEED INDICATED', 'degrees', 'read').map(issue => issue.kind)).toEqual(['unit']);
+    expect(validateSimVarAccess('AIRSPEED INDICATED', 'number', 'read')).toEqual([]);
+    expect(validateSimVarAccess('ENGINE RPM:0', 'rpm', 'read').map(issue => issue.kind)).toEqual(['index']);
+    expect(validateSimVarAccess('ENGINE RPM', 'rpm', 'read').map(issue => issue.kind)).toEqual(['index']);
+    expect(validateSimVarAccess('PLANE ALTITUDE:1', 'feet', 'read').map(issue => issue.kind)).toEqual(['index']);
+    expect(validateSimVarAccess('PLANE ALTITUDE', 'feet', 'write')).toEqual([]);
+    expect(validateSimVarAccess('PLANE ALTITUDE', 'feet', 'instrument-write').map(issue => issue.kind)).toEqual(['read-only']);
+    expect(validateSimVarAccess('PLANE ALTITUDE', 'feet', 'instrument-write', true)).toEqual([]);
+    expect(validateSimVarAccess('STRUCT LATLONALT', 'degrees', 'read').map(issue => issue.kind)).toEqual(['unit']);
+  });
+
+  test('is off by default and warns once enabled', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    globalObj.SimVar.GetSimVarValue('AIRSPEED INDICATED', 'degrees');
+    expect(warn).not.toHaveBeenCalled();
+
+    simVarMock.enableCatalogValidation();
+    globalObj.SimVar.GetSimVarValue('AIRSPEED INDICATED', 'degrees');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('SimVar AIRSPEED INDICATED cannot be used in degrees'));
+
+    simVarMock.disableCatalogValidation();
+    simVarMock.reset();
+    globalObj.SimVar.GetSimVarValue('AIRSPEED INDICATED', 'degrees');
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+
+  test('only checks writability of instrument writes, honoring slew mode', async () => {
+    simVarMock.enableCatalogValidation({ mode: 'collect' });
+
+    simVarMock.setSimVarValue('PLANE ALTITUDE', 'feet', 1000);
+    expect(simVarMock.getCatalogViolations()).toEqual([]);
+
+    await globalObj.SimVar.SetSimVarValue('PLANE ALTITUDE', 'feet', 2000);
+    expect(simVarMock.getCatalogViolations()).toEqual([
+      expect.objectContaining({ kind: 'read-only', name: 'PLANE ALTITUDE', operation: 'set' })
+    ]);
+
+    simVarMock.clearCatalogViolations();
+    simVarMock.keyEvents.trigger('SLEW_ON');
+    await globalObj.SimVar.SetSimVarValue('PLANE ALTITUDE', 'feet', 3000);
+    expect(simVarMock.getCatalogViolations()).toEqual([]);
+    expect(simVarMock.getSimVarValue('PLANE ALTITUDE', 'feet')).toBe(3000);
+  });
+
+  test('throw mode fails the access; unknown SimVars are reported on request', () => {
+    simVarMock.enableCatalogValidation({ mode: 'throw', reportUnknown: true });
+
+    expect(() => globalObj.SimVar.GetSimVarValue('ENGINE RPM:0', 'rpm')).toThrow(/index 0 outside of 1\.\.4/);
+    expect(() => globalObj.SimVar.GetSimVarValue('PLANE ALTITUDES', 'feet')).toThrow(/not in the SimVar catalog/);
+    expect(globalObj.SimVar.GetSimVarValue('L:ANYTHING', 'degrees')).toBe(0);
+
+    registerSimVarCatalogEntries([{ name: 'my custom var', units: ['length'], settable: true }]);
+    expect(globalObj.SimVar.GetSimVarValue('MY CUSTOM VAR', 'feet')).toBe(0);
+  });
+
+  test('TestEnvironment teardown fails with collected violations', () => {
+    const env = new TestEnvironment();
+    env.setup({ simVarCatalog: { mode: 'collect' } });
+
+    env.getSimVar('AIRSPEED INDICATED', 'degrees');
+
+    expect(env.getSimVarCatalogViolations()).toHaveLength(1);
+    expect(() => env.teardown()).toThrow(/SimVar catalog: 1 invalid access/);
+  });
+});
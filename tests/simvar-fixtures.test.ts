@@ -0,0 +1,89 @@
+import '../src/setupTests';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TestEnvironment, getSimVarFixtureNames, registerSimVarFixture, simVarMock } from '../src';
+
+describe('SimVar snapshots and fixtures', () => {
+  const globalObj = globalThis as any;
+
+  afterEach(() => {
+    simVarMock.reset();
+  });
+
+  test('snapshot/restore covers values, registered IDs and the access log', () => {
+    simVarMock.setSimVarValue('L:FLAPS', 'number', 1);
+    simVarMock.setLatLongAlt('L:WAYPOINT', { lat: 47, long: -122, alt: 1000 });
+    const id = globalObj.SimVar.GetRegisteredId('L:FLAPS', 'number', '');
+    const snapshot = simVarMock.snapshot();
+
+    simVarMock.setSimVarValue('L:FLAPS', 'number', 3);
+    simVarMock.setLatLongAlt('L:WAYPOINT', { lat: 0 });
+    simVarMock.setSimVarValue('L:NEW', 'number', 1);
+    globalObj.SimVar.GetRegisteredId('L:OTHER', 'number', '');
+
+    simVarMock.restore(snapshot);
+
+    expect(simVarMock.getSimVarValue('L:FLAPS', 'number')).toBe(1);
+    expect(simVarMock.getLatLongAlt('L:WAYPOINT')).toEqual({ lat: 47, long: -122, alt: 1000 });
+    expect(simVarMock.hasSimVar('L:NEW', 'number')).toBe(false);
+    expect(globalObj.simvar.getValueReg(id)).toBe(1);
+    expect(globalObj.SimVar.GetRegisteredId('L:OTHER', 'number', '')).toBe(id + 1);
+    expect(simVarMock.getAccessLog().map(entry => entry.name)).toContain('L:WAYPOINT');
+  });
+
+  test('exported fixtures load back, starting from the defaults', () => {
+    simVarMock.setSimVarValue('PLANE ALTITUDE', 'feet', 35000);
+    simVarMock.setSimVarValue('ATC ID', 'string', 'N123AB');
+    simVarMock.setSimVarValue('L:MODE', 'number', 2, 'WT');
+    const fixture = JSON.parse(JSON.stringify(simVarMock.exportFixture('my-state')));
+
+    expect(fixture.name).toBe('my-state');
+    expect(fixture.simvars['PLANE ALTITUDE|feet']).toBe(35000);
+    expect(fixture.simvars['L:MODE|number|WT']).toBe(2);
+
+    simVarMock.reset();
+    simVarMock.setSimVarValue('L:LEFTOVER', 'number', 1);
+    simVarMock.loadFixture(fixture);
+
+    expect(simVarMock.getSimVarValue('PLANE ALTITUDE', 'meters')).toBeCloseTo(10668);
+    expect(simVarMock.getSimVarValue('ATC ID', 'string')).toBe('N123AB');
+    expect(simVarMock.getSimVarValue('L:MODE', 'number', 'WT')).toBe(2);
+    expect(simVarMock.hasSimVar('L:LEFTOVER', 'number')).toBe(false);
+
+    simVarMock.loadFixture({ simvars: { 'L:LEFTOVER|number': 5 } }, { merge: true });
+    expect(simVarMock.getSimVarValue('ATC ID', 'string')).toBe('N123AB');
+    expect(() => simVarMock.loadFixture({ simvars: { 'PLANE ALTITUDE': 1 } })).toThrow('must be keyed by NAME|unit');
+  });
+
+  test('TestEnvironment starts from bundled, registered or file fixtures', () => {
+    expect(getSimVarFixtureNames()).toEqual(expect.arrayContaining(['cold-and-dark', 'cruise-fl350', 'ils-final']));
+
+    const env = new TestEnvironment();
+    env.setup({ fixture: 'cruise-fl350', simVarCatalog: { mode: 'collect' } });
+    expect(env.getSimVar('PLANE ALTITUDE', 'feet')).toBe(35000);
+    expect(env.getSimVar('AUTOPILOT MASTER', 'bool')).toBe(1);
+    expect(env.getSimVarCatalogViolations()).toEqual([]);
+
+    env.loadFixture('cold-and-dark');
+    expect(env.getSimVar('BRAKE PARKING POSITION', 'bool')).toBe(1);
+
+    env.loadFixture('ils-final');
+    expect(env.getSimVar('NAV ACTIVE FREQUENCY:1', 'MHz')).toBeCloseTo(111.7);
+    expect(env.getSimVar('GEAR HANDLE POSITION', 'bool')).toBe(1);
+    expect(env.getSimVarCatalogViolations()).toEqual([]);
+
+    registerSimVarFixture({ name: 'hot-day', simvars: { 'AMBIENT TEMPERATURE|celsius': 45 } });
+    env.loadFixture('hot-day');
+    expect(env.getSimVar('AMBIENT TEMPERATURE', 'fahrenheit')).toBeCloseTo(113);
+
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'simvar-fixture-')), 'state.json');
+    fs.writeFileSync(file, JSON.stringify(env.exportFixture()));
+    env.teardown();
+
+    env.setup({ fixture: file });
+    expect(env.getSimVar('AMBIENT TEMPERATURE', 'celsius')).toBe(45);
+    expect(() => env.loadFixture('no-such-fixture')).toThrow('Unknown SimVar fixture: no-such-fixture');
+    env.teardown();
+  });
+});
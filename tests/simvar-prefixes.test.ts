@@ -0,0 +1,69 @@
+import '../src/setupTests';
+import { TestEnvironment, parseSimVarName, simVarMock } from '../src';
+
+describe('SimVarMock variable prefixes', () => {
+  let env: TestEnvironment;
+  const globalObj = globalThis as any;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup();
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('parses prefixes into namespaces', () => {
+    expect(parseSimVarName('A:PLANE ALTITUDE')).toEqual({ prefix: 'A', name: 'PLANE ALTITUDE', key: 'PLANE ALTITUDE' });
+    expect(parseSimVarName('ENGINE RPM:1')).toEqual({ prefix: 'A', name: 'ENGINE RPM:1', key: 'ENGINE RPM:1' });
+    expect(parseSimVarName('l:MY_VAR')).toEqual({ prefix: 'L', name: 'MY_VAR', key: 'L:MY_VAR' });
+  });
+
+  test('A: prefix and plain names refer to the same simvar', () => {
+    env.setSimVar('A:PLANE ALTITUDE', 'feet', 5000);
+
+    expect(globalObj.SimVar.GetSimVarValue('PLANE ALTITUDE', 'feet')).toBe(5000);
+    expect(globalObj.SimVar.GetSimVarValue('A:PLANE ALTITUDE', 'feet')).toBe(5000);
+  });
+
+  test('L: vars are numbers and separate from A: vars', async () => {
+    await globalObj.SimVar.SetSimVarValue('L:MY_VAR', 'number', '42');
+
+    expect(env.getSimVar('L:MY_VAR', 'number')).toBe(42);
+    expect(simVarMock.hasSimVar('MY_VAR', 'number')).toBe(false);
+  });
+
+  test('E: vars are read-only and follow the time source', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    let now = Date.UTC(2024, 5, 1, 12, 30, 0);
+    simVarMock.setTimeSource(() => now);
+
+    await globalObj.SimVar.SetSimVarValue('E:ZULU TIME', 'seconds', 0);
+    now += 90 * 1000;
+
+    expect(warn).toHaveBeenCalled();
+    expect(env.getSimVar('E:ZULU TIME', 'seconds')).toBe(12 * 3600 + 31 * 60 + 30);
+    expect(env.getSimVar('E:SIMULATION TIME', 'minutes')).toBeCloseTo(1.5);
+    expect(env.getSimVar('E:ZULU YEAR', 'number')).toBe(2024);
+    warn.mockRestore();
+  });
+
+  test('other E: vars can be set from tests', () => {
+    env.setEnvironmentVar('E:SIMULATION RATE', 'number', 4);
+
+    expect(globalObj.SimVar.GetSimVarValue('E:SIMULATION RATE', 'number')).toBe(4);
+  });
+
+  test('B: input events understand Set/Inc/Dec/Toggle suffixes', async () => {
+    await globalObj.SimVar.SetSimVarValue('B:LIGHTING_PANEL_1_Set', 'number', 40);
+    await globalObj.SimVar.SetSimVarValue('B:LIGHTING_PANEL_1_Inc', 'number', 0);
+    expect(env.getSimVar('B:LIGHTING_PANEL_1', 'number')).toBe(41);
+
+    await globalObj.SimVar.SetSimVarValue('B:LIGHTING_PANEL_1_Dec', 'number', 5);
+    expect(env.getSimVar('B:LIGHTING_PANEL_1', 'number')).toBe(36);
+
+    await globalObj.SimVar.SetSimVarValue('B:FUEL_PUMP_Toggle', 'number', 0);
+    expect(env.getSimVar('B:FUEL_PUMP', 'number')).toBe(1);
+  });
+});
@@ -0,0 +1,76 @@
+import '../src/setupTests';
+import { SimVarProfileSegment, SimVarProfiles, TestEnvironment } from '../src';
+
+describe('Scripted SimVar profiles', () => {
+  let env: TestEnvironment;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup();
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('ramps a SimVar over virtual time', () => {
+    const handle = env.simvars.ramp('AIRSPEED INDICATED', 'knots', 0, 120, { over: 30_000 });
+    expect(env.getSimVar('AIRSPEED INDICATED', 'knots')).toBe(0);
+
+    env.advance(15_000, 1000);
+    expect(env.getSimVar('AIRSPEED INDICATED', 'knots')).toBeCloseTo(60);
+    expect(handle.isComplete()).toBe(false);
+
+    env.advance(20_000, 1000);
+    expect(env.getSimVar('AIRSPEED INDICATED', 'knots')).toBe(120);
+    expect(handle.isComplete()).toBe(true);
+    expect(env.simvars.isRunning('AIRSPEED INDICATED')).toBe(false);
+  });
+
+  test('oscillates until cancelled', () => {
+    const handle = env.simvars.oscillate('PLANE BANK DEGREES', 'degrees', { center: 0, amplitude: 10, period: 4000 });
+
+    env.advance(1000, 100);
+    expect(env.getSimVar('PLANE BANK DEGREES', 'degrees')).toBeCloseTo(10);
+    env.advance(2000, 100);
+    expect(env.getSimVar('PLANE BANK DEGREES', 'degrees')).toBeCloseTo(-10);
+
+    handle.destroy();
+    env.advance(1000, 100);
+    expect(env.getSimVar('PLANE BANK DEGREES', 'degrees')).toBeCloseTo(-10);
+  });
+
+  test('steps and holds with delays', () => {
+    env.simvars.step('GEAR HANDLE POSITION', 'bool', 1, { delay: 500 });
+    env.simvars.hold('L:HELD', 'number', 7, { over: 1000 });
+
+    env.advance(400, 100);
+    expect(env.getSimVar('GEAR HANDLE POSITION', 'bool')).toBe(0);
+    env.setSimVar('L:HELD', 'number', 1);
+    env.advance(100, 100);
+    expect(env.getSimVar('GEAR HANDLE POSITION', 'bool')).toBe(1);
+    expect(env.getSimVar('L:HELD', 'number')).toBe(7);
+  });
+
+  test('runs sequences of segments and replaces running profiles', () => {
+    env.setSimVar('VERTICAL SPEED', 'feet per minute', 0);
+    const climbAndDescend: SimVarProfileSegment[] = [
+      { type: 'ramp', to: 1000, over: 1000 },
+      { type: 'hold', over: 1000 },
+      { type: 'step', value: -500 },
+      { type: 'ramp', to: 0, over: 1000 },
+    ];
+    expect(env.simvars).toBeInstanceOf(SimVarProfiles);
+    env.simvars.sequence('VERTICAL SPEED', 'feet per minute', climbAndDescend);
+
+    const samples: number[] = [];
+    env.clock.onTick(() => samples.push(env.getSimVar('VERTICAL SPEED', 'feet per minute')));
+    env.advance(3000, 500);
+    expect(samples).toEqual([500, 1000, 1000, -500, -250, 0]);
+
+    env.simvars.ramp('VERTICAL SPEED', 'feet per minute', 0, 100, { over: 1000 });
+    env.simvars.ramp('VERTICAL SPEED', 'feet per minute', 0, -100, { over: 1000 });
+    env.advance(1000, 500);
+    expect(env.getSimVar('VERTICAL SPEED', 'feet per minute')).toBe(-100);
+  });
+});
@@ -0,0 +1,210 @@
+import '../src/setupTests';
+import {
+  BasePublisher,
+  EventBus,
+  EventBusRecorder,
+  IntervalPacer,
+  PanelEnvironment,
+  SimVarPublisher,
+  SimVarValueType,
+  TestEnvironment,
+  mountInstrument,
+} from '../src';
+
+interface AdcEvents {
+  indicated_alt: number;
+  on_ground: boolean;
+  eng_rpm: number;
+  [eng_rpm: `eng_rpm_${number}`]: number;
+}
+
+/**
+ * Publisher like the SDK ADC/engine publishers
+ */
+class AdcPublisher extends SimVarPublisher<AdcEvents> {
+  constructor(bus: EventBus, pacer?: IntervalPacer<AdcEvents>) {
+    super([
+      ['indicated_alt', { name: 'INDICATED ALTITUDE', type: SimVarValueType.Feet }],
+      ['on_ground', { name: 'SIM ON GROUND', type: SimVarValueType.Bool }],
+      ['eng_rpm', { name: 'GENERAL ENG RPM:#index#', type: SimVarValueType.RPM, indexed: [1, 2] }],
+    ], bus, pacer);
+  }
+}
+
+describe('SimVarPublisher', () => {
+  let env: TestEnvironment;
+  let bus: EventBus;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup({ virtualTime: true });
+    bus = new EventBus();
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('publishes subscribed SimVars on each virtual frame', () => {
+    const recorder = new EventBusRecorder(bus);
+    const publisher = new AdcPublisher(bus);
+    publisher.startPublish();
+    env.setSimVar('INDICATED ALTITUDE', 'feet', 4500);
+
+    const altitudes: number[] = [];
+    bus.getSubscriber<AdcEvents>().on('indicated_alt').whenChanged().handle(alt => altitudes.push(alt));
+    expect(altitudes).toEqual([4500]);
+
+    env.setSimVar('INDICATED ALTITUDE', 'feet', 5000);
+    expect(altitudes).toEqual([4500]);
+    env.advance(16);
+    expect(altitudes).toEqual([4500, 5000]);
+
+    // Topics nobody subscribed to are not published
+    expect(recorder.getTopics()).not.toContain('on_ground');
+    expect(publisher.isFrameDriven()).toBe(true);
+  });
+
+  test('resolves indexed topics and coerces bools', () => {
+    const publisher = new AdcPublisher(bus);
+    publisher.startPublish();
+    env.setSimVar('GENERAL ENG RPM:1', 'rpm', 2400);
+    env.setSimVar('GENERAL ENG RPM:2', 'rpm', 2350);
+    env.setSimVar('SIM ON GROUND', 'bool', 1);
+
+    const rpm: Record<string, number> = {};
+    const subscriber = bus.getSubscriber<AdcEvents>();
+    subscriber.on('eng_rpm_2').handle(value => rpm.eng2 = value);
+    subscriber.on('eng_rpm').handle(value => rpm.default = value);
+    subscriber.on('eng_rpm_3').handle(value => rpm.eng3 = value);
+    let onGround: boolean | undefined;
+    subscriber.on('on_ground').handle(value => onGround = value);
+
+    expect(rpm).toEqual({ eng2: 2350, default: 2400 });
+    expect(onGround).toBe(true);
+    expect(publisher.getValue('indicated_alt')).toBe(0);
+  });
+
+  test('publishes only while started, through the pacer', () => {
+    const recorder = new EventBusRecorder(bus);
+    const publisher = new AdcPublisher(bus, new IntervalPacer<AdcEvents>(100));
+    bus.getSubscriber<AdcEvents>().on('indicated_alt').handle(() => undefined);
+
+    env.advance(100);
+    expect(recorder.getPublications('indicated_alt')).toHaveLength(0);
+
+    publisher.startPublish();
+    env.advance(1000, 50);
+    expect(bus).toHavePublishedAtMostPerSecond('indicated_alt', 10);
+    expect(bus).toHavePublishedTimes('indicated_alt', 10);
+
+    publisher.stopPublish();
+    env.advance(1000);
+    expect(bus).toHavePublishedTimes('indicated_alt', 10);
+  });
+
+  test('lets instrument code take over onUpdate()', () => {
+    const updates: number[] = [];
+    class FramePublisher extends BasePublisher<{ frame: number }> {
+      onUpdate(): void {
+        updates.push(Date.now());
+      }
+    }
+    const publisher = new FramePublisher(bus);
+
+    env.advance(50, 25);
+    expect(updates).toHaveLength(2);
+
+    publisher.onUpdate();
+    env.advance(50, 25);
+    expect(updates).toHaveLength(3);
+    expect(publisher.isFrameDriven()).toBe(false);
+  });
+
+  test('calls an onUpdate class field on frames and hands over through super.onUpdate()', () => {
+    const updates: string[] = [];
+    class FieldPublisher extends BasePublisher<{ frame: number }> {
+      onUpdate = (): void => {
+        updates.push('field');
+        super.onUpdate();
+      };
+    }
+    const publisher = new FieldPublisher(bus);
+
+    env.advance(50, 25);
+    expect(updates).toEqual(['field', 'field']);
+    expect(publisher.isFrameDriven()).toBe(true);
+
+    publisher.onUpdate();
+    env.advance(50, 25);
+    expect(updates).toHaveLength(3);
+    expect(publisher.isFrameDriven()).toBe(false);
+  });
+
+  test('stops frame updates on teardown', () => {
+    const updates: number[] = [];
+    class FramePublisher extends BasePublisher<{ frame: number }> {
+      onUpdate(): void {
+        updates.push(Date.now());
+      }
+    }
+    const publisher = new FramePublisher(bus);
+    const clock = env.clock;
+
+    env.teardown();
+    expect(publisher.isFrameDriven()).toBe(false);
+    clock.advance(50, 25);
+    expect(updates).toEqual([]);
+    env.setup({ virtualTime: true });
+  });
+
+  test('drives bus-driven instruments from SimVars', () => {
+    class AltimeterInstrument extends (globalThis as any).BaseInstrument {
+      readonly bus = new EventBus();
+      readonly publisher = new AdcPublisher(this.bus);
+
+      get templateID(): string {
+        return 'AltimeterInstrument';
+      }
+
+      protected Init(): void {
+        super.Init();
+        this.publisher.startPublish();
+        this.bus.getSubscriber<AdcEvents>().on('indicated_alt').withPrecision(-1).handle((alt: number) => {
+          this.getChildById('Alt').textContent = `${alt}`;
+        });
+      }
+
+      protected Update(): void {
+        super.Update();
+        this.publisher.onUpdate();
+      }
+    }
+
+    const mounted = mountInstrument(AltimeterInstrument, { env, templateHtml: '<div id="Alt"></div>' });
+    env.setSimVar('INDICATED ALTITUDE', 'feet', 5004);
+    mounted.advance(100);
+
+    expect(mounted.element.querySelector('#Alt')!.textContent).toBe('5000');
+    expect(mounted.instrument.publisher.isFrameDriven()).toBe(false);
+    mounted.unmount();
+  });
+});
+
+describe('SimVarPublisher in a panel', () => {
+  test('updates on the frames of the panel clock', () => {
+    const panel = new PanelEnvironment();
+    const pfd = panel.addInstrument('PFD');
+    const publisher = pfd.run(() => new AdcPublisher(pfd.bus));
+    publisher.startPublish();
+
+    const altitudes: number[] = [];
+    pfd.bus.getSubscriber<AdcEvents>().on('indicated_alt').whenChanged().handle(alt => altitudes.push(alt));
+    panel.simVarMock.setSimVarValue('INDICATED ALTITUDE', 'feet', 12000);
+    panel.advance(16);
+
+    expect(altitudes).toEqual([0, 12000]);
+    panel.teardown();
+    expect(publisher.isFrameDriven()).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import '../src/setupTests';
+import { TestEnvironment, simVarMock } from '../src';
+
+describe('Strict SimVar mode', () => {
+  const globalObj = globalThis as any;
+
+  afterEach(() => {
+    simVarMock.reset();
+  });
+
+  test('is off by default', () => {
+    expect(globalObj.SimVar.GetSimVarValue('AIRSPEED INDICATD', 'knots')).toBe(0);
+    expect(simVarMock.isStrictMode()).toBe(false);
+  });
+
+  test('throw mode fails the read of an unset SimVar', () => {
+    simVarMock.enableStrictMode({ mode: 'throw' });
+
+    expect(() => globalObj.SimVar.GetSimVarValue('AIRSPEED INDICATD', 'knots')).toThrow(/AIRSPEED INDICATD \(knots\) was read but never set/);
+    expect(globalObj.SimVar.GetSimVarValue('AIRSPEED INDICATED', 'knots')).toBe(0);
+  });
+
+  test('collect mode records violations with call sites, honoring the allowlist', () => {
+    simVarMock.enableStrictMode({ allowlist: ['L:OPTIONAL_VAR', /^L:DEBUG_/] });
+
+    globalObj.SimVar.GetSimVarValue('L:OPTIONAL_VAR', 'number');
+    globalObj.SimVar.GetSimVarValue('L:DEBUG_LEVEL', 'number');
+    globalObj.SimVar.GetSimVarValue('L:TYPO_VAR', 'number');
+    const id = globalObj.SimVar.GetRegisteredId('L:TYPO_VAR', 'number', '');
+    simVarMock.getValueReg(id);
+
+    const violations = simVarMock.getStrictViolations();
+    expect(violations.map(v => v.name)).toEqual(['L:TYPO_VAR', 'L:TYPO_VAR']);
+    expect(violations[0].callSite).toContain('simvar-strict.test.ts');
+    expect(simVarMock.formatStrictViolations()).toContain('L:TYPO_VAR (number) x2');
+  });
+
+  test('TestEnvironment teardown fails with a summary of the violations', () => {
+    const env = new TestEnvironment();
+    env.setup({ strictSimVars: true });
+
+    env.getSimVar('ENGINE RPM:2', 'rpm');
+
+    expect(env.getStrictSimVarReport()).toContain('ENGINE RPM:2 (rpm) x1');
+    expect(() => env.teardown()).toThrow(/Strict SimVar mode: 1 read\(s\) of SimVars that were never set/);
+    expect(simVarMock.isStrictMode()).toBe(false);
+  });
+
+  test('TestEnvironment reset keeps strict mode, catalog validation and virtual time', () => {
+    const env = new TestEnvironment();
+    env.setup({ strictSimVars: true, simVarCatalog: { mode: 'collect' }, virtualTime: true });
+
+    env.getSimVar('ENGINE RPM:2', 'rpm');
+    expect(env.simVarMock.getStrictViolations()).toHaveLength(1);
+    env.reset();
+    expect(env.simVarMock.getStrictViolations()).toHaveLength(0);
+    env.getSimVar('ENGINE RPM:2', 'rpm');
+    expect(env.simVarMock.getStrictViolations()).toHaveLength(1);
+
+    env.getSimVar('AIRSPEED INDICATED', 'degrees');
+    expect(env.simVarMock.getCatalogViolations()).toEqual([expect.objectContaining({ kind: 'unit', name: 'AIRSPEED INDICATED' })]);
+
+    env.advance(2000);
+    expect(env.getSimVar('E:SIMULATION TIME', 'seconds')).toBeCloseTo(2);
+
+    env.simVarMock.clearState();
+    env.teardown();
+  });
+});
@@ -0,0 +1,52 @@
+import '../src/setupTests';
+import { TestEnvironment, simVarMock } from '../src';
+
+describe('Struct-valued SimVars', () => {
+  let env: TestEnvironment;
+  const globalObj = globalThis as any;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup();
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('STRUCT LATLONALT mirrors the plane position scalars', () => {
+    env.setLatLongAlt('STRUCT LATLONALT', { lat: 47.45, long: -122.31, alt: 430 });
+
+    expect(env.getSimVar('PLANE LATITUDE', 'degrees')).toBe(47.45);
+    expect(env.getSimVar('PLANE ALTITUDE', 'meters')).toBeCloseTo(131.064);
+
+    env.setSimVar('PLANE LONGITUDE', 'degrees', -122.3);
+    expect(globalObj.simvar.getValue_LatLongAlt('STRUCT LATLONALT', '')).toEqual({ lat: 47.45, long: -122.3, alt: 430 });
+  });
+
+  test('STRUCT LATLONALTPBH includes the plane attitude', () => {
+    env.setSimVar('PLANE HEADING DEGREES TRUE', 'degrees', 90);
+    env.setLatLongAltPBH('STRUCT LATLONALTPBH', { pitch: -5, bank: 10 });
+
+    expect(globalObj.simvar.getValue_LatLongAltPBH('STRUCT LATLONALTPBH', '')).toEqual({
+      lat: 0, long: 0, alt: 0, pitch: -5, bank: 10, heading: 90,
+    });
+    expect(env.getSimVar('PLANE BANK DEGREES', 'degrees')).toBe(10);
+  });
+
+  test('other structs are stored and merged member by member', () => {
+    simVarMock.setPID('L:MY_PID', { p: 1, i: 0.5 });
+    simVarMock.setPID('L:MY_PID', { d: 0.1 });
+    simVarMock.setXYZ('L:MY_VECTOR', { x: 1, y: 2, z: 3 });
+
+    expect(globalObj.simvar.getValue_PID_STRUCT('L:MY_PID', '')).toEqual({ p: 1, i: 0.5, d: 0.1 });
+    expect(globalObj.simvar.getValue_XYZ('L:MY_VECTOR', '')).toEqual({ x: 1, y: 2, z: 3 });
+    expect(globalObj.simvar.getValue_PBH('L:UNSET', '')).toEqual({ pitch: 0, bank: 0, heading: 0 });
+  });
+
+  test('SimVar.GetSimVarValue returns structs for struct units', () => {
+    env.setLatLongAlt('STRUCT LATLONALT', { lat: 1, long: 2, alt: 3 });
+
+    expect(globalObj.SimVar.GetSimVarValue('STRUCT LATLONALT', 'latlonalt')).toEqual({ lat: 1, long: 2, alt: 3 });
+  });
+});
@@ -0,0 +1,72 @@
+import '../src/setupTests';
+import { SimVarValueType, TestEnvironment, convertSimVarUnit, simVarMock } from '../src';
+
+describe('SimVarMock unit conversion', () => {
+  let env: TestEnvironment;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup();
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('reads a value set in feet back in meters and aliases', () => {
+    env.setSimVar('PLANE ALTITUDE', 'feet', 1000);
+
+    expect(env.getSimVar('PLANE ALTITUDE', 'meters')).toBeCloseTo(304.8);
+    expect(env.getSimVar('PLANE ALTITUDE', 'ft')).toBe(1000);
+    expect(env.getSimVar('PLANE ALTITUDE', 'Foot')).toBe(1000);
+  });
+
+  test('converts speeds, pressures and temperatures', () => {
+    env.setSimVar('AIRSPEED INDICATED', 'knots', 100);
+    env.setSimVar('KOHLSMAN SETTING HG:1', 'inHg', 29.92);
+    env.setSimVar('AMBIENT TEMPERATURE', 'celsius', 15);
+
+    expect(env.getSimVar('AIRSPEED INDICATED', 'kph')).toBeCloseTo(185.2);
+    expect(env.getSimVar('AIRSPEED INDICATED', 'meters per second')).toBeCloseTo(51.444, 3);
+    expect(env.getSimVar('KOHLSMAN SETTING HG:1', 'millibars')).toBeCloseTo(1013.2, 1);
+    expect(env.getSimVar('AMBIENT TEMPERATURE', 'fahrenheit')).toBeCloseTo(59);
+    expect(env.getSimVar('AMBIENT TEMPERATURE', 'kelvin')).toBeCloseTo(288.15);
+  });
+
+  test('converts between percent, percent over 100 and bool', () => {
+    env.setSimVar('GENERAL ENG THROTTLE LEVER POSITION:1', 'percent', 75);
+
+    expect(env.getSimVar('GENERAL ENG THROTTLE LEVER POSITION:1', 'percent over 100')).toBeCloseTo(0.75);
+    expect(env.getSimVar('GENERAL ENG THROTTLE LEVER POSITION:1', 'bool')).toBe(1);
+  });
+
+  test('reads pressures with the SDK SimVarValueType units', () => {
+    env.setSimVar('DYNAMIC PRESSURE', 'psf', 100);
+
+    expect(env.getSimVar('DYNAMIC PRESSURE', SimVarValueType.PoundsPerSquareFoot)).toBe(100);
+    expect(env.getSimVar('DYNAMIC PRESSURE', SimVarValueType.PSI)).toBeCloseTo(100 / 144);
+    expect(env.getSimVar('DYNAMIC PRESSURE', 'pascals')).toBeCloseTo(4788.0259);
+  });
+
+  test('hasSimVar() only finds SimVars readable in the unit', () => {
+    env.setSimVar('PLANE ALTITUDE', 'feet', 1000);
+
+    expect(simVarMock.hasSimVar('PLANE ALTITUDE', 'meters')).toBe(true);
+    expect(simVarMock.hasSimVar('PLANE ALTITUDE', 'number')).toBe(true);
+    expect(simVarMock.hasSimVar('PLANE ALTITUDE', 'knots')).toBe(false);
+    expect(simVarMock.hasSimVar('L:NEVER_SET', 'number')).toBe(false);
+  });
+
+  test('registered ids read in their registered unit', () => {
+    const id = simVarMock.getRegisteredId('PLANE HEADING DEGREES TRUE', 'radians');
+    env.setSimVar('PLANE HEADING DEGREES TRUE', 'degrees', 180);
+
+    expect(simVarMock.getValueReg(id)).toBeCloseTo(Math.PI);
+  });
+
+  test('leaves generic units and incompatible families unconverted', () => {
+    expect(convertSimVarUnit(5, 'number', 'feet')).toBe(5);
+    expect(convertSimVarUnit(5, 'feet', 'knots')).toBe(5);
+    expect(convertSimVarUnit('N12345', 'string', 'feet')).toBe('N12345');
+  });
+});
@@ -0,0 +1,51 @@
+import '../src/setupTests';
+import { TestEnvironment, SimVarSetEvent } from '../src';
+
+describe('SimVarMock watchers', () => {
+  let env: TestEnvironment;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup();
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('watch() fires with values converted to the watched unit', () => {
+    const callback = jest.fn();
+    env.watchSimVar('PLANE ALTITUDE', 'meters', callback);
+
+    env.setSimVar('PLANE ALTITUDE', 'feet', 1000);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback.mock.calls[0][0]).toBeCloseTo(304.8);
+    expect(callback.mock.calls[0][1]).toBe(0);
+    expect(callback.mock.calls[0][2]).toMatchObject({ name: 'PLANE ALTITUDE', unit: 'feet', value: 1000 });
+  });
+
+  test('watch() fires for instrument writes through SimVar and Coherent', async () => {
+    const values: number[] = [];
+    env.watchSimVar('L:MY_VAR', 'number', value => values.push(value));
+
+    const globalObj = globalThis as any;
+    await globalObj.SimVar.SetSimVarValue('L:MY_VAR', 'number', 1);
+    const id = globalObj.SimVar.GetRegisteredId('L:MY_VAR', 'number', '');
+    await globalObj.Coherent.call('setValueReg_Number', id, 2);
+
+    expect(values).toEqual([1, 2]);
+  });
+
+  test('onAnySet() sees every write until destroyed', () => {
+    const events: SimVarSetEvent[] = [];
+    const handle = env.onAnySimVarSet(event => events.push(event));
+
+    env.setSimVar('L:A', 'number', 1);
+    env.setSimVar('L:B', 'bool', true);
+    handle.destroy();
+    env.setSimVar('L:C', 'number', 3);
+
+    expect(events.map(e => [e.name, e.value])).toEqual([['L:A', 1], ['L:B', 1]]);
+  });
+});
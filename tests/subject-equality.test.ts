@@ -0,0 +1,136 @@
+import '../src/setupTests';
+import { Subject, SubscribableUtils } from '../src';
+
+describe('Subject equality', () => {
+  test('set() notifies only changes', () => {
+    const altitude = Subject.create(5000);
+    const handler = jest.fn();
+    altitude.sub(handler);
+
+    altitude.set(5000);
+    altitude.set(5100);
+    altitude.set(5100);
+
+    expect(handler.mock.calls).toEqual([[5100]]);
+  });
+
+  test('can still be constructed with new', () => {
+    const heading = new Subject(90);
+    const handler = jest.fn();
+    heading.sub(handler);
+
+    heading.set(90);
+    heading.set(180);
+
+    expect(heading.get()).toBe(180);
+    expect(handler.mock.calls).toEqual([[180]]);
+  });
+
+  test('uses custom equality and mutators', () => {
+    const nan = Subject.create(NaN, SubscribableUtils.NUMERIC_NAN_EQUALITY);
+    const nanHandler = jest.fn();
+    nan.sub(nanHandler);
+    nan.set(NaN);
+    expect(nanHandler).not.toHaveBeenCalled();
+
+    const position = { lat: 47.4, lon: 8.5 };
+    const subject = Subject.create(
+      position,
+      (a, b) => a.lat === b.lat && a.lon === b.lon,
+      (oldVal, newVal) => Object.assign(oldVal, newVal)
+    );
+    const handler = jest.fn();
+    subject.sub(handler);
+    subject.set({ lat: 47.4, lon: 8.5 });
+    subject.set({ lat: 47.5, lon: 8.5 });
+
+    expect(subject.get()).toBe(position);
+    expect(position.lat).toBe(47.5);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('notify() and apply() for values mutated in place', () => {
+    const state = Subject.create({ page: 'map', range: 10 });
+    const handler = jest.fn();
+    state.sub(handler);
+
+    state.get().range = 20;
+    state.notify();
+    state.apply({ range: 20 });
+    state.apply({ page: 'fpl' });
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(state.get()).toEqual({ page: 'fpl', range: 20 });
+  });
+
+  test('map() notifies only when the mapped value changes', () => {
+    const altitude = Subject.create(1020);
+    const element = document.createElement('span');
+    let writes = 0;
+    altitude.map(alt => Math.round(alt / 100) * 100, (a, b) => a === b).sub(alt => {
+      writes++;
+      element.textContent = `${alt}`;
+    }, true);
+
+    altitude.set(1040);
+    altitude.set(980);
+    altitude.set(1080);
+
+    expect(element.textContent).toBe('1100');
+    expect(writes).toBe(2);
+  });
+});
+
+describe('Subscriptions', () => {
+  test('pause, resume with an initial notification and destroy', () => {
+    const heading = Subject.create(90);
+    const values: number[] = [];
+    const sub = heading.sub(value => values.push(value), true);
+    expect(sub.isAlive).toBe(true);
+
+    sub.pause();
+    heading.set(180);
+    expect(sub.isPaused).toBe(true);
+    sub.resume();
+    heading.set(270);
+    sub.pause();
+    heading.set(360);
+    sub.resume(true);
+
+    sub.destroy();
+    heading.set(90);
+
+    expect(values).toEqual([90, 270, 360]);
+    expect(sub.isAlive).toBe(false);
+    expect(() => sub.resume()).toThrow('Subscription: cannot resume a dead Subscription.');
+  });
+
+  test('can start paused', () => {
+    const subject = Subject.create('a');
+    const handler = jest.fn();
+    const sub = subject.sub(handler, true, true);
+    subject.set('b');
+    expect(handler).not.toHaveBeenCalled();
+
+    sub.resume(true);
+    expect(handler).toHaveBeenCalledWith('b');
+  });
+
+  test('mapped subscribables pause and resume their input', () => {
+    const speed = Subject.create(100);
+    const mapped = speed.map(kts => kts * 2);
+    const handler = jest.fn();
+    mapped.sub(handler);
+
+    mapped.pause();
+    speed.set(150);
+    expect(mapped.get()).toBe(200);
+    mapped.resume();
+    expect(mapped.get()).toBe(300);
+
+    mapped.destroy();
+    speed.set(200);
+    expect(handler.mock.calls).toEqual([[300]]);
+    expect(mapped.isAlive).toBe(false);
+  });
+});
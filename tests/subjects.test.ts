@@ -0,0 +1,270 @@
+import '../src/setupTests';
+import {
+  ArraySubject,
+  ComputedSubject,
+  ConsumerSubject,
+  DebounceSubject,
+  EventBus,
+  MappedSubject,
+  ObjectSubject,
+  SetSubject,
+  Subject,
+  SubscribableArrayEventType,
+  SubscribableMapFunctions,
+  SubscribableSetEventType,
+  TestEnvironment,
+} from '../src';
+
+describe('MappedSubject', () => {
+  test('maps its inputs and notifies only changes', () => {
+    const speed = Subject.create(120);
+    const overspeed = Subject.create(false);
+    const color = MappedSubject.create(([kts, over]) => over || kts > 250 ? 'red' : 'white', speed, overspeed);
+    const colors: string[] = [];
+    color.sub(value => colors.push(value), true);
+
+    speed.set(130);
+    speed.set(260);
+    overspeed.set(true);
+    speed.set(100);
+    overspeed.set(false);
+
+    expect(colors).toEqual(['white', 'red', 'white']);
+  });
+
+  test('pauses, resumes with the current inputs and destroys', () => {
+    const a = Subject.create(1);
+    const b = Subject.create(2);
+    const sum = MappedSubject.create(SubscribableMapFunctions.sum(), a, b);
+    const sums: number[] = [];
+    sum.sub(value => sums.push(value));
+
+    sum.pause();
+    a.set(10);
+    expect(sum.get()).toBe(3);
+    sum.resume();
+    expect(sums).toEqual([12]);
+
+    sum.destroy();
+    b.set(5);
+    expect(sum.get()).toBe(12);
+    expect(sum.isAlive).toBe(false);
+    expect(() => sum.resume()).toThrow('MappedSubject: cannot resume a dead subject');
+  });
+
+  test('supports identity, custom equality and mutators', () => {
+    const lat = Subject.create(47.4);
+    const lon = Subject.create(8.5);
+    const identity = MappedSubject.create(lat, lon);
+    expect(identity.get()).toEqual([47.4, 8.5]);
+
+    const position = { lat: 0, lon: 0 };
+    const mutated = MappedSubject.create(
+      ([la, lo]): { lat: number; lon: number } => ({ lat: la, lon: lo }),
+      (x, y) => x.lat === y.lat && x.lon === y.lon,
+      (oldVal, newVal) => Object.assign(oldVal, newVal),
+      position,
+      lat,
+      lon
+    );
+    const handler = jest.fn();
+    mutated.sub(handler);
+    lat.set(47.4);
+    lat.set(47.5);
+
+    expect(mutated.get()).toBe(position);
+    expect(position).toEqual({ lat: 47.5, lon: 8.5 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Subscriptions of the subject family', () => {
+  test('can be paused and resumed with an initial notification', () => {
+    const heading = ComputedSubject.create<number, string>(0, deg => `${Math.round(deg).toString().padStart(3, '0')}°`);
+    const labels: string[] = [];
+    const sub = heading.sub(label => labels.push(label), true);
+
+    heading.set(7.4);
+    heading.set(7.2);
+    sub.pause();
+    heading.set(90);
+    sub.resume(true);
+    sub.destroy();
+    heading.set(180);
+
+    expect(labels).toEqual(['000°', '007°', '090°']);
+    expect(heading.getRaw()).toBe(180);
+  });
+
+  test('map() and pipe() follow the SDK equality semantics', () => {
+    const altitude = ComputedSubject.create<number, number>(0, ft => ft);
+    const rounded = altitude.map(SubscribableMapFunctions.withPrecision(100));
+    const target = Subject.create(0);
+    altitude.pipe(target, ft => ft * 0.3048);
+
+    const values: number[] = [];
+    rounded.sub(value => values.push(value));
+    altitude.set(1020);
+    altitude.set(1040);
+    altitude.set(1080);
+
+    expect(values).toEqual([1000, 1100]);
+    expect(target.get()).toBeCloseTo(329.18, 2);
+  });
+
+  test('keep notifying when a handler throws', () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const subject = ComputedSubject.create<number, number>(0, value => value);
+    const handler = jest.fn();
+    subject.sub(() => {
+      throw new Error('boom');
+    });
+    subject.sub(handler);
+
+    subject.set(1);
+    expect(handler).toHaveBeenCalledWith(1);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('error in handler: Error: boom'));
+    errorSpy.mockRestore();
+  });
+});
+
+describe('ArraySubject', () => {
+  test('notifies insertions, removals and clears', () => {
+    const waypoints = ArraySubject.create(['KJFK']);
+    const events: unknown[][] = [];
+    waypoints.sub((index, type, item) => events.push([index, type, item]), true);
+
+    waypoints.insert('KBOS');
+    waypoints.insert('KPVD', 1);
+    waypoints.insertRange(0, ['KLGA', 'KEWR']);
+    waypoints.removeItem('KPVD');
+    expect(waypoints.removeItem('KORD')).toBe(false);
+    waypoints.removeAt(0);
+
+    expect(waypoints.getArray()).toEqual(['KEWR', 'KJFK', 'KBOS']);
+    waypoints.set(['KSFO']);
+
+    expect(events).toEqual([
+      [0, SubscribableArrayEventType.Added, ['KSFO']],
+      [1, SubscribableArrayEventType.Added, 'KBOS'],
+      [1, SubscribableArrayEventType.Added, 'KPVD'],
+      [0, SubscribableArrayEventType.Added, ['KLGA', 'KEWR']],
+      [3, SubscribableArrayEventType.Removed, 'KPVD'],
+      [0, SubscribableArrayEventType.Removed, 'KLGA'],
+      [0, SubscribableArrayEventType.Cleared, undefined],
+      [0, SubscribableArrayEventType.Added, ['KSFO']],
+    ]);
+    expect(waypoints.get(0)).toBe('KSFO');
+    expect(() => waypoints.get(1)).toThrow('Index out of range');
+    expect(waypoints.tryGet(1)).toBeUndefined();
+  });
+});
+
+describe('SetSubject', () => {
+  test('notifies added and deleted keys', () => {
+    const alerts = SetSubject.create(['LOW FUEL']);
+    const events: string[] = [];
+    alerts.sub((set, type, key) => events.push(`${type} ${key}`), true);
+
+    alerts.add('LOW FUEL');
+    alerts.add('OIL PRESS');
+    alerts.toggle('LOW FUEL');
+    alerts.toggle('OIL PRESS', true);
+    alerts.set(['OIL PRESS', 'STALL']);
+    alerts.clear();
+
+    expect(events).toEqual([
+      `${SubscribableSetEventType.Added} LOW FUEL`,
+      'Added OIL PRESS',
+      'Deleted LOW FUEL',
+      'Added STALL',
+      'Deleted OIL PRESS',
+      'Deleted STALL',
+    ]);
+    expect(alerts.size).toBe(0);
+
+    const count = alerts.map(set => set.size);
+    alerts.add('STALL');
+    expect(count.get()).toBe(1);
+  });
+});
+
+describe('ObjectSubject', () => {
+  test('notifies each changed property', () => {
+    const radio = ObjectSubject.create({ active: 118.5, standby: 121.5 });
+    const events: unknown[][] = [];
+    radio.sub((obj, key, newValue, oldValue) => events.push([key, newValue, oldValue]));
+
+    radio.set('active', 118.5);
+    radio.set('active', 119.1);
+    radio.set({ active: 121.5, standby: 119.1 });
+
+    expect(events).toEqual([
+      ['active', 119.1, 118.5],
+      ['active', 121.5, 119.1],
+      ['standby', 119.1, 121.5],
+    ]);
+    expect(radio.get()).toEqual({ active: 121.5, standby: 119.1 });
+  });
+});
+
+describe('ConsumerSubject', () => {
+  test('follows a bus consumer, with pause, resume and reset', () => {
+    const bus = new EventBus();
+    const subscriber = bus.getSubscriber<{ alt: number; alt_2: number }>();
+    const altitude = ConsumerSubject.create(subscriber.on('alt').withPrecision(-1), 0);
+    const values: number[] = [];
+    altitude.sub(value => values.push(value));
+
+    bus.pub('alt', 1004);
+    bus.pub('alt', 1001);
+    altitude.pause();
+    bus.pub('alt', 2000);
+    expect(altitude.get()).toBe(1000);
+    altitude.resume();
+    expect(altitude.get()).toBe(2000);
+
+    altitude.setConsumerWithDefault(subscriber.on('alt_2'), -1);
+    expect(altitude.get()).toBe(-1);
+    bus.pub('alt_2', 500);
+    altitude.reset(0);
+    bus.pub('alt_2', 600);
+
+    expect(values).toEqual([1000, 2000, -1, 500, 0]);
+  });
+});
+
+describe('DebounceSubject', () => {
+  let env: TestEnvironment;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup({ virtualTime: true });
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('applies the last value once it stayed for the delay', () => {
+    const search = DebounceSubject.create('', 500);
+    const values: string[] = [];
+    search.sub(value => values.push(value));
+
+    search.set('K');
+    env.advance(300);
+    search.set('KJF');
+    env.advance(300);
+    expect(search.get()).toBe('');
+    expect(search.isPending()).toBe(true);
+    env.advance(200);
+    expect(values).toEqual(['KJF']);
+
+    search.set('KBOS');
+    search.flush();
+    search.set('KLAX');
+    search.cancel();
+    env.advance(1000);
+    expect(values).toEqual(['KJF', 'KBOS']);
+  });
+});
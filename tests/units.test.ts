@@ -0,0 +1,98 @@
+import '../src/setupTests';
+import { NumberFormatter, NumberUnitSubject, Rounding, Subject, UnitFamily, UnitType } from '../src';
+
+describe('UnitType', () => {
+  test('converts within each family', () => {
+    expect(UnitType.NMILE.convertTo(10, UnitType.KILOMETER)).toBeCloseTo(18.52, 10);
+    expect(UnitType.FOOT.convertTo(35000, UnitType.METER)).toBeCloseTo(10668, 6);
+    expect(UnitType.KNOT.convertTo(250, UnitType.MPH)).toBeCloseTo(287.7, 1);
+    expect(UnitType.FPM.convertTo(1000, UnitType.MPS)).toBeCloseTo(5.08, 6);
+    expect(UnitType.IN_HG.convertTo(29.92, UnitType.HPA)).toBeCloseTo(1013.2, 1);
+    expect(UnitType.CELSIUS.convertTo(15, UnitType.FAHRENHEIT)).toBeCloseTo(59, 10);
+    expect(UnitType.FAHRENHEIT.convertTo(-40, UnitType.CELSIUS)).toBeCloseTo(-40, 10);
+    expect(UnitType.DEGREE.convertTo(180, UnitType.RADIAN)).toBeCloseTo(Math.PI, 12);
+    expect(UnitType.HOUR.convertTo(1.5, UnitType.MINUTE)).toBe(90);
+    expect(UnitType.GALLON_FUEL.convertTo(10, UnitType.POUND)).toBeCloseTo(67, 10);
+    expect(UnitType.GPH_100LL_FUEL.convertTo(10, UnitType.PPH)).toBeCloseTo(60, 10);
+    expect(UnitType.KPH.name).toBe('kilometer per hour');
+    expect(UnitType.KNOT.family).toBe(UnitFamily.Speed);
+  });
+
+  test('refuses conversions across families', () => {
+    expect(UnitType.NMILE.canConvert(UnitType.KNOT)).toBe(false);
+    expect(() => UnitType.FOOT.convertTo(1, UnitType.SECOND as any)).toThrow('Invalid conversion from foot to second.');
+  });
+});
+
+describe('NumberUnit', () => {
+  test('converts and does arithmetic across units', () => {
+    const range = UnitType.NMILE.createNumber(10);
+    expect(range.asUnit(UnitType.KILOMETER)).toBeCloseTo(18.52, 10);
+
+    range.add(1852, UnitType.METER);
+    expect(range.number).toBeCloseTo(11, 12);
+    range.subtract(UnitType.KILOMETER.createNumber(1.852));
+    expect(range.number).toBeCloseTo(10, 12);
+
+    const out = UnitType.KILOMETER.createNumber(0);
+    range.readonly.add(5, UnitType.NMILE, out);
+    expect(out.number).toBeCloseTo(27.78, 10);
+    expect(range.number).toBeCloseTo(10, 12);
+
+    expect(range.copy().scale(2).number).toBeCloseTo(20, 12);
+    expect(range.ratio(UnitType.NMILE.createNumber(4))).toBeCloseTo(2.5, 12);
+    expect(() => range.add(1, UnitType.HOUR as any)).toThrow('Invalid unit conversion attempted.');
+  });
+
+  test('compares and checks equality across units', () => {
+    const flightTime = UnitType.MINUTE.createNumber(90);
+    expect(flightTime.compare(1.5, UnitType.HOUR)).toBe(0);
+    expect(flightTime.compare(UnitType.SECOND.createNumber(6000))).toBe(-1);
+    expect(flightTime.compare(60)).toBe(1);
+    expect(flightTime.equals(UnitType.SECOND.createNumber(5400))).toBe(true);
+    expect(flightTime.equals(90, UnitType.FOOT)).toBe(false);
+    expect(UnitType.FOOT.createNumber(NaN).equals(NaN)).toBe(true);
+  });
+});
+
+describe('NumberUnitSubject', () => {
+  test('notifies only when the number changes', () => {
+    const range = NumberUnitSubject.create(UnitType.NMILE.createNumber(10));
+    const ranges: number[] = [];
+    range.sub(value => ranges.push(value.number));
+
+    range.set(18.52, UnitType.KILOMETER);
+    range.set(20);
+    range.set(UnitType.NMILE.createNumber(20));
+
+    expect(ranges).toEqual([20]);
+
+    const unit = Subject.create(UnitType.NMILE);
+    const display = range.asUnit(unit);
+    unit.set(UnitType.KILOMETER);
+    expect(display.get()).toBeCloseTo(37.04, 10);
+  });
+});
+
+describe('NumberFormatter', () => {
+  test('formats with precision, padding, commas and signs', () => {
+    expect(NumberFormatter.create({ precision: 20, showCommas: true })(12345)).toBe('12,340');
+    expect(NumberFormatter.create({ precision: 0.01 })(29.9)).toBe('29.90');
+    expect(NumberFormatter.create({ precision: 0.1, forceDecimalZeroes: false })(4.0)).toBe('4');
+    expect(NumberFormatter.create({ pad: 3 })(7)).toBe('007');
+    expect(NumberFormatter.create({ precision: 0.01, pad: 0 })(0.5)).toBe('.50');
+    expect(NumberFormatter.create({ forceSign: true })(500)).toBe('+500');
+    expect(NumberFormatter.create({ useMinusSign: true })(-500)).toBe('−500');
+    expect(NumberFormatter.create({ precision: 1, round: Rounding.Down })(9.9)).toBe('9');
+    expect(NumberFormatter.create({ precision: 0.001, maxDigits: 3 })(12.3456)).toBe('12.3');
+    expect(NumberFormatter.create({ nanString: '___' })(NaN)).toBe('___');
+  });
+
+  test('keeps the previous output within the hysteresis', () => {
+    const format = NumberFormatter.create({ precision: 10, hysteresis: 2 });
+    expect(format(100)).toBe('100');
+    expect(format(106)).toBe('100');
+    expect(format(108)).toBe('110');
+    expect(format(104)).toBe('110');
+  });
+});
@@ -0,0 +1,129 @@
+import '../src/setupTests';
+import { ComponentTestHelper, ObservableTestHelper, Subject, TestEnvironment, VirtualClock } from '../src';
+
+describe('Virtual time', () => {
+  const globalObj = globalThis as any;
+  const start = Date.UTC(2024, 5, 1, 12, 0, 0);
+  let env: TestEnvironment;
+
+  beforeEach(() => {
+    env = new TestEnvironment();
+    env.setup();
+    env.clock.setTime(start);
+    env.useVirtualTime();
+  });
+
+  afterEach(() => {
+    env.teardown();
+  });
+
+  test('drives timers, Date and performance.now', () => {
+    const calls: string[] = [];
+    setTimeout(() => calls.push(`timeout@${Date.now() - start}`), 250);
+    const interval = setInterval(() => calls.push(`interval@${performance.now()}`), 400);
+    const cancelled = setTimeout(() => calls.push('cancelled'), 100);
+    clearTimeout(cancelled);
+
+    env.advance(1000, 100);
+    clearInterval(interval);
+    env.advance(1000);
+
+    expect(calls).toEqual(['timeout@250', 'interval@400', 'interval@800']);
+    expect(new Date().getTime()).toBe(start + 2000);
+    expect(Date.now()).toBe(start + 2000);
+    expect(new Date(0).getTime()).toBe(0);
+    expect(new Date() instanceof Date).toBe(true);
+    expect(env.clock.getPendingTimerCount()).toBe(0);
+  });
+
+  test('runs animation frames once per frame', () => {
+    const timestamps: number[] = [];
+    const loop = (timestamp: number): void => {
+      timestamps.push(timestamp);
+      requestAnimationFrame(loop);
+    };
+    requestAnimationFrame(loop);
+
+    env.advance(100, 25);
+    expect(timestamps).toEqual([25, 50, 75, 100]);
+  });
+
+  test('drives Avionics and E: time variables', () => {
+    env.advance(90_000, 1000);
+
+    expect(globalObj.Avionics.getCurrentGpsTime()).toBe(start + 90_000);
+    expect(globalObj.Avionics.getCurrentUtcTime()).toBe(start + 90_000);
+    expect(globalObj.SimVar.GetSimVarValue('E:SIMULATION TIME', 'seconds')).toBe(90);
+    expect(globalObj.SimVar.GetSimVarValue('E:ZULU TIME', 'seconds')).toBe(12 * 3600 + 90);
+    expect(globalObj.SimVar.GetSimVarValue('E:ABSOLUTE TIME', 'seconds')).toBe(start / 1000 + 62135596800 + 90);
+  });
+
+  test('sim rate and pause affect sim time but not real time', () => {
+    env.simvars.ramp('AIRSPEED INDICATED', 'knots', 0, 100, { over: 10_000 });
+
+    env.setSimRate(4);
+    expect(env.getSimVar('SIMULATION RATE', 'number')).toBe(4);
+    env.advance(1000, 100);
+    expect(env.getSimVar('AIRSPEED INDICATED', 'knots')).toBe(40);
+    expect(env.getSimVar('E:SIMULATION TIME', 'seconds')).toBe(4);
+
+    env.pause();
+    env.advance(1000, 100);
+    expect(env.clock.isPaused()).toBe(true);
+    expect(env.getSimVar('AIRSPEED INDICATED', 'knots')).toBe(40);
+    expect(env.getSimVar('E:SIMULATION TIME', 'seconds')).toBe(4);
+    expect(Date.now()).toBe(start + 2000);
+
+    env.resume();
+    env.advance(500, 100);
+    expect(env.getSimVar('AIRSPEED INDICATED', 'knots')).toBe(60);
+  });
+
+  test('stamps logs with virtual time', () => {
+    env.advance(5000);
+    env.setSimVar('L:VALUE', 'number', 1);
+    env.getSimVar('L:VALUE', 'number');
+    env.triggerKeyEvent('AP_MASTER');
+
+    expect(env.getSimVarAccessLog().slice(-1)[0].timestamp).toBe(start + 5000);
+    expect(env.getKeyEventHistory('AP_MASTER')[0].timestamp).toBe(start + 5000);
+  });
+
+  test('helpers advance the clock instead of waiting', async () => {
+    const helper = new ComponentTestHelper(env);
+    const fired = jest.fn();
+    setTimeout(fired, 50);
+    await helper.waitForUpdate(100);
+    expect(fired).toHaveBeenCalled();
+
+    const subject = Subject.create(0);
+    const values: number[] = [];
+    subject.sub(value => values.push(value));
+    await ObservableTestHelper.simulateUpdates(subject, [1, 2], 50, env.clock);
+    expect(values).toEqual([1, 2]);
+    expect(Date.now()).toBe(start + 200);
+  });
+
+  test('teardown restores real time', () => {
+    const realSetTimeout = globalObj.setTimeout;
+    const other = new TestEnvironment();
+    other.setup({ virtualTime: true });
+    expect(globalObj.setTimeout).not.toBe(realSetTimeout);
+
+    other.teardown();
+    expect(globalObj.setTimeout).toBe(realSetTimeout);
+  });
+});
+
+describe('VirtualClock', () => {
+  test('rejects invalid sim rates and runaway timers', () => {
+    const clock = new VirtualClock(0);
+    expect(() => clock.setSimRate(0)).toThrow('Sim rate must be positive, got 0');
+
+    const again = (): void => {
+      clock.setTimeout(again, 0);
+    };
+    clock.setTimeout(again, 0);
+    expect(() => clock.advance(10)).toThrow('timers in one frame');
+  });
+});